@@ -0,0 +1,77 @@
+/**
+ * Client Identification Tests
+ * Tests for rejecting bad credentials and anonymous access to tenant data
+ */
+
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { identifyClient, isOpenPath } from '../../middleware/auth.middleware';
+
+// Create test app
+const app = express();
+app.use('/api/', identifyClient);
+app.get('/api/iot/readings', (_req, res) => {
+  res.json({ success: true });
+});
+
+describe('Client Identification', () => {
+  describe('isOpenPath', () => {
+    it('should allow sign-in, health checks and weather codes', () => {
+      expect(isOpenPath('/auth/login')).toBe(true);
+      expect(isOpenPath('/auth/refresh')).toBe(true);
+      expect(isOpenPath('/health/live')).toBe(true);
+      expect(isOpenPath('/weather/code/3')).toBe(true);
+    });
+
+    it('should not open tenant data', () => {
+      expect(isOpenPath('/iot/readings')).toBe(false);
+      expect(isOpenPath('/iot/export')).toBe(false);
+      expect(isOpenPath('/auth/me')).toBe(false);
+      expect(isOpenPath('/weather/current')).toBe(false);
+      expect(isOpenPath('/healthy')).toBe(false);
+    });
+  });
+
+  describe('identifyClient', () => {
+    it('should require credentials for tenant data', async () => {
+      const response = await request(app)
+        .get('/api/iot/readings')
+        .expect(401);
+
+      expect(response.body).toEqual({ success: false, error: 'Authentication required' });
+    });
+
+    it('should reject an invalid API key', async () => {
+      const response = await request(app)
+        .get('/api/iot/readings')
+        .set('X-API-Key', 'not-a-key')
+        .expect(401);
+
+      expect(response.body.error).toBe('Invalid API key');
+    });
+
+    it('should reject a malformed access token', async () => {
+      const response = await request(app)
+        .get('/api/iot/readings')
+        .set('Authorization', 'Bearer not-a-token')
+        .expect(401);
+
+      expect(response.body.error).toBe('Invalid token');
+    });
+
+    it('should reject an expired access token', async () => {
+      const token = jwt.sign(
+        { userId: 'u1', sessionId: 's1', exp: Math.floor(Date.now() / 1000) - 60 },
+        process.env.JWT_SECRET as string
+      );
+
+      const response = await request(app)
+        .get('/api/iot/readings')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(401);
+
+      expect(response.body.error).toBe('Token expired');
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Aggregation Service Tests
+ * Tests for time-bucketed reading aggregation pipelines
+ */
+
+import {
+  buildAggregationPipeline,
+  countBuckets,
+  mergeBuckets
+} from '../../services/aggregation.service';
+
+describe('Aggregation Service', () => {
+  const from = new Date('2026-02-01T00:00:00Z');
+  const to = new Date('2026-02-02T00:00:00Z');
+
+  describe('buildAggregationPipeline', () => {
+    it('should match numeric values of the field within the time range', () => {
+      const pipeline = buildAggregationPipeline({
+        sensorId: 'SENSOR-PRETORIA-001',
+        field: 'pressure',
+        interval: '1h',
+        from,
+        to,
+        fns: ['avg']
+      });
+
+      expect(pipeline[0]).toEqual({
+        $match: {
+          sensorId: 'SENSOR-PRETORIA-001',
+          timestamp: { $gte: from, $lt: to },
+          'data.pressure': { $type: 'number' }
+        }
+      });
+    });
+
+    it('should bucket by the requested interval with only the requested functions', () => {
+      const pipeline = buildAggregationPipeline({
+        sensorId: 'SENSOR-PRETORIA-001',
+        field: 'temperature',
+        interval: '5m',
+        from,
+        to,
+        fns: ['max', 'count', 'p95']
+      });
+
+      const group = (pipeline[1] as { $group: Record<string, unknown> }).$group;
+      expect(group._id).toEqual({
+        $dateTrunc: { date: '$timestamp', unit: 'minute', binSize: 5 }
+      });
+      expect(Object.keys(group).sort()).toEqual(['_id', 'count', 'max', 'p95']);
+
+      const project = (pipeline[3] as { $project: Record<string, unknown> }).$project;
+      expect(project.p95).toEqual({ $arrayElemAt: ['$p95', 0] });
+    });
+  });
+
+  describe('countBuckets', () => {
+    it('should count buckets covering the range', () => {
+      expect(countBuckets(from, to, '1h')).toBe(24);
+      expect(countBuckets(from, to, '1m')).toBe(1440);
+      expect(countBuckets(from, to, '1d')).toBe(1);
+    });
+  });
+
+  describe('mergeBuckets', () => {
+    it('should combine buckets sharing a timestamp with a count-weighted average', () => {
+      const t1 = new Date('2026-02-01T12:00:00Z');
+      const t2 = new Date('2026-02-01T12:05:00Z');
+
+      const merged = mergeBuckets(
+        [{ timestamp: t1, avg: 10, min: 8, max: 12, count: 3 }],
+        [
+          { timestamp: t1, avg: 20, min: 18, max: 25, count: 1 },
+          { timestamp: t2, avg: 21, min: 21, max: 21, count: 1 }
+        ],
+        ['avg', 'min', 'max']
+      );
+
+      expect(merged).toEqual([
+        { timestamp: t1, avg: 12.5, min: 8, max: 25 },
+        { timestamp: t2, avg: 21, min: 21, max: 21 }
+      ]);
+    });
+  });
+});
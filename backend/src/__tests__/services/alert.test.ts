@@ -0,0 +1,112 @@
+/**
+ * Alert Service Tests
+ * Tests for alert rule condition evaluation and reading ordering
+ */
+
+import {
+  isConditionMet,
+  getThresholdRules,
+  evaluateReading,
+  resetAlertState,
+  THRESHOLD_FIELDS
+} from '../../services/alert.service';
+import { Alert, AlertRule, ISensor } from '../../models';
+
+describe('Alert Service', () => {
+  describe('isConditionMet', () => {
+    const now = new Date('2026-02-01T12:00:00Z');
+
+    it('should detect values above the threshold', () => {
+      const rule = { condition: 'above' as const, threshold: 30 };
+
+      expect(isConditionMet(rule, 31, now)).toBe(true);
+      expect(isConditionMet(rule, 30, now)).toBe(false);
+      expect(isConditionMet(rule, 25, now)).toBe(false);
+    });
+
+    it('should detect values below the threshold', () => {
+      const rule = { condition: 'below' as const, threshold: 10 };
+
+      expect(isConditionMet(rule, 9.5, now)).toBe(true);
+      expect(isConditionMet(rule, 10, now)).toBe(false);
+    });
+
+    it('should measure rate of change per minute against the previous sample', () => {
+      const rule = { condition: 'rate_of_change' as const, threshold: 2 };
+      const previous = { value: 20, timestamp: new Date('2026-02-01T11:59:00Z') };
+
+      expect(isConditionMet(rule, 23, now, previous)).toBe(true);
+      expect(isConditionMet(rule, 17, now, previous)).toBe(true);
+      expect(isConditionMet(rule, 21, now, previous)).toBe(false);
+    });
+
+    it('should not trigger rate of change without a usable previous sample', () => {
+      const rule = { condition: 'rate_of_change' as const, threshold: 2 };
+
+      expect(isConditionMet(rule, 100, now)).toBe(false);
+      expect(isConditionMet(rule, 100, now, { value: 0, timestamp: now })).toBe(false);
+    });
+  });
+
+  describe('getThresholdRules', () => {
+    it('should build above/below rules from configured thresholds', () => {
+      const sensor = {
+        type: 'humidity',
+        configuration: { thresholds: { min: 20, max: 90 } }
+      } as unknown as ISensor;
+
+      const rules = getThresholdRules(sensor);
+
+      expect(rules).toHaveLength(2);
+      expect(rules).toEqual(expect.arrayContaining([
+        expect.objectContaining({ key: 'threshold:max', field: 'humidity', condition: 'above', threshold: 90 }),
+        expect.objectContaining({ key: 'threshold:min', field: 'humidity', condition: 'below', threshold: 20 })
+      ]));
+    });
+
+    it('should return no rules when thresholds are not configured', () => {
+      const sensor = { type: 'combined', configuration: {} } as unknown as ISensor;
+
+      expect(getThresholdRules(sensor)).toEqual([]);
+    });
+
+    it('should map wind sensors to the windspeed field', () => {
+      expect(THRESHOLD_FIELDS.wind).toBe('windspeed');
+    });
+  });
+
+  describe('evaluateReading', () => {
+    const sensor = {
+      sensorId: 'sensor-1',
+      type: 'temperature',
+      configuration: { thresholds: { max: 30 } }
+    } as unknown as ISensor;
+
+    beforeEach(() => {
+      resetAlertState();
+      jest.spyOn(AlertRule, 'find').mockResolvedValue([] as never);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should skip readings older than the newest evaluated reading', async () => {
+      const findActive = jest.spyOn(Alert, 'findOne').mockResolvedValue(null as never);
+
+      await evaluateReading('sensor-1', { temperature: 20 }, new Date('2024-01-01T12:00:00Z'), sensor);
+      await evaluateReading('sensor-1', { temperature: 21 }, new Date('2024-01-01T09:00:00Z'), sensor);
+
+      expect(findActive).toHaveBeenCalledTimes(1);
+    });
+
+    it('should evaluate readings in timestamp order', async () => {
+      const findActive = jest.spyOn(Alert, 'findOne').mockResolvedValue(null as never);
+
+      await evaluateReading('sensor-1', { temperature: 20 }, new Date('2024-01-01T09:00:00Z'), sensor);
+      await evaluateReading('sensor-1', { temperature: 21 }, new Date('2024-01-01T12:00:00Z'), sensor);
+
+      expect(findActive).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Anomaly Service Tests
+ * Tests for statistical anomaly detectors
+ */
+
+import {
+  zScoreDetector,
+  ewmaDetector,
+  iqrDetector,
+  quantile,
+  scoreReading
+} from '../../services/anomaly.service';
+
+// Stable history oscillating around 20
+const history = Array.from({ length: 50 }, (_, i) => 20 + Math.sin(i) * 0.5);
+
+describe('Anomaly Service', () => {
+  describe('quantile', () => {
+    it('should interpolate quantiles of a sorted array', () => {
+      expect(quantile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+      expect(quantile([1, 2, 3, 4], 0.25)).toBeCloseTo(1.75);
+    });
+  });
+
+  describe.each([zScoreDetector, ewmaDetector, iqrDetector])('$name detector', (detector) => {
+    it('should not flag values within the normal range', () => {
+      const result = detector.evaluate(20.1, history);
+      expect(result?.isAnomaly).toBe(false);
+    });
+
+    it('should flag values far outside the normal range', () => {
+      const result = detector.evaluate(35, history);
+      expect(result?.isAnomaly).toBe(true);
+      expect(result?.score).toBeGreaterThan(0);
+    });
+
+    it('should return null for constant history', () => {
+      expect(detector.evaluate(20, new Array(30).fill(20))).toBeNull();
+    });
+  });
+
+  describe('scoreReading', () => {
+    it('should report the flagged field and detector in the reason', () => {
+      const histories = new Map([['temperature', history]]);
+      const result = scoreReading({ temperature: 35 }, histories, [zScoreDetector]);
+
+      expect(result.isAnomaly).toBe(true);
+      expect(result.anomalyReason).toContain('temperature flagged by zscore');
+    });
+
+    it('should skip fields without enough history', () => {
+      const histories = new Map([['temperature', history.slice(0, 5)]]);
+      const result = scoreReading({ temperature: 35 }, histories, [zScoreDetector]);
+
+      expect(result.isAnomaly).toBe(false);
+    });
+
+    it('should ignore device health fields', () => {
+      const histories = new Map([['battery', history]]);
+      const result = scoreReading({ battery: 5 }, histories, [zScoreDetector]);
+
+      expect(result.isAnomaly).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * API Key Service Tests
+ * Tests for key generation, hashing and scope checks
+ */
+
+import { Types } from 'mongoose';
+import {
+  generateApiKey,
+  parseApiKeyPrefix,
+  hashApiKey,
+  apiKeyAllows
+} from '../../services/apiKey.service';
+
+describe('API Key Service', () => {
+  describe('generateApiKey / parseApiKeyPrefix', () => {
+    it('should generate distinct keys that carry their prefix', () => {
+      const first = generateApiKey();
+      const second = generateApiKey();
+
+      expect(first.key).not.toBe(second.key);
+      expect(parseApiKeyPrefix(first.key)).toBe(first.prefix);
+    });
+
+    it('should reject malformed keys', () => {
+      expect(parseApiKeyPrefix('')).toBeNull();
+      expect(parseApiKeyPrefix('iot_abc_def')).toBeNull();
+      expect(parseApiKeyPrefix(`${generateApiKey().key}x`)).toBeNull();
+    });
+  });
+
+  describe('hashApiKey', () => {
+    it('should hash deterministically without revealing the key', () => {
+      const { key } = generateApiKey();
+
+      expect(hashApiKey(key)).toBe(hashApiKey(key));
+      expect(hashApiKey(key)).toHaveLength(64);
+      expect(hashApiKey(key)).not.toContain(key);
+    });
+  });
+
+  describe('apiKeyAllows', () => {
+    const site = new Types.ObjectId();
+    const unrestricted = { scopes: ['readings:write' as const], sensorIds: [], sites: [] };
+
+    it('should require the scope', () => {
+      expect(apiKeyAllows(unrestricted, 'readings:write')).toBe(true);
+      expect(apiKeyAllows({ ...unrestricted, scopes: [] }, 'readings:write')).toBe(false);
+    });
+
+    it('should allow every sensor when not restricted', () => {
+      expect(apiKeyAllows(unrestricted, 'readings:write', { sensorId: 'WS-001', site: null })).toBe(true);
+    });
+
+    it('should allow listed sensors and sensors in listed sites', () => {
+      const restricted = { ...unrestricted, sensorIds: ['WS-001'], sites: [site] };
+
+      expect(apiKeyAllows(restricted, 'readings:write', { sensorId: 'WS-001', site: null })).toBe(true);
+      expect(apiKeyAllows(restricted, 'readings:write', { sensorId: 'WS-002', site })).toBe(true);
+      expect(apiKeyAllows(restricted, 'readings:write', { sensorId: 'WS-003', site: null })).toBe(false);
+      expect(apiKeyAllows(restricted, 'readings:write', { sensorId: 'WS-004', site: new Types.ObjectId() })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Audit Service Tests
+ * Tests for secret redaction, document diffs, action names and audit filters
+ */
+
+import { Types } from 'mongoose';
+import {
+  redact,
+  diffDocuments,
+  auditAction,
+  buildAuditFilter,
+  REDACTED
+} from '../../services/audit.service';
+
+describe('Audit Service', () => {
+  describe('redact', () => {
+    it('should replace secrets at any depth', () => {
+      expect(redact({
+        email: 'john@example.com',
+        password: 'hunter22',
+        admin: { username: 'jane', password: 'secret1' },
+        keys: [{ prefix: 'csk_ab12', keyHash: 'abc' }]
+      })).toEqual({
+        email: 'john@example.com',
+        password: REDACTED,
+        admin: { username: 'jane', password: REDACTED },
+        keys: [{ prefix: 'csk_ab12', keyHash: REDACTED }]
+      });
+    });
+
+    it('should store ids and dates as strings', () => {
+      const id = new Types.ObjectId();
+      const date = new Date('2026-03-01T10:00:00Z');
+
+      expect(redact({ _id: id, createdAt: date })).toEqual({
+        _id: id.toString(),
+        createdAt: '2026-03-01T10:00:00.000Z'
+      });
+    });
+
+    it('should leave scalars unchanged', () => {
+      expect(redact(null)).toBeNull();
+      expect(redact(undefined)).toBeUndefined();
+      expect(redact(42)).toBe(42);
+    });
+  });
+
+  describe('diffDocuments', () => {
+    it('should list changed, added and removed fields', () => {
+      expect(diffDocuments(
+        { name: 'Roof', isActive: true, description: 'Old' },
+        { name: 'Roof', isActive: false, status: 'offline' }
+      )).toEqual([
+        { path: 'isActive', before: true, after: false },
+        { path: 'description', before: 'Old', after: undefined },
+        { path: 'status', before: undefined, after: 'offline' }
+      ]);
+    });
+
+    it('should compare nested objects field by field', () => {
+      expect(diffDocuments(
+        { configuration: { readingInterval: 60, thresholds: { temperature: 30 } } },
+        { configuration: { readingInterval: 30, thresholds: { temperature: 30 } } }
+      )).toEqual([{ path: 'configuration.readingInterval', before: 60, after: 30 }]);
+    });
+
+    it('should compare arrays whole and ignore bookkeeping fields', () => {
+      expect(diffDocuments(
+        { tags: ['a', 'b'], updatedAt: '2026-01-01', __v: 0 },
+        { tags: ['a', 'c'], updatedAt: '2026-01-02', __v: 1 }
+      )).toEqual([{ path: 'tags', before: ['a', 'b'], after: ['a', 'c'] }]);
+    });
+
+    it('should describe every field of a deleted document', () => {
+      expect(diffDocuments({ sensorId: 'WS-001' }, null)).toEqual([
+        { path: 'sensorId', before: 'WS-001', after: undefined }
+      ]);
+    });
+  });
+
+  describe('auditAction', () => {
+    it('should name actions after the resource and method', () => {
+      expect(auditAction('DELETE', '/api/sensors/WS-001')).toBe('sensors.delete');
+      expect(auditAction('POST', '/api/sites')).toBe('sites.create');
+      expect(auditAction('PUT', '/api/alerts/rules/665f1c2e8b3a4d0012345678')).toBe('alerts.update');
+      expect(auditAction('PATCH', '/api/users/665f1c2e8b3a4d0012345678/role')).toBe('users.update');
+    });
+  });
+
+  describe('buildAuditFilter', () => {
+    it('should return an empty filter without criteria', () => {
+      expect(buildAuditFilter({})).toEqual({});
+    });
+
+    it('should match an exact action or every action on a resource', () => {
+      expect(buildAuditFilter({ action: 'sensors.delete' })).toEqual({ action: 'sensors.delete' });
+
+      const { action } = buildAuditFilter({ action: 'auth' }) as { action: { $regex: string } };
+      expect(new RegExp(action.$regex).test('auth.login_failed')).toBe(true);
+      expect(new RegExp(action.$regex).test('authors.create')).toBe(false);
+    });
+
+    it('should find events that changed a document', () => {
+      expect(buildAuditFilter({ model: 'Sensor', documentId: 'abc', user: 'u1' })).toEqual({
+        'actor.user': 'u1',
+        changes: { $elemMatch: { model: 'Sensor', documentId: 'abc' } }
+      });
+    });
+
+    it('should filter by time range', () => {
+      expect(buildAuditFilter({ from: '2026-01-01T00:00:00Z' })).toEqual({
+        timestamp: { $gte: new Date('2026-01-01T00:00:00Z') }
+      });
+    });
+  });
+});
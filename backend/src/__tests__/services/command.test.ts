@@ -0,0 +1,203 @@
+/**
+ * Command Service Tests
+ * Tests for command delivery, device responses and timeouts
+ */
+
+import { issueCommand, handleCommandResponse, checkCommands } from '../../services/command.service';
+import { getMQTTClient, publishMessageConfirmed } from '../../services/mqtt.service';
+import { broadcastToTenant } from '../../services/websocket.service';
+import { SensorCommand, ISensorCommand } from '../../models';
+
+jest.mock('../../services/mqtt.service', () => ({
+  getMQTTClient: jest.fn(),
+  publishMessageConfirmed: jest.fn(),
+  tenantTopic: jest.fn((_organisationId: unknown, suffix: string) => `csir/${suffix}`)
+}));
+
+jest.mock('../../services/websocket.service', () => ({
+  broadcastToTenant: jest.fn()
+}));
+
+const mockedGetClient = getMQTTClient as jest.Mock;
+const mockedPublish = publishMessageConfirmed as jest.Mock;
+const mockedBroadcast = broadcastToTenant as jest.Mock;
+
+function makeCommand(overrides: Partial<ISensorCommand> = {}): ISensorCommand {
+  const command = {
+    commandId: 'cmd-1',
+    sensorId: 'sensor-1',
+    type: 'reboot',
+    params: {},
+    status: 'queued',
+    organisation: 'org-1',
+    createdAt: new Date(),
+    save: jest.fn().mockResolvedValue(undefined),
+    toJSON() {
+      return { commandId: this.commandId, status: this.status };
+    },
+    ...overrides
+  };
+  return command as unknown as ISensorCommand;
+}
+
+describe('Command Service', () => {
+  let findOneAndUpdate: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(SensorCommand, 'create').mockImplementation(
+      (async () => makeCommand()) as never
+    );
+    findOneAndUpdate = jest.spyOn(SensorCommand, 'findOneAndUpdate').mockImplementation(
+      (async (_filter: unknown, update: { $set: Partial<ISensorCommand> }) =>
+        makeCommand(update.$set)) as never
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('issueCommand', () => {
+    it('should leave the command queued while MQTT is disconnected', async () => {
+      mockedGetClient.mockReturnValue({ connected: false });
+
+      const command = await issueCommand('sensor-1', 'reboot');
+
+      expect(command.status).toBe('queued');
+      expect(mockedPublish).not.toHaveBeenCalled();
+      expect(findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should mark the command sent once the publish is confirmed', async () => {
+      mockedGetClient.mockReturnValue({ connected: true });
+      mockedPublish.mockResolvedValue(undefined);
+
+      const command = await issueCommand('sensor-1', 'reboot');
+
+      expect(mockedPublish).toHaveBeenCalledWith(
+        'csir/sensors/sensor-1/commands',
+        expect.objectContaining({ commandId: 'cmd-1', type: 'reboot' })
+      );
+      expect(findOneAndUpdate).toHaveBeenCalledWith(
+        { commandId: 'cmd-1', status: 'queued' },
+        { $set: { status: 'sent', sentAt: expect.any(Date) } },
+        { new: true }
+      );
+      expect(command.status).toBe('sent');
+      expect(mockedBroadcast).toHaveBeenCalledWith('org-1', 'command:updated', expect.objectContaining({ status: 'sent' }));
+    });
+
+    it('should not overwrite a command settled before the publish was confirmed', async () => {
+      mockedGetClient.mockReturnValue({ connected: true });
+      mockedPublish.mockResolvedValue(undefined);
+      findOneAndUpdate.mockResolvedValue(null);
+
+      const command = await issueCommand('sensor-1', 'reboot');
+
+      expect(command.save).not.toHaveBeenCalled();
+      expect(mockedBroadcast).not.toHaveBeenCalled();
+    });
+
+    it('should mark the command failed when the publish errors', async () => {
+      mockedGetClient.mockReturnValue({ connected: true });
+      mockedPublish.mockRejectedValue(new Error('Publish timed out'));
+
+      const command = await issueCommand('sensor-1', 'reboot');
+
+      expect(findOneAndUpdate).toHaveBeenCalledWith(
+        { commandId: 'cmd-1', status: 'queued' },
+        { $set: { status: 'failed', error: 'Publish failed: Publish timed out' } },
+        { new: true }
+      );
+      expect(command.status).toBe('failed');
+    });
+  });
+
+  describe('handleCommandResponse', () => {
+    it('should mark a sent command acked', async () => {
+      const command = makeCommand({ status: 'sent' });
+      jest.spyOn(SensorCommand, 'findOne').mockResolvedValue(command as never);
+
+      await handleCommandResponse('sensor-1', { commandId: 'cmd-1', status: 'acked', result: { ok: true } });
+
+      expect(command.status).toBe('acked');
+      expect(command.result).toEqual({ ok: true });
+      expect(command.respondedAt).toBeInstanceOf(Date);
+      expect(command.save).toHaveBeenCalled();
+    });
+
+    it('should mark a command failed with the device error', async () => {
+      const command = makeCommand({ status: 'sent' });
+      jest.spyOn(SensorCommand, 'findOne').mockResolvedValue(command as never);
+
+      await handleCommandResponse('sensor-1', { commandId: 'cmd-1', status: 'failed', error: 'Unsupported' });
+
+      expect(command.status).toBe('failed');
+      expect(command.error).toBe('Unsupported');
+    });
+
+    it('should settle a command that already timed out', async () => {
+      const command = makeCommand({ status: 'timed_out' });
+      jest.spyOn(SensorCommand, 'findOne').mockResolvedValue(command as never);
+
+      await handleCommandResponse('sensor-1', { commandId: 'cmd-1', status: 'acked' });
+
+      expect(command.status).toBe('acked');
+    });
+
+    it('should ignore responses for settled commands', async () => {
+      const command = makeCommand({ status: 'acked' });
+      jest.spyOn(SensorCommand, 'findOne').mockResolvedValue(command as never);
+
+      await handleCommandResponse('sensor-1', { commandId: 'cmd-1', status: 'failed' });
+
+      expect(command.status).toBe('acked');
+      expect(command.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkCommands', () => {
+    const now = new Date('2024-01-01T12:00:00Z');
+
+    function mockFind(queued: ISensorCommand[], expired: ISensorCommand[]): void {
+      jest.spyOn(SensorCommand, 'find')
+        .mockReturnValueOnce({ sort: jest.fn().mockResolvedValue(queued) } as never)
+        .mockResolvedValueOnce(expired as never);
+    }
+
+    it('should time out queued commands that could not be delivered', async () => {
+      mockFind([makeCommand({ createdAt: new Date('2024-01-01T11:00:00Z') })], []);
+
+      await checkCommands(now);
+
+      expect(findOneAndUpdate).toHaveBeenCalledWith(
+        { commandId: 'cmd-1', status: 'queued' },
+        { $set: { status: 'timed_out', error: 'Command could not be delivered' } },
+        { new: true }
+      );
+    });
+
+    it('should time out sent commands without a response', async () => {
+      mockFind([], [makeCommand({ status: 'sent', sentAt: new Date('2024-01-01T11:59:00Z') })]);
+
+      await checkCommands(now);
+
+      expect(findOneAndUpdate).toHaveBeenCalledWith(
+        { commandId: 'cmd-1', status: 'sent' },
+        { $set: { status: 'timed_out', error: 'No response from device' } },
+        { new: true }
+      );
+      expect(mockedBroadcast).toHaveBeenCalledWith('org-1', 'command:updated', expect.objectContaining({ status: 'timed_out' }));
+    });
+
+    it('should not time out a command acked in the meantime', async () => {
+      mockFind([], [makeCommand({ status: 'sent', sentAt: new Date('2024-01-01T11:59:00Z') })]);
+      findOneAndUpdate.mockResolvedValue(null);
+
+      await checkCommands(now);
+
+      expect(mockedBroadcast).not.toHaveBeenCalled();
+    });
+  });
+});
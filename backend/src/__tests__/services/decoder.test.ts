@@ -0,0 +1,116 @@
+/**
+ * Decoder Service Tests
+ * Tests for payload codecs and decoder resolution
+ */
+
+import {
+  csvDecoder,
+  cborDecoder,
+  byteLayoutDecoder,
+  decodeCbor,
+  topicMatches,
+  resolveDecoder
+} from '../../services/decoder.service';
+
+describe('Decoder Service', () => {
+  describe('csvDecoder', () => {
+    it('should map values onto configured columns', () => {
+      const payload = Buffer.from('2026-02-01T12:00:00Z,24.5,58\n');
+
+      expect(csvDecoder.decode(payload, { columns: ['timestamp', 'temperature', 'humidity'] }))
+        .toEqual({
+          timestamp: '2026-02-01T12:00:00Z',
+          data: { temperature: 24.5, humidity: 58 }
+        });
+    });
+
+    it('should parse key=value pairs without configured columns', () => {
+      expect(csvDecoder.decode(Buffer.from('temperature=24.5;messageId=abc'), { delimiter: ';' }))
+        .toEqual({ messageId: 'abc', data: { temperature: 24.5 } });
+    });
+
+    it('should reject rows with the wrong number of values', () => {
+      expect(() => csvDecoder.decode(Buffer.from('24.5'), { columns: ['temperature', 'humidity'] }))
+        .toThrow('Expected 2 CSV values, got 1');
+    });
+  });
+
+  describe('cborDecoder', () => {
+    it('should decode a map of measurements', () => {
+      // {"temperature": 24.5 (half float), "humidity": 58}
+      const payload = Buffer.concat([
+        Buffer.from([0xa2, 0x6b]),
+        Buffer.from('temperature'),
+        Buffer.from([0xf9, 0x4e, 0x20, 0x68]),
+        Buffer.from('humidity'),
+        Buffer.from([0x18, 0x3a])
+      ]);
+
+      expect(cborDecoder.decode(payload, {})).toEqual({ temperature: 24.5, humidity: 58 });
+    });
+
+    it('should decode nested arrays, negative integers and doubles', () => {
+      const double = Buffer.alloc(9);
+      double[0] = 0xfb;
+      double.writeDoubleBE(-12.75, 1);
+
+      expect(decodeCbor(Buffer.concat([Buffer.from([0x83, 0x20, 0xf5]), double])))
+        .toEqual([-1, true, -12.75]);
+    });
+
+    it('should reject truncated payloads', () => {
+      expect(() => decodeCbor(Buffer.from([0xa1, 0x61]))).toThrow('Unexpected end of CBOR data');
+    });
+  });
+
+  describe('byteLayoutDecoder', () => {
+    const fields = [
+      { name: 'timestamp', type: 'uint32' },
+      { name: 'temperature', type: 'int16', scale: 0.01 },
+      { name: 'humidity', type: 'uint8' }
+    ];
+
+    it('should read fields in order with scaling', () => {
+      const payload = Buffer.from([0x65, 0xbb, 0x87, 0xc0, 0xff, 0x06, 0x3a]);
+      const decoded = byteLayoutDecoder.decode(payload, { fields });
+      const data = decoded.data as Record<string, number>;
+
+      expect(decoded.timestamp).toBe('2024-02-01T12:00:00.000Z');
+      expect(data.temperature).toBeCloseTo(-2.5);
+      expect(data.humidity).toBe(58);
+    });
+
+    it('should support little-endian layouts', () => {
+      const payload = Buffer.from([0xc0, 0x87, 0xbb, 0x65, 0x92, 0x09, 0x3a]);
+      const data = byteLayoutDecoder.decode(payload, { fields, littleEndian: true }).data as Record<string, number>;
+
+      expect(data.temperature).toBeCloseTo(24.5);
+    });
+
+    it('should reject payloads shorter than the layout', () => {
+      expect(() => byteLayoutDecoder.decode(Buffer.from([0x01]), { fields }))
+        .toThrow('Payload too short for field "timestamp"');
+    });
+  });
+
+  describe('topicMatches', () => {
+    it('should match MQTT wildcards', () => {
+      expect(topicMatches('csir/sensors/+/data/lora', 'csir/sensors/LORA-01/data/lora')).toBe(true);
+      expect(topicMatches('csir/sensors/#', 'csir/sensors/LORA-01/data')).toBe(true);
+      expect(topicMatches('csir/sensors/+/data', 'csir/sensors/LORA-01/data/lora')).toBe(false);
+    });
+  });
+
+  describe('resolveDecoder', () => {
+    it('should prefer sensor configuration, then the topic suffix, then JSON', () => {
+      expect(resolveDecoder('csir/sensors/X/data/csv', { codec: 'cbor' }).decoder.name).toBe('cbor');
+      expect(resolveDecoder('csir/sensors/X/data/csv', null).decoder.name).toBe('csv');
+      expect(resolveDecoder('csir/sensors/X/data', null).decoder.name).toBe('json');
+    });
+
+    it('should reject unknown codecs', () => {
+      expect(() => resolveDecoder('csir/sensors/X/data/xml', null))
+        .toThrow('Unknown payload codec "xml"');
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Export Service Tests
+ * Tests for export filters, row flattening and CSV formatting
+ */
+
+import { buildExportFilter, flattenReading, toCsvLine } from '../../services/export.service';
+
+describe('Export Service', () => {
+  const from = new Date('2026-02-01T00:00:00Z');
+  const to = new Date('2026-02-02T00:00:00Z');
+
+  describe('buildExportFilter', () => {
+    it('should limit the range and sensors', () => {
+      expect(buildExportFilter({ from, to, format: 'csv', sensorIds: ['SENSOR-PRETORIA-001'] }))
+        .toEqual({
+          sensorId: { $in: ['SENSOR-PRETORIA-001'] },
+          timestamp: { $gte: from, $lte: to }
+        });
+    });
+
+    it('should include every sensor when none are given', () => {
+      expect(buildExportFilter({ from, to, format: 'ndjson', sensorIds: [] }))
+        .toEqual({ timestamp: { $gte: from, $lte: to } });
+    });
+  });
+
+  describe('flattenReading', () => {
+    const reading = {
+      timestamp: new Date('2026-02-01T12:00:00Z'),
+      sensorId: 'SENSOR-PRETORIA-001',
+      quality: 'good' as const,
+      isAnomaly: false,
+      data: { temperature: 25, humidity: 58, firmware: '1.2.0' }
+    };
+
+    it('should flatten the requested fields into data.* columns', () => {
+      expect(flattenReading(reading, ['temperature', 'pressure'])).toEqual({
+        timestamp: reading.timestamp,
+        sensorId: 'SENSOR-PRETORIA-001',
+        quality: 'good',
+        isAnomaly: false,
+        'data.temperature': 25,
+        'data.pressure': undefined
+      });
+    });
+
+    it('should convert values to the unit system', () => {
+      expect(flattenReading(reading, ['temperature'], 'imperial')['data.temperature']).toBeCloseTo(77);
+    });
+  });
+
+  describe('toCsvLine', () => {
+    it('should format dates, blanks and plain values', () => {
+      expect(toCsvLine([new Date('2026-02-01T12:00:00Z'), 'SENSOR-1', undefined, 24.5, false]))
+        .toBe('2026-02-01T12:00:00.000Z,SENSOR-1,,24.5,false\n');
+    });
+
+    it('should quote values containing delimiters, quotes or newlines', () => {
+      expect(toCsvLine(['a,b', 'say "hi"', 'two\nlines', { level: 1 }]))
+        .toBe('"a,b","say ""hi""","two\nlines","{""level"":1}"\n');
+    });
+  });
+});
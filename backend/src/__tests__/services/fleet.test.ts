@@ -0,0 +1,136 @@
+/**
+ * Fleet Service Tests
+ * Tests for fleet CSV parsing, row validation and export formatting
+ */
+
+import {
+  parseCsv,
+  parseFleetCsv,
+  flattenSensorDefinition,
+  validateFleetRow,
+  formatFleetCsv
+} from '../../services/fleet.service';
+
+describe('Fleet Service', () => {
+  describe('parseCsv', () => {
+    it('should handle quoted cells, escaped quotes and CRLF line endings', () => {
+      expect(parseCsv('a,b,c\r\n"x, y","say ""hi""",\r\n\r\n"two\nlines",1,2\n')).toEqual([
+        ['a', 'b', 'c'],
+        ['x, y', 'say "hi"', ''],
+        ['two\nlines', '1', '2']
+      ]);
+    });
+
+    it('should reject an unterminated quote', () => {
+      expect(() => parseCsv('a,"b\n')).toThrow('Unterminated quoted CSV value');
+    });
+  });
+
+  describe('parseFleetCsv', () => {
+    it('should key rows by column and leave out empty cells', () => {
+      const rows = parseFleetCsv(
+        'sensorId,name,location.latitude,metadata\n' +
+        'SENSOR-001,Roof,-25.75,"{""site"":""A""}"\n' +
+        'SENSOR-002,,,\n'
+      );
+
+      expect(rows).toEqual([
+        { sensorId: 'SENSOR-001', name: 'Roof', 'location.latitude': '-25.75', metadata: '{"site":"A"}' },
+        { sensorId: 'SENSOR-002' }
+      ]);
+    });
+
+    it('should reject unknown columns and a missing sensorId column', () => {
+      expect(() => parseFleetCsv('sensorId,colour\nSENSOR-001,red\n')).toThrow('Unknown CSV column: colour');
+      expect(() => parseFleetCsv('name\nRoof\n')).toThrow('CSV file needs a sensorId column');
+    });
+  });
+
+  describe('validateFleetRow', () => {
+    it('should coerce CSV cells to typed values', () => {
+      const { values, errors } = validateFleetRow({
+        sensorId: 'SENSOR-001',
+        type: 'combined',
+        'location.latitude': '-25.75',
+        isActive: 'false',
+        'configuration.readingInterval': '10000',
+        metadata: '{"site":"A"}'
+      });
+
+      expect(errors).toEqual([]);
+      expect(values).toEqual({
+        sensorId: 'SENSOR-001',
+        type: 'combined',
+        'location.latitude': -25.75,
+        isActive: false,
+        'configuration.readingInterval': 10000,
+        metadata: { site: 'A' }
+      });
+    });
+
+    it('should report bad coordinates, unknown types and malformed values', () => {
+      const { errors } = validateFleetRow({
+        sensorId: 'SENSOR-001',
+        type: 'radar',
+        'location.latitude': '95',
+        'location.longitude': 'east',
+        'configuration.thresholds.min': 10,
+        'configuration.thresholds.max': 5,
+        'configuration.decoder.codec': 'morse',
+        metadata: '[1,2]'
+      });
+
+      expect(errors).toEqual([
+        'location.longitude must be a number',
+        'metadata must be a JSON object',
+        'Unknown sensor type "radar" (expected temperature, humidity, pressure, wind, combined)',
+        'location.latitude must be between -90 and 90',
+        'configuration.thresholds.min cannot be greater than max',
+        'Unknown payload codec "morse"'
+      ]);
+    });
+
+    it('should require a sensorId', () => {
+      expect(validateFleetRow({ name: 'Roof' }).errors).toEqual(['sensorId is required']);
+    });
+  });
+
+  describe('export', () => {
+    const sensor = {
+      _id: 'abc',
+      sensorId: 'SENSOR-001',
+      name: 'Roof, north',
+      type: 'combined',
+      location: { latitude: -25.75, longitude: 28.28, name: 'CSIR', altitude: 1339 },
+      isActive: true,
+      presence: { status: 'online' },
+      configuration: { readingInterval: 5000, thresholds: {} },
+      metadata: { site: 'A' }
+    };
+
+    it('should flatten stored sensors to fleet columns only', () => {
+      expect(flattenSensorDefinition(sensor)).toEqual({
+        sensorId: 'SENSOR-001',
+        name: 'Roof, north',
+        type: 'combined',
+        'location.latitude': -25.75,
+        'location.longitude': 28.28,
+        'location.name': 'CSIR',
+        'location.altitude': 1339,
+        isActive: true,
+        'configuration.readingInterval': 5000,
+        metadata: { site: 'A' }
+      });
+    });
+
+    it('should write CSV that imports back to the same values', () => {
+      const csv = formatFleetCsv([flattenSensorDefinition(sensor)]);
+      const [row] = parseFleetCsv(csv);
+
+      expect(validateFleetRow(row)).toEqual({
+        values: flattenSensorDefinition(sensor),
+        errors: []
+      });
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Geo Service Tests
+ * Tests for GeoJSON points, radius filters and polygon parsing
+ */
+
+import { EARTH_RADIUS_KM } from '../../models';
+import { toGeoPoint, withinRadius, validatePolygon, parsePolygon } from '../../services/geo.service';
+
+describe('Geo Service', () => {
+  describe('toGeoPoint', () => {
+    it('should order coordinates longitude first', () => {
+      expect(toGeoPoint(-25.75, 28.23)).toEqual({ type: 'Point', coordinates: [28.23, -25.75] });
+    });
+  });
+
+  describe('withinRadius', () => {
+    it('should build a $centerSphere filter in radians', () => {
+      const [center, radians] = withinRadius(-25.75, 28.23, 10).geo.$geoWithin.$centerSphere;
+      expect(center).toEqual([28.23, -25.75]);
+      expect(radians).toBeCloseTo(10 / EARTH_RADIUS_KM);
+    });
+  });
+
+  describe('validatePolygon', () => {
+    const square = [[28, -26], [29, -26], [29, -25], [28, -25], [28, -26]];
+
+    it('should accept a closed ring', () => {
+      expect(validatePolygon({ type: 'Polygon', coordinates: [square] })).toBeNull();
+    });
+
+    it('should reject open rings, short rings and out of range positions', () => {
+      expect(validatePolygon({ type: 'Polygon', coordinates: [square.slice(0, 4)] })).toMatch(/closed/);
+      expect(validatePolygon({ type: 'Polygon', coordinates: [[[28, -26], [29, -26], [28, -26]]] }))
+        .toMatch(/at least three/);
+      expect(validatePolygon({ type: 'Polygon', coordinates: [[[28, -95], [29, -26], [29, -25], [28, -95]]] }))
+        .toMatch(/latitude/);
+      expect(validatePolygon({ type: 'Point', coordinates: [28, -26] })).toMatch(/GeoJSON Polygon/);
+    });
+  });
+
+  describe('parsePolygon', () => {
+    it('should parse lon,lat pairs and close the ring', () => {
+      expect(parsePolygon('28,-26;29,-26;29,-25;28,-25')).toEqual({
+        type: 'Polygon',
+        coordinates: [[[28, -26], [29, -26], [29, -25], [28, -25], [28, -26]]]
+      });
+    });
+
+    it('should parse GeoJSON and reject malformed input', () => {
+      const polygon = { type: 'Polygon', coordinates: [[[28, -26], [29, -26], [29, -25], [28, -26]]] };
+
+      expect(parsePolygon(JSON.stringify(polygon))).toEqual(polygon);
+      expect(() => parsePolygon('{"type":')).toThrow('Polygon is not valid JSON');
+      expect(() => parsePolygon('28,-26;north,-26;29,-25')).toThrow(/pairs/);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Ingestion Service Tests
+ * Tests for device timestamps, message de-duplication and batch validation
+ */
+
+import {
+  validateBatchItem,
+  resolveDeviceTimestamp,
+  isDuplicateMessage
+} from '../../services/ingestion.service';
+import { ISensor } from '../../models';
+
+describe('Ingestion Service', () => {
+  describe('resolveDeviceTimestamp', () => {
+    const receivedAt = new Date('2026-02-01T12:00:00Z');
+
+    it('should use device time within the skew bounds', () => {
+      expect(resolveDeviceTimestamp('2026-02-01T11:59:58Z', receivedAt)).toEqual({
+        timestamp: new Date('2026-02-01T11:59:58Z'),
+        clockSkew: false
+      });
+      expect(resolveDeviceTimestamp('2026-02-01T12:04:00Z', receivedAt).clockSkew).toBe(false);
+    });
+
+    it('should keep buffered readings from the last days', () => {
+      const result = resolveDeviceTimestamp('2026-01-30T08:00:00Z', receivedAt);
+      expect(result.timestamp).toEqual(new Date('2026-01-30T08:00:00Z'));
+      expect(result.clockSkew).toBe(false);
+    });
+
+    it('should fall back to receive time for skewed clocks', () => {
+      expect(resolveDeviceTimestamp('2026-02-01T12:10:00Z', receivedAt))
+        .toEqual({ timestamp: receivedAt, clockSkew: true });
+      expect(resolveDeviceTimestamp('1970-01-01T00:00:00Z', receivedAt))
+        .toEqual({ timestamp: receivedAt, clockSkew: true });
+      expect(resolveDeviceTimestamp('not a date', receivedAt))
+        .toEqual({ timestamp: receivedAt, clockSkew: true });
+    });
+
+    it('should use receive time when the device sends no timestamp', () => {
+      expect(resolveDeviceTimestamp(undefined, receivedAt))
+        .toEqual({ timestamp: receivedAt, clockSkew: false });
+    });
+  });
+
+  describe('isDuplicateMessage', () => {
+    it('should flag a repeated message ID for the same sensor only', () => {
+      expect(isDuplicateMessage('SENSOR-PRETORIA-001', 'msg-42')).toBe(false);
+      expect(isDuplicateMessage('SENSOR-PRETORIA-001', 'msg-42')).toBe(true);
+      expect(isDuplicateMessage('SENSOR-CPT-001', 'msg-42')).toBe(false);
+    });
+  });
+
+  describe('validateBatchItem', () => {
+    const now = new Date('2026-02-01T12:00:00Z');
+    const sensors = new Map([
+      ['SENSOR-PRETORIA-001', { sensorId: 'SENSOR-PRETORIA-001', isActive: true } as ISensor],
+      ['SENSOR-CPT-001', { sensorId: 'SENSOR-CPT-001', isActive: false } as ISensor]
+    ]);
+    const valid = {
+      sensorId: 'SENSOR-PRETORIA-001',
+      timestamp: '2026-02-01T11:30:00Z',
+      data: { temperature: 24.5 },
+      messageId: 'msg-1'
+    };
+
+    it('should accept a well-formed reading', () => {
+      expect(validateBatchItem(valid, sensors, now)).toBeNull();
+      expect(validateBatchItem({ ...valid, timestamp: now.getTime() }, sensors, now)).toBeNull();
+    });
+
+    it('should reject unknown and inactive sensors', () => {
+      expect(validateBatchItem({ ...valid, sensorId: 'SENSOR-XYZ' }, sensors, now))
+        .toBe('Sensor not found');
+      expect(validateBatchItem({ ...valid, sensorId: 'SENSOR-CPT-001' }, sensors, now))
+        .toBe('Sensor is inactive');
+    });
+
+    it('should reject empty data', () => {
+      expect(validateBatchItem({ ...valid, data: {} }, sensors, now))
+        .toBe('Data must be a non-empty object');
+    });
+
+    it('should reject data that does not match the measurement catalog', () => {
+      expect(validateBatchItem({ ...valid, data: { temperature: 'warm' } }, sensors, now))
+        .toBe('Field "temperature" must be of type number');
+    });
+
+    it('should reject unparseable, future and too old timestamps', () => {
+      expect(validateBatchItem({ ...valid, timestamp: 'yesterday' }, sensors, now))
+        .toBe('Invalid timestamp');
+      expect(validateBatchItem({ ...valid, timestamp: '2026-02-01T13:00:00Z' }, sensors, now))
+        .toBe('Timestamp is in the future');
+      expect(validateBatchItem({ ...valid, timestamp: '2026-01-20T12:00:00Z' }, sensors, now))
+        .toBe('Timestamp is older than the maximum device age');
+    });
+
+    it('should reject an unknown quality grade', () => {
+      expect(validateBatchItem({ ...valid, quality: 'excellent' }, sensors, now))
+        .toBe('Quality must be one of: good, fair, poor');
+    });
+  });
+});
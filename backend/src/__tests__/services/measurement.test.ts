@@ -0,0 +1,50 @@
+/**
+ * Measurement Catalog Service Tests
+ * Tests for catalog lookups and reading data validation
+ */
+
+import {
+  getMeasurementField,
+  getUnit,
+  validateMeasurements
+} from '../../services/measurement.service';
+
+describe('Measurement Catalog Service', () => {
+  describe('getMeasurementField', () => {
+    it('should include the built-in fields before the catalog is loaded', () => {
+      expect(getMeasurementField('temperature')).toMatchObject({
+        unit: '°C',
+        dataType: 'number',
+        min: -60,
+        max: 70
+      });
+      expect(getMeasurementField('co2')?.unit).toBe('ppm');
+    });
+
+    it('should return an empty unit for unknown fields', () => {
+      expect(getUnit('pressure')).toBe('hPa');
+      expect(getUnit('lux')).toBe('');
+    });
+  });
+
+  describe('validateMeasurements', () => {
+    it('should accept catalogued numbers and unknown fields', () => {
+      expect(validateMeasurements({ temperature: 24.5, humidity: 58, firmware: '1.2.0' })).toBeNull();
+    });
+
+    it('should leave out-of-range values to quality grading', () => {
+      expect(validateMeasurements({ humidity: 140 })).toBeNull();
+    });
+
+    it('should skip missing values', () => {
+      expect(validateMeasurements({ temperature: undefined, pressure: null })).toBeNull();
+    });
+
+    it('should reject values of the wrong type', () => {
+      expect(validateMeasurements({ temperature: '24.5' }))
+        .toBe('Field "temperature" must be of type number');
+      expect(validateMeasurements({ windspeed: Number.NaN }))
+        .toBe('Field "windspeed" must be of type number');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Presence Service Tests
+ * Tests for offline detection and uptime calculation
+ */
+
+import { computeUptime, isOverdue } from '../../services/presence.service';
+import { ISensor } from '../../models';
+
+describe('Presence Service', () => {
+  describe('isOverdue', () => {
+    const now = new Date('2026-02-01T12:00:00Z');
+    const sensorSeen = (secondsAgo: number, readingInterval?: number) => ({
+      presence: { status: 'online', lastSeenAt: new Date(now.getTime() - secondsAgo * 1000) },
+      configuration: { readingInterval }
+    }) as unknown as ISensor;
+
+    it('should allow up to three missed reading intervals', () => {
+      expect(isOverdue(sensorSeen(14, 5000), now)).toBe(false);
+      expect(isOverdue(sensorSeen(16, 5000), now)).toBe(true);
+    });
+
+    it('should scale with the configured reading interval', () => {
+      expect(isOverdue(sensorSeen(120, 60000), now)).toBe(false);
+      expect(isOverdue(sensorSeen(200, 60000), now)).toBe(true);
+    });
+
+    it('should not flag sensors that have never been seen', () => {
+      expect(isOverdue({ presence: { status: 'unknown' } } as unknown as ISensor, now)).toBe(false);
+    });
+  });
+
+  describe('computeUptime', () => {
+    const from = new Date('2026-02-01T00:00:00Z');
+    const to = new Date('2026-02-01T10:00:00Z');
+    const hour = 60 * 60 * 1000;
+
+    it('should split the range between online and offline periods', () => {
+      const summary = computeUptime(
+        [
+          { status: 'offline', timestamp: new Date('2026-02-01T06:00:00Z') },
+          { status: 'online', timestamp: new Date('2026-02-01T08:00:00Z') }
+        ],
+        from,
+        to,
+        'online'
+      );
+
+      expect(summary).toEqual({
+        onlineMs: 8 * hour,
+        offlineMs: 2 * hour,
+        unknownMs: 0,
+        uptimePercent: 80
+      });
+    });
+
+    it('should exclude time before the first known state from the percentage', () => {
+      const summary = computeUptime(
+        [{ status: 'online', timestamp: new Date('2026-02-01T05:00:00Z') }],
+        from,
+        to,
+        'unknown'
+      );
+
+      expect(summary.unknownMs).toBe(5 * hour);
+      expect(summary.onlineMs).toBe(5 * hour);
+      expect(summary.uptimePercent).toBe(100);
+    });
+
+    it('should return no percentage without any presence history', () => {
+      expect(computeUptime([], from, to, 'unknown').uptimePercent).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Provisioning Service Tests
+ * Tests for reading device self-descriptions and admitting or quarantining readings
+ */
+
+import {
+  extractSensorDetails,
+  isRegistrable,
+  admitSensorReading
+} from '../../services/provisioning.service';
+import { Sensor, PendingSensor, QuarantinedReading } from '../../models';
+
+jest.mock('../../services/websocket.service', () => ({
+  broadcastToTenant: jest.fn()
+}));
+
+function makePending(status: string) {
+  const pending = {
+    sensorId: 'sensor-9',
+    status,
+    organisation: 'org-1',
+    lastSeenAt: new Date('2024-01-01T00:00:00Z'),
+    messageCount: 1,
+    save: jest.fn(),
+    toJSON: () => ({ sensorId: 'sensor-9', status })
+  };
+  pending.save.mockResolvedValue(pending);
+  return pending;
+}
+
+describe('Provisioning Service', () => {
+  describe('extractSensorDetails', () => {
+    it('should read name, type and location from the payload', () => {
+      const details = extractSensorDetails({
+        name: '  Rooftop station  ',
+        type: 'combined',
+        location: { latitude: -25.75, longitude: 28.28, name: 'Pretoria', altitude: 1339 },
+        temperature: 21
+      });
+
+      expect(details).toEqual({
+        name: 'Rooftop station',
+        type: 'combined',
+        location: { latitude: -25.75, longitude: 28.28, name: 'Pretoria', altitude: 1339 }
+      });
+    });
+
+    it('should drop unknown types, blank names and out-of-range coordinates', () => {
+      const details = extractSensorDetails({
+        name: '   ',
+        type: 'radiation',
+        location: { latitude: 120, longitude: 28.28, name: 'Nowhere' }
+      });
+
+      expect(details).toEqual({});
+    });
+
+    it('should default a missing location name to empty', () => {
+      const details = extractSensorDetails({ location: { latitude: 0, longitude: 0 } });
+
+      expect(details.location).toEqual({ latitude: 0, longitude: 0, name: '' });
+    });
+  });
+
+  describe('isRegistrable', () => {
+    const location = { latitude: -25.75, longitude: 28.28, name: 'Pretoria' };
+
+    it('should accept complete details', () => {
+      expect(isRegistrable({ name: 'Station', type: 'wind', location })).toBe(true);
+    });
+
+    it('should require a name, a type and a named location', () => {
+      expect(isRegistrable({ type: 'wind', location })).toBe(false);
+      expect(isRegistrable({ name: 'Station', location })).toBe(false);
+      expect(isRegistrable({ name: 'Station', type: 'wind' })).toBe(false);
+      expect(isRegistrable({ name: 'Station', type: 'wind', location: { ...location, name: '' } })).toBe(false);
+    });
+  });
+
+  describe('admitSensorReading', () => {
+    let quarantine: jest.SpyInstance;
+
+    beforeEach(() => {
+      quarantine = jest.spyOn(QuarantinedReading, 'create').mockResolvedValue({} as never);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should admit readings from an active registered sensor', async () => {
+      const sensor = { sensorId: 'sensor-1', isActive: true };
+      jest.spyOn(Sensor, 'findOne').mockResolvedValue(sensor as never);
+
+      await expect(admitSensorReading('sensor-1', { temperature: 21 })).resolves.toBe(sensor);
+      expect(quarantine).not.toHaveBeenCalled();
+    });
+
+    it('should quarantine readings from an inactive sensor', async () => {
+      jest.spyOn(Sensor, 'findOne').mockResolvedValue({ sensorId: 'sensor-1', isActive: false } as never);
+
+      await expect(admitSensorReading('sensor-1', { temperature: 21 })).resolves.toBeNull();
+      expect(quarantine).toHaveBeenCalledWith(expect.objectContaining({
+        sensorId: 'sensor-1',
+        reason: 'inactive'
+      }));
+    });
+
+    it('should quarantine readings from an unknown sensor and record it as pending', async () => {
+      jest.spyOn(Sensor, 'findOne').mockResolvedValue(null as never);
+      jest.spyOn(PendingSensor, 'findOne').mockResolvedValue(null as never);
+      const createPending = jest.spyOn(PendingSensor, 'create')
+        .mockResolvedValue(makePending('pending') as never);
+
+      await expect(admitSensorReading('sensor-9', { name: 'Station', temperature: 21 })).resolves.toBeNull();
+      expect(createPending).toHaveBeenCalledWith(expect.objectContaining({
+        sensorId: 'sensor-9',
+        name: 'Station',
+        messageCount: 1
+      }));
+      expect(quarantine).toHaveBeenCalledWith(expect.objectContaining({
+        sensorId: 'sensor-9',
+        reason: 'unregistered'
+      }));
+    });
+
+    it('should keep quarantining readings from a rejected sensor', async () => {
+      const pending = makePending('rejected');
+      jest.spyOn(Sensor, 'findOne').mockResolvedValue(null as never);
+      jest.spyOn(PendingSensor, 'findOne').mockResolvedValue(pending as never);
+
+      await expect(admitSensorReading('sensor-9', { name: 'Renamed', temperature: 21 })).resolves.toBeNull();
+      expect(pending.status).toBe('rejected');
+      expect(pending.messageCount).toBe(2);
+      expect(pending).not.toHaveProperty('name');
+      expect(quarantine).toHaveBeenCalledWith(expect.objectContaining({
+        sensorId: 'sensor-9',
+        reason: 'rejected'
+      }));
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Quality Service Tests
+ * Tests for reading quality grading
+ */
+
+import { checkReading, assessQuality } from '../../services/quality.service';
+
+describe('Quality Service', () => {
+  const now = new Date('2026-02-01T12:00:00Z');
+
+  describe('checkReading', () => {
+    it('should grade a healthy reading as good', () => {
+      const result = checkReading(
+        { temperature: 24, humidity: 55, battery: 90, signal_strength: -60 },
+        now,
+        now
+      );
+
+      expect(result).toEqual({ quality: 'good', qualityIssues: [] });
+    });
+
+    it('should grade low battery and weak signal as fair', () => {
+      const result = checkReading({ battery: 15, signal_strength: -95 }, now, now);
+
+      expect(result.quality).toBe('fair');
+      expect(result.qualityIssues).toEqual(['battery_low', 'signal_weak']);
+    });
+
+    it('should grade physically implausible values as poor', () => {
+      const result = checkReading({ humidity: 120, winddirection: 400 }, now, now);
+
+      expect(result.quality).toBe('poor');
+      expect(result.qualityIssues).toEqual(['implausible:humidity', 'implausible:winddirection']);
+    });
+
+    it('should flag spikes against the previous value', () => {
+      const result = checkReading({ temperature: 40 }, now, now, { temperature: 22 });
+
+      expect(result.quality).toBe('fair');
+      expect(result.qualityIssues).toContain('spike:temperature');
+    });
+
+    it('should flag stale readings', () => {
+      const tenMinutesAgo = new Date(now.getTime() - 10 * 60 * 1000);
+      const twoHoursAgo = new Date(now.getTime() - 2 * 60 * 60 * 1000);
+
+      expect(checkReading({ temperature: 20 }, tenMinutesAgo, now).qualityIssues).toEqual(['stale']);
+      expect(checkReading({ temperature: 20 }, twoHoursAgo, now).quality).toBe('poor');
+    });
+  });
+
+  describe('assessQuality', () => {
+    it('should remember values per sensor for spike detection', () => {
+      assessQuality('SENSOR-TEST-001', { temperature: 20 }, now, now);
+      const result = assessQuality('SENSOR-TEST-001', { temperature: 35 }, now, now);
+      const otherSensor = assessQuality('SENSOR-TEST-002', { temperature: 35 }, now, now);
+
+      expect(result.qualityIssues).toContain('spike:temperature');
+      expect(otherSensor.qualityIssues).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Rollup Service Tests
+ * Tests for bucket truncation and the ranges recomputed for late readings
+ */
+
+import { truncateDate, bucketRanges } from '../../services/rollup.service';
+
+describe('Rollup Service', () => {
+  describe('truncateDate', () => {
+    it('should truncate to the start of the UTC bucket', () => {
+      const date = new Date('2026-02-01T12:34:56.789Z');
+
+      expect(truncateDate(date, '1m')).toEqual(new Date('2026-02-01T12:34:00Z'));
+      expect(truncateDate(date, '1h')).toEqual(new Date('2026-02-01T12:00:00Z'));
+      expect(truncateDate(date, '1d')).toEqual(new Date('2026-02-01T00:00:00Z'));
+    });
+  });
+
+  describe('bucketRanges', () => {
+    it('should return no ranges without dates', () => {
+      expect(bucketRanges([], '1m')).toEqual([]);
+    });
+
+    it('should merge adjacent buckets and keep gaps apart', () => {
+      expect(bucketRanges([
+        new Date('2026-01-28T10:01:30Z'),
+        new Date('2026-01-28T10:00:10Z'),
+        new Date('2026-01-28T10:01:05Z'),
+        new Date('2026-01-28T10:05:00Z')
+      ], '1m')).toEqual([
+        { start: new Date('2026-01-28T10:00:00Z'), end: new Date('2026-01-28T10:02:00Z') },
+        { start: new Date('2026-01-28T10:05:00Z'), end: new Date('2026-01-28T10:06:00Z') }
+      ]);
+    });
+
+    it('should widen late minutes to the coarser resolution', () => {
+      const minutes = [new Date('2026-01-28T10:05:00Z'), new Date('2026-01-28T11:59:00Z')];
+
+      expect(bucketRanges(minutes, '1h')).toEqual([
+        { start: new Date('2026-01-28T10:00:00Z'), end: new Date('2026-01-28T12:00:00Z') }
+      ]);
+      expect(bucketRanges(minutes, '1d')).toEqual([
+        { start: new Date('2026-01-28T00:00:00Z'), end: new Date('2026-01-29T00:00:00Z') }
+      ]);
+    });
+  });
+});
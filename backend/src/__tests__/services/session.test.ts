@@ -0,0 +1,39 @@
+/**
+ * Session Service Tests
+ * Tests for refresh token state checks and session expiry
+ */
+
+import { sessionState, sessionExpiry } from '../../services/session.service';
+
+describe('Session Service', () => {
+  const now = new Date('2026-02-01T12:00:00Z');
+  const session = {
+    refreshTokenId: 'token-2',
+    expiresAt: new Date('2026-02-08T12:00:00Z'),
+    revokedAt: null
+  };
+
+  describe('sessionState', () => {
+    it('should accept the current refresh token', () => {
+      expect(sessionState(session, 'token-2', now)).toBe('active');
+    });
+
+    it('should flag a rotated-away refresh token as reused', () => {
+      expect(sessionState(session, 'token-1', now)).toBe('reused');
+    });
+
+    it('should report revoked sessions before anything else', () => {
+      expect(sessionState({ ...session, revokedAt: now }, 'token-1', now)).toBe('revoked');
+    });
+
+    it('should report expired sessions', () => {
+      expect(sessionState(session, 'token-2', new Date('2026-02-08T12:00:00Z'))).toBe('expired');
+    });
+  });
+
+  describe('sessionExpiry', () => {
+    it('should default to seven days from now', () => {
+      expect(sessionExpiry(now).toISOString()).toBe('2026-02-08T12:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Site Service Tests
+ * Tests for the site/zone hierarchy and rolled-up sensor status
+ */
+
+import { Types } from 'mongoose';
+import { ISensor } from '../../models';
+import { buildSiteTree, sensorStatus, SiteTreeNode } from '../../services/site.service';
+
+describe('Site Service', () => {
+  const campus = new Types.ObjectId();
+  const farm = new Types.ObjectId();
+  const building = new Types.ObjectId();
+  const lab = new Types.ObjectId();
+
+  const sites = [
+    { _id: farm, name: 'Experimental Farm' },
+    { _id: campus, name: 'Pretoria Campus' }
+  ];
+  const zones = [
+    { _id: lab, name: 'Lab A', site: campus, parent: building },
+    { _id: building, name: 'Building 12', site: campus, parent: null }
+  ];
+
+  const sensor = (
+    sensorId: string,
+    placement: { site?: Types.ObjectId; zone?: Types.ObjectId },
+    status: 'online' | 'offline' | 'unknown' = 'online',
+    isActive = true
+  ) => ({
+    sensorId,
+    name: sensorId,
+    isActive,
+    presence: { status },
+    site: placement.site ?? null,
+    zone: placement.zone ?? null
+  }) as Pick<ISensor, 'sensorId' | 'name' | 'isActive' | 'presence' | 'site' | 'zone'>;
+
+  const build = (sensors: ReturnType<typeof sensor>[], alerting: string[] = []) =>
+    buildSiteTree('Network', sites, zones, sensors, new Set(alerting), (s, isAlerting) => ({
+      type: 'sensor',
+      sensorId: s.sensorId,
+      alerting: isAlerting
+    }));
+
+  const child = (node: SiteTreeNode, name: string) =>
+    node.children.find(c => (c as SiteTreeNode).name === name) as SiteTreeNode;
+
+  describe('sensorStatus', () => {
+    it('should count a sensor by activity, presence and alerts', () => {
+      expect(sensorStatus({ isActive: false, presence: { status: 'offline' } }, true))
+        .toEqual({ total: 1, active: 0, online: 0, offline: 1, alerting: 1 });
+    });
+  });
+
+  describe('buildSiteTree', () => {
+    it('should nest zones within zones and sort sites by name', () => {
+      const tree = build([]);
+
+      expect(tree.children.map(c => (c as SiteTreeNode).name)).toEqual(['Experimental Farm', 'Pretoria Campus']);
+      const buildingNode = child(child(tree, 'Pretoria Campus'), 'Building 12');
+      expect(child(buildingNode, 'Lab A').type).toBe('zone');
+    });
+
+    it('should roll sensor status up to every ancestor', () => {
+      const tree = build([
+        sensor('LAB-1', { site: campus, zone: lab }),
+        sensor('LAB-2', { site: campus, zone: lab }, 'offline'),
+        sensor('ROOF-1', { site: campus }, 'online', false),
+        sensor('FARM-1', { site: farm })
+      ], ['LAB-2']);
+
+      const campusNode = child(tree, 'Pretoria Campus');
+      const labNode = child(child(campusNode, 'Building 12'), 'Lab A');
+
+      expect(labNode.status).toEqual({ total: 2, active: 2, online: 1, offline: 1, alerting: 1 });
+      expect(child(campusNode, 'Building 12').status.total).toBe(2);
+      expect(campusNode.status).toEqual({ total: 3, active: 2, online: 2, offline: 1, alerting: 1 });
+      expect(tree.status).toEqual({ total: 4, active: 3, online: 3, offline: 1, alerting: 1 });
+      expect(labNode.children).toContainEqual({ type: 'sensor', sensorId: 'LAB-2', alerting: true });
+    });
+
+    it('should collect sensors without a known site under Unassigned', () => {
+      const tree = build([
+        sensor('LOOSE-1', {}),
+        sensor('GONE-1', { site: new Types.ObjectId() })
+      ]);
+
+      const unassigned = child(tree, 'Unassigned');
+      expect(unassigned.status.total).toBe(2);
+      expect(unassigned.id).toBeUndefined();
+    });
+
+    it('should place a sensor at its site when its zone is elsewhere', () => {
+      const tree = build([sensor('MOVED-1', { site: farm, zone: lab })]);
+
+      expect(child(tree, 'Experimental Farm').children).toContainEqual(
+        { type: 'sensor', sensorId: 'MOVED-1', alerting: false }
+      );
+      expect(child(tree, 'Pretoria Campus').status.total).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tenant Scoping Tests
+ * Tests for tenant context, query conditions, pipeline scoping and namespaces
+ */
+
+import { PipelineStage, Types } from 'mongoose';
+import {
+  runWithTenant,
+  withoutTenant,
+  currentOrganisationId,
+  tenantCondition,
+  scopePipeline
+} from '../../models/tenant.plugin';
+import { ORGANISATION_SLUG_PATTERN } from '../../models/organisation.model';
+import { namespaceFor } from '../../services/organisation.service';
+import { tenantRoom } from '../../services/websocket.service';
+
+describe('Tenant Scoping', () => {
+  const organisationId = '665f1c2e8b3a4d0012345678';
+
+  describe('tenant context', () => {
+    it('should have no organisation outside a tenant', () => {
+      expect(currentOrganisationId()).toBeNull();
+    });
+
+    it('should carry the organisation across awaits', async () => {
+      const seen = await runWithTenant(organisationId, async () => {
+        await new Promise(resolve => setImmediate(resolve));
+        return currentOrganisationId();
+      });
+
+      expect(seen).toBe(organisationId);
+      expect(currentOrganisationId()).toBeNull();
+    });
+
+    it('should lift the scope inside withoutTenant', async () => {
+      const seen = await runWithTenant(organisationId, () =>
+        withoutTenant(async () => currentOrganisationId())
+      );
+
+      expect(seen).toBeNull();
+    });
+  });
+
+  describe('tenantCondition', () => {
+    it('should match only the organisation', () => {
+      expect(tenantCondition(organisationId)).toEqual({ organisation: new Types.ObjectId(organisationId) });
+    });
+
+    it('should also match unowned records for shared collections', () => {
+      expect(tenantCondition(organisationId, true)).toEqual({
+        organisation: { $in: [new Types.ObjectId(organisationId), null] }
+      });
+    });
+  });
+
+  describe('scopePipeline', () => {
+    const condition = tenantCondition(organisationId);
+
+    it('should prepend a $match stage', () => {
+      const pipeline: PipelineStage[] = [{ $group: { _id: '$sensorId' } }];
+      scopePipeline(pipeline, condition);
+
+      expect(pipeline[0]).toEqual({ $match: condition });
+      expect(pipeline).toHaveLength(2);
+    });
+
+    it('should keep $geoNear first and scope its query', () => {
+      const pipeline: PipelineStage[] = [
+        {
+          $geoNear: {
+            near: { type: 'Point', coordinates: [28.2, -25.7] },
+            distanceField: 'distance',
+            query: { isActive: true }
+          }
+        },
+        { $limit: 10 }
+      ];
+      scopePipeline(pipeline, condition);
+
+      expect(pipeline).toHaveLength(2);
+      expect((pipeline[0] as PipelineStage.GeoNear).$geoNear.query).toEqual({ isActive: true, ...condition });
+    });
+  });
+
+  describe('namespaces', () => {
+    it('should accept MQTT-safe slugs only', () => {
+      expect(ORGANISATION_SLUG_PATTERN.test('csir')).toBe(true);
+      expect(ORGANISATION_SLUG_PATTERN.test('water-research-2')).toBe(true);
+      expect(ORGANISATION_SLUG_PATTERN.test('ab')).toBe(false);
+      expect(ORGANISATION_SLUG_PATTERN.test('-lab')).toBe(false);
+      expect(ORGANISATION_SLUG_PATTERN.test('lab/+')).toBe(false);
+      expect(ORGANISATION_SLUG_PATTERN.test('Lab')).toBe(false);
+    });
+
+    it('should not resolve a namespace for unknown organisations', () => {
+      expect(namespaceFor(organisationId)).toBeNull();
+      expect(namespaceFor(null)).toBeNull();
+    });
+
+    it('should partition WebSocket rooms by organisation', () => {
+      expect(tenantRoom(organisationId)).toBe(`org:${organisationId}`);
+      expect(tenantRoom(organisationId, 'sensor:WS-001')).toBe(`org:${organisationId}:sensor:WS-001`);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Units Service Tests
+ * Tests for unit system and wind unit selection and metric conversions
+ */
+
+import { Request } from 'express';
+import {
+  convertValue,
+  convertUnit,
+  convertReadingData,
+  convertWeather,
+  resolveUnitSystem,
+  resolveWindUnits
+} from '../../services/units.service';
+import { IUser } from '../../models';
+
+describe('Units Service', () => {
+  describe('convertValue', () => {
+    it('should convert temperatures', () => {
+      expect(convertValue(25, '°C', 'imperial')).toBeCloseTo(77);
+      expect(convertValue(-40, '°C', 'imperial')).toBeCloseTo(-40);
+      expect(convertValue(0, '°C', 'si')).toBeCloseTo(273.15);
+    });
+
+    it('should convert speeds and pressures', () => {
+      expect(convertValue(36, 'km/h', 'si')).toBeCloseTo(10);
+      expect(convertValue(100, 'km/h', 'imperial')).toBeCloseTo(62.137, 2);
+      expect(convertValue(1013.25, 'hPa', 'imperial')).toBeCloseTo(29.92, 2);
+      expect(convertValue(1013.25, 'hPa', 'si')).toBeCloseTo(101325);
+    });
+
+    it('should leave metric values and unitless fields unchanged', () => {
+      expect(convertValue(25, '°C', 'metric')).toBe(25);
+      expect(convertValue(58, '%', 'imperial')).toBe(58);
+    });
+  });
+
+  describe('wind units', () => {
+    it('should convert wind speeds to knots in any unit system', () => {
+      expect(convertValue(18.52, 'km/h', 'metric', 'kn')).toBeCloseTo(10);
+      expect(convertValue(18.52, 'km/h', 'imperial', 'kn')).toBeCloseTo(10);
+      expect(convertUnit('km/h', 'si', 'kn')).toBe('kn');
+    });
+
+    it('should override the unit system for speeds only', () => {
+      const data = convertReadingData({ temperature: 20, windspeed: 36 }, 'imperial', 'm/s');
+
+      expect(data.temperature).toBeCloseTo(68);
+      expect(data.windspeed).toBeCloseTo(10);
+      expect(convertWeather({ temperature: 20, windspeed: 37.04 }, 'metric', 'kn')).toEqual({
+        temperature: 20,
+        windspeed: expect.closeTo(20)
+      });
+    });
+  });
+
+  describe('convertUnit', () => {
+    it('should name the unit for each system', () => {
+      expect(convertUnit('°C', 'imperial')).toBe('°F');
+      expect(convertUnit('km/h', 'si')).toBe('m/s');
+      expect(convertUnit('hPa', 'imperial')).toBe('inHg');
+      expect(convertUnit('m', 'si')).toBe('m');
+      expect(convertUnit('dBm', 'imperial')).toBe('dBm');
+    });
+  });
+
+  describe('convertReadingData', () => {
+    it('should convert catalogued fields by their unit', () => {
+      const data = convertReadingData(
+        { temperature: 20, humidity: 58, windspeed: 18, status: 'ok' },
+        'si'
+      );
+
+      expect(data.temperature).toBeCloseTo(293.15);
+      expect(data.humidity).toBe(58);
+      expect(data.windspeed).toBeCloseTo(5);
+      expect(data.status).toBe('ok');
+    });
+  });
+
+  describe('convertWeather', () => {
+    it('should convert temperature, wind speed and elevation', () => {
+      const weather = convertWeather(
+        { temperature: 30, windspeed: 16.09344, elevation: 1339, weathercode: 1 },
+        'imperial'
+      );
+
+      expect(weather.temperature).toBeCloseTo(86);
+      expect(weather.windspeed).toBeCloseTo(10);
+      expect(weather.elevation).toBeCloseTo(4393, 0);
+      expect(weather.weathercode).toBe(1);
+    });
+  });
+
+  describe('resolveUnitSystem', () => {
+    const request = (query: Record<string, unknown>, units?: string) =>
+      ({ query, user: units ? { preferences: { units } } as IUser : undefined }) as unknown as Request;
+
+    it('should prefer the query parameter over the user preference', () => {
+      expect(resolveUnitSystem(request({ units: 'si' }, 'imperial'))).toBe('si');
+    });
+
+    it('should fall back to the user preference, then metric', () => {
+      expect(resolveUnitSystem(request({}, 'imperial'))).toBe('imperial');
+      expect(resolveUnitSystem(request({}))).toBe('metric');
+      expect(resolveUnitSystem(request({ units: 'kelvin' }))).toBe('metric');
+    });
+  });
+
+  describe('resolveWindUnits', () => {
+    const request = (query: Record<string, unknown>, windUnits?: string) =>
+      ({
+        query,
+        user: windUnits ? { preferences: { units: 'metric', windUnits } } as IUser : undefined
+      }) as unknown as Request;
+
+    it('should prefer the query parameter over the user preference', () => {
+      expect(resolveWindUnits(request({ windUnits: 'mph' }, 'kn'))).toBe('mph');
+      expect(resolveWindUnits(request({}, 'kn'))).toBe('kn');
+    });
+
+    it('should follow the unit system without a valid wind unit', () => {
+      expect(resolveWindUnits(request({}))).toBeNull();
+      expect(resolveWindUnits(request({ windUnits: 'beaufort' }))).toBeNull();
+    });
+  });
+});
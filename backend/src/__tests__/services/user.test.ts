@@ -0,0 +1,44 @@
+/**
+ * User Service Tests
+ * Tests for user search filters
+ */
+
+import { escapeRegExp, buildUserFilter } from '../../services/user.service';
+
+describe('User Service', () => {
+  describe('escapeRegExp', () => {
+    it('should escape regular expression metacharacters', () => {
+      expect(escapeRegExp('john.doe+1@example.com')).toBe('john\\.doe\\+1@example\\.com');
+      expect(new RegExp(escapeRegExp('a(b)*')).test('xa(b)*y')).toBe(true);
+    });
+  });
+
+  describe('buildUserFilter', () => {
+    it('should return an empty filter without criteria', () => {
+      expect(buildUserFilter({})).toEqual({});
+      expect(buildUserFilter({ search: '   ' })).toEqual({});
+    });
+
+    it('should search usernames and emails case-insensitively', () => {
+      const filter = buildUserFilter({ search: 'John' });
+      const [username, email] = filter.$or as { username?: RegExp; email?: RegExp }[];
+
+      expect(username.username!.test('johndoe')).toBe(true);
+      expect(email.email!.test('JOHN@example.com')).toBe(true);
+      expect(username.username!.test('jane')).toBe(false);
+    });
+
+    it('should treat search text literally', () => {
+      const filter = buildUserFilter({ search: '.*' });
+      const [username] = filter.$or as { username: RegExp }[];
+
+      expect(username.username.test('johndoe')).toBe(false);
+      expect(username.username.test('odd.*name')).toBe(true);
+    });
+
+    it('should filter by role and status', () => {
+      expect(buildUserFilter({ role: 'viewer', isActive: 'false' })).toEqual({ role: 'viewer', isActive: false });
+      expect(buildUserFilter({ isActive: 'true' })).toEqual({ isActive: true });
+    });
+  });
+});
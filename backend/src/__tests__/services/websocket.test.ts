@@ -0,0 +1,65 @@
+/**
+ * WebSocket Service Tests
+ * Tests for subscription filters and reading projection
+ */
+
+import { parseSubscriptionFilter, matchesFilter, projectReading } from '../../services/websocket.service';
+
+describe('WebSocket Service', () => {
+  describe('parseSubscriptionFilter', () => {
+    it('should treat a missing filter as everything', () => {
+      expect(parseSubscriptionFilter(undefined)).toEqual({});
+      expect(parseSubscriptionFilter(null)).toEqual({});
+    });
+
+    it('should keep non-empty string lists and drop empty ones', () => {
+      expect(parseSubscriptionFilter({ types: ['weather'], sites: [], fields: ['temperature'] }))
+        .toEqual({ types: ['weather'], fields: ['temperature'] });
+    });
+
+    it('should reject malformed filters', () => {
+      expect(typeof parseSubscriptionFilter('weather')).toBe('string');
+      expect(typeof parseSubscriptionFilter({ types: 'weather' })).toBe('string');
+      expect(typeof parseSubscriptionFilter({ sites: [1, 2] })).toBe('string');
+      expect(typeof parseSubscriptionFilter({ fields: Array(101).fill('x') })).toBe('string');
+    });
+  });
+
+  describe('matchesFilter', () => {
+    const scope = { sensorId: 'WS-001', type: 'weather', site: '665f1c2e8b3a4d0012345678' };
+
+    it('should match everything without a filter', () => {
+      expect(matchesFilter(undefined, scope)).toBe(true);
+      expect(matchesFilter({}, { sensorId: 'WS-002' })).toBe(true);
+    });
+
+    it('should require every given list to match', () => {
+      expect(matchesFilter({ types: ['weather', 'air'] }, scope)).toBe(true);
+      expect(matchesFilter({ types: ['air'] }, scope)).toBe(false);
+      expect(matchesFilter({ types: ['weather'], sites: ['other'] }, scope)).toBe(false);
+      expect(matchesFilter({ sites: ['665f1c2e8b3a4d0012345678'] }, scope)).toBe(true);
+    });
+
+    it('should not match sensors without the filtered attribute', () => {
+      expect(matchesFilter({ sites: ['665f1c2e8b3a4d0012345678'] }, { sensorId: 'WS-002' })).toBe(false);
+    });
+  });
+
+  describe('projectReading', () => {
+    const reading = { sensorId: 'WS-001', data: { temperature: 21.5, humidity: 40 } };
+
+    it('should return the reading unchanged without a field list', () => {
+      expect(projectReading(reading)).toBe(reading);
+    });
+
+    it('should keep only the subscribed fields', () => {
+      expect(projectReading(reading, ['temperature', 'pressure']))
+        .toEqual({ sensorId: 'WS-001', data: { temperature: 21.5 } });
+      expect(reading.data).toEqual({ temperature: 21.5, humidity: 40 });
+    });
+
+    it('should drop readings with none of the subscribed fields', () => {
+      expect(projectReading(reading, ['pressure'])).toBeNull();
+    });
+  });
+});
@@ -5,6 +5,8 @@
  * Features:
  * - RESTful API endpoints
  * - JWT authentication
+ * - Audit trail of changes and sign-ins
+ * - Multi-tenant organisations
  * - MQTT integration for IoT data
  * - WebSocket support for real-time updates
  * - MongoDB database integration
@@ -20,6 +22,12 @@ import dotenv from 'dotenv';
 import { connectDatabase } from './config/database';
 import { initializeMQTT } from './services/mqtt.service';
 import { initializeWebSocket } from './services/websocket.service';
+import { startRollupJob, stopRollupJob } from './services/rollup.service';
+import { startPresenceMonitor, stopPresenceMonitor } from './services/presence.service';
+import { startCommandMonitor, stopCommandMonitor } from './services/command.service';
+import { loadMeasurementCatalog } from './services/measurement.service';
+import { backfillGeoPoints } from './services/geo.service';
+import { ensureDefaultOrganisation } from './services/organisation.service';
 import { logger } from './config/logger';
 
 // Routes
@@ -28,9 +36,17 @@ import weatherRoutes from './routes/weather.routes';
 import sensorRoutes from './routes/sensor.routes';
 import authRoutes from './routes/auth.routes';
 import iotRoutes from './routes/iot.routes';
+import alertRoutes from './routes/alert.routes';
+import siteRoutes from './routes/site.routes';
+import apiKeyRoutes from './routes/apiKey.routes';
+import organisationRoutes from './routes/organisation.routes';
+import userRoutes from './routes/user.routes';
+import auditRoutes from './routes/audit.routes';
 
 // Error handler
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
+import { identifyClient } from './middleware/auth.middleware';
+import { auditTrail } from './middleware/audit.middleware';
 
 // Load environment variables
 dotenv.config();
@@ -54,7 +70,9 @@ app.use(cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key'],
+  // Lets the dashboard name downloaded exports
+  exposedHeaders: ['Content-Disposition']
 }));
 
 // Rate limiting
@@ -84,12 +102,24 @@ app.use((req, _res, next) => {
   next();
 });
 
+// Scope every request's queries to the client's organisation
+app.use('/api/', identifyClient);
+
+// Record who changed what on every mutating request
+app.use('/api/', auditTrail);
+
 // API Routes
 app.use('/api/health', healthRoutes);
 app.use('/api/weather', weatherRoutes);
 app.use('/api/sensors', sensorRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/iot', iotRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/sites', siteRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/organisations', organisationRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/audit', auditRoutes);
 
 // Root endpoint
 app.get('/', (_req, res) => {
@@ -103,6 +133,12 @@ app.get('/', (_req, res) => {
       weather: '/api/weather',
       sensors: '/api/sensors',
       iot: '/api/iot',
+      alerts: '/api/alerts',
+      sites: '/api/sites',
+      apiKeys: '/api/api-keys',
+      organisations: '/api/organisations',
+      users: '/api/users',
+      audit: '/api/audit',
       auth: '/api/auth'
     }
   });
@@ -119,6 +155,15 @@ async function startServer(): Promise<void> {
     await connectDatabase();
     logger.info('✅ Connected to MongoDB');
 
+    // Assign data from before multi-tenancy to the default organisation
+    await ensureDefaultOrganisation();
+
+    // Seed and load the measurement catalog before any readings are ingested
+    await loadMeasurementCatalog();
+
+    // Derive GeoJSON points for records stored before geospatial indexing
+    await backfillGeoPoints();
+
     // Initialize MQTT client (optional - will continue without if broker not available)
     const mqttClient = await initializeMQTT();
     if (mqttClient) {
@@ -131,6 +176,12 @@ async function startServer(): Promise<void> {
     initializeWebSocket(httpServer);
     logger.info('✅ WebSocket server initialized');
 
+    // Start background reading rollups
+    startRollupJob();
+    startPresenceMonitor();
+    startCommandMonitor();
+    logger.info('✅ Reading rollup job started');
+
     // Start HTTP server
     httpServer.listen(PORT, () => {
       logger.info(`🚀 CSIR IoT Backend running on port ${PORT}`);
@@ -147,6 +198,9 @@ async function startServer(): Promise<void> {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received. Shutting down gracefully...');
+  stopRollupJob();
+  stopPresenceMonitor();
+  stopCommandMonitor();
   httpServer.close(() => {
     logger.info('HTTP server closed');
     process.exit(0);
@@ -155,6 +209,9 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received. Shutting down gracefully...');
+  stopRollupJob();
+  stopPresenceMonitor();
+  stopCommandMonitor();
   httpServer.close(() => {
     logger.info('HTTP server closed');
     process.exit(0);
@@ -0,0 +1,98 @@
+/**
+ * Audit Middleware
+ * Records an audit event for every mutating request and for sign-in activity
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuditContext, IAuditActor, IUser, currentOrganisationId, runWithAudit } from '../models';
+import { auditAction, recordAuditEvent } from '../services/audit.service';
+import { getDefaultOrganisationId } from '../services/organisation.service';
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/**
+ * Who made a request: the signed-in user or the API key
+ */
+function actorFor(req: Request, user?: IUser | null): IAuditActor {
+  const actingUser = user ?? req.user;
+  return {
+    user: actingUser?._id ?? null,
+    username: actingUser?.username,
+    role: actingUser?.role,
+    apiKey: req.apiKey?._id ?? null,
+    apiKeyPrefix: req.apiKey?.prefix
+  };
+}
+
+/**
+ * Audit every POST, PUT, PATCH and DELETE request
+ * The document changes made while handling the request are collected and
+ * stored with the actor, client and response status once it finishes.
+ * Runs after identifyClient, so the actor and organisation are known.
+ */
+export function auditTrail(req: Request, res: Response, next: NextFunction): void {
+  if (!MUTATING_METHODS.has(req.method)) {
+    next();
+    return;
+  }
+
+  const context: AuditContext = { enabled: true, changes: [] };
+  const organisation = currentOrganisationId() ?? getDefaultOrganisationId();
+
+  res.on('finish', () => {
+    if (res.locals.skipAudit) return;
+
+    void recordAuditEvent({
+      category: 'request',
+      action: auditAction(req.method, req.originalUrl.split('?')[0]),
+      outcome: res.statusCode < 400 ? 'success' : 'failure',
+      organisation,
+      actor: actorFor(req),
+      method: req.method,
+      path: req.originalUrl,
+      statusCode: res.statusCode,
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+      body: req.is('application/json') ? req.body : undefined,
+      changes: context.changes
+    });
+  });
+
+  runWithAudit(context, next);
+}
+
+/**
+ * Leave a route out of the request audit trail
+ * Used for high-volume device ingestion, and for auth routes that record
+ * their own events with auditAuthEvent.
+ */
+export function skipAudit(_req: Request, res: Response, next: NextFunction): void {
+  res.locals.skipAudit = true;
+  runWithAudit({ enabled: false, changes: [] }, next);
+}
+
+/**
+ * Record a sign-in, sign-out, registration or password change
+ * `user` is the account concerned, when known; failed logins for unknown
+ * emails are recorded against the default organisation.
+ */
+export function auditAuthEvent(
+  req: Request,
+  action: string,
+  outcome: 'success' | 'failure',
+  user?: IUser | null,
+  details?: Record<string, unknown>
+): Promise<void> {
+  return recordAuditEvent({
+    category: 'auth',
+    action: `auth.${action}`,
+    outcome,
+    organisation: user?.organisation?.toString() ?? currentOrganisationId() ?? getDefaultOrganisationId(),
+    actor: actorFor(req, user),
+    method: req.method,
+    path: req.originalUrl,
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+    details
+  });
+}
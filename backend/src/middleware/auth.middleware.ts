@@ -5,8 +5,11 @@
 
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { User, IUser } from '../models';
+import { User, IUser, IApiKey, ApiKeyScope, runWithTenant, withoutTenant } from '../models';
 import { logger } from '../config/logger';
+import { isSessionActive } from '../services/session.service';
+import { verifyApiKey, apiKeyAllows } from '../services/apiKey.service';
+import { getDefaultOrganisationId, isOrganisationActive, isPlatformAdmin } from '../services/organisation.service';
 
 // Extend Express Request to include user
 declare global {
@@ -14,20 +17,152 @@ declare global {
     interface Request {
       user?: IUser;
       userId?: string;
+      sessionId?: string;
+      apiKey?: IApiKey;
     }
   }
 }
 
 export interface JWTPayload {
   userId: string;
+  sessionId: string;
   username: string;
   role: string;
   iat: number;
   exp: number;
 }
 
+export interface RefreshTokenPayload {
+  userId: string;
+  sessionId: string;
+  tokenId: string;
+  type: 'refresh';
+}
+
 const JWT_SECRET = process.env.JWT_SECRET || 'csir-jwt-secret-key-2026';
 
+/**
+ * Verify an access token and check its session is still signed in
+ * Returns null for refresh tokens, tokens from before sessions existed and
+ * revoked sessions; throws on bad or expired signatures.
+ */
+async function verifyAccessToken(token: string): Promise<JWTPayload | null> {
+  const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload & { type?: string };
+
+  if (decoded.type === 'refresh' || !decoded.sessionId) return null;
+  if (!(await isSessionActive(decoded.sessionId, decoded.userId))) return null;
+
+  return decoded;
+}
+
+/**
+ * Active user signed in with an access token, and its session, or null
+ * Used where no request is available, e.g. WebSocket handshakes.
+ */
+export async function userForAccessToken(
+  token: string
+): Promise<{ user: IUser; sessionId: string } | null> {
+  try {
+    const decoded = await verifyAccessToken(token);
+    const user = decoded && await withoutTenant(() => User.findById(decoded.userId));
+    return decoded && user && user.isActive ? { user, sessionId: decoded.sessionId } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Serve anonymous requests as the default organisation, e.g. for a public
+// dashboard; otherwise tenant data needs a signed-in user or an API key
+export const ALLOW_ANONYMOUS_ACCESS = process.env.ALLOW_ANONYMOUS_ACCESS === 'true';
+
+// Paths (below /api) that serve no tenant data: sign-in, health checks and
+// weather code lookups. Sign-in also ignores stale credentials a client sends.
+const OPEN_PATHS = [
+  /^\/auth\/(login|register|refresh)\/?$/,
+  /^\/health(\/|$)/,
+  /^\/weather\/codes?(\/|$)/
+];
+
+/**
+ * Check whether a path below /api can be used without credentials
+ */
+export function isOpenPath(path: string): boolean {
+  return OPEN_PATHS.some(pattern => pattern.test(path));
+}
+
+/**
+ * Identify the client of every request and run the rest of the request
+ * inside its organisation, so all tenant-scoped queries are limited to it
+ * Credentials that are sent but invalid or expired are rejected with 401
+ * rather than treated as anonymous. Anonymous requests see the default
+ * organisation only with ALLOW_ANONYMOUS_ACCESS; otherwise they are limited
+ * to the open paths.
+ */
+export async function identifyClient(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const open = isOpenPath(req.path);
+  const key = req.get('x-api-key');
+  const authHeader = req.headers.authorization;
+  const token = authHeader && authHeader.split(' ')[1];
+  let organisationId: string | null = null;
+  let credentialError: string | null = null;
+
+  try {
+    if (key) {
+      const apiKey = await verifyApiKey(key, req.ip);
+      if (typeof apiKey === 'string') {
+        credentialError = apiKey;
+      } else {
+        req.apiKey = apiKey;
+        organisationId = apiKey.organisation.toString();
+      }
+    } else if (token) {
+      const decoded = await verifyAccessToken(token);
+      const user = decoded && await withoutTenant(() => User.findById(decoded.userId));
+
+      if (decoded && user && user.isActive) {
+        req.user = user;
+        req.userId = decoded.userId;
+        req.sessionId = decoded.sessionId;
+        organisationId = user.organisation.toString();
+      } else {
+        credentialError = 'Session revoked or invalid';
+      }
+    }
+  } catch (error) {
+    credentialError = error instanceof jwt.TokenExpiredError ? 'Token expired' : 'Invalid token';
+  }
+
+  if (credentialError && !open) {
+    res.status(401).json({
+      success: false,
+      error: credentialError
+    });
+    return;
+  }
+
+  if (!organisationId && !open && !ALLOW_ANONYMOUS_ACCESS) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return;
+  }
+
+  if (organisationId && !isOrganisationActive(organisationId)) {
+    res.status(403).json({
+      success: false,
+      error: 'Organisation is deactivated'
+    });
+    return;
+  }
+
+  runWithTenant(organisationId ?? getDefaultOrganisationId(), next);
+}
+
 /**
  * Verify JWT token and attach user to request
  */
@@ -36,6 +171,12 @@ export async function authenticateToken(
   res: Response,
   next: NextFunction
 ): Promise<void> {
+  // Already verified by identifyClient
+  if (req.user && req.sessionId) {
+    next();
+    return;
+  }
+
   try {
     const authHeader = req.headers.authorization;
     const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
@@ -48,10 +189,18 @@ export async function authenticateToken(
       return;
     }
 
-    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
-    
+    const decoded = await verifyAccessToken(token);
+
+    if (!decoded) {
+      res.status(401).json({
+        success: false,
+        error: 'Session revoked or invalid'
+      });
+      return;
+    }
+
     // Fetch user from database
-    const user = await User.findById(decoded.userId);
+    const user = await withoutTenant(() => User.findById(decoded.userId));
     
     if (!user || !user.isActive) {
       res.status(401).json({
@@ -63,6 +212,7 @@ export async function authenticateToken(
 
     req.user = user;
     req.userId = decoded.userId;
+    req.sessionId = decoded.sessionId;
     next();
 
   } catch (error) {
@@ -98,17 +248,23 @@ export async function optionalAuth(
   _res: Response,
   next: NextFunction
 ): Promise<void> {
+  if (req.user) {
+    next();
+    return;
+  }
+
   try {
     const authHeader = req.headers.authorization;
     const token = authHeader && authHeader.split(' ')[1];
 
     if (token) {
-      const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
-      const user = await User.findById(decoded.userId);
+      const decoded = await verifyAccessToken(token);
+      const user = decoded && await withoutTenant(() => User.findById(decoded.userId));
       
-      if (user && user.isActive) {
+      if (decoded && user && user.isActive) {
         req.user = user;
         req.userId = decoded.userId;
+        req.sessionId = decoded.sessionId;
       }
     }
   } catch (error) {
@@ -119,6 +275,50 @@ export async function optionalAuth(
   next();
 }
 
+/**
+ * Authenticate a machine client by its X-API-Key header, or a user by the
+ * usual Bearer token when no key is sent
+ * Keys must hold the scope; per-sensor limits are checked by the route.
+ */
+export function authenticateClient(scope: ApiKeyScope) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.get('x-api-key');
+    if (!key) {
+      await authenticateToken(req, res, next);
+      return;
+    }
+
+    try {
+      const apiKey = req.apiKey ?? await verifyApiKey(key, req.ip);
+      if (typeof apiKey === 'string') {
+        res.status(401).json({
+          success: false,
+          error: apiKey
+        });
+        return;
+      }
+
+      if (!apiKeyAllows(apiKey, scope)) {
+        res.status(403).json({
+          success: false,
+          error: `API key lacks the ${scope} scope`
+        });
+        return;
+      }
+
+      req.apiKey = apiKey;
+      next();
+
+    } catch (error) {
+      logger.error('API key authentication error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Authentication failed'
+      });
+    }
+  };
+}
+
 /**
  * Role-based access control middleware
  */
@@ -144,12 +344,36 @@ export function requireRole(...roles: string[]) {
   };
 }
 
+/**
+ * Restrict a route to platform admins (admins of the default organisation)
+ */
+export function requirePlatformAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return;
+  }
+
+  if (!isPlatformAdmin(req.user)) {
+    res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions'
+    });
+    return;
+  }
+
+  next();
+}
+
 /**
  * Generate JWT token
  */
-export function generateToken(user: IUser): string {
+export function generateToken(user: IUser, sessionId: string): string {
   const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
     userId: user._id.toString(),
+    sessionId,
     username: user.username,
     role: user.role
   };
@@ -161,14 +385,36 @@ export function generateToken(user: IUser): string {
 
 /**
  * Generate refresh token
+ * Valid until the session expires, and only while it is the session's current token.
  */
-export function generateRefreshToken(user: IUser): string {
-  const payload = {
+export function generateRefreshToken(
+  user: IUser,
+  sessionId: string,
+  tokenId: string,
+  expiresAt: Date
+): string {
+  const payload: RefreshTokenPayload = {
     userId: user._id.toString(),
+    sessionId,
+    tokenId,
     type: 'refresh'
   };
 
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: '7d'
-  });
+  return jwt.sign({ ...payload, exp: Math.floor(expiresAt.getTime() / 1000) }, JWT_SECRET);
+}
+
+/**
+ * Verify a refresh token's signature and expiry
+ * Returns null for invalid, expired or non-refresh tokens.
+ */
+export function verifyRefreshToken(token: string): RefreshTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as Partial<RefreshTokenPayload>;
+    if (decoded.type !== 'refresh' || !decoded.userId || !decoded.sessionId || !decoded.tokenId) {
+      return null;
+    }
+    return decoded as RefreshTokenPayload;
+  } catch {
+    return null;
+  }
 }
@@ -96,6 +96,18 @@ export const validateCreateSensor = [
     .withMessage('Location name is required')
     .isString()
     .trim(),
+  body('configuration.decoder.codec')
+    .optional()
+    .isString()
+    .withMessage('Decoder codec must be a string'),
+  body('site')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Site must be a site ID'),
+  body('zone')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Zone must be a zone ID'),
   handleValidationErrors
 ];
 
@@ -141,6 +153,59 @@ export const validateUserLogin = [
   handleValidationErrors
 ];
 
+/**
+ * Token refresh validation
+ */
+export const validateRefreshToken = [
+  body('refreshToken')
+    .notEmpty()
+    .withMessage('Refresh token is required')
+    .isString()
+    .withMessage('Refresh token must be a string'),
+  handleValidationErrors
+];
+
+/**
+ * Session ID parameter validation
+ */
+export const validateSessionId = [
+  param('sessionId')
+    .isUUID()
+    .withMessage('Invalid session ID format'),
+  handleValidationErrors
+];
+
+/**
+ * User administration validation
+ */
+export const validateUserQuery = [
+  query('search')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Search cannot exceed 100 characters'),
+  query('role')
+    .optional()
+    .isIn(['admin', 'user', 'viewer'])
+    .withMessage('Role must be one of: admin, user, viewer'),
+  query('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be true or false'),
+  handleValidationErrors
+];
+
+export const validateUserRole = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  body('role')
+    .isIn(['admin', 'user', 'viewer'])
+    .withMessage('Role must be one of: admin, user, viewer'),
+  handleValidationErrors
+];
+
 /**
  * IoT reading validation
  */
@@ -158,6 +223,17 @@ export const validateIoTReading = [
   handleValidationErrors
 ];
 
+/**
+ * Batch IoT reading validation
+ * Items are validated individually by the ingestion service
+ */
+export const validateBatchReadings = [
+  body('readings')
+    .isArray({ min: 1 })
+    .withMessage('Readings must be a non-empty array'),
+  handleValidationErrors
+];
+
 /**
  * Pagination validation
  */
@@ -172,3 +248,644 @@ export const validatePagination = [
     .withMessage('Limit must be between 1 and 100'),
   handleValidationErrors
 ];
+
+/**
+ * Time range query validation
+ */
+export const validateTimeRange = [
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be an ISO 8601 date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be an ISO 8601 date'),
+  handleValidationErrors
+];
+
+/**
+ * Reading aggregation query validation
+ */
+export const validateAggregateQuery = [
+  query('sensorId')
+    .notEmpty()
+    .withMessage('Sensor ID is required')
+    .isString()
+    .trim(),
+  query('field')
+    .notEmpty()
+    .withMessage('Field is required')
+    .matches(/^[a-zA-Z0-9_]+$/)
+    .withMessage('Field can only contain letters, numbers, and underscores'),
+  query('interval')
+    .optional()
+    .isIn(['1m', '5m', '1h', '1d'])
+    .withMessage('Interval must be one of: 1m, 5m, 1h, 1d'),
+  query('fn')
+    .optional()
+    .custom((value: string) => value.split(',').every(fn => ['avg', 'min', 'max', 'count', 'p95'].includes(fn)))
+    .withMessage('fn must be a comma-separated list of: avg, min, max, count, p95'),
+  handleValidationErrors
+];
+
+/**
+ * MongoDB ObjectId parameter validation
+ */
+export const validateObjectId = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  handleValidationErrors
+];
+
+/**
+ * Site validation
+ */
+export const validateCreateSite = [
+  body('name')
+    .notEmpty()
+    .withMessage('Name is required')
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Name cannot exceed 100 characters'),
+  body('description')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('address')
+    .optional()
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('Address cannot exceed 200 characters'),
+  body('boundary')
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('Boundary must be a GeoJSON Polygon'),
+  handleValidationErrors
+];
+
+export const validateUpdateSite = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+  body('description')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('address')
+    .optional()
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('Address cannot exceed 200 characters'),
+  body('boundary')
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('Boundary must be a GeoJSON Polygon'),
+  handleValidationErrors
+];
+
+/**
+ * Zone validation
+ */
+export const validateZoneParams = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid site ID format'),
+  param('zoneId')
+    .isMongoId()
+    .withMessage('Invalid zone ID format'),
+  handleValidationErrors
+];
+
+export const validateCreateZone = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid site ID format'),
+  body('name')
+    .notEmpty()
+    .withMessage('Name is required')
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Name cannot exceed 100 characters'),
+  body('parent')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Parent must be a zone ID'),
+  body('description')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  handleValidationErrors
+];
+
+export const validateUpdateZone = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid site ID format'),
+  param('zoneId')
+    .isMongoId()
+    .withMessage('Invalid zone ID format'),
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+  body('parent')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Parent must be a zone ID'),
+  body('description')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  handleValidationErrors
+];
+
+/**
+ * Alert rule attributes shared by create and update
+ */
+const alertRuleRules = [
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Name cannot exceed 100 characters'),
+  body('field')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Field cannot be empty'),
+  body('condition')
+    .optional()
+    .isIn(['above', 'below', 'rate_of_change'])
+    .withMessage('Condition must be one of: above, below, rate_of_change'),
+  body('threshold')
+    .optional()
+    .isFloat()
+    .withMessage('Threshold must be a number'),
+  body('duration')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Duration must be a non-negative number of seconds'),
+  body('severity')
+    .optional()
+    .isIn(['info', 'warning', 'critical'])
+    .withMessage('Severity must be one of: info, warning, critical')
+];
+
+/**
+ * Alert rule creation validation
+ */
+export const validateAlertRule = [
+  body('sensorId')
+    .notEmpty()
+    .withMessage('Sensor ID is required')
+    .isString()
+    .trim(),
+  body('name')
+    .exists()
+    .withMessage('Name is required'),
+  body('field')
+    .exists()
+    .withMessage('Field is required'),
+  body('condition')
+    .exists()
+    .withMessage('Condition is required'),
+  body('threshold')
+    .exists()
+    .withMessage('Threshold is required'),
+  ...alertRuleRules,
+  handleValidationErrors
+];
+
+/**
+ * Alert rule update validation
+ */
+export const validateUpdateAlertRule = [
+  ...alertRuleRules,
+  body('isEnabled')
+    .optional()
+    .isBoolean()
+    .withMessage('isEnabled must be a boolean'),
+  handleValidationErrors
+];
+
+/**
+ * API key validation
+ * Sensor IDs and sites optionally limit which sensors the key covers
+ */
+export const validateCreateApiKey = [
+  body('name')
+    .notEmpty()
+    .withMessage('Name is required')
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Name cannot exceed 100 characters'),
+  body('scopes')
+    .isArray({ min: 1 })
+    .withMessage('At least one scope is required'),
+  body('scopes.*')
+    .isIn(['readings:write'])
+    .withMessage('Scopes must be from: readings:write'),
+  body('sensorIds')
+    .optional()
+    .isArray({ max: 1000 })
+    .withMessage('Sensor IDs must be an array of at most 1000 IDs'),
+  body('sensorIds.*')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Sensor IDs must be non-empty strings'),
+  body('sites')
+    .optional()
+    .isArray({ max: 100 })
+    .withMessage('Sites must be an array of at most 100 IDs'),
+  body('sites.*')
+    .isMongoId()
+    .withMessage('Invalid site ID format'),
+  body('expiresAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Expiry must be an ISO 8601 date')
+    .custom((value: string) => new Date(value).getTime() > Date.now())
+    .withMessage('Expiry must be in the future'),
+  handleValidationErrors
+];
+
+/**
+ * Organisation validation
+ */
+export const validateCreateOrganisation = [
+  body('name')
+    .notEmpty()
+    .withMessage('Name is required')
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Name cannot exceed 100 characters'),
+  body('slug')
+    .notEmpty()
+    .withMessage('Slug is required')
+    .isString()
+    .trim()
+    .toLowerCase()
+    .matches(/^[a-z0-9][a-z0-9-]{1,38}[a-z0-9]$/)
+    .withMessage('Slug must be 3-40 lowercase letters, digits or dashes'),
+  body('description')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('admin')
+    .optional()
+    .isObject()
+    .withMessage('Admin must be an object'),
+  body('admin.username')
+    .if(body('admin').exists())
+    .isString()
+    .trim()
+    .isLength({ min: 3, max: 30 })
+    .withMessage('Admin username must be between 3 and 30 characters')
+    .matches(/^[a-zA-Z0-9_]+$/)
+    .withMessage('Admin username can only contain letters, numbers, and underscores'),
+  body('admin.email')
+    .if(body('admin').exists())
+    .isEmail()
+    .withMessage('Invalid admin email format')
+    .normalizeEmail(),
+  body('admin.password')
+    .if(body('admin').exists())
+    .isString()
+    .isLength({ min: 6 })
+    .withMessage('Admin password must be at least 6 characters'),
+  handleValidationErrors
+];
+
+export const validateUpdateOrganisation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+  body('description')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+  handleValidationErrors
+];
+
+/**
+ * Pending sensor approval validation
+ * Fields are optional overrides of what the device reported
+ */
+export const validateApprovePendingSensor = [
+  param('sensorId')
+    .notEmpty()
+    .withMessage('Sensor ID is required')
+    .isString()
+    .trim(),
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Name cannot exceed 100 characters'),
+  body('type')
+    .optional()
+    .isIn(['temperature', 'humidity', 'pressure', 'wind', 'combined'])
+    .withMessage('Invalid sensor type'),
+  body('location.latitude')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+  body('location.longitude')
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
+  handleValidationErrors
+];
+
+/**
+ * Pending sensor rejection validation
+ */
+export const validateRejectPendingSensor = [
+  param('sensorId')
+    .notEmpty()
+    .withMessage('Sensor ID is required')
+    .isString()
+    .trim(),
+  body('reason')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+  handleValidationErrors
+];
+
+/**
+ * Nearby sensors query validation
+ */
+export const validateNearQuery = [
+  query('lat')
+    .notEmpty()
+    .withMessage('lat is required')
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('lat must be between -90 and 90'),
+  query('lon')
+    .notEmpty()
+    .withMessage('lon is required')
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('lon must be between -180 and 180'),
+  query('radiusKm')
+    .optional()
+    .isFloat({ gt: 0, max: 20000 })
+    .withMessage('radiusKm must be a positive number of kilometres up to 20000'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('Limit must be between 1 and 500'),
+  handleValidationErrors
+];
+
+/**
+ * Sensors within an area query validation
+ */
+export const validateWithinQuery = [
+  query('polygon')
+    .optional()
+    .isString()
+    .notEmpty()
+    .withMessage('Polygon cannot be empty'),
+  query('site')
+    .optional()
+    .isMongoId()
+    .withMessage('Site must be a valid ID'),
+  query()
+    .custom((value: Record<string, unknown>) => Boolean(value.polygon) !== Boolean(value.site))
+    .withMessage('Provide either polygon or site'),
+  handleValidationErrors
+];
+
+/**
+ * Fleet import validation
+ */
+export const validateFleetImport = [
+  query('dryRun')
+    .optional()
+    .isBoolean()
+    .withMessage('dryRun must be true or false'),
+  handleValidationErrors
+];
+
+/**
+ * Fleet export validation
+ */
+export const validateFleetExport = [
+  query('format')
+    .optional()
+    .isIn(['csv', 'json'])
+    .withMessage('Format must be one of: csv, json'),
+  handleValidationErrors
+];
+
+/**
+ * Sensor command validation
+ */
+export const validateSensorCommand = [
+  param('sensorId')
+    .notEmpty()
+    .withMessage('Sensor ID is required')
+    .isString()
+    .trim(),
+  body('type')
+    .isIn(['set_config', 'reboot', 'calibrate'])
+    .withMessage('Type must be one of: set_config, reboot, calibrate'),
+  body('params')
+    .optional()
+    .isObject()
+    .withMessage('Params must be an object'),
+  body('params.readingInterval')
+    .optional()
+    .isInt({ min: 1000 })
+    .withMessage('Reading interval must be at least 1000 milliseconds'),
+  body('params.thresholds.min')
+    .optional()
+    .isFloat()
+    .withMessage('Threshold min must be a number'),
+  body('params.thresholds.max')
+    .optional()
+    .isFloat()
+    .withMessage('Threshold max must be a number'),
+  handleValidationErrors
+];
+
+/**
+ * Measurement field attributes shared by create and update
+ */
+const measurementFieldRules = [
+  body('label')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Label must be 1-50 characters'),
+  body('unit')
+    .optional()
+    .isString()
+    .trim(),
+  body('dataType')
+    .optional()
+    .isIn(['number', 'integer', 'boolean', 'string'])
+    .withMessage('Data type must be one of: number, integer, boolean, string'),
+  body('min')
+    .optional({ values: 'null' })
+    .isFloat()
+    .withMessage('Min must be a number'),
+  body('max')
+    .optional({ values: 'null' })
+    .isFloat()
+    .withMessage('Max must be a number'),
+  body('precision')
+    .optional()
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Precision must be between 0 and 6'),
+  body('icon')
+    .optional()
+    .isString()
+    .trim(),
+  body('description')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Description cannot exceed 200 characters')
+];
+
+/**
+ * Measurement field creation validation
+ */
+export const validateCreateMeasurementField = [
+  body('name')
+    .matches(/^[a-z][a-z0-9_]*$/)
+    .withMessage('Name must be lowercase letters, digits and underscores, starting with a letter'),
+  body('label')
+    .notEmpty()
+    .withMessage('Label is required'),
+  ...measurementFieldRules,
+  handleValidationErrors
+];
+
+/**
+ * Measurement field update validation
+ */
+export const validateUpdateMeasurementField = [
+  param('name')
+    .notEmpty()
+    .withMessage('Field name is required'),
+  ...measurementFieldRules,
+  handleValidationErrors
+];
+
+/**
+ * Unit system and wind unit query validation
+ */
+export const validateUnits = [
+  query('units')
+    .optional()
+    .isIn(['metric', 'imperial', 'si'])
+    .withMessage('Units must be one of: metric, imperial, si'),
+  query('windUnits')
+    .optional()
+    .isIn(['km/h', 'mph', 'm/s', 'kn'])
+    .withMessage('Wind units must be one of: km/h, mph, m/s, kn'),
+  handleValidationErrors
+];
+
+/**
+ * Reading export query validation
+ */
+export const validateExportQuery = [
+  query('sensorIds')
+    .optional()
+    .isString()
+    .trim(),
+  query('fields')
+    .optional()
+    .matches(/^[a-zA-Z0-9_]+(,[a-zA-Z0-9_]+)*$/)
+    .withMessage('Fields must be a comma-separated list of field names'),
+  query('format')
+    .optional()
+    .isIn(['csv', 'ndjson', 'parquet'])
+    .withMessage('Format must be one of: csv, ndjson, parquet'),
+  handleValidationErrors
+];
+
+/**
+ * Audit event query validation
+ */
+export const validateAuditQuery = [
+  query('category')
+    .optional()
+    .isIn(['request', 'auth'])
+    .withMessage('Category must be one of: request, auth'),
+  query('action')
+    .optional()
+    .matches(/^[a-z0-9_-]+(\.[a-z_]+)?$/)
+    .withMessage('Action must be a resource or resource.verb, e.g. sensors.delete'),
+  query('outcome')
+    .optional()
+    .isIn(['success', 'failure'])
+    .withMessage('Outcome must be one of: success, failure'),
+  query('user')
+    .optional()
+    .isMongoId()
+    .withMessage('User must be a valid ID'),
+  query('model')
+    .optional()
+    .isAlpha()
+    .withMessage('Model must be a model name, e.g. Sensor'),
+  query('documentId')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Document ID cannot exceed 100 characters'),
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be an ISO 8601 date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be an ISO 8601 date'),
+  handleValidationErrors
+];
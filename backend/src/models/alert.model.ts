@@ -0,0 +1,119 @@
+/**
+ * Alert Model
+ * MongoDB schema for alerts raised by the rules engine
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { AlertCondition, AlertSeverity } from './alertRule.model';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+import { auditPlugin } from './audit.plugin';
+
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export interface IAlert extends Document, ITenantScoped {
+  sensorId: string;
+  ruleKey: string; // AlertRule id, or "threshold:min" / "threshold:max" for sensor thresholds
+  ruleName: string;
+  field: string;
+  condition: AlertCondition;
+  threshold: number;
+  value: number;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  message: string;
+  raisedAt: Date;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: string;
+  resolvedAt?: Date;
+  resolvedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const alertSchema = new Schema<IAlert>(
+  {
+    sensorId: {
+      type: String,
+      required: true,
+      ref: 'Sensor'
+    },
+    ruleKey: {
+      type: String,
+      required: true
+    },
+    ruleName: {
+      type: String,
+      required: true
+    },
+    field: {
+      type: String,
+      required: true
+    },
+    condition: {
+      type: String,
+      enum: ['above', 'below', 'rate_of_change'],
+      required: true
+    },
+    threshold: {
+      type: Number,
+      required: true
+    },
+    value: {
+      type: Number,
+      required: true
+    },
+    severity: {
+      type: String,
+      enum: ['info', 'warning', 'critical'],
+      default: 'warning'
+    },
+    status: {
+      type: String,
+      enum: ['open', 'acknowledged', 'resolved'],
+      default: 'open',
+      index: true
+    },
+    message: {
+      type: String,
+      required: true
+    },
+    raisedAt: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+    acknowledgedAt: {
+      type: Date
+    },
+    acknowledgedBy: {
+      type: String
+    },
+    resolvedAt: {
+      type: Date
+    },
+    resolvedBy: {
+      type: String
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+// Compound indexes for alert lookups
+alertSchema.index({ sensorId: 1, ruleKey: 1, status: 1 });
+alertSchema.index({ status: 1, raisedAt: -1 });
+alertSchema.index({ sensorId: 1, raisedAt: -1 });
+
+alertSchema.plugin(tenantPlugin);
+alertSchema.plugin(auditPlugin);
+
+export const Alert = mongoose.model<IAlert>('Alert', alertSchema);
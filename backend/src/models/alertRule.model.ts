@@ -0,0 +1,88 @@
+/**
+ * Alert Rule Model
+ * MongoDB schema for per-sensor, per-field alerting rules
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+import { auditPlugin } from './audit.plugin';
+
+export type AlertCondition = 'above' | 'below' | 'rate_of_change';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface IAlertRule extends Document, ITenantScoped {
+  sensorId: string;
+  name: string;
+  field: string;
+  condition: AlertCondition;
+  threshold: number; // rate_of_change thresholds are expressed per minute
+  duration: number; // seconds the condition must hold before raising
+  severity: AlertSeverity;
+  isEnabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const alertRuleSchema = new Schema<IAlertRule>(
+  {
+    sensorId: {
+      type: String,
+      required: true,
+      trim: true,
+      ref: 'Sensor'
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    field: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    condition: {
+      type: String,
+      enum: ['above', 'below', 'rate_of_change'],
+      required: true
+    },
+    threshold: {
+      type: Number,
+      required: true
+    },
+    duration: {
+      type: Number,
+      min: 0,
+      default: 0
+    },
+    severity: {
+      type: String,
+      enum: ['info', 'warning', 'critical'],
+      default: 'warning'
+    },
+    isEnabled: {
+      type: Boolean,
+      default: true
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+alertRuleSchema.index({ sensorId: 1, isEnabled: 1 });
+
+alertRuleSchema.plugin(tenantPlugin);
+alertRuleSchema.plugin(auditPlugin);
+
+export const AlertRule = mongoose.model<IAlertRule>('AlertRule', alertRuleSchema);
@@ -0,0 +1,101 @@
+/**
+ * API Key Model
+ * Credentials for devices, gateways and scripts, limited to scopes and sensors
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+import { auditPlugin } from './audit.plugin';
+
+export const API_KEY_SCOPES = ['readings:write'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface IApiKey extends Document, ITenantScoped {
+  name: string;
+  prefix: string; // public part of the key, shown in listings and logs
+  keyHash: string; // SHA-256 of the full key; the key itself is never stored
+  scopes: ApiKeyScope[];
+  sensorIds: string[]; // with sites, limits the key to these sensors; both empty allows all
+  sites: Types.ObjectId[];
+  expiresAt?: Date | null;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date | null;
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    prefix: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      select: false
+    },
+    scopes: {
+      type: [String],
+      enum: API_KEY_SCOPES,
+      required: true
+    },
+    sensorIds: {
+      type: [String],
+      default: []
+    },
+    sites: {
+      type: [Schema.Types.ObjectId],
+      ref: 'Site',
+      default: []
+    },
+    expiresAt: {
+      type: Date,
+      default: null
+    },
+    lastUsedAt: {
+      type: Date
+    },
+    lastUsedIp: {
+      type: String
+    },
+    revokedAt: {
+      type: Date,
+      default: null
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'api_keys',
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        delete ret.keyHash;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+apiKeySchema.index({ revokedAt: 1, createdAt: -1 });
+
+apiKeySchema.plugin(tenantPlugin);
+apiKeySchema.plugin(auditPlugin);
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
@@ -0,0 +1,203 @@
+/**
+ * Audit Plugin
+ * Collects the document changes a request makes, for its audit event
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Document, Model, Query, Schema } from 'mongoose';
+
+// Configuration
+// Most document changes kept per event; bulk operations beyond this are truncated
+export const AUDIT_MAX_CHANGES = parseInt(process.env.AUDIT_MAX_CHANGES || '100', 10);
+
+/**
+ * One write made while handling a request
+ * Document writes carry before/after snapshots; query writes (updateMany,
+ * deleteMany, ...) and bulk write operations carry their filter and update,
+ * plus a before snapshot when a bulk operation targets a single document.
+ */
+export interface AuditChange {
+  model: string;
+  operation: string;
+  documentId?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  filter?: Record<string, unknown>;
+  update?: unknown;
+  count?: number;
+}
+
+export interface AuditContext {
+  enabled: boolean;
+  changes: AuditChange[];
+}
+
+export interface AuditPluginOptions {
+  // Skip document snapshots for high-volume collections (e.g. readings)
+  snapshots?: boolean;
+}
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+const QUERY_WRITES = [
+  'deleteMany',
+  'deleteOne',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateMany',
+  'updateOne'
+] as const;
+
+// Bulk write operations that change at most one document
+const SINGLE_DOCUMENT_OPS = new Set(['updateOne', 'replaceOne', 'deleteOne']);
+
+// Query writes whose result is filled in once they complete
+const pendingQueries = new WeakMap<object, AuditChange>();
+
+interface BulkOperation {
+  filter?: Record<string, unknown>;
+  update?: unknown;
+  replacement?: Record<string, unknown>;
+  document?: Record<string, unknown>;
+}
+
+/**
+ * Run a function, collecting the changes audited models make into `context`
+ */
+export function runWithAudit<T>(context: AuditContext, fn: () => T): T {
+  return auditStorage.run(context, fn);
+}
+
+/**
+ * Audit context of the current request, if it is being audited
+ */
+function activeContext(): AuditContext | null {
+  const context = auditStorage.getStore();
+  return context?.enabled ? context : null;
+}
+
+/**
+ * Plain copy of a document (lean queries already return one)
+ */
+function snapshot(doc: Document | Record<string, unknown>): Record<string, unknown> {
+  return doc instanceof Document
+    ? doc.toObject({ depopulate: true, virtuals: false })
+    : { ...doc };
+}
+
+/**
+ * Record each operation of a bulk write, snapshotting the single documents it
+ * targets while the event still has room for their changes
+ */
+async function recordBulkWrite(
+  model: Model<unknown>,
+  context: AuditContext,
+  ops: Record<string, BulkOperation>[],
+  snapshots: boolean
+): Promise<void> {
+  const changes = ops.map(op => {
+    const [operation, write] = Object.entries(op)[0];
+    const change: AuditChange = { model: model.modelName, operation };
+
+    if (write.document) {
+      change.after = snapshots ? snapshot(write.document) : undefined;
+      if (write.document._id !== undefined) change.documentId = String(write.document._id);
+    } else {
+      change.filter = write.filter;
+      change.update = write.update ?? write.replacement;
+    }
+    return change;
+  });
+
+  const room = Math.max(AUDIT_MAX_CHANGES - context.changes.length, 0);
+  context.changes.push(...changes);
+  if (!snapshots) return;
+
+  await Promise.all(changes.slice(0, room).map(async change => {
+    if (!SINGLE_DOCUMENT_OPS.has(change.operation) || !change.filter) return;
+
+    const before = await model.findOne(change.filter).lean<Record<string, unknown>>();
+    change.before = before;
+    if (before) change.documentId = String(before._id);
+  }));
+}
+
+/**
+ * Mongoose plugin recording creates, updates and deletes on a model into
+ * the current audit context
+ */
+export function auditPlugin(schema: Schema, options: AuditPluginOptions = {}): void {
+  const snapshots = options.snapshots !== false;
+
+  QUERY_WRITES.forEach(operation => {
+    schema.pre(operation as 'updateOne', function (this: Query<unknown, unknown>) {
+      const context = activeContext();
+      if (!context) return;
+
+      const change: AuditChange = {
+        model: this.model.modelName,
+        operation,
+        filter: this.getFilter(),
+        update: this.getUpdate() ?? undefined
+      };
+      context.changes.push(change);
+      pendingQueries.set(this, change);
+    });
+
+    schema.post(operation as 'updateOne', function (this: Query<unknown, unknown>, result: unknown) {
+      const change = pendingQueries.get(this);
+      if (!change) return;
+
+      const counts = result as { modifiedCount?: number; deletedCount?: number } | null;
+      change.count = counts?.deletedCount ?? counts?.modifiedCount;
+    });
+  });
+
+  // Bulk writes (fleet imports, field seeding) bypass document and query middleware
+  schema.pre('bulkWrite', function (next, ops) {
+    const context = activeContext();
+    if (!context) return next();
+
+    recordBulkWrite(this as Model<unknown>, context, ops as Record<string, BulkOperation>[], snapshots)
+      .then(() => next(), next);
+  });
+
+  if (!snapshots) return;
+
+  // Remember how loaded documents looked, so saves can be diffed
+  schema.post('init', function (doc: Document) {
+    if (activeContext()) doc.$locals.auditBefore = snapshot(doc);
+  });
+
+  schema.pre('save', function () {
+    if (activeContext()) this.$locals.auditIsNew = this.isNew;
+  });
+
+  schema.post('save', function (doc: Document) {
+    const context = activeContext();
+    if (!context) return;
+
+    const after = snapshot(doc);
+    context.changes.push({
+      model: (doc.constructor as Model<unknown>).modelName,
+      operation: doc.$locals.auditIsNew ? 'create' : 'update',
+      documentId: String(doc._id),
+      before: doc.$locals.auditIsNew ? null : (doc.$locals.auditBefore as Record<string, unknown>) ?? null,
+      after
+    });
+    doc.$locals.auditBefore = after;
+  });
+
+  schema.post('findOneAndDelete', function (doc: Document | null) {
+    const context = activeContext();
+    if (!context || !doc) return;
+
+    context.changes.push({
+      model: this.model.modelName,
+      operation: 'delete',
+      documentId: String(doc._id),
+      before: snapshot(doc),
+      after: null
+    });
+  });
+}
@@ -0,0 +1,170 @@
+/**
+ * Audit Event Model
+ * Append-only record of who changed what: every mutating request and auth event
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+
+export type AuditCategory = 'request' | 'auth';
+export type AuditOutcome = 'success' | 'failure';
+
+export interface IAuditActor {
+  user?: Types.ObjectId | null;
+  username?: string;
+  role?: string;
+  apiKey?: Types.ObjectId | null;
+  apiKeyPrefix?: string;
+}
+
+export interface IAuditFieldChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface IAuditChange {
+  model: string;
+  operation: string;
+  documentId?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  diff?: IAuditFieldChange[];
+  filter?: string;  // JSON of the query filter, for query writes
+  update?: string;  // JSON of the update document
+  count?: number;
+}
+
+export interface IAuditEvent extends Document, ITenantScoped {
+  category: AuditCategory;
+  action: string;          // e.g. sensors.delete, auth.login_failed
+  outcome: AuditOutcome;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  actor: IAuditActor;
+  ip?: string;
+  userAgent?: string;
+  body?: unknown;          // request body with secrets redacted
+  changes: IAuditChange[];
+  changesTruncated: boolean;
+  details?: Record<string, unknown>;
+  timestamp: Date;
+}
+
+// Audit history retention in days (0 = keep forever)
+const AUDIT_RETENTION_DAYS = parseInt(process.env.AUDIT_RETENTION_DAYS || '0', 10);
+
+const auditEventSchema = new Schema<IAuditEvent>(
+  {
+    category: {
+      type: String,
+      enum: ['request', 'auth'],
+      required: true
+    },
+    action: {
+      type: String,
+      required: true
+    },
+    outcome: {
+      type: String,
+      enum: ['success', 'failure'],
+      required: true
+    },
+    method: String,
+    path: String,
+    statusCode: Number,
+    actor: {
+      user: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+      username: String,
+      role: String,
+      apiKey: { type: Schema.Types.ObjectId, ref: 'ApiKey', default: null },
+      apiKeyPrefix: String
+    },
+    ip: String,
+    userAgent: {
+      type: String,
+      maxlength: 500
+    },
+    body: Schema.Types.Mixed,
+    changes: [
+      {
+        _id: false,
+        model: { type: String, required: true },
+        operation: { type: String, required: true },
+        documentId: String,
+        before: Schema.Types.Mixed,
+        after: Schema.Types.Mixed,
+        diff: Schema.Types.Mixed,
+        filter: String,
+        update: String,
+        count: Number
+      }
+    ],
+    changesTruncated: {
+      type: Boolean,
+      default: false
+    },
+    details: Schema.Types.Mixed,
+    timestamp: {
+      type: Date,
+      required: true,
+      default: Date.now
+    }
+  },
+  {
+    collection: 'audit_events',
+    minimize: false,
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+auditEventSchema.index({ timestamp: -1 });
+auditEventSchema.index({ 'actor.user': 1, timestamp: -1 });
+auditEventSchema.index({ action: 1, timestamp: -1 });
+auditEventSchema.index({ 'changes.model': 1, 'changes.documentId': 1 });
+if (AUDIT_RETENTION_DAYS > 0) {
+  auditEventSchema.index(
+    { timestamp: 1 },
+    { expireAfterSeconds: AUDIT_RETENTION_DAYS * 24 * 60 * 60 }
+  );
+}
+
+// Events are append-only: once written they can be neither edited nor removed
+const APPEND_ONLY_ERROR = 'Audit events are append-only';
+
+auditEventSchema.pre('save', function () {
+  if (!this.isNew) throw new Error(APPEND_ONLY_ERROR);
+});
+
+auditEventSchema.pre(
+  [
+    'deleteMany',
+    'deleteOne',
+    'findOneAndDelete',
+    'findOneAndReplace',
+    'findOneAndUpdate',
+    'replaceOne',
+    'updateMany',
+    'updateOne'
+  ],
+  function () {
+    throw new Error(APPEND_ONLY_ERROR);
+  }
+);
+
+auditEventSchema.pre('bulkWrite', function () {
+  throw new Error(APPEND_ONLY_ERROR);
+});
+
+auditEventSchema.plugin(tenantPlugin);
+
+export const AuditEvent = mongoose.model<IAuditEvent>('AuditEvent', auditEventSchema);
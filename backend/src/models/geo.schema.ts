@@ -0,0 +1,49 @@
+/**
+ * GeoJSON Schemas
+ * Shared point and polygon sub-schemas for 2dsphere-indexed locations
+ */
+
+import { Schema } from 'mongoose';
+
+// Earth radius used by MongoDB for spherical distances
+export const EARTH_RADIUS_KM = 6378.1;
+
+export interface IGeoPoint {
+  type: 'Point';
+  coordinates: [number, number]; // [longitude, latitude]
+}
+
+export interface IGeoPolygon {
+  type: 'Polygon';
+  coordinates: number[][][]; // rings of [longitude, latitude], each closed
+}
+
+export const geoPointSchema = new Schema<IGeoPoint>(
+  {
+    type: {
+      type: String,
+      enum: ['Point'],
+      required: true
+    },
+    coordinates: {
+      type: [Number],
+      required: true
+    }
+  },
+  { _id: false }
+);
+
+export const geoPolygonSchema = new Schema<IGeoPolygon>(
+  {
+    type: {
+      type: String,
+      enum: ['Polygon'],
+      required: true
+    },
+    coordinates: {
+      type: [[[Number]]],
+      required: true
+    }
+  },
+  { _id: false }
+);
@@ -3,7 +3,70 @@
  * Export all MongoDB models from a single entry point
  */
 
+export { IGeoPoint, IGeoPolygon, EARTH_RADIUS_KM } from './geo.schema';
+export {
+  ITenantScoped,
+  runWithTenant,
+  withoutTenant,
+  currentOrganisationId
+} from './tenant.plugin';
+export { Organisation, IOrganisation, ORGANISATION_SLUG_PATTERN } from './organisation.model';
 export { WeatherData, IWeatherData } from './weather.model';
-export { Sensor, ISensor, ISensorLocation } from './sensor.model';
+export {
+  Sensor,
+  ISensor,
+  ISensorLocation,
+  ISensorPresence,
+  ISensorDecoderConfig,
+  ISensorDecodeErrors,
+  PresenceStatus
+} from './sensor.model';
 export { IoTReading, IIoTReading, IIoTReadingData } from './iotReading.model';
-export { User, IUser } from './user.model';
+export { User, IUser, IUserPreferences, UnitSystem, WindUnit } from './user.model';
+export { Alert, IAlert, AlertStatus } from './alert.model';
+export { AlertRule, IAlertRule, AlertCondition, AlertSeverity } from './alertRule.model';
+export {
+  ReadingRollup1m,
+  ReadingRollup1h,
+  ReadingRollup1d,
+  IReadingRollup,
+  RollupResolution,
+  getRollupModel
+} from './readingRollup.model';
+export { RollupState, IRollupState } from './rollupState.model';
+export { PendingSensor, IPendingSensor } from './pendingSensor.model';
+export {
+  QuarantinedReading,
+  IQuarantinedReading,
+  QuarantineReason
+} from './quarantinedReading.model';
+export {
+  SensorPresenceEvent,
+  ISensorPresenceEvent,
+  PresenceReason
+} from './sensorPresenceEvent.model';
+export {
+  SensorCommand,
+  ISensorCommand,
+  SensorCommandType,
+  SensorCommandStatus
+} from './sensorCommand.model';
+export {
+  MeasurementField,
+  IMeasurementField,
+  MeasurementDataType
+} from './measurementField.model';
+export { Site, ISite } from './site.model';
+export { Zone, IZone } from './zone.model';
+export { Session, ISession, SessionRevokeReason } from './session.model';
+export { ApiKey, IApiKey, ApiKeyScope, API_KEY_SCOPES } from './apiKey.model';
+export { AuditChange, AuditContext, AUDIT_MAX_CHANGES, runWithAudit } from './audit.plugin';
+export {
+  AuditEvent,
+  IAuditEvent,
+  IAuditActor,
+  IAuditChange,
+  IAuditFieldChange,
+  AuditCategory,
+  AuditOutcome
+} from './auditEvent.model';
@@ -4,6 +4,8 @@
  */
 
 import mongoose, { Document, Schema } from 'mongoose';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+import { auditPlugin } from './audit.plugin';
 
 export interface IIoTReadingData {
   temperature?: number;
@@ -16,13 +18,18 @@ export interface IIoTReadingData {
   [key: string]: unknown;
 }
 
-export interface IIoTReading extends Document {
+export interface IIoTReading extends Document, ITenantScoped {
   sensorId: string;
   timestamp: Date;
+  receivedAt: Date;
   data: IIoTReadingData;
   quality?: 'good' | 'fair' | 'poor';
+  qualityIssues?: string[];
   isAnomaly?: boolean;
+  anomalyScore?: number;
+  anomalyReason?: string;
   rawValue?: string;
+  messageId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -41,6 +48,11 @@ const iotReadingSchema = new Schema<IIoTReading>(
       index: true,
       default: Date.now
     },
+    // When the server received the reading; `timestamp` is device time when available
+    receivedAt: {
+      type: Date,
+      default: Date.now
+    },
     data: {
       type: Schema.Types.Mixed,
       required: true,
@@ -56,12 +68,25 @@ const iotReadingSchema = new Schema<IIoTReading>(
       enum: ['good', 'fair', 'poor'],
       default: 'good'
     },
+    qualityIssues: {
+      type: [String],
+      default: undefined
+    },
     isAnomaly: {
       type: Boolean,
       default: false
     },
+    anomalyScore: {
+      type: Number
+    },
+    anomalyReason: {
+      type: String
+    },
     rawValue: {
       type: String
+    },
+    messageId: {
+      type: String
     }
   },
   {
@@ -80,10 +105,23 @@ const iotReadingSchema = new Schema<IIoTReading>(
 // Compound indexes for efficient time-series queries
 iotReadingSchema.index({ sensorId: 1, timestamp: -1 });
 iotReadingSchema.index({ timestamp: -1 });
+iotReadingSchema.index({ organisation: 1, timestamp: -1 });
 iotReadingSchema.index({ sensorId: 1, isAnomaly: 1, timestamp: -1 });
+// Finds late-arriving readings for the rollup job
+iotReadingSchema.index({ receivedAt: 1 });
+// Device message IDs make ingestion idempotent per sensor
+iotReadingSchema.index(
+  { sensorId: 1, messageId: 1 },
+  { unique: true, partialFilterExpression: { messageId: { $type: 'string' } } }
+);
 
-// TTL index to automatically remove old data (optional - 30 days)
-// iotReadingSchema.index({ timestamp: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+// Raw reading retention in days (unset = keep forever). Rollups keep the long-term history.
+export const RAW_RETENTION_DAYS = parseInt(process.env.RAW_RETENTION_DAYS || '0', 10);
+
+// TTL index to automatically remove old raw data
+if (RAW_RETENTION_DAYS > 0) {
+  iotReadingSchema.index({ timestamp: 1 }, { expireAfterSeconds: RAW_RETENTION_DAYS * 24 * 60 * 60 });
+}
 
 // Static method to get readings within a time range
 iotReadingSchema.statics.getReadingsByTimeRange = async function(
@@ -139,4 +177,8 @@ iotReadingSchema.statics.getStatistics = async function(
   ]);
 };
 
+iotReadingSchema.plugin(tenantPlugin);
+// Readings are too many to snapshot; bulk deletes are still recorded
+iotReadingSchema.plugin(auditPlugin, { snapshots: false });
+
 export const IoTReading = mongoose.model<IIoTReading>('IoTReading', iotReadingSchema);
@@ -0,0 +1,88 @@
+/**
+ * Measurement Field Model
+ * Catalog entry describing one field of IoT reading data
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { auditPlugin } from './audit.plugin';
+
+export type MeasurementDataType = 'number' | 'integer' | 'boolean' | 'string';
+
+export interface IMeasurementField extends Document {
+  name: string; // key in IIoTReadingData
+  label: string;
+  unit: string;
+  dataType: MeasurementDataType;
+  min?: number;
+  max?: number;
+  precision: number; // decimal places shown in the dashboard
+  icon: string; // icon hint, e.g. thermometer, droplets, wind
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const measurementFieldSchema = new Schema<IMeasurementField>(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      match: /^[a-z][a-z0-9_]*$/
+    },
+    label: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50
+    },
+    unit: {
+      type: String,
+      trim: true,
+      default: ''
+    },
+    dataType: {
+      type: String,
+      enum: ['number', 'integer', 'boolean', 'string'],
+      default: 'number'
+    },
+    min: Number,
+    max: Number,
+    precision: {
+      type: Number,
+      min: 0,
+      max: 6,
+      default: 1
+    },
+    icon: {
+      type: String,
+      trim: true,
+      default: 'activity'
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 200
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'measurement_fields',
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+measurementFieldSchema.plugin(auditPlugin);
+
+export const MeasurementField = mongoose.model<IMeasurementField>(
+  'MeasurementField',
+  measurementFieldSchema
+);
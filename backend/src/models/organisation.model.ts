@@ -0,0 +1,64 @@
+/**
+ * Organisation Model
+ * Tenants (e.g. research groups) that own users, sensors, sites and alert rules
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { auditPlugin } from './audit.plugin';
+
+// Slugs name the tenant's MQTT topic namespace, so they exclude '/', '+' and '#'
+export const ORGANISATION_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,38}[a-z0-9]$/;
+
+export interface IOrganisation extends Document {
+  name: string;
+  slug: string;
+  description?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const organisationSchema = new Schema<IOrganisation>(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      maxlength: 100
+    },
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [ORGANISATION_SLUG_PATTERN, 'Slug must be 3-40 lowercase letters, digits or dashes']
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 500
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'organisations',
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+organisationSchema.plugin(auditPlugin);
+
+export const Organisation = mongoose.model<IOrganisation>('Organisation', organisationSchema);
@@ -0,0 +1,97 @@
+/**
+ * Pending Sensor Model
+ * Registry of unknown devices awaiting admin approval
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { ISensor, ISensorLocation } from './sensor.model';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+import { auditPlugin } from './audit.plugin';
+
+export interface IPendingSensor extends Document, ITenantScoped {
+  sensorId: string;
+  name?: string;
+  type?: ISensor['type'];
+  location?: ISensorLocation;
+  status: 'pending' | 'approved' | 'rejected';
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  messageCount: number;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const pendingSensorSchema = new Schema<IPendingSensor>(
+  {
+    sensorId: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true
+    },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: 100
+    },
+    type: {
+      type: String,
+      enum: ['temperature', 'humidity', 'pressure', 'wind', 'combined']
+    },
+    location: {
+      latitude: Number,
+      longitude: Number,
+      name: String,
+      altitude: Number
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected'],
+      default: 'pending',
+      index: true
+    },
+    firstSeenAt: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+    lastSeenAt: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+    messageCount: {
+      type: Number,
+      default: 0
+    },
+    reviewedBy: {
+      type: String
+    },
+    reviewedAt: {
+      type: Date
+    },
+    rejectionReason: {
+      type: String,
+      trim: true
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+pendingSensorSchema.plugin(tenantPlugin);
+pendingSensorSchema.plugin(auditPlugin);
+
+export const PendingSensor = mongoose.model<IPendingSensor>('PendingSensor', pendingSensorSchema);
@@ -0,0 +1,66 @@
+/**
+ * Quarantined Reading Model
+ * Readings held back from unregistered, rejected or inactive devices
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+
+export type QuarantineReason = 'unregistered' | 'rejected' | 'inactive';
+
+export interface IQuarantinedReading extends Document, ITenantScoped {
+  sensorId: string;
+  reason: QuarantineReason;
+  payload: Record<string, unknown>;
+  receivedAt: Date;
+}
+
+// Quarantine retention in days
+const QUARANTINE_RETENTION_DAYS = parseInt(process.env.QUARANTINE_RETENTION_DAYS || '7', 10);
+
+const quarantinedReadingSchema = new Schema<IQuarantinedReading>(
+  {
+    sensorId: {
+      type: String,
+      required: true
+    },
+    reason: {
+      type: String,
+      enum: ['unregistered', 'rejected', 'inactive'],
+      required: true
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true
+    },
+    receivedAt: {
+      type: Date,
+      required: true,
+      default: Date.now
+    }
+  },
+  {
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+quarantinedReadingSchema.index({ sensorId: 1, receivedAt: -1 });
+quarantinedReadingSchema.index(
+  { receivedAt: 1 },
+  { expireAfterSeconds: QUARANTINE_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+quarantinedReadingSchema.plugin(tenantPlugin);
+
+export const QuarantinedReading = mongoose.model<IQuarantinedReading>(
+  'QuarantinedReading',
+  quarantinedReadingSchema
+);
@@ -0,0 +1,118 @@
+/**
+ * Reading Rollup Models
+ * Precomputed per-sensor, per-field aggregates at 1-minute, 1-hour and 1-day resolution
+ */
+
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+
+export type RollupResolution = '1m' | '1h' | '1d';
+
+export interface IReadingRollup extends Document, ITenantScoped {
+  sensorId: string;
+  field: string;
+  bucket: Date;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  avg: number;
+}
+
+// Rollup retention in days per resolution (unset = keep forever)
+const RETENTION_DAYS: Record<RollupResolution, number | undefined> = {
+  '1m': parseInt(process.env.ROLLUP_1M_RETENTION_DAYS || '30', 10) || undefined,
+  '1h': parseInt(process.env.ROLLUP_1H_RETENTION_DAYS || '365', 10) || undefined,
+  '1d': parseInt(process.env.ROLLUP_1D_RETENTION_DAYS || '0', 10) || undefined
+};
+
+function createRollupSchema(resolution: RollupResolution): Schema<IReadingRollup> {
+  const schema = new Schema<IReadingRollup>(
+    {
+      sensorId: {
+        type: String,
+        required: true,
+        ref: 'Sensor'
+      },
+      field: {
+        type: String,
+        required: true
+      },
+      bucket: {
+        type: Date,
+        required: true
+      },
+      count: {
+        type: Number,
+        required: true
+      },
+      sum: {
+        type: Number,
+        required: true
+      },
+      min: {
+        type: Number,
+        required: true
+      },
+      max: {
+        type: Number,
+        required: true
+      },
+      avg: {
+        type: Number,
+        required: true
+      }
+    },
+    {
+      toJSON: {
+        transform: (_doc: any, ret: any) => {
+          delete ret._id;
+          delete ret.__v;
+          return ret;
+        }
+      }
+    }
+  );
+
+  // Unique key used by $merge when (re)materialising buckets
+  schema.index({ sensorId: 1, field: 1, bucket: 1 }, { unique: true });
+
+  const retentionDays = RETENTION_DAYS[resolution];
+  if (retentionDays) {
+    schema.index({ bucket: 1 }, { expireAfterSeconds: retentionDays * 24 * 60 * 60 });
+  }
+
+  schema.plugin(tenantPlugin);
+
+  return schema;
+}
+
+export const ReadingRollup1m = mongoose.model<IReadingRollup>(
+  'ReadingRollup1m',
+  createRollupSchema('1m'),
+  'reading_rollups_1m'
+);
+
+export const ReadingRollup1h = mongoose.model<IReadingRollup>(
+  'ReadingRollup1h',
+  createRollupSchema('1h'),
+  'reading_rollups_1h'
+);
+
+export const ReadingRollup1d = mongoose.model<IReadingRollup>(
+  'ReadingRollup1d',
+  createRollupSchema('1d'),
+  'reading_rollups_1d'
+);
+
+/**
+ * Get the rollup model for a resolution
+ */
+export function getRollupModel(resolution: RollupResolution): Model<IReadingRollup> {
+  const models: Record<RollupResolution, Model<IReadingRollup>> = {
+    '1m': ReadingRollup1m,
+    '1h': ReadingRollup1h,
+    '1d': ReadingRollup1d
+  };
+  return models[resolution];
+}
@@ -0,0 +1,42 @@
+/**
+ * Rollup State Model
+ * Tracks how far each rollup resolution has been materialised
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { RollupResolution } from './readingRollup.model';
+
+export interface IRollupState extends Document {
+  resolution: RollupResolution;
+  watermark: Date; // end (exclusive) of the last complete bucket materialised
+  receivedWatermark?: Date; // readings received before this have been rolled up, however late
+  lastRunAt: Date;
+  updatedAt: Date;
+}
+
+const rollupStateSchema = new Schema<IRollupState>(
+  {
+    resolution: {
+      type: String,
+      enum: ['1m', '1h', '1d'],
+      required: true,
+      unique: true
+    },
+    watermark: {
+      type: Date,
+      required: true
+    },
+    receivedWatermark: {
+      type: Date
+    },
+    lastRunAt: {
+      type: Date,
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const RollupState = mongoose.model<IRollupState>('RollupState', rollupStateSchema);
@@ -3,7 +3,10 @@
  * MongoDB schema for IoT sensor management
  */
 
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IGeoPoint, geoPointSchema } from './geo.schema';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+import { auditPlugin } from './audit.plugin';
 
 export interface ISensorLocation {
   latitude: number;
@@ -12,20 +15,45 @@ export interface ISensorLocation {
   altitude?: number;
 }
 
-export interface ISensor extends Document {
+export type PresenceStatus = 'online' | 'offline' | 'unknown';
+
+export interface ISensorPresence {
+  status: PresenceStatus;
+  lastSeenAt?: Date;
+  changedAt?: Date;
+}
+
+export interface ISensorDecoderConfig {
+  codec: string;
+  options?: Record<string, unknown>;
+}
+
+export interface ISensorDecodeErrors {
+  count: number;
+  lastError?: string;
+  lastErrorAt?: Date;
+}
+
+export interface ISensor extends Document, ITenantScoped {
   sensorId: string;
   name: string;
   type: 'temperature' | 'humidity' | 'pressure' | 'wind' | 'combined';
   location: ISensorLocation;
+  geo?: IGeoPoint; // derived from location for 2dsphere queries
+  site?: Types.ObjectId | null;
+  zone?: Types.ObjectId | null; // always within site
   isActive: boolean;
   lastReading?: Date;
+  presence: ISensorPresence;
   configuration?: {
     readingInterval?: number; // in milliseconds
     thresholds?: {
       min?: number;
       max?: number;
     };
+    decoder?: ISensorDecoderConfig;
   };
+  decodeErrors?: ISensorDecodeErrors;
   metadata?: Record<string, unknown>;
   createdAt: Date;
   updatedAt: Date;
@@ -82,6 +110,19 @@ const sensorSchema = new Schema<ISensor>(
       type: sensorLocationSchema,
       required: true
     },
+    geo: {
+      type: geoPointSchema
+    },
+    site: {
+      type: Schema.Types.ObjectId,
+      ref: 'Site',
+      default: null
+    },
+    zone: {
+      type: Schema.Types.ObjectId,
+      ref: 'Zone',
+      default: null
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -90,6 +131,15 @@ const sensorSchema = new Schema<ISensor>(
     lastReading: {
       type: Date
     },
+    presence: {
+      status: {
+        type: String,
+        enum: ['online', 'offline', 'unknown'],
+        default: 'unknown'
+      },
+      lastSeenAt: Date,
+      changedAt: Date
+    },
     configuration: {
       readingInterval: {
         type: Number,
@@ -98,8 +148,21 @@ const sensorSchema = new Schema<ISensor>(
       thresholds: {
         min: Number,
         max: Number
+      },
+      // Payload codec for non-JSON devices (json, csv, cbor, bytes or a custom decoder)
+      decoder: {
+        codec: String,
+        options: Schema.Types.Mixed
       }
     },
+    decodeErrors: {
+      count: {
+        type: Number,
+        default: 0
+      },
+      lastError: String,
+      lastErrorAt: Date
+    },
     metadata: {
       type: Schema.Types.Mixed
     }
@@ -119,7 +182,17 @@ const sensorSchema = new Schema<ISensor>(
 
 // Indexes
 sensorSchema.index({ type: 1, isActive: 1 });
-sensorSchema.index({ 'location.latitude': 1, 'location.longitude': 1 });
+sensorSchema.index({ 'presence.status': 1 });
+sensorSchema.index({ site: 1, zone: 1 });
+sensorSchema.index({ geo: '2dsphere' });
+
+// Keep the GeoJSON point in step with the location coordinates
+sensorSchema.pre('validate', function(next) {
+  if (this.location && (this.isNew || this.isModified('location'))) {
+    this.geo = { type: 'Point', coordinates: [this.location.longitude, this.location.latitude] };
+  }
+  next();
+});
 
 // Update lastReading timestamp
 sensorSchema.methods.updateLastReading = async function(): Promise<void> {
@@ -127,4 +200,7 @@ sensorSchema.methods.updateLastReading = async function(): Promise<void> {
   await this.save();
 };
 
+sensorSchema.plugin(tenantPlugin);
+sensorSchema.plugin(auditPlugin);
+
 export const Sensor = mongoose.model<ISensor>('Sensor', sensorSchema);
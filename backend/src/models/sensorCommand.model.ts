@@ -0,0 +1,90 @@
+/**
+ * Sensor Command Model
+ * Downlink commands sent to sensors over MQTT and their delivery state
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+import { auditPlugin } from './audit.plugin';
+
+export type SensorCommandType = 'set_config' | 'reboot' | 'calibrate';
+export type SensorCommandStatus = 'queued' | 'sent' | 'acked' | 'failed' | 'timed_out';
+
+export interface ISensorCommand extends Document, ITenantScoped {
+  commandId: string;
+  sensorId: string;
+  type: SensorCommandType;
+  params: Record<string, unknown>;
+  status: SensorCommandStatus;
+  issuedBy?: string;
+  sentAt?: Date;
+  respondedAt?: Date;
+  result?: Record<string, unknown>;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sensorCommandSchema = new Schema<ISensorCommand>(
+  {
+    commandId: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    sensorId: {
+      type: String,
+      required: true
+    },
+    type: {
+      type: String,
+      enum: ['set_config', 'reboot', 'calibrate'],
+      required: true
+    },
+    params: {
+      type: Schema.Types.Mixed,
+      default: {}
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'sent', 'acked', 'failed', 'timed_out'],
+      default: 'queued'
+    },
+    issuedBy: {
+      type: String
+    },
+    sentAt: {
+      type: Date
+    },
+    respondedAt: {
+      type: Date
+    },
+    result: {
+      type: Schema.Types.Mixed
+    },
+    error: {
+      type: String
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'sensor_commands',
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+sensorCommandSchema.index({ sensorId: 1, createdAt: -1 });
+sensorCommandSchema.index({ status: 1, createdAt: 1 });
+
+sensorCommandSchema.plugin(tenantPlugin);
+sensorCommandSchema.plugin(auditPlugin);
+
+export const SensorCommand = mongoose.model<ISensorCommand>('SensorCommand', sensorCommandSchema);
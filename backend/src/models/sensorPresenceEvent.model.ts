@@ -0,0 +1,74 @@
+/**
+ * Sensor Presence Event Model
+ * Online/offline transitions, used to reconstruct sensor uptime
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+
+export type PresenceReason =
+  | 'status'      // device published an online/offline status message
+  | 'last_will'   // broker delivered the device's MQTT last-will message
+  | 'data'        // device came back by publishing a reading
+  | 'timeout';    // device missed too many reading intervals
+
+export interface ISensorPresenceEvent extends Document, ITenantScoped {
+  sensorId: string;
+  status: 'online' | 'offline';
+  reason: PresenceReason;
+  timestamp: Date;
+}
+
+// Presence history retention in days (0 = keep forever)
+const PRESENCE_RETENTION_DAYS = parseInt(process.env.PRESENCE_RETENTION_DAYS || '90', 10);
+
+const sensorPresenceEventSchema = new Schema<ISensorPresenceEvent>(
+  {
+    sensorId: {
+      type: String,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: ['online', 'offline'],
+      required: true
+    },
+    reason: {
+      type: String,
+      enum: ['status', 'last_will', 'data', 'timeout'],
+      required: true
+    },
+    timestamp: {
+      type: Date,
+      required: true,
+      default: Date.now
+    }
+  },
+  {
+    collection: 'sensor_presence_events',
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+sensorPresenceEventSchema.index({ sensorId: 1, timestamp: -1 });
+if (PRESENCE_RETENTION_DAYS > 0) {
+  sensorPresenceEventSchema.index(
+    { timestamp: 1 },
+    { expireAfterSeconds: PRESENCE_RETENTION_DAYS * 24 * 60 * 60 }
+  );
+}
+
+sensorPresenceEventSchema.plugin(tenantPlugin);
+
+export const SensorPresenceEvent = mongoose.model<ISensorPresenceEvent>(
+  'SensorPresenceEvent',
+  sensorPresenceEventSchema
+);
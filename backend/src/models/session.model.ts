@@ -0,0 +1,89 @@
+/**
+ * Session Model
+ * A signed-in device: the refresh token currently issued to it and whether it was revoked
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'revoked'
+  | 'password_changed'
+  | 'reuse_detected'
+  | 'account_disabled';
+
+export interface ISession extends Document {
+  sessionId: string;
+  user: Types.ObjectId;
+  refreshTokenId: string; // id of the only refresh token that may be used next
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    sessionId: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    refreshTokenId: {
+      type: String,
+      required: true
+    },
+    userAgent: {
+      type: String,
+      maxlength: 500
+    },
+    ip: {
+      type: String
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    revokedAt: {
+      type: Date,
+      default: null
+    },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'revoked', 'password_changed', 'reuse_detected', 'account_disabled']
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'sessions',
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        delete ret.refreshTokenId;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+sessionSchema.index({ user: 1, revokedAt: 1 });
+// Sessions are dropped once they can no longer be refreshed
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>('Session', sessionSchema);
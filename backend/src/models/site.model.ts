@@ -0,0 +1,62 @@
+/**
+ * Site Model
+ * MongoDB schema for sites (e.g. a campus) that group zones and sensors
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { IGeoPolygon, geoPolygonSchema } from './geo.schema';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+import { auditPlugin } from './audit.plugin';
+
+export interface ISite extends Document, ITenantScoped {
+  name: string;
+  description?: string;
+  address?: string;
+  boundary?: IGeoPolygon | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const siteSchema = new Schema<ISite>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 500
+    },
+    address: {
+      type: String,
+      trim: true,
+      maxlength: 200
+    },
+    boundary: {
+      type: geoPolygonSchema,
+      default: null
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+siteSchema.plugin(tenantPlugin);
+siteSchema.plugin(auditPlugin);
+
+// Site names are unique within an organisation
+siteSchema.index({ organisation: 1, name: 1 }, { unique: true });
+
+export const Site = mongoose.model<ISite>('Site', siteSchema);
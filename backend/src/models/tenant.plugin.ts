@@ -0,0 +1,147 @@
+/**
+ * Tenant Plugin
+ * Scopes every query on a model to the organisation of the current request or MQTT message
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { PipelineStage, Schema, Types } from 'mongoose';
+
+export interface ITenantScoped {
+  organisation: Types.ObjectId;
+}
+
+export interface TenantPluginOptions {
+  // Records without an organisation (e.g. public weather data) are visible to every tenant
+  shared?: boolean;
+}
+
+interface TenantContext {
+  organisationId: string | null;
+}
+
+const tenantStorage = new AsyncLocalStorage<TenantContext>();
+
+const QUERY_HOOKS = [
+  'countDocuments',
+  'deleteMany',
+  'deleteOne',
+  'distinct',
+  'find',
+  'findOne',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateMany',
+  'updateOne'
+] as const;
+
+/**
+ * Run a function with every tenant-scoped query limited to one organisation
+ * Pass null for system work (background jobs, migrations) that spans tenants.
+ */
+export function runWithTenant<T>(organisationId: string | null, fn: () => T): T {
+  return tenantStorage.run({ organisationId }, fn);
+}
+
+/**
+ * Run queries across all organisations, e.g. to find a user by email at login
+ * Queries must be awaited inside `fn` so they execute in the unscoped context.
+ */
+export async function withoutTenant<T>(fn: () => PromiseLike<T>): Promise<T> {
+  return tenantStorage.run({ organisationId: null }, async () => await fn());
+}
+
+/**
+ * Organisation the current code runs for, or null outside any tenant
+ */
+export function currentOrganisationId(): string | null {
+  return tenantStorage.getStore()?.organisationId ?? null;
+}
+
+/**
+ * Query condition limiting a collection to one organisation
+ */
+export function tenantCondition(organisationId: string, shared = false): Record<string, unknown> {
+  const id = new Types.ObjectId(organisationId);
+  return { organisation: shared ? { $in: [id, null] } : id };
+}
+
+/**
+ * Add the tenant condition to an aggregation pipeline
+ * $geoNear must stay the first stage, so the condition goes into its query.
+ */
+export function scopePipeline(pipeline: PipelineStage[], condition: Record<string, unknown>): void {
+  const first = pipeline[0] as PipelineStage.GeoNear | undefined;
+  if (first && '$geoNear' in first) {
+    first.$geoNear.query = { ...first.$geoNear.query, ...condition };
+  } else {
+    pipeline.unshift({ $match: condition });
+  }
+}
+
+/**
+ * Mongoose plugin adding an `organisation` owner to a schema
+ * Inside a tenant context, queries and aggregations only see that
+ * organisation's records and new records are assigned to it.
+ */
+export function tenantPlugin(schema: Schema, options: TenantPluginOptions = {}): void {
+  const shared = Boolean(options.shared);
+
+  schema.add({
+    organisation: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organisation',
+      required: !shared,
+      ...(shared && { default: null })
+    }
+  });
+  schema.index({ organisation: 1 });
+
+  schema.pre(QUERY_HOOKS as unknown as 'find'[], function () {
+    const organisationId = currentOrganisationId();
+    if (organisationId) this.where(tenantCondition(organisationId, shared));
+  });
+
+  schema.pre('aggregate', function () {
+    const organisationId = currentOrganisationId();
+    if (organisationId) scopePipeline(this.pipeline(), tenantCondition(organisationId, shared));
+  });
+
+  // Shared records stay shared unless an organisation is set explicitly
+  if (shared) return;
+
+  schema.pre('validate', function () {
+    const organisationId = currentOrganisationId();
+    if (organisationId && !this.get('organisation')) this.set('organisation', organisationId);
+  });
+
+  schema.pre('insertMany', function (next, docs: unknown) {
+    const organisationId = currentOrganisationId();
+    if (organisationId) {
+      ([] as Record<string, unknown>[]).concat(docs as Record<string, unknown>[]).forEach(doc => {
+        if (typeof (doc as { set?: unknown }).set === 'function') {
+          const document = doc as unknown as { get(path: string): unknown; set(path: string, value: unknown): void };
+          if (!document.get('organisation')) document.set('organisation', organisationId);
+        } else if (!doc.organisation) {
+          doc.organisation = organisationId;
+        }
+      });
+    }
+    next();
+  });
+
+  // bulkWrite bypasses query middleware, so scope each operation's filter
+  schema.pre('bulkWrite', function (next, ops) {
+    const organisationId = currentOrganisationId();
+    if (organisationId) {
+      const condition = tenantCondition(organisationId);
+      ops.forEach(op => {
+        const write = Object.values(op)[0] as { filter?: Record<string, unknown>; document?: Record<string, unknown> };
+        if (write.filter) Object.assign(write.filter, condition);
+        if (write.document && !write.document.organisation) write.document.organisation = condition.organisation;
+      });
+    }
+    next();
+  });
+}
@@ -5,13 +5,24 @@
 
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+import { auditPlugin } from './audit.plugin';
 
-export interface IUser extends Document {
+export type UnitSystem = 'metric' | 'imperial' | 'si';
+export type WindUnit = 'km/h' | 'mph' | 'm/s' | 'kn';
+
+export interface IUserPreferences {
+  units: UnitSystem;
+  windUnits?: WindUnit | null;
+}
+
+export interface IUser extends Document, ITenantScoped {
   username: string;
   email: string;
   password: string;
   role: 'admin' | 'user' | 'viewer';
   isActive: boolean;
+  preferences: IUserPreferences;
   lastLogin?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -51,6 +62,20 @@ const userSchema = new Schema<IUser>(
       type: Boolean,
       default: true
     },
+    preferences: {
+      // Unit system for measurements returned by the API
+      units: {
+        type: String,
+        enum: ['metric', 'imperial', 'si'],
+        default: 'metric'
+      },
+      // Wind speed unit overriding the unit system (null = follow it)
+      windUnits: {
+        type: String,
+        enum: ['km/h', 'mph', 'm/s', 'kn', null],
+        default: null
+      }
+    },
     lastLogin: {
       type: Date
     }
@@ -102,4 +127,7 @@ userSchema.methods.updateLastLogin = async function(): Promise<void> {
   await this.save();
 };
 
+userSchema.plugin(tenantPlugin);
+userSchema.plugin(auditPlugin);
+
 export const User = mongoose.model<IUser>('User', userSchema);
@@ -3,12 +3,16 @@
  * MongoDB schema for weather data storage
  */
 
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IGeoPoint, geoPointSchema, EARTH_RADIUS_KM } from './geo.schema';
+import { tenantPlugin } from './tenant.plugin';
 
 export interface IWeatherData extends Document {
+  organisation?: Types.ObjectId | null; // null for public data shared by every organisation
   timestamp: Date;
   latitude: number;
   longitude: number;
+  geo?: IGeoPoint; // derived from latitude/longitude for 2dsphere queries
   temperature: number;
   windspeed?: number;
   winddirection?: number;
@@ -43,6 +47,9 @@ const weatherDataSchema = new Schema<IWeatherData>(
       min: -180,
       max: 180
     },
+    geo: {
+      type: geoPointSchema
+    },
     temperature: {
       type: Number,
       required: true
@@ -92,20 +99,29 @@ const weatherDataSchema = new Schema<IWeatherData>(
 );
 
 // Compound indexes for efficient queries
-weatherDataSchema.index({ latitude: 1, longitude: 1 });
+weatherDataSchema.index({ geo: '2dsphere', timestamp: -1 });
 weatherDataSchema.index({ source: 1, timestamp: -1 });
 weatherDataSchema.index({ createdAt: -1 });
 
+// Keep the GeoJSON point in step with the coordinates
+weatherDataSchema.pre('validate', function(next) {
+  if (this.isNew || this.isModified('latitude') || this.isModified('longitude')) {
+    this.geo = { type: 'Point', coordinates: [this.longitude, this.latitude] };
+  }
+  next();
+});
+
 // Static method to get latest weather for a location
 weatherDataSchema.statics.getLatestByLocation = async function(
   lat: number,
   lon: number,
-  tolerance: number = 0.1
+  radiusKm: number = 10
 ) {
   return this.findOne({
-    latitude: { $gte: lat - tolerance, $lte: lat + tolerance },
-    longitude: { $gte: lon - tolerance, $lte: lon + tolerance }
+    geo: { $geoWithin: { $centerSphere: [[lon, lat], radiusKm / EARTH_RADIUS_KM] } }
   }).sort({ timestamp: -1 });
 };
 
+weatherDataSchema.plugin(tenantPlugin, { shared: true });
+
 export const WeatherData = mongoose.model<IWeatherData>('WeatherData', weatherDataSchema);
@@ -0,0 +1,63 @@
+/**
+ * Zone Model
+ * MongoDB schema for zones within a site (e.g. a building, or a lab within it)
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ITenantScoped, tenantPlugin } from './tenant.plugin';
+import { auditPlugin } from './audit.plugin';
+
+export interface IZone extends Document, ITenantScoped {
+  site: Types.ObjectId;
+  parent?: Types.ObjectId | null; // enclosing zone; top-level zones have none
+  name: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const zoneSchema = new Schema<IZone>(
+  {
+    site: {
+      type: Schema.Types.ObjectId,
+      ref: 'Site',
+      required: true
+    },
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: 'Zone',
+      default: null
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 500
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc: any, ret: any) => {
+        ret.id = ret._id;
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+// Zone names are unique among their siblings
+zoneSchema.index({ site: 1, parent: 1, name: 1 }, { unique: true });
+
+zoneSchema.plugin(tenantPlugin);
+zoneSchema.plugin(auditPlugin);
+
+export const Zone = mongoose.model<IZone>('Zone', zoneSchema);
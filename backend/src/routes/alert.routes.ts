@@ -0,0 +1,267 @@
+/**
+ * Alert Routes
+ * API endpoints for alerts and alert rule management
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, APIError } from '../middleware/error.middleware';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import {
+  validateObjectId,
+  validateAlertRule,
+  validateUpdateAlertRule,
+  validatePagination
+} from '../middleware/validation.middleware';
+import { Alert, AlertRule, Sensor } from '../models';
+import { acknowledgeAlert, resolveAlert } from '../services/alert.service';
+
+const router = Router();
+
+/**
+ * @route   GET /api/alerts
+ * @desc    Get alerts with optional status and sensor filters
+ * @access  Public
+ */
+router.get(
+  '/',
+  validatePagination,
+  asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const status = req.query.status as string;
+    const sensorId = req.query.sensorId as string;
+    const severity = req.query.severity as string;
+    const skip = (page - 1) * limit;
+
+    const filter: Record<string, unknown> = {};
+    if (status) filter.status = status;
+    if (sensorId) filter.sensorId = sensorId;
+    if (severity) filter.severity = severity;
+
+    const [alerts, total] = await Promise.all([
+      Alert.find(filter)
+        .sort({ raisedAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Alert.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: alerts,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  })
+);
+
+/**
+ * @route   GET /api/alerts/rules
+ * @desc    Get alert rules, optionally for a single sensor
+ * @access  Public
+ */
+router.get(
+  '/rules',
+  asyncHandler(async (req: Request, res: Response) => {
+    const sensorId = req.query.sensorId as string;
+
+    const filter: Record<string, unknown> = {};
+    if (sensorId) filter.sensorId = sensorId;
+
+    const rules = await AlertRule.find(filter).sort({ sensorId: 1, createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: rules,
+      count: rules.length
+    });
+  })
+);
+
+/**
+ * @route   POST /api/alerts/rules
+ * @desc    Create an alert rule
+ * @access  Protected (Admin)
+ */
+router.post(
+  '/rules',
+  authenticateToken,
+  requireRole('admin'),
+  validateAlertRule,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { sensorId, name, field, condition, threshold, duration, severity, isEnabled } = req.body;
+
+    const sensor = await Sensor.findOne({ sensorId });
+    if (!sensor) {
+      throw new APIError('Sensor not found', 404);
+    }
+
+    const rule = new AlertRule({
+      sensorId,
+      name,
+      field,
+      condition,
+      threshold,
+      duration,
+      severity,
+      isEnabled
+    });
+
+    await rule.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Alert rule created successfully',
+      data: rule
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/alerts/rules/:id
+ * @desc    Update an alert rule
+ * @access  Protected (Admin)
+ */
+router.put(
+  '/rules/:id',
+  authenticateToken,
+  requireRole('admin'),
+  validateObjectId,
+  validateUpdateAlertRule,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, field, condition, threshold, duration, severity, isEnabled } = req.body;
+
+    const rule = await AlertRule.findById(req.params.id);
+    if (!rule) {
+      throw new APIError('Alert rule not found', 404);
+    }
+
+    if (name !== undefined) rule.name = name;
+    if (field !== undefined) rule.field = field;
+    if (condition !== undefined) rule.condition = condition;
+    if (threshold !== undefined) rule.threshold = threshold;
+    if (duration !== undefined) rule.duration = duration;
+    if (severity !== undefined) rule.severity = severity;
+    if (isEnabled !== undefined) rule.isEnabled = isEnabled;
+
+    await rule.save();
+
+    res.json({
+      success: true,
+      message: 'Alert rule updated successfully',
+      data: rule
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/alerts/rules/:id
+ * @desc    Delete an alert rule
+ * @access  Protected (Admin)
+ */
+router.delete(
+  '/rules/:id',
+  authenticateToken,
+  requireRole('admin'),
+  validateObjectId,
+  asyncHandler(async (req: Request, res: Response) => {
+    const rule = await AlertRule.findByIdAndDelete(req.params.id);
+
+    if (!rule) {
+      throw new APIError('Alert rule not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Alert rule deleted successfully'
+    });
+  })
+);
+
+/**
+ * @route   GET /api/alerts/:id
+ * @desc    Get a single alert
+ * @access  Public
+ */
+router.get(
+  '/:id',
+  validateObjectId,
+  asyncHandler(async (req: Request, res: Response) => {
+    const alert = await Alert.findById(req.params.id);
+
+    if (!alert) {
+      throw new APIError('Alert not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: alert
+    });
+  })
+);
+
+/**
+ * @route   PATCH /api/alerts/:id/acknowledge
+ * @desc    Acknowledge an open alert
+ * @access  Protected
+ */
+router.patch(
+  '/:id/acknowledge',
+  authenticateToken,
+  validateObjectId,
+  asyncHandler(async (req: Request, res: Response) => {
+    const alert = await Alert.findById(req.params.id);
+
+    if (!alert) {
+      throw new APIError('Alert not found', 404);
+    }
+
+    if (alert.status !== 'open') {
+      throw new APIError(`Alert is already ${alert.status}`, 400);
+    }
+
+    await acknowledgeAlert(alert, req.userId);
+
+    res.json({
+      success: true,
+      message: 'Alert acknowledged',
+      data: alert
+    });
+  })
+);
+
+/**
+ * @route   PATCH /api/alerts/:id/resolve
+ * @desc    Manually resolve an alert
+ * @access  Protected
+ */
+router.patch(
+  '/:id/resolve',
+  authenticateToken,
+  validateObjectId,
+  asyncHandler(async (req: Request, res: Response) => {
+    const alert = await Alert.findById(req.params.id);
+
+    if (!alert) {
+      throw new APIError('Alert not found', 404);
+    }
+
+    if (alert.status === 'resolved') {
+      throw new APIError('Alert is already resolved', 400);
+    }
+
+    await resolveAlert(alert, req.userId);
+
+    res.json({
+      success: true,
+      message: 'Alert resolved',
+      data: alert
+    });
+  })
+);
+
+export default router;
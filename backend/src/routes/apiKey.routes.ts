@@ -0,0 +1,94 @@
+/**
+ * API Key Routes
+ * Admin endpoints for minting and revoking machine-client API keys
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, APIError } from '../middleware/error.middleware';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import { validateObjectId, validateCreateApiKey } from '../middleware/validation.middleware';
+import { ApiKey, Site } from '../models';
+import { createApiKey, revokeApiKey } from '../services/apiKey.service';
+
+const router = Router();
+
+/**
+ * @route   GET /api/api-keys
+ * @desc    Get all API keys, newest first (never the keys themselves)
+ * @access  Protected (Admin)
+ */
+router.get(
+  '/',
+  authenticateToken,
+  requireRole('admin'),
+  asyncHandler(async (_req: Request, res: Response) => {
+    const apiKeys = await ApiKey.find().sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: apiKeys,
+      count: apiKeys.length
+    });
+  })
+);
+
+/**
+ * @route   POST /api/api-keys
+ * @desc    Mint an API key; the key is only ever returned in this response
+ * @access  Protected (Admin)
+ */
+router.post(
+  '/',
+  authenticateToken,
+  requireRole('admin'),
+  validateCreateApiKey,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, scopes, sensorIds, sites, expiresAt } = req.body;
+
+    if (sites?.length) {
+      const found = await Site.countDocuments({ _id: { $in: sites } });
+      if (found !== new Set(sites).size) {
+        throw new APIError('Site not found', 404);
+      }
+    }
+
+    const { apiKey, key } = await createApiKey(
+      { name, scopes, sensorIds, sites, expiresAt: expiresAt ? new Date(expiresAt) : null },
+      req.userId
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created. Store the key now, it cannot be shown again',
+      data: {
+        ...apiKey.toJSON(),
+        key
+      }
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/api-keys/:id
+ * @desc    Revoke an API key
+ * @access  Protected (Admin)
+ */
+router.delete(
+  '/:id',
+  authenticateToken,
+  requireRole('admin'),
+  validateObjectId,
+  asyncHandler(async (req: Request, res: Response) => {
+    const revoked = await revokeApiKey(req.params.id);
+    if (!revoked) {
+      throw new APIError('API key not found or already revoked', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'API key revoked'
+    });
+  })
+);
+
+export default router;
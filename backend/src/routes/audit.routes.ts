@@ -0,0 +1,64 @@
+/**
+ * Audit Routes
+ * Admin endpoint for reading the audit trail of changes and sign-in activity
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/error.middleware';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import { validatePagination, validateAuditQuery } from '../middleware/validation.middleware';
+import { AuditEvent } from '../models';
+import { buildAuditFilter } from '../services/audit.service';
+
+const router = Router();
+
+/**
+ * @route   GET /api/audit
+ * @desc    Get audit events, newest first, filtered by category, action,
+ *          outcome, user, changed model/document and time range
+ * @access  Protected (Admin)
+ */
+router.get(
+  '/',
+  authenticateToken,
+  requireRole('admin'),
+  validatePagination,
+  validateAuditQuery,
+  asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+
+    const filter = buildAuditFilter({
+      category: req.query.category as string,
+      action: req.query.action as string,
+      outcome: req.query.outcome as string,
+      user: req.query.user as string,
+      model: req.query.model as string,
+      documentId: req.query.documentId as string,
+      from: req.query.from as string,
+      to: req.query.to as string
+    });
+
+    const [events, total] = await Promise.all([
+      AuditEvent.find(filter)
+        .sort({ timestamp: -1 })
+        .skip(skip)
+        .limit(limit),
+      AuditEvent.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: events,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  })
+);
+
+export default router;
@@ -5,12 +5,51 @@
 
 import { Router, Request, Response } from 'express';
 import { asyncHandler, APIError } from '../middleware/error.middleware';
-import { authenticateToken, generateToken, generateRefreshToken } from '../middleware/auth.middleware';
-import { validateUserRegistration, validateUserLogin } from '../middleware/validation.middleware';
-import { User } from '../models';
+import {
+  authenticateToken,
+  generateToken,
+  generateRefreshToken,
+  verifyRefreshToken
+} from '../middleware/auth.middleware';
+import { skipAudit, auditAuthEvent } from '../middleware/audit.middleware';
+import {
+  validateUserRegistration,
+  validateUserLogin,
+  validateRefreshToken,
+  validateSessionId
+} from '../middleware/validation.middleware';
+import { User, IUser, ISession, withoutTenant } from '../models';
+import { isUnitSystem, isWindUnit } from '../services/units.service';
+import { isOrganisationActive } from '../services/organisation.service';
+import {
+  SessionMeta,
+  createSession,
+  rotateSession,
+  listSessions,
+  revokeSession,
+  revokeUserSessions
+} from '../services/session.service';
 
 const router = Router();
 
+/**
+ * Client details recorded on a session
+ */
+function sessionMeta(req: Request): SessionMeta {
+  return { userAgent: req.get('user-agent'), ip: req.ip };
+}
+
+/**
+ * Access and refresh tokens for a session
+ */
+function issueTokens(user: IUser, session: ISession) {
+  return {
+    accessToken: generateToken(user, session.sessionId),
+    refreshToken: generateRefreshToken(user, session.sessionId, session.refreshTokenId, session.expiresAt),
+    expiresIn: '24h'
+  };
+}
+
 /**
  * @route   POST /api/auth/register
  * @desc    Register a new user
@@ -18,14 +57,15 @@ const router = Router();
  */
 router.post(
   '/register',
+  skipAudit,
   validateUserRegistration,
   asyncHandler(async (req: Request, res: Response) => {
     const { username, email, password } = req.body;
 
-    // Check if user exists
-    const existingUser = await User.findOne({
+    // Check if user exists; usernames and emails are unique across organisations
+    const existingUser = await withoutTenant(() => User.findOne({
       $or: [{ email }, { username }]
-    });
+    }));
 
     if (existingUser) {
       throw new APIError(
@@ -36,7 +76,7 @@ router.post(
       );
     }
 
-    // Create user
+    // Create user in the default organisation; other organisations add users through their admins
     const user = new User({
       username,
       email,
@@ -45,10 +85,10 @@ router.post(
     });
 
     await user.save();
+    await auditAuthEvent(req, 'register', 'success', user);
 
-    // Generate tokens
-    const accessToken = generateToken(user);
-    const refreshToken = generateRefreshToken(user);
+    // Start a session and issue its tokens
+    const session = await createSession(user._id.toString(), sessionMeta(req));
 
     res.status(201).json({
       success: true,
@@ -58,13 +98,10 @@ router.post(
           id: user._id,
           username: user.username,
           email: user.email,
-          role: user.role
+          role: user.role,
+          preferences: user.preferences
         },
-        tokens: {
-          accessToken,
-          refreshToken,
-          expiresIn: '24h'
-        }
+        tokens: issueTokens(user, session)
       }
     });
   })
@@ -77,34 +114,43 @@ router.post(
  */
 router.post(
   '/login',
+  skipAudit,
   validateUserLogin,
   asyncHandler(async (req: Request, res: Response) => {
     const { email, password } = req.body;
 
-    // Find user with password
-    const user = await User.findOne({ email }).select('+password');
+    // Find user with password; the user's organisation is only known once found
+    const user = await withoutTenant(() => User.findOne({ email }).select('+password'));
 
     if (!user) {
+      await auditAuthEvent(req, 'login_failed', 'failure', null, { email, reason: 'unknown_email' });
       throw new APIError('Invalid credentials', 401);
     }
 
     if (!user.isActive) {
+      await auditAuthEvent(req, 'login_failed', 'failure', user, { reason: 'account_disabled' });
       throw new APIError('Account is disabled', 403);
     }
 
+    if (!isOrganisationActive(user.organisation)) {
+      await auditAuthEvent(req, 'login_failed', 'failure', user, { reason: 'organisation_deactivated' });
+      throw new APIError('Organisation is deactivated', 403);
+    }
+
     // Check password
     const isMatch = await user.comparePassword(password);
     if (!isMatch) {
+      await auditAuthEvent(req, 'login_failed', 'failure', user, { reason: 'wrong_password' });
       throw new APIError('Invalid credentials', 401);
     }
 
     // Update last login
     user.lastLogin = new Date();
     await user.save();
+    await auditAuthEvent(req, 'login', 'success', user);
 
-    // Generate tokens
-    const accessToken = generateToken(user);
-    const refreshToken = generateRefreshToken(user);
+    // Start a session and issue its tokens
+    const session = await createSession(user._id.toString(), sessionMeta(req));
 
     res.json({
       success: true,
@@ -114,13 +160,48 @@ router.post(
           id: user._id,
           username: user.username,
           email: user.email,
-          role: user.role
+          role: user.role,
+          preferences: user.preferences
         },
-        tokens: {
-          accessToken,
-          refreshToken,
-          expiresIn: '24h'
-        }
+        tokens: issueTokens(user, session)
+      }
+    });
+  })
+);
+
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Exchange a refresh token for new access and refresh tokens
+ * @access  Public
+ */
+router.post(
+  '/refresh',
+  skipAudit,
+  validateRefreshToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const payload = verifyRefreshToken(req.body.refreshToken);
+    if (!payload) {
+      throw new APIError('Invalid or expired refresh token', 401);
+    }
+
+    const user = await withoutTenant(() => User.findById(payload.userId));
+    if (!user || !user.isActive) {
+      throw new APIError('Invalid or inactive user', 401);
+    }
+    if (!isOrganisationActive(user.organisation)) {
+      throw new APIError('Organisation is deactivated', 403);
+    }
+
+    // Each refresh token works once; the response carries its replacement
+    const session = await rotateSession(payload.sessionId, payload.userId, payload.tokenId, sessionMeta(req));
+    if (typeof session === 'string') {
+      throw new APIError(session, 401);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        tokens: issueTokens(user, session)
       }
     });
   })
@@ -142,6 +223,8 @@ router.get(
         username: req.user?.username,
         email: req.user?.email,
         role: req.user?.role,
+        organisation: req.user?.organisation,
+        preferences: req.user?.preferences,
         lastLogin: req.user?.lastLogin,
         createdAt: req.user?.createdAt
       }
@@ -158,7 +241,7 @@ router.put(
   '/profile',
   authenticateToken,
   asyncHandler(async (req: Request, res: Response) => {
-    const { username, email } = req.body;
+    const { username, email, preferences } = req.body;
     const userId = req.userId;
 
     const user = await User.findById(userId);
@@ -168,7 +251,7 @@ router.put(
 
     // Check for conflicts
     if (username && username !== user.username) {
-      const existingUsername = await User.findOne({ username });
+      const existingUsername = await withoutTenant(() => User.findOne({ username }));
       if (existingUsername) {
         throw new APIError('Username already taken', 409);
       }
@@ -176,13 +259,27 @@ router.put(
     }
 
     if (email && email !== user.email) {
-      const existingEmail = await User.findOne({ email });
+      const existingEmail = await withoutTenant(() => User.findOne({ email }));
       if (existingEmail) {
         throw new APIError('Email already registered', 409);
       }
       user.email = email;
     }
 
+    if (preferences?.units !== undefined) {
+      if (!isUnitSystem(preferences.units)) {
+        throw new APIError('Units must be one of: metric, imperial, si', 400);
+      }
+      user.preferences.units = preferences.units;
+    }
+
+    if (preferences?.windUnits !== undefined) {
+      if (preferences.windUnits !== null && !isWindUnit(preferences.windUnits)) {
+        throw new APIError('Wind units must be one of: km/h, mph, m/s, kn', 400);
+      }
+      user.preferences.windUnits = preferences.windUnits;
+    }
+
     await user.save();
 
     res.json({
@@ -192,7 +289,8 @@ router.put(
         id: user._id,
         username: user.username,
         email: user.email,
-        role: user.role
+        role: user.role,
+        preferences: user.preferences
       }
     });
   })
@@ -205,6 +303,7 @@ router.put(
  */
 router.put(
   '/password',
+  skipAudit,
   authenticateToken,
   asyncHandler(async (req: Request, res: Response) => {
     const { currentPassword, newPassword } = req.body;
@@ -226,6 +325,7 @@ router.put(
     // Verify current password
     const isMatch = await user.comparePassword(currentPassword);
     if (!isMatch) {
+      await auditAuthEvent(req, 'password_change_failed', 'failure', user, { reason: 'wrong_password' });
       throw new APIError('Current password is incorrect', 401);
     }
 
@@ -233,30 +333,80 @@ router.put(
     user.password = newPassword;
     await user.save();
 
+    // Sign out everywhere else, in case the old password leaked
+    const revokedSessions = await revokeUserSessions(user._id.toString(), 'password_changed', req.sessionId);
+    await auditAuthEvent(req, 'password_changed', 'success', user, { revokedSessions });
+
     res.json({
       success: true,
-      message: 'Password changed successfully'
+      message: 'Password changed successfully',
+      data: { revokedSessions }
     });
   })
 );
 
 /**
  * @route   POST /api/auth/logout
- * @desc    Logout user (client-side token removal)
+ * @desc    Logout user by revoking the current session
  * @access  Protected
  */
 router.post(
   '/logout',
+  skipAudit,
   authenticateToken,
-  (_req: Request, res: Response) => {
-    // In a more complete implementation, you would:
-    // - Add the token to a blacklist
-    // - Clear refresh token from database
+  asyncHandler(async (req: Request, res: Response) => {
+    await revokeSession(req.sessionId!, req.userId!, 'logout');
+    await auditAuthEvent(req, 'logout', 'success');
+
     res.json({
       success: true,
       message: 'Logged out successfully'
     });
-  }
+  })
+);
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List the current user's active sessions
+ * @access  Protected
+ */
+router.get(
+  '/sessions',
+  authenticateToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const sessions = await listSessions(req.userId!);
+
+    res.json({
+      success: true,
+      data: sessions.map(session => ({
+        ...session.toJSON(),
+        current: session.sessionId === req.sessionId
+      })),
+      count: sessions.length
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/auth/sessions/:sessionId
+ * @desc    Revoke one of the current user's sessions
+ * @access  Protected
+ */
+router.delete(
+  '/sessions/:sessionId',
+  authenticateToken,
+  validateSessionId,
+  asyncHandler(async (req: Request, res: Response) => {
+    const revoked = await revokeSession(req.params.sessionId, req.userId!, 'revoked');
+    if (!revoked) {
+      throw new APIError('Session not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Session revoked'
+    });
+  })
 );
 
 export default router;
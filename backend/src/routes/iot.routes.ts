@@ -5,11 +5,53 @@
 
 import { Router, Request, Response } from 'express';
 import { asyncHandler, APIError } from '../middleware/error.middleware';
-import { optionalAuth } from '../middleware/auth.middleware';
-import { validateIoTReading, validatePagination } from '../middleware/validation.middleware';
-import { IoTReading, Sensor } from '../models';
-import { publishMessage } from '../services/mqtt.service';
-import { broadcastToClients, getConnectedClientsCount } from '../services/websocket.service';
+import { optionalAuth, authenticateToken, authenticateClient, requirePlatformAdmin } from '../middleware/auth.middleware';
+import { skipAudit } from '../middleware/audit.middleware';
+import {
+  validateIoTReading,
+  validateBatchReadings,
+  validatePagination,
+  validateTimeRange,
+  validateAggregateQuery,
+  validateCreateMeasurementField,
+  validateUpdateMeasurementField,
+  validateUnits,
+  validateExportQuery
+} from '../middleware/validation.middleware';
+import { IoTReading, Sensor, MeasurementField, Site, Zone } from '../models';
+import { publishToTenant } from '../services/mqtt.service';
+import { sendSensorEvent, getConnectedClientsCount } from '../services/websocket.service';
+import { evaluateReading } from '../services/alert.service';
+import { recordActivity } from '../services/presence.service';
+import { assessAnomaly } from '../services/anomaly.service';
+import { assessQuality } from '../services/quality.service';
+import {
+  aggregateReadings,
+  countBuckets,
+  AggregationFunction,
+  AggregationInterval,
+  MAX_BUCKETS
+} from '../services/aggregation.service';
+import { ingestBatch, BATCH_MAX_READINGS } from '../services/ingestion.service';
+import {
+  DEFAULT_MEASUREMENT_FIELDS,
+  getMeasurementField,
+  getUnit,
+  refreshMeasurementCatalog,
+  validateMeasurements
+} from '../services/measurement.service';
+import {
+  resolveUnitSystem,
+  resolveWindUnits,
+  convertReading,
+  convertNullable,
+  convertUnit,
+  convertValue
+} from '../services/units.service';
+import { streamExport, ExportFormat, EXPORT_CONTENT_TYPES } from '../services/export.service';
+import { buildSiteTree, getAlertingSensorIds } from '../services/site.service';
+import { apiKeyAllows } from '../services/apiKey.service';
+import { logger } from '../config/logger';
 
 const router = Router();
 
@@ -21,14 +63,20 @@ const router = Router();
 router.get(
   '/readings',
   validatePagination,
+  validateUnits,
+  optionalAuth,
   asyncHandler(async (req: Request, res: Response) => {
+    const units = resolveUnitSystem(req);
+    const windUnits = resolveWindUnits(req);
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 50;
     const sensorId = req.query.sensorId as string;
+    const quality = req.query.quality as string;
     const skip = (page - 1) * limit;
 
     const filter: Record<string, unknown> = {};
     if (sensorId) filter.sensorId = sensorId;
+    if (quality) filter.quality = { $in: quality.split(',') };
 
     const [readings, total] = await Promise.all([
       IoTReading.find(filter)
@@ -40,7 +88,9 @@ router.get(
 
     res.json({
       success: true,
-      data: readings,
+      data: readings.map(reading => convertReading(reading, units, windUnits)),
+      units,
+      windUnits,
       pagination: {
         page,
         limit,
@@ -58,7 +108,11 @@ router.get(
  */
 router.get(
   '/readings/latest',
-  asyncHandler(async (_req: Request, res: Response) => {
+  validateUnits,
+  optionalAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const units = resolveUnitSystem(req);
+    const windUnits = resolveWindUnits(req);
     const latestReadings = await IoTReading.aggregate([
       { $sort: { timestamp: -1 } },
       {
@@ -76,25 +130,195 @@ router.get(
     const sensorMap = new Map(sensors.map(s => [s.sensorId, s]));
 
     const enrichedReadings = latestReadings.map(reading => ({
-      ...reading,
+      ...convertReading(reading, units, windUnits),
       sensor: sensorMap.get(reading.sensorId) || null
     }));
 
     res.json({
       success: true,
       data: enrichedReadings,
+      units,
+      windUnits,
       count: enrichedReadings.length
     });
   })
 );
 
+/**
+ * @route   GET /api/iot/readings/aggregate
+ * @desc    Get time-bucketed aggregates of a reading field
+ * @access  Public
+ */
+router.get(
+  '/readings/aggregate',
+  validateAggregateQuery,
+  validateTimeRange,
+  validateUnits,
+  optionalAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const units = resolveUnitSystem(req);
+    const windUnits = resolveWindUnits(req);
+    const sensorId = req.query.sensorId as string;
+    const field = req.query.field as string;
+    const interval = (req.query.interval as AggregationInterval) || '1h';
+    const fns = ((req.query.fn as string) || 'avg,min,max,count').split(',') as AggregationFunction[];
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+
+    if (from >= to) {
+      throw new APIError('From must be before to', 400);
+    }
+
+    if (countBuckets(from, to, interval) > MAX_BUCKETS) {
+      throw new APIError(`Time range too large for ${interval} interval (max ${MAX_BUCKETS} buckets)`, 400);
+    }
+
+    const { buckets, source } = await aggregateReadings({ sensorId, field, interval, from, to, fns });
+
+    // Conversions are linear, so bucket statistics convert like single values
+    const unit = getUnit(field);
+    const converted = buckets.map(bucket => ({
+      ...bucket,
+      avg: convertNullable(bucket.avg, unit, units, windUnits),
+      min: convertNullable(bucket.min, unit, units, windUnits),
+      max: convertNullable(bucket.max, unit, units, windUnits),
+      p95: convertNullable(bucket.p95, unit, units, windUnits)
+    }));
+
+    res.json({
+      success: true,
+      data: converted,
+      count: converted.length,
+      source,
+      units,
+      windUnits,
+      unit: convertUnit(unit, units, windUnits),
+      query: { sensorId, field, interval, from, to, fn: fns }
+    });
+  })
+);
+
+/**
+ * @route   GET /api/iot/export
+ * @desc    Stream historical readings as CSV, NDJSON or Parquet
+ * @access  Public
+ */
+router.get(
+  '/export',
+  validateExportQuery,
+  validateTimeRange,
+  validateUnits,
+  optionalAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const format = (req.query.format as ExportFormat) || 'csv';
+    const sensorIds = req.query.sensorIds
+      ? (req.query.sensorIds as string).split(',').map(id => id.trim()).filter(Boolean)
+      : undefined;
+    const fields = req.query.fields ? (req.query.fields as string).split(',') : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+
+    if (from >= to) {
+      throw new APIError('From must be before to', 400);
+    }
+
+    const day = (date: Date) => date.toISOString().slice(0, 10);
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="readings-${day(from)}-${day(to)}.${format}"`
+    );
+
+    try {
+      await streamExport(res, {
+        sensorIds,
+        from,
+        to,
+        fields,
+        format,
+        units: resolveUnitSystem(req),
+        windUnits: resolveWindUnits(req)
+      });
+    } catch (error) {
+      // Before streaming starts the error is reported as JSON rather than as a download
+      if (!res.headersSent) {
+        res.removeHeader('Content-Type');
+        res.removeHeader('Content-Disposition');
+        throw error;
+      }
+      // Headers are already sent once streaming starts, so the response can only be cut off
+      logger.error('Error streaming reading export:', error);
+      res.destroy();
+    }
+  })
+);
+
+/**
+ * @route   GET /api/iot/anomalies
+ * @desc    Get readings flagged as anomalous, with optional sensor/time filters
+ * @access  Public
+ */
+router.get(
+  '/anomalies',
+  validatePagination,
+  validateTimeRange,
+  validateUnits,
+  optionalAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const units = resolveUnitSystem(req);
+    const windUnits = resolveWindUnits(req);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const sensorId = req.query.sensorId as string;
+    const from = req.query.from as string;
+    const to = req.query.to as string;
+    const skip = (page - 1) * limit;
+
+    const filter: Record<string, unknown> = { isAnomaly: true };
+    if (sensorId) filter.sensorId = sensorId;
+    if (from || to) {
+      filter.timestamp = {
+        ...(from && { $gte: new Date(from) }),
+        ...(to && { $lte: new Date(to) })
+      };
+    }
+
+    const [readings, total] = await Promise.all([
+      IoTReading.find(filter)
+        .sort({ timestamp: -1 })
+        .skip(skip)
+        .limit(limit),
+      IoTReading.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: readings.map(reading => convertReading(reading, units, windUnits)),
+      units,
+      windUnits,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  })
+);
+
 /**
  * @route   POST /api/iot/readings
  * @desc    Submit a new IoT reading
- * @access  Public (for sensor devices)
+ * @access  Protected (API key with readings:write, or user token)
  */
 router.post(
   '/readings',
+  skipAudit,
+  authenticateClient('readings:write'),
   validateIoTReading,
   asyncHandler(async (req: Request, res: Response) => {
     const { sensorId, data, quality, rawValue } = req.body;
@@ -105,30 +329,48 @@ router.post(
       throw new APIError('Sensor not found', 404);
     }
 
+    if (req.apiKey && !apiKeyAllows(req.apiKey, 'readings:write', sensor)) {
+      throw new APIError('API key is not permitted for this sensor', 403);
+    }
+
     if (!sensor.isActive) {
       throw new APIError('Sensor is inactive', 400);
     }
 
-    // Create reading
+    const invalid = validateMeasurements(data);
+    if (invalid) {
+      throw new APIError(invalid, 400);
+    }
+
+    const timestamp = new Date();
+
+    // Grade quality and run anomaly detection before storing
+    const assessment = assessQuality(sensorId, data, timestamp);
+    const anomaly = await assessAnomaly(sensorId, data);
+
+    // Create reading (a device-reported grade takes precedence)
     const reading = new IoTReading({
       sensorId,
-      timestamp: new Date(),
+      timestamp,
       data,
-      quality: quality || 'good',
-      rawValue
+      quality: quality || assessment.quality,
+      qualityIssues: assessment.qualityIssues,
+      rawValue,
+      ...anomaly
     });
 
     await reading.save();
 
-    // Update sensor's last reading time
-    sensor.lastReading = reading.timestamp;
-    await sensor.save();
+    // Every stored reading counts as a heartbeat
+    await recordActivity(sensor, timestamp);
 
-    // Broadcast to WebSocket clients
-    broadcastToClients('iot:reading', {
+    // Deliver to WebSocket subscribers
+    sendSensorEvent('iot:reading', sensor, {
       sensorId,
       timestamp: reading.timestamp,
       data: reading.data,
+      quality: reading.quality,
+      isAnomaly: reading.isAnomaly,
       sensor: {
         name: sensor.name,
         type: sensor.type,
@@ -137,12 +379,15 @@ router.post(
     });
 
     // Publish to MQTT
-    publishMessage(`csir/sensors/${sensorId}/data`, {
+    publishToTenant(sensor.organisation, `sensors/${sensorId}/data`, {
       sensorId,
       timestamp: reading.timestamp,
       data: reading.data
     });
 
+    // Evaluate alert rules
+    await evaluateReading(sensorId, reading.data, reading.timestamp, sensor);
+
     res.status(201).json({
       success: true,
       message: 'Reading recorded successfully',
@@ -151,6 +396,38 @@ router.post(
   })
 );
 
+/**
+ * @route   POST /api/iot/readings/batch
+ * @desc    Submit many readings at once with per-item results
+ * @access  Protected (API key with readings:write, or user token)
+ */
+router.post(
+  '/readings/batch',
+  skipAudit,
+  authenticateClient('readings:write'),
+  validateBatchReadings,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { readings } = req.body;
+
+    if (readings.length > BATCH_MAX_READINGS) {
+      throw new APIError(`A batch cannot exceed ${BATCH_MAX_READINGS} readings`, 413);
+    }
+
+    const apiKey = req.apiKey;
+    const result = await ingestBatch(
+      readings,
+      new Date(),
+      apiKey && (sensor => apiKeyAllows(apiKey, 'readings:write', sensor))
+    );
+
+    res.status(result.summary.created > 0 ? 201 : 200).json({
+      success: true,
+      message: `${result.summary.created} of ${result.summary.received} readings recorded`,
+      data: result
+    });
+  })
+);
+
 /**
  * @route   POST /api/iot/simulate
  * @desc    Trigger simulated IoT data broadcast
@@ -158,6 +435,7 @@ router.post(
  */
 router.post(
   '/simulate',
+  skipAudit,
   asyncHandler(async (req: Request, res: Response) => {
     const { sensorId } = req.body;
 
@@ -184,25 +462,33 @@ router.post(
       winddirection: Math.floor(Math.random() * 360)
     };
 
+    const timestamp = new Date();
+
+    // Grade quality and run anomaly detection before storing
+    const quality = assessQuality(sensor.sensorId, simulatedData, timestamp);
+    const anomaly = await assessAnomaly(sensor.sensorId, simulatedData);
+
     // Create and save reading
     const reading = new IoTReading({
       sensorId: sensor.sensorId,
-      timestamp: new Date(),
+      timestamp,
       data: simulatedData,
-      quality: 'good'
+      ...quality,
+      ...anomaly
     });
 
     await reading.save();
 
-    // Update sensor
-    sensor.lastReading = reading.timestamp;
-    await sensor.save();
+    // Every stored reading counts as a heartbeat
+    await recordActivity(sensor, timestamp);
 
-    // Broadcast to clients
-    broadcastToClients('iot:reading', {
+    // Deliver to WebSocket subscribers
+    sendSensorEvent('iot:reading', sensor, {
       sensorId: sensor.sensorId,
       timestamp: reading.timestamp,
       data: simulatedData,
+      quality: reading.quality,
+      isAnomaly: reading.isAnomaly,
       sensor: {
         name: sensor.name,
         type: sensor.type,
@@ -211,6 +497,9 @@ router.post(
       isSimulated: true
     });
 
+    // Evaluate alert rules
+    await evaluateReading(sensor.sensorId, reading.data, reading.timestamp, sensor);
+
     res.json({
       success: true,
       message: 'Simulated data broadcasted',
@@ -269,68 +558,185 @@ router.get(
 );
 
 /**
- * @route   GET /api/iot/tree
- * @desc    Get IoT data in tree structure for Tree View display
+ * @route   GET /api/iot/fields
+ * @desc    Get the measurement catalog (units, types, ranges, display hints)
  * @access  Public
  */
 router.get(
-  '/tree',
+  '/fields',
   asyncHandler(async (_req: Request, res: Response) => {
-    const sensors = await Sensor.find().sort({ sensorId: 1 });
-    
-    // Build tree structure
-    const tree = {
-      name: 'CSIR IoT Network',
-      type: 'root',
-      children: await Promise.all(sensors.map(async (sensor) => {
-        const latestReading = await IoTReading.findOne({ sensorId: sensor.sensorId })
-          .sort({ timestamp: -1 });
-
-        return {
-          name: sensor.name,
-          type: 'sensor',
-          sensorId: sensor.sensorId,
-          sensorType: sensor.type,
-          isActive: sensor.isActive,
-          location: sensor.location,
-          children: latestReading ? [
-            {
-              name: 'Latest Reading',
-              type: 'reading',
-              timestamp: latestReading.timestamp,
-              children: Object.entries(latestReading.data).map(([key, value]) => ({
-                name: key,
-                type: 'data',
-                value: typeof value === 'number' ? value.toFixed(2) : value,
-                unit: getUnit(key)
-              }))
-            }
-          ] : []
-        };
-      }))
-    };
+    const fields = await MeasurementField.find().sort({ name: 1 });
 
     res.json({
       success: true,
-      data: tree
+      data: fields
     });
   })
 );
 
 /**
- * Helper function to get unit for data field
+ * @route   POST /api/iot/fields
+ * @desc    Add a measurement field to the catalog
+ * @access  Protected (Platform admin)
  */
-function getUnit(field: string): string {
-  const units: Record<string, string> = {
-    temperature: '°C',
-    humidity: '%',
-    pressure: 'hPa',
-    windspeed: 'km/h',
-    winddirection: '°',
-    battery: '%',
-    signal_strength: 'dBm'
-  };
-  return units[field] || '';
-}
+router.post(
+  '/fields',
+  authenticateToken,
+  requirePlatformAdmin,
+  validateCreateMeasurementField,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, min, max } = req.body;
+
+    if (min != null && max != null && min > max) {
+      throw new APIError('Min must not exceed max', 400);
+    }
+
+    const existing = await MeasurementField.findOne({ name });
+    if (existing) {
+      throw new APIError('Measurement field already exists', 409);
+    }
+
+    const field = await MeasurementField.create(req.body);
+    await refreshMeasurementCatalog();
+
+    res.status(201).json({
+      success: true,
+      message: 'Measurement field created successfully',
+      data: field
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/iot/fields/:name
+ * @desc    Update a measurement field
+ * @access  Protected (Platform admin)
+ */
+router.put(
+  '/fields/:name',
+  authenticateToken,
+  requirePlatformAdmin,
+  validateUpdateMeasurementField,
+  asyncHandler(async (req: Request, res: Response) => {
+    const field = await MeasurementField.findOne({ name: req.params.name });
+
+    if (!field) {
+      throw new APIError('Measurement field not found', 404);
+    }
+
+    const allowed = ['label', 'unit', 'dataType', 'min', 'max', 'precision', 'icon', 'description'];
+    allowed.forEach(key => {
+      if (req.body[key] !== undefined) {
+        field.set(key, req.body[key] === null ? undefined : req.body[key]);
+      }
+    });
+
+    if (field.min != null && field.max != null && field.min > field.max) {
+      throw new APIError('Min must not exceed max', 400);
+    }
+
+    await field.save();
+    await refreshMeasurementCatalog();
+
+    res.json({
+      success: true,
+      message: 'Measurement field updated successfully',
+      data: field
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/iot/fields/:name
+ * @desc    Remove a measurement field from the catalog
+ * @access  Protected (Platform admin)
+ */
+router.delete(
+  '/fields/:name',
+  authenticateToken,
+  requirePlatformAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    if (DEFAULT_MEASUREMENT_FIELDS.some(field => field.name === req.params.name)) {
+      throw new APIError('Built-in measurement fields cannot be deleted', 400);
+    }
+
+    const field = await MeasurementField.findOneAndDelete({ name: req.params.name });
+
+    if (!field) {
+      throw new APIError('Measurement field not found', 404);
+    }
+
+    await refreshMeasurementCatalog();
+
+    res.json({
+      success: true,
+      message: 'Measurement field deleted successfully'
+    });
+  })
+);
+
+/**
+ * @route   GET /api/iot/tree
+ * @desc    Get IoT data in tree structure for Tree View display
+ * @access  Public
+ */
+router.get(
+  '/tree',
+  validateUnits,
+  optionalAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const units = resolveUnitSystem(req);
+    const windUnits = resolveWindUnits(req);
+    const [sites, zones, sensors, alertingIds] = await Promise.all([
+      Site.find(),
+      Zone.find(),
+      Sensor.find().sort({ sensorId: 1 }),
+      getAlertingSensorIds()
+    ]);
+
+    const latestReadings = new Map(await Promise.all(sensors.map(async (sensor) => [
+      sensor.sensorId,
+      await IoTReading.findOne({ sensorId: sensor.sensorId }).sort({ timestamp: -1 })
+    ] as const)));
+
+    // Build tree structure: root → sites → zones → sensors → latest reading → data
+    const tree = buildSiteTree('CSIR IoT Network', sites, zones, sensors, alertingIds, (sensor, alerting) => {
+      const latestReading = latestReadings.get(sensor.sensorId);
+
+      return {
+        name: sensor.name,
+        type: 'sensor',
+        sensorId: sensor.sensorId,
+        sensorType: sensor.type,
+        isActive: sensor.isActive,
+        presence: sensor.presence?.status ?? 'unknown',
+        alerting,
+        location: sensor.location,
+        children: latestReading ? [
+          {
+            name: 'Latest Reading',
+            type: 'reading',
+            timestamp: latestReading.timestamp,
+            children: Object.entries(latestReading.data).map(([key, value]) => ({
+              name: key,
+              type: 'data',
+              value: typeof value === 'number'
+                ? convertValue(value, getUnit(key), units, windUnits).toFixed(getMeasurementField(key)?.precision ?? 2)
+                : value,
+              unit: convertUnit(getUnit(key), units, windUnits)
+            }))
+          }
+        ] : []
+      };
+    });
+
+    res.json({
+      success: true,
+      data: tree,
+      units,
+      windUnits
+    });
+  })
+);
 
 export default router;
@@ -0,0 +1,141 @@
+/**
+ * Organisation Routes
+ * API endpoints for the tenants that own users, sensors, sites and alert rules
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, APIError } from '../middleware/error.middleware';
+import { authenticateToken, requirePlatformAdmin } from '../middleware/auth.middleware';
+import {
+  validateCreateOrganisation,
+  validateUpdateOrganisation
+} from '../middleware/validation.middleware';
+import { Organisation, User, withoutTenant } from '../models';
+import {
+  isPlatformAdmin,
+  getDefaultOrganisationId,
+  refreshOrganisations
+} from '../services/organisation.service';
+
+const router = Router();
+
+/**
+ * @route   GET /api/organisations
+ * @desc    Get all organisations (platform admins) or the caller's own
+ * @access  Protected
+ */
+router.get(
+  '/',
+  authenticateToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const filter = isPlatformAdmin(req.user) ? {} : { _id: req.user!.organisation };
+    const organisations = await Organisation.find(filter).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: organisations,
+      count: organisations.length
+    });
+  })
+);
+
+/**
+ * @route   POST /api/organisations
+ * @desc    Create an organisation, optionally with its first admin user
+ * @access  Protected (Platform admin)
+ */
+router.post(
+  '/',
+  authenticateToken,
+  requirePlatformAdmin,
+  validateCreateOrganisation,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, slug, description, admin } = req.body;
+
+    if (await Organisation.exists({ $or: [{ name }, { slug }] })) {
+      throw new APIError('An organisation with this name or slug already exists', 409);
+    }
+
+    // Usernames and emails are unique across organisations
+    if (admin) {
+      const existingUser = await withoutTenant(() => User.exists({
+        $or: [{ email: admin.email }, { username: admin.username }]
+      }));
+      if (existingUser) {
+        throw new APIError('Admin username or email already registered', 409);
+      }
+    }
+
+    const organisation = await Organisation.create({ name, slug, description });
+
+    const adminUser = admin
+      ? await User.create({
+        username: admin.username,
+        email: admin.email,
+        password: admin.password,
+        role: 'admin',
+        organisation: organisation._id
+      })
+      : null;
+
+    await refreshOrganisations();
+
+    res.status(201).json({
+      success: true,
+      message: 'Organisation created successfully',
+      data: {
+        ...organisation.toJSON(),
+        admin: adminUser && {
+          id: adminUser._id,
+          username: adminUser.username,
+          email: adminUser.email,
+          role: adminUser.role
+        }
+      }
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/organisations/:id
+ * @desc    Rename, describe, deactivate or reactivate an organisation
+ *          (the slug is its MQTT namespace, so it cannot change)
+ * @access  Protected (Platform admin)
+ */
+router.put(
+  '/:id',
+  authenticateToken,
+  requirePlatformAdmin,
+  validateUpdateOrganisation,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, description, isActive } = req.body;
+
+    const organisation = await Organisation.findById(req.params.id);
+    if (!organisation) {
+      throw new APIError('Organisation not found', 404);
+    }
+
+    if (isActive === false && organisation.id === getDefaultOrganisationId()) {
+      throw new APIError('The default organisation cannot be deactivated', 400);
+    }
+
+    if (name !== undefined && name !== organisation.name && await Organisation.exists({ name })) {
+      throw new APIError('An organisation with this name already exists', 409);
+    }
+
+    if (name !== undefined) organisation.name = name;
+    if (description !== undefined) organisation.description = description;
+    if (isActive !== undefined) organisation.isActive = isActive;
+
+    await organisation.save();
+    await refreshOrganisations();
+
+    res.json({
+      success: true,
+      message: 'Organisation updated successfully',
+      data: organisation
+    });
+  })
+);
+
+export default router;
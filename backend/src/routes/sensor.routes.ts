@@ -3,15 +3,46 @@
  * API endpoints for IoT sensor management
  */
 
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
 import { asyncHandler, APIError } from '../middleware/error.middleware';
 import { authenticateToken, requireRole, optionalAuth } from '../middleware/auth.middleware';
 import { 
   validateSensorId, 
   validateCreateSensor, 
-  validatePagination 
+  validatePagination,
+  validateApprovePendingSensor,
+  validateRejectPendingSensor,
+  validateTimeRange,
+  validateSensorCommand,
+  validateUnits,
+  validateFleetImport,
+  validateFleetExport,
+  validateNearQuery,
+  validateWithinQuery
 } from '../middleware/validation.middleware';
-import { Sensor, IoTReading } from '../models';
+import { Sensor, Site, IoTReading, PendingSensor, QuarantinedReading, SensorCommand, IGeoPolygon } from '../models';
+import {
+  approvePendingSensor,
+  rejectPendingSensor,
+  isRegistrable,
+  sensorIdsInUse,
+  SensorDetails
+} from '../services/provisioning.service';
+import { getUptime } from '../services/presence.service';
+import { issueCommand, configurationParams } from '../services/command.service';
+import { invalidateDecoderCache } from '../services/decoder.service';
+import { resolveUnitSystem, resolveWindUnits, convertReading, convertNullable } from '../services/units.service';
+import { getUnit } from '../services/measurement.service';
+import {
+  importFleet,
+  exportFleet,
+  parseFleetCsv,
+  flattenSensorDefinition,
+  FleetFormat,
+  FLEET_IMPORT_MAX_SENSORS
+} from '../services/fleet.service';
+import { resolvePlacement } from '../services/site.service';
+import { toGeoPoint, parsePolygon, isInvalidGeometryError } from '../services/geo.service';
 
 const router = Router();
 
@@ -28,12 +59,16 @@ router.get(
     const limit = parseInt(req.query.limit as string) || 10;
     const type = req.query.type as string;
     const isActive = req.query.isActive;
+    const site = req.query.site as string;
+    const zone = req.query.zone as string;
     const skip = (page - 1) * limit;
 
     // Build filter
     const filter: Record<string, unknown> = {};
     if (type) filter.type = type;
     if (isActive !== undefined) filter.isActive = isActive === 'true';
+    if (site) filter.site = site;
+    if (zone) filter.zone = zone;
 
     const [sensors, total] = await Promise.all([
       Sensor.find(filter).skip(skip).limit(limit).sort({ createdAt: -1 }),
@@ -53,6 +88,317 @@ router.get(
   })
 );
 
+/**
+ * @route   GET /api/sensors/export
+ * @desc    Download the fleet definition as CSV or JSON
+ * @access  Protected (Admin)
+ */
+router.get(
+  '/export',
+  authenticateToken,
+  requireRole('admin'),
+  validateFleetExport,
+  asyncHandler(async (req: Request, res: Response) => {
+    const format = (req.query.format as FleetFormat) || 'csv';
+    const file = await exportFleet(format);
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="sensors-${new Date().toISOString().slice(0, 10)}.${format}"`
+    );
+    res.send(file);
+  })
+);
+
+/**
+ * @route   POST /api/sensors/import
+ * @desc    Create or update sensors in bulk from a CSV file or JSON array
+ * @access  Protected (Admin)
+ */
+router.post(
+  '/import',
+  authenticateToken,
+  requireRole('admin'),
+  express.text({ type: 'text/csv', limit: '10mb' }),
+  validateFleetImport,
+  asyncHandler(async (req: Request, res: Response) => {
+    let rows: Record<string, unknown>[];
+
+    if (typeof req.body === 'string') {
+      try {
+        rows = parseFleetCsv(req.body);
+      } catch (error) {
+        throw new APIError((error as Error).message, 400);
+      }
+    } else {
+      const sensors = Array.isArray(req.body) ? req.body : req.body?.sensors;
+      if (!Array.isArray(sensors)) {
+        throw new APIError('Body must be CSV (text/csv) or a JSON array of sensors', 400);
+      }
+      rows = sensors.map(flattenSensorDefinition);
+    }
+
+    if (rows.length === 0) {
+      throw new APIError('No sensors to import', 400);
+    }
+    if (rows.length > FLEET_IMPORT_MAX_SENSORS) {
+      throw new APIError(`An import cannot exceed ${FLEET_IMPORT_MAX_SENSORS} sensors`, 413);
+    }
+
+    const report = await importFleet(rows, {
+      dryRun: req.query.dryRun === 'true',
+      userId: req.userId
+    });
+    const { created, updated, unchanged, invalid } = report.summary;
+
+    if (invalid > 0 && !report.dryRun) {
+      res.status(422).json({
+        success: false,
+        error: `${invalid} of ${report.summary.received} sensors are invalid; nothing was imported`,
+        data: report
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: report.dryRun
+        ? `Dry run: ${created} to create, ${updated} to update, ${unchanged} unchanged, ${invalid} invalid`
+        : `${created} created, ${updated} updated, ${unchanged} unchanged`,
+      data: report
+    });
+  })
+);
+
+/**
+ * @route   GET /api/sensors/near
+ * @desc    Get sensors within a radius of a location, nearest first
+ * @access  Public
+ */
+router.get(
+  '/near',
+  validateNearQuery,
+  asyncHandler(async (req: Request, res: Response) => {
+    const latitude = parseFloat(req.query.lat as string);
+    const longitude = parseFloat(req.query.lon as string);
+    const radiusKm = parseFloat(req.query.radiusKm as string) || 10;
+    const limit = parseInt(req.query.limit as string) || 100;
+
+    const results = await Sensor.aggregate([
+      {
+        $geoNear: {
+          near: toGeoPoint(latitude, longitude),
+          key: 'geo',
+          distanceField: 'distanceKm',
+          distanceMultiplier: 0.001,
+          maxDistance: radiusKm * 1000,
+          spherical: true
+        }
+      },
+      { $limit: limit }
+    ]);
+
+    res.json({
+      success: true,
+      data: results.map(({ distanceKm, ...doc }) => ({
+        ...Sensor.hydrate(doc).toJSON(),
+        distanceKm: Math.round(distanceKm * 1000) / 1000
+      })),
+      query: { lat: latitude, lon: longitude, radiusKm }
+    });
+  })
+);
+
+/**
+ * @route   GET /api/sensors/within
+ * @desc    Get sensors inside a polygon or a site's boundary
+ * @access  Public
+ */
+router.get(
+  '/within',
+  validateWithinQuery,
+  asyncHandler(async (req: Request, res: Response) => {
+    let polygon: IGeoPolygon;
+
+    if (req.query.site) {
+      const site = await Site.findById(req.query.site).lean();
+      if (!site) {
+        throw new APIError('Site not found', 404);
+      }
+      if (!site.boundary) {
+        throw new APIError('Site has no boundary', 400);
+      }
+      polygon = site.boundary;
+    } else {
+      try {
+        polygon = parsePolygon(req.query.polygon as string);
+      } catch (error) {
+        throw new APIError((error as Error).message, 400);
+      }
+    }
+
+    try {
+      const sensors = await Sensor.find({ geo: { $geoWithin: { $geometry: polygon } } }).sort({ sensorId: 1 });
+
+      res.json({
+        success: true,
+        data: sensors
+      });
+    } catch (error) {
+      if (isInvalidGeometryError(error)) {
+        throw new APIError('Polygon is not a valid geometry (rings may self-intersect)', 400);
+      }
+      throw error;
+    }
+  })
+);
+
+/**
+ * @route   GET /api/sensors/pending
+ * @desc    List devices seen over MQTT that are not registered
+ * @access  Protected (Admin)
+ */
+router.get(
+  '/pending',
+  authenticateToken,
+  requireRole('admin'),
+  validatePagination,
+  asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = (req.query.status as string) || 'pending';
+    const skip = (page - 1) * limit;
+
+    const filter: Record<string, unknown> = {};
+    if (status !== 'all') filter.status = status;
+
+    const [pendingSensors, total] = await Promise.all([
+      PendingSensor.find(filter).skip(skip).limit(limit).sort({ lastSeenAt: -1 }),
+      PendingSensor.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: pendingSensors,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  })
+);
+
+/**
+ * @route   GET /api/sensors/pending/:sensorId
+ * @desc    Get a pending device with its most recent quarantined payloads
+ * @access  Protected (Admin)
+ */
+router.get(
+  '/pending/:sensorId',
+  authenticateToken,
+  requireRole('admin'),
+  validateSensorId,
+  asyncHandler(async (req: Request, res: Response) => {
+    const pending = await PendingSensor.findOne({ sensorId: req.params.sensorId });
+
+    if (!pending) {
+      throw new APIError('Pending sensor not found', 404);
+    }
+
+    const recentPayloads = await QuarantinedReading.find({ sensorId: pending.sensorId })
+      .sort({ receivedAt: -1 })
+      .limit(10);
+
+    res.json({
+      success: true,
+      data: {
+        ...pending.toJSON(),
+        recentPayloads
+      }
+    });
+  })
+);
+
+/**
+ * @route   POST /api/sensors/pending/:sensorId/approve
+ * @desc    Approve a pending device and register it as a sensor
+ * @access  Protected (Admin)
+ */
+router.post(
+  '/pending/:sensorId/approve',
+  authenticateToken,
+  requireRole('admin'),
+  validateApprovePendingSensor,
+  asyncHandler(async (req: Request, res: Response) => {
+    const pending = await PendingSensor.findOne({ sensorId: req.params.sensorId });
+
+    if (!pending) {
+      throw new APIError('Pending sensor not found', 404);
+    }
+
+    if ((await sensorIdsInUse([pending.sensorId])).has(pending.sensorId)) {
+      throw new APIError('Sensor with this ID already exists', 409);
+    }
+
+    // Body fields override what the device reported about itself
+    const reported = pending.toObject();
+    const details: SensorDetails = {
+      name: req.body.name || reported.name,
+      type: req.body.type || reported.type,
+      location: req.body.location
+        ? { ...reported.location, ...req.body.location }
+        : reported.location
+    };
+
+    if (!isRegistrable(details)) {
+      throw new APIError('Name, type and location (latitude, longitude, name) are required to approve this sensor', 400);
+    }
+
+    const sensor = await approvePendingSensor(
+      pending,
+      { ...details, configuration: req.body.configuration },
+      req.userId
+    );
+    invalidateDecoderCache(sensor.sensorId);
+
+    res.status(201).json({
+      success: true,
+      message: 'Sensor approved successfully',
+      data: sensor
+    });
+  })
+);
+
+/**
+ * @route   POST /api/sensors/pending/:sensorId/reject
+ * @desc    Reject a pending device; its readings stay quarantined
+ * @access  Protected (Admin)
+ */
+router.post(
+  '/pending/:sensorId/reject',
+  authenticateToken,
+  requireRole('admin'),
+  validateRejectPendingSensor,
+  asyncHandler(async (req: Request, res: Response) => {
+    const pending = await PendingSensor.findOne({ sensorId: req.params.sensorId });
+
+    if (!pending) {
+      throw new APIError('Pending sensor not found', 404);
+    }
+
+    await rejectPendingSensor(pending, req.body.reason, req.userId);
+
+    res.json({
+      success: true,
+      message: 'Sensor rejected successfully',
+      data: pending
+    });
+  })
+);
+
 /**
  * @route   GET /api/sensors/:sensorId
  * @desc    Get a single sensor by ID
@@ -94,25 +440,31 @@ router.post(
   requireRole('admin'),
   validateCreateSensor,
   asyncHandler(async (req: Request, res: Response) => {
-    const { sensorId, name, type, location, configuration, metadata } = req.body;
+    const { sensorId, name, type, location, configuration, metadata, site, zone } = req.body;
 
-    // Check if sensor already exists
-    const existingSensor = await Sensor.findOne({ sensorId });
-    if (existingSensor) {
+    // Sensor IDs are unique across organisations
+    if ((await sensorIdsInUse([sensorId])).has(sensorId)) {
       throw new APIError('Sensor with this ID already exists', 409);
     }
 
+    const placement = await resolvePlacement(site, zone);
+    if (typeof placement === 'string') {
+      throw new APIError(placement, 400);
+    }
+
     const sensor = new Sensor({
       sensorId,
       name,
       type,
       location,
+      ...placement,
       configuration,
       metadata,
       isActive: true
     });
 
     await sensor.save();
+    invalidateDecoderCache(sensor.sensorId);
 
     res.status(201).json({
       success: true,
@@ -133,7 +485,7 @@ router.put(
   requireRole('admin'),
   validateSensorId,
   asyncHandler(async (req: Request, res: Response) => {
-    const { name, type, location, configuration, metadata, isActive } = req.body;
+    const { name, type, location, configuration, metadata, isActive, site, zone } = req.body;
 
     const sensor = await Sensor.findOne({ sensorId: req.params.sensorId });
     
@@ -141,6 +493,16 @@ router.put(
       throw new APIError('Sensor not found', 404);
     }
 
+    // Setting either site or zone replaces the placement; a zone implies its site
+    if (site !== undefined || zone !== undefined) {
+      const placement = await resolvePlacement(site, zone);
+      if (typeof placement === 'string') {
+        throw new APIError(placement, 400);
+      }
+      sensor.site = placement.site;
+      sensor.zone = placement.zone;
+    }
+
     // Update fields
     if (name !== undefined) sensor.name = name;
     if (type !== undefined) sensor.type = type;
@@ -150,11 +512,18 @@ router.put(
     if (isActive !== undefined) sensor.isActive = isActive;
 
     await sensor.save();
+    invalidateDecoderCache(sensor.sensorId);
+
+    // Push configuration changes down to the device
+    const command = configuration !== undefined
+      ? await issueCommand(sensor.sensorId, 'set_config', configurationParams(sensor), req.userId)
+      : null;
 
     res.json({
       success: true,
       message: 'Sensor updated successfully',
-      data: sensor
+      data: sensor,
+      ...(command && { command })
     });
   })
 );
@@ -178,6 +547,7 @@ router.delete(
 
     // Optionally delete associated readings
     await IoTReading.deleteMany({ sensorId: req.params.sensorId });
+    invalidateDecoderCache(sensor.sensorId);
 
     res.json({
       success: true,
@@ -188,19 +558,34 @@ router.delete(
 
 /**
  * @route   GET /api/sensors/:sensorId/readings
- * @desc    Get readings for a specific sensor
+ * @desc    Get readings for a specific sensor, optionally within a time range
  * @access  Public
  */
 router.get(
   '/:sensorId/readings',
   validateSensorId,
   validatePagination,
+  validateTimeRange,
+  validateUnits,
+  optionalAuth,
   asyncHandler(async (req: Request, res: Response) => {
+    const units = resolveUnitSystem(req);
+    const windUnits = resolveWindUnits(req);
     const { sensorId } = req.params;
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 50;
+    const from = req.query.from as string;
+    const to = req.query.to as string;
     const skip = (page - 1) * limit;
 
+    const filter: Record<string, unknown> = { sensorId };
+    if (from || to) {
+      filter.timestamp = {
+        ...(from && { $gte: new Date(from) }),
+        ...(to && { $lte: new Date(to) })
+      };
+    }
+
     // Check sensor exists
     const sensor = await Sensor.findOne({ sensorId });
     if (!sensor) {
@@ -208,16 +593,18 @@ router.get(
     }
 
     const [readings, total] = await Promise.all([
-      IoTReading.find({ sensorId })
+      IoTReading.find(filter)
         .sort({ timestamp: -1 })
         .skip(skip)
         .limit(limit),
-      IoTReading.countDocuments({ sensorId })
+      IoTReading.countDocuments(filter)
     ]);
 
     res.json({
       success: true,
-      data: readings,
+      data: readings.map(reading => convertReading(reading, units, windUnits)),
+      units,
+      windUnits,
       sensor: {
         sensorId: sensor.sensorId,
         name: sensor.name,
@@ -241,10 +628,13 @@ router.get(
 router.get(
   '/:sensorId/statistics',
   validateSensorId,
+  validateUnits,
   optionalAuth,
   asyncHandler(async (req: Request, res: Response) => {
+    const units = resolveUnitSystem(req);
     const { sensorId } = req.params;
     const hours = parseInt(req.query.hours as string) || 24;
+    const excludePoor = req.query.excludePoor === 'true';
 
     const sensor = await Sensor.findOne({ sensorId });
     if (!sensor) {
@@ -258,7 +648,8 @@ router.get(
       {
         $match: {
           sensorId,
-          timestamp: { $gte: startTime }
+          timestamp: { $gte: startTime },
+          ...(excludePoor && { quality: { $ne: 'poor' } })
         }
       },
       {
@@ -281,17 +672,173 @@ router.get(
           name: sensor.name,
           type: sensor.type
         },
-        statistics: stats[0] || {
-          avgTemperature: null,
-          minTemperature: null,
-          maxTemperature: null,
-          avgHumidity: null,
-          count: 0
-        },
-        period: { hours }
+        statistics: stats[0]
+          ? {
+            ...stats[0],
+            avgTemperature: convertNullable(stats[0].avgTemperature, getUnit('temperature'), units),
+            minTemperature: convertNullable(stats[0].minTemperature, getUnit('temperature'), units),
+            maxTemperature: convertNullable(stats[0].maxTemperature, getUnit('temperature'), units)
+          }
+          : {
+            avgTemperature: null,
+            minTemperature: null,
+            maxTemperature: null,
+            avgHumidity: null,
+            count: 0
+          },
+        period: { hours },
+        excludePoor,
+        units
+      }
+    });
+  })
+);
+
+/**
+ * @route   GET /api/sensors/:sensorId/uptime
+ * @desc    Get online/offline history and uptime for a sensor
+ * @access  Public
+ */
+router.get(
+  '/:sensorId/uptime',
+  validateSensorId,
+  validateTimeRange,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { sensorId } = req.params;
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+
+    if (from >= to) {
+      throw new APIError('From must be before to', 400);
+    }
+
+    const sensor = await Sensor.findOne({ sensorId });
+    if (!sensor) {
+      throw new APIError('Sensor not found', 404);
+    }
+
+    const uptime = await getUptime(sensorId, from, to);
+
+    res.json({
+      success: true,
+      data: {
+        sensorId,
+        presence: sensor.presence,
+        period: { from, to },
+        ...uptime
+      }
+    });
+  })
+);
+
+/**
+ * @route   POST /api/sensors/:sensorId/commands
+ * @desc    Send a command (set_config, reboot, calibrate) to a sensor
+ * @access  Protected (Admin)
+ */
+router.post(
+  '/:sensorId/commands',
+  authenticateToken,
+  requireRole('admin'),
+  validateSensorCommand,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { type, params = {} } = req.body;
+
+    const sensor = await Sensor.findOne({ sensorId: req.params.sensorId });
+    if (!sensor) {
+      throw new APIError('Sensor not found', 404);
+    }
+
+    let commandParams = params;
+    if (type === 'set_config') {
+      if (params.readingInterval === undefined && params.thresholds === undefined) {
+        throw new APIError('set_config requires readingInterval or thresholds', 400);
+      }
+
+      // Keep the stored configuration in step with what the device is told
+      sensor.configuration = {
+        ...sensor.toObject().configuration,
+        ...(params.readingInterval !== undefined && { readingInterval: params.readingInterval }),
+        ...(params.thresholds !== undefined && { thresholds: params.thresholds })
+      };
+      await sensor.save();
+      commandParams = configurationParams(sensor);
+    }
+
+    const command = await issueCommand(sensor.sensorId, type, commandParams, req.userId);
+
+    res.status(202).json({
+      success: true,
+      message: command.status === 'sent' ? 'Command sent' : 'Command queued',
+      data: command
+    });
+  })
+);
+
+/**
+ * @route   GET /api/sensors/:sensorId/commands
+ * @desc    List commands sent to a sensor, newest first
+ * @access  Protected
+ */
+router.get(
+  '/:sensorId/commands',
+  authenticateToken,
+  validateSensorId,
+  validatePagination,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { sensorId } = req.params;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const status = req.query.status as string;
+    const skip = (page - 1) * limit;
+
+    const filter: Record<string, unknown> = { sensorId };
+    if (status) filter.status = status;
+
+    const [commands, total] = await Promise.all([
+      SensorCommand.find(filter).skip(skip).limit(limit).sort({ createdAt: -1 }),
+      SensorCommand.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: commands,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
       }
     });
   })
 );
 
+/**
+ * @route   GET /api/sensors/:sensorId/commands/:commandId
+ * @desc    Get a single command and its delivery state
+ * @access  Protected
+ */
+router.get(
+  '/:sensorId/commands/:commandId',
+  authenticateToken,
+  validateSensorId,
+  asyncHandler(async (req: Request, res: Response) => {
+    const command = await SensorCommand.findOne({
+      sensorId: req.params.sensorId,
+      commandId: req.params.commandId
+    });
+
+    if (!command) {
+      throw new APIError('Command not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: command
+    });
+  })
+);
+
 export default router;
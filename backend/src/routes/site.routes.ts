@@ -0,0 +1,325 @@
+/**
+ * Site Routes
+ * API endpoints for sites, their zones and rolled-up sensor status
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, APIError } from '../middleware/error.middleware';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import {
+  validateObjectId,
+  validateCreateSite,
+  validateUpdateSite,
+  validateZoneParams,
+  validateCreateZone,
+  validateUpdateZone
+} from '../middleware/validation.middleware';
+import { Site, Zone, Sensor } from '../models';
+import { getSiteTree, validateZoneParent, emptyStatus } from '../services/site.service';
+import { validatePolygon } from '../services/geo.service';
+
+const router = Router();
+
+/**
+ * @route   GET /api/sites
+ * @desc    Get all sites with their rolled-up sensor status
+ * @access  Public
+ */
+router.get(
+  '/',
+  asyncHandler(async (_req: Request, res: Response) => {
+    const [sites, tree, zoneCounts] = await Promise.all([
+      Site.find().sort({ name: 1 }),
+      getSiteTree(),
+      Zone.aggregate<{ _id: unknown; count: number }>([
+        { $group: { _id: '$site', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const statusById = new Map(tree.children.map(node => [String(node.id), node.status]));
+    const zonesById = new Map(zoneCounts.map(zone => [String(zone._id), zone.count]));
+
+    res.json({
+      success: true,
+      data: sites.map(site => ({
+        ...site.toJSON(),
+        zoneCount: zonesById.get(site.id) ?? 0,
+        status: statusById.get(site.id) ?? emptyStatus()
+      }))
+    });
+  })
+);
+
+/**
+ * @route   POST /api/sites
+ * @desc    Create a site, optionally with a GeoJSON Polygon boundary
+ * @access  Protected (Admin)
+ */
+router.post(
+  '/',
+  authenticateToken,
+  requireRole('admin'),
+  validateCreateSite,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, description, address, boundary } = req.body;
+
+    const boundaryError = boundary ? validatePolygon(boundary) : null;
+    if (boundaryError) {
+      throw new APIError(`Invalid boundary: ${boundaryError}`, 400);
+    }
+
+    if (await Site.exists({ name })) {
+      throw new APIError('A site with this name already exists', 409);
+    }
+
+    const site = await Site.create({ name, description, address, boundary });
+
+    res.status(201).json({
+      success: true,
+      message: 'Site created successfully',
+      data: site
+    });
+  })
+);
+
+/**
+ * @route   GET /api/sites/:id
+ * @desc    Get a site with its zone hierarchy, sensors and status
+ * @access  Public
+ */
+router.get(
+  '/:id',
+  validateObjectId,
+  asyncHandler(async (req: Request, res: Response) => {
+    const site = await Site.findById(req.params.id);
+
+    if (!site) {
+      throw new APIError('Site not found', 404);
+    }
+
+    const [node] = (await getSiteTree(site.id)).children;
+
+    res.json({
+      success: true,
+      data: {
+        ...site.toJSON(),
+        status: node.status,
+        children: node.children
+      }
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/sites/:id
+ * @desc    Update a site
+ * @access  Protected (Admin)
+ */
+router.put(
+  '/:id',
+  authenticateToken,
+  requireRole('admin'),
+  validateUpdateSite,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, description, address, boundary } = req.body;
+
+    const boundaryError = boundary ? validatePolygon(boundary) : null;
+    if (boundaryError) {
+      throw new APIError(`Invalid boundary: ${boundaryError}`, 400);
+    }
+
+    const site = await Site.findById(req.params.id);
+    if (!site) {
+      throw new APIError('Site not found', 404);
+    }
+
+    if (name !== undefined && name !== site.name && await Site.exists({ name })) {
+      throw new APIError('A site with this name already exists', 409);
+    }
+
+    if (name !== undefined) site.name = name;
+    if (description !== undefined) site.description = description;
+    if (address !== undefined) site.address = address;
+    if (boundary !== undefined) site.boundary = boundary;
+
+    await site.save();
+
+    res.json({
+      success: true,
+      message: 'Site updated successfully',
+      data: site
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/sites/:id
+ * @desc    Delete a site with no zones or sensors
+ * @access  Protected (Admin)
+ */
+router.delete(
+  '/:id',
+  authenticateToken,
+  requireRole('admin'),
+  validateObjectId,
+  asyncHandler(async (req: Request, res: Response) => {
+    const [zones, sensors] = await Promise.all([
+      Zone.countDocuments({ site: req.params.id }),
+      Sensor.countDocuments({ site: req.params.id })
+    ]);
+
+    if (zones > 0 || sensors > 0) {
+      throw new APIError(
+        `Site still has ${zones} zones and ${sensors} sensors; move or delete them first`,
+        409
+      );
+    }
+
+    const site = await Site.findByIdAndDelete(req.params.id);
+    if (!site) {
+      throw new APIError('Site not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Site deleted successfully'
+    });
+  })
+);
+
+/**
+ * @route   GET /api/sites/:id/zones
+ * @desc    Get the zones of a site
+ * @access  Public
+ */
+router.get(
+  '/:id/zones',
+  validateObjectId,
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!(await Site.exists({ _id: req.params.id }))) {
+      throw new APIError('Site not found', 404);
+    }
+
+    const zones = await Zone.find({ site: req.params.id }).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: zones
+    });
+  })
+);
+
+/**
+ * @route   POST /api/sites/:id/zones
+ * @desc    Create a zone in a site, optionally inside another zone
+ * @access  Protected (Admin)
+ */
+router.post(
+  '/:id/zones',
+  authenticateToken,
+  requireRole('admin'),
+  validateCreateZone,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, parent, description } = req.body;
+
+    if (!(await Site.exists({ _id: req.params.id }))) {
+      throw new APIError('Site not found', 404);
+    }
+
+    const parentError = await validateZoneParent(req.params.id, parent);
+    if (parentError) {
+      throw new APIError(parentError, 400);
+    }
+
+    if (await Zone.exists({ site: req.params.id, parent: parent || null, name })) {
+      throw new APIError('A zone with this name already exists here', 409);
+    }
+
+    const zone = await Zone.create({ site: req.params.id, parent: parent || null, name, description });
+
+    res.status(201).json({
+      success: true,
+      message: 'Zone created successfully',
+      data: zone
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/sites/:id/zones/:zoneId
+ * @desc    Rename, describe or move a zone within its site
+ * @access  Protected (Admin)
+ */
+router.put(
+  '/:id/zones/:zoneId',
+  authenticateToken,
+  requireRole('admin'),
+  validateUpdateZone,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, parent, description } = req.body;
+
+    const zone = await Zone.findOne({ _id: req.params.zoneId, site: req.params.id });
+    if (!zone) {
+      throw new APIError('Zone not found', 404);
+    }
+
+    if (parent !== undefined) {
+      const parentError = await validateZoneParent(req.params.id, parent, zone.id);
+      if (parentError) {
+        throw new APIError(parentError, 400);
+      }
+      zone.parent = parent || null;
+    }
+    if (name !== undefined) zone.name = name;
+    if (description !== undefined) zone.description = description;
+
+    if (await Zone.exists({ _id: { $ne: zone._id }, site: zone.site, parent: zone.parent, name: zone.name })) {
+      throw new APIError('A zone with this name already exists here', 409);
+    }
+
+    await zone.save();
+
+    res.json({
+      success: true,
+      message: 'Zone updated successfully',
+      data: zone
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/sites/:id/zones/:zoneId
+ * @desc    Delete a zone with no child zones or sensors
+ * @access  Protected (Admin)
+ */
+router.delete(
+  '/:id/zones/:zoneId',
+  authenticateToken,
+  requireRole('admin'),
+  validateZoneParams,
+  asyncHandler(async (req: Request, res: Response) => {
+    const [zones, sensors] = await Promise.all([
+      Zone.countDocuments({ parent: req.params.zoneId }),
+      Sensor.countDocuments({ zone: req.params.zoneId })
+    ]);
+
+    if (zones > 0 || sensors > 0) {
+      throw new APIError(
+        `Zone still has ${zones} zones and ${sensors} sensors; move or delete them first`,
+        409
+      );
+    }
+
+    const zone = await Zone.findOneAndDelete({ _id: req.params.zoneId, site: req.params.id });
+    if (!zone) {
+      throw new APIError('Zone not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Zone deleted successfully'
+    });
+  })
+);
+
+export default router;
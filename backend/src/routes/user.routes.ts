@@ -0,0 +1,205 @@
+/**
+ * User Routes
+ * Admin endpoints for listing, promoting, deactivating and deleting user accounts
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, APIError } from '../middleware/error.middleware';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import {
+  validateObjectId,
+  validatePagination,
+  validateUserQuery,
+  validateUserRole
+} from '../middleware/validation.middleware';
+import { User } from '../models';
+import { buildUserFilter, setUserActive, deleteUser } from '../services/user.service';
+
+const router = Router();
+
+/**
+ * Reject changes an admin makes to their own account
+ * The acting admin always stays, so an organisation never loses its last admin.
+ */
+function assertNotSelf(req: Request, action: string): void {
+  if (req.params.id === req.userId) {
+    throw new APIError(`You cannot ${action} your own account`, 400);
+  }
+}
+
+/**
+ * @route   GET /api/users
+ * @desc    Get users, optionally searched by username/email and filtered by role and status
+ * @access  Protected (Admin)
+ */
+router.get(
+  '/',
+  authenticateToken,
+  requireRole('admin'),
+  validatePagination,
+  validateUserQuery,
+  asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+
+    const filter = buildUserFilter({
+      search: req.query.search as string,
+      role: req.query.role as string,
+      isActive: req.query.isActive as string
+    });
+
+    const [users, total] = await Promise.all([
+      User.find(filter)
+        .sort({ username: 1 })
+        .skip(skip)
+        .limit(limit),
+      User.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: users,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  })
+);
+
+/**
+ * @route   GET /api/users/:id
+ * @desc    Get a single user
+ * @access  Protected (Admin)
+ */
+router.get(
+  '/:id',
+  authenticateToken,
+  requireRole('admin'),
+  validateObjectId,
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      throw new APIError('User not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: user
+    });
+  })
+);
+
+/**
+ * @route   PATCH /api/users/:id/role
+ * @desc    Change a user's role
+ * @access  Protected (Admin)
+ */
+router.patch(
+  '/:id/role',
+  authenticateToken,
+  requireRole('admin'),
+  validateUserRole,
+  asyncHandler(async (req: Request, res: Response) => {
+    assertNotSelf(req, 'change the role of');
+
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      throw new APIError('User not found', 404);
+    }
+
+    user.role = req.body.role;
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'User role updated successfully',
+      data: user
+    });
+  })
+);
+
+/**
+ * @route   PATCH /api/users/:id/activate
+ * @desc    Reactivate a deactivated user
+ * @access  Protected (Admin)
+ */
+router.patch(
+  '/:id/activate',
+  authenticateToken,
+  requireRole('admin'),
+  validateObjectId,
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      throw new APIError('User not found', 404);
+    }
+
+    await setUserActive(user, true);
+
+    res.json({
+      success: true,
+      message: 'User activated successfully',
+      data: user
+    });
+  })
+);
+
+/**
+ * @route   PATCH /api/users/:id/deactivate
+ * @desc    Deactivate a user and end all their sessions
+ * @access  Protected (Admin)
+ */
+router.patch(
+  '/:id/deactivate',
+  authenticateToken,
+  requireRole('admin'),
+  validateObjectId,
+  asyncHandler(async (req: Request, res: Response) => {
+    assertNotSelf(req, 'deactivate');
+
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      throw new APIError('User not found', 404);
+    }
+
+    await setUserActive(user, false);
+
+    res.json({
+      success: true,
+      message: 'User deactivated successfully',
+      data: user
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/users/:id
+ * @desc    Delete a user and end all their sessions
+ * @access  Protected (Admin)
+ */
+router.delete(
+  '/:id',
+  authenticateToken,
+  requireRole('admin'),
+  validateObjectId,
+  asyncHandler(async (req: Request, res: Response) => {
+    assertNotSelf(req, 'delete');
+
+    const user = await deleteUser(req.params.id);
+    if (!user) {
+      throw new APIError('User not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'User deleted successfully'
+    });
+  })
+);
+
+export default router;
@@ -5,7 +5,12 @@
 
 import { Router, Request, Response } from 'express';
 import { asyncHandler } from '../middleware/error.middleware';
-import { validateWeatherQuery, validatePagination } from '../middleware/validation.middleware';
+import { optionalAuth } from '../middleware/auth.middleware';
+import {
+  validateWeatherQuery,
+  validatePagination,
+  validateUnits
+} from '../middleware/validation.middleware';
 import { 
   fetchWeatherFromAPI, 
   getHistoricalWeather,
@@ -13,6 +18,8 @@ import {
   getWeatherDescription
 } from '../services/weather.service';
 import { WeatherData } from '../models';
+import { resolveUnitSystem, resolveWindUnits, convertWeather, convertNullable } from '../services/units.service';
+import { withinRadius, WEATHER_MATCH_RADIUS_KM } from '../services/geo.service';
 
 const router = Router();
 
@@ -24,7 +31,11 @@ const router = Router();
 router.get(
   '/current',
   validateWeatherQuery,
+  validateUnits,
+  optionalAuth,
   asyncHandler(async (req: Request, res: Response) => {
+    const units = resolveUnitSystem(req);
+    const windUnits = resolveWindUnits(req);
     const latitude = parseFloat(req.query.latitude as string) || -25.75;
     const longitude = parseFloat(req.query.longitude as string) || 28.19;
 
@@ -32,7 +43,9 @@ router.get(
 
     res.json({
       success: true,
-      data: weather,
+      data: convertWeather(weather, units, windUnits),
+      units,
+      windUnits,
       source: 'open-meteo-api',
       timestamp: new Date().toISOString()
     });
@@ -48,7 +61,11 @@ router.get(
   '/history',
   validateWeatherQuery,
   validatePagination,
+  validateUnits,
+  optionalAuth,
   asyncHandler(async (req: Request, res: Response) => {
+    const units = resolveUnitSystem(req);
+    const windUnits = resolveWindUnits(req);
     const latitude = parseFloat(req.query.latitude as string) || -25.75;
     const longitude = parseFloat(req.query.longitude as string) || 28.19;
     const hours = parseInt(req.query.hours as string) || 24;
@@ -57,7 +74,9 @@ router.get(
 
     res.json({
       success: true,
-      data: history,
+      data: history.map(weather => convertWeather(weather, units, windUnits)),
+      units,
+      windUnits,
       count: history.length,
       query: { latitude, longitude, hours }
     });
@@ -107,7 +126,11 @@ router.get('/code/:code', (req: Request, res: Response) => {
 router.get(
   '/latest',
   validatePagination,
+  validateUnits,
+  optionalAuth,
   asyncHandler(async (req: Request, res: Response) => {
+    const units = resolveUnitSystem(req);
+    const windUnits = resolveWindUnits(req);
     const limit = parseInt(req.query.limit as string) || 10;
 
     const readings = await WeatherData.find()
@@ -117,7 +140,9 @@ router.get(
 
     res.json({
       success: true,
-      data: readings,
+      data: readings.map(weather => convertWeather(weather, units, windUnits)),
+      units,
+      windUnits,
       count: readings.length
     });
   })
@@ -131,7 +156,11 @@ router.get(
 router.get(
   '/statistics',
   validateWeatherQuery,
+  validateUnits,
+  optionalAuth,
   asyncHandler(async (req: Request, res: Response) => {
+    const units = resolveUnitSystem(req);
+    const windUnits = resolveWindUnits(req);
     const latitude = parseFloat(req.query.latitude as string) || -25.75;
     const longitude = parseFloat(req.query.longitude as string) || 28.19;
     const hours = parseInt(req.query.hours as string) || 24;
@@ -142,8 +171,7 @@ router.get(
     const stats = await WeatherData.aggregate([
       {
         $match: {
-          latitude: { $gte: latitude - 0.1, $lte: latitude + 0.1 },
-          longitude: { $gte: longitude - 0.1, $lte: longitude + 0.1 },
+          ...withinRadius(latitude, longitude, WEATHER_MATCH_RADIUS_KM),
           timestamp: { $gte: startTime }
         }
       },
@@ -161,13 +189,23 @@ router.get(
 
     res.json({
       success: true,
-      data: stats[0] || {
-        avgTemperature: null,
-        minTemperature: null,
-        maxTemperature: null,
-        avgWindspeed: null,
-        count: 0
-      },
+      data: stats[0]
+        ? {
+          ...stats[0],
+          avgTemperature: convertNullable(stats[0].avgTemperature, '°C', units),
+          minTemperature: convertNullable(stats[0].minTemperature, '°C', units),
+          maxTemperature: convertNullable(stats[0].maxTemperature, '°C', units),
+          avgWindspeed: convertNullable(stats[0].avgWindspeed, 'km/h', units, windUnits)
+        }
+        : {
+          avgTemperature: null,
+          minTemperature: null,
+          maxTemperature: null,
+          avgWindspeed: null,
+          count: 0
+        },
+      units,
+      windUnits,
       query: { latitude, longitude, hours }
     });
   })
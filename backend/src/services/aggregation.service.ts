@@ -0,0 +1,282 @@
+/**
+ * Reading Aggregation Service
+ * Time-bucketed downsampling of IoT readings for charting
+ */
+
+import { PipelineStage } from 'mongoose';
+import { IoTReading, RollupResolution, getRollupModel } from '../models';
+import { RAW_RETENTION_DAYS } from '../models/iotReading.model';
+import { getRollupWatermark } from './rollup.service';
+
+export type AggregationInterval = '1m' | '5m' | '1h' | '1d';
+export type AggregationFunction = 'avg' | 'min' | 'max' | 'count' | 'p95';
+
+export interface AggregationQuery {
+  sensorId: string;
+  field: string;
+  interval: AggregationInterval;
+  from: Date;
+  to: Date;
+  fns: AggregationFunction[];
+}
+
+export type AggregationSource = 'raw' | 'rollup' | 'mixed';
+
+export interface AggregationResult {
+  buckets: AggregationBucket[];
+  source: AggregationSource;
+}
+
+export interface AggregationBucket {
+  timestamp: Date;
+  avg?: number | null;
+  min?: number | null;
+  max?: number | null;
+  count?: number;
+  p95?: number | null;
+}
+
+/**
+ * Bucket sizes, expressed as $dateTrunc unit/binSize and milliseconds
+ */
+export const AGGREGATION_INTERVALS: Record<
+  AggregationInterval,
+  { unit: 'minute' | 'hour' | 'day'; binSize: number; ms: number }
+> = {
+  '1m': { unit: 'minute', binSize: 1, ms: 60 * 1000 },
+  '5m': { unit: 'minute', binSize: 5, ms: 5 * 60 * 1000 },
+  '1h': { unit: 'hour', binSize: 1, ms: 60 * 60 * 1000 },
+  '1d': { unit: 'day', binSize: 1, ms: 24 * 60 * 60 * 1000 }
+};
+
+export const AGGREGATION_FUNCTIONS: AggregationFunction[] = ['avg', 'min', 'max', 'count', 'p95'];
+
+// Rollup resolution each interval is served from
+const ROLLUP_SOURCES: Record<AggregationInterval, RollupResolution> = {
+  '1m': '1m',
+  '5m': '1m',
+  '1h': '1h',
+  '1d': '1d'
+};
+
+// Upper bound on buckets per request so a 1m interval can't span years
+export const MAX_BUCKETS = 10000;
+
+/**
+ * Build the $group accumulators for the requested functions
+ */
+function buildAccumulators(valuePath: string, fns: AggregationFunction[]): Record<string, unknown> {
+  const accumulators: Record<string, unknown> = {};
+
+  fns.forEach(fn => {
+    switch (fn) {
+      case 'avg':
+        accumulators.avg = { $avg: valuePath };
+        break;
+      case 'min':
+        accumulators.min = { $min: valuePath };
+        break;
+      case 'max':
+        accumulators.max = { $max: valuePath };
+        break;
+      case 'count':
+        accumulators.count = { $sum: 1 };
+        break;
+      case 'p95':
+        // $percentile requires MongoDB 7.0+
+        accumulators.p95 = {
+          $percentile: { input: valuePath, p: [0.95], method: 'approximate' }
+        };
+        break;
+    }
+  });
+
+  return accumulators;
+}
+
+/**
+ * Build the aggregation pipeline for a bucketed query
+ */
+export function buildAggregationPipeline(query: AggregationQuery): PipelineStage[] {
+  const { sensorId, field, interval, from, to, fns } = query;
+  const bucket = AGGREGATION_INTERVALS[interval];
+  const valuePath = `$data.${field}`;
+
+  const project: Record<string, unknown> = { _id: 0, timestamp: '$_id' };
+  fns.forEach(fn => {
+    project[fn] = fn === 'p95' ? { $arrayElemAt: ['$p95', 0] } : 1;
+  });
+
+  return [
+    {
+      $match: {
+        sensorId,
+        timestamp: { $gte: from, $lt: to },
+        [`data.${field}`]: { $type: 'number' }
+      }
+    },
+    {
+      $group: {
+        _id: {
+          $dateTrunc: {
+            date: '$timestamp',
+            unit: bucket.unit,
+            binSize: bucket.binSize
+          }
+        },
+        ...buildAccumulators(valuePath, fns)
+      }
+    },
+    { $sort: { _id: 1 } },
+    { $project: project }
+  ];
+}
+
+/**
+ * Count how many buckets a query would produce at most
+ */
+export function countBuckets(from: Date, to: Date, interval: AggregationInterval): number {
+  return Math.ceil((to.getTime() - from.getTime()) / AGGREGATION_INTERVALS[interval].ms);
+}
+
+/**
+ * Build the aggregation pipeline over a rollup collection
+ * Rollups carry sum/count so averages stay exact when buckets are merged.
+ */
+export function buildRollupAggregationPipeline(query: AggregationQuery): PipelineStage[] {
+  const { sensorId, field, interval, from, to } = query;
+  const bucket = AGGREGATION_INTERVALS[interval];
+
+  return [
+    {
+      $match: {
+        sensorId,
+        field,
+        bucket: { $gte: from, $lt: to }
+      }
+    },
+    {
+      $group: {
+        _id: {
+          $dateTrunc: {
+            date: '$bucket',
+            unit: bucket.unit,
+            binSize: bucket.binSize
+          }
+        },
+        sum: { $sum: '$sum' },
+        count: { $sum: '$count' },
+        min: { $min: '$min' },
+        max: { $max: '$max' }
+      }
+    },
+    { $sort: { _id: 1 } },
+    {
+      $project: {
+        _id: 0,
+        timestamp: '$_id',
+        avg: { $divide: ['$sum', '$count'] },
+        count: 1,
+        min: 1,
+        max: 1
+      }
+    }
+  ];
+}
+
+/**
+ * Combine buckets from two sources that may share a timestamp
+ */
+export function mergeBuckets(
+  first: AggregationBucket[],
+  second: AggregationBucket[],
+  fns: AggregationFunction[]
+): AggregationBucket[] {
+  const merged = new Map<number, AggregationBucket>();
+
+  [...first, ...second].forEach(bucket => {
+    const key = new Date(bucket.timestamp).getTime();
+    const existing = merged.get(key);
+
+    if (!existing) {
+      merged.set(key, { ...bucket });
+      return;
+    }
+
+    const count = (existing.count || 0) + (bucket.count || 0);
+    existing.avg = count > 0
+      ? ((existing.avg || 0) * (existing.count || 0) + (bucket.avg || 0) * (bucket.count || 0)) / count
+      : null;
+    existing.min = Math.min(existing.min ?? Infinity, bucket.min ?? Infinity);
+    existing.max = Math.max(existing.max ?? -Infinity, bucket.max ?? -Infinity);
+    existing.count = count;
+  });
+
+  return [...merged.values()]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .map(bucket => pickFunctions(bucket, fns));
+}
+
+/**
+ * Keep only the requested functions on a bucket
+ */
+function pickFunctions(bucket: AggregationBucket, fns: AggregationFunction[]): AggregationBucket {
+  const picked: AggregationBucket = { timestamp: bucket.timestamp };
+  fns.forEach(fn => {
+    (picked as unknown as Record<string, unknown>)[fn] = bucket[fn];
+  });
+  return picked;
+}
+
+/**
+ * Decide whether a query should be answered from rollups
+ * Percentiles can't be derived from rollups, so p95 always reads raw data.
+ */
+function shouldUseRollups(query: AggregationQuery): boolean {
+  if (query.fns.includes('p95')) return false;
+  if (query.interval === '1h' || query.interval === '1d') return true;
+
+  if (RAW_RETENTION_DAYS > 0) {
+    const rawCutoff = Date.now() - RAW_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    return query.from.getTime() < rawCutoff;
+  }
+
+  return false;
+}
+
+/**
+ * Run a bucketed aggregation, serving materialised ranges from rollups
+ * and anything newer than the rollup watermark from raw readings
+ */
+export async function aggregateReadings(query: AggregationQuery): Promise<AggregationResult> {
+  const raw = (q: AggregationQuery) => IoTReading.aggregate<AggregationBucket>(buildAggregationPipeline(q));
+
+  if (!shouldUseRollups(query)) {
+    return { buckets: await raw(query), source: 'raw' };
+  }
+
+  const resolution = ROLLUP_SOURCES[query.interval];
+  const watermark = await getRollupWatermark(resolution);
+
+  if (!watermark || watermark <= query.from) {
+    return { buckets: await raw(query), source: 'raw' };
+  }
+
+  // Always fetch count/avg internally so the two sources can be merged exactly
+  const internalFns = Array.from(new Set<AggregationFunction>([...query.fns, 'avg', 'count']));
+  const rollupTo = watermark < query.to ? watermark : query.to;
+
+  const [rollupBuckets, rawBuckets] = await Promise.all([
+    getRollupModel(resolution).aggregate<AggregationBucket>(
+      buildRollupAggregationPipeline({ ...query, to: rollupTo })
+    ),
+    rollupTo < query.to
+      ? raw({ ...query, from: rollupTo, fns: internalFns })
+      : Promise.resolve([])
+  ]);
+
+  return {
+    buckets: mergeBuckets(rollupBuckets, rawBuckets, query.fns),
+    source: rawBuckets.length > 0 ? 'mixed' : 'rollup'
+  };
+}
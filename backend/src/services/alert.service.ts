@@ -0,0 +1,305 @@
+/**
+ * Alert Service
+ * Rules engine that evaluates incoming readings and manages the alert lifecycle
+ */
+
+import { logger } from '../config/logger';
+import {
+  Alert,
+  AlertRule,
+  IAlert,
+  IAlertRule,
+  ISensor,
+  IIoTReadingData,
+  Sensor,
+  AlertCondition,
+  AlertSeverity
+} from '../models';
+import { broadcastToTenant } from './websocket.service';
+import { publishToTenant } from './mqtt.service';
+
+export interface EvaluableRule {
+  key: string;
+  name: string;
+  field: string;
+  condition: AlertCondition;
+  threshold: number;
+  duration: number;
+  severity: AlertSeverity;
+}
+
+export interface FieldSample {
+  value: number;
+  timestamp: Date;
+}
+
+/**
+ * Field that Sensor.configuration.thresholds applies to, per sensor type
+ */
+export const THRESHOLD_FIELDS: Record<ISensor['type'], string> = {
+  temperature: 'temperature',
+  humidity: 'humidity',
+  pressure: 'pressure',
+  wind: 'windspeed',
+  combined: 'temperature'
+};
+
+// Last numeric value seen per sensor/field, used for rate-of-change rules
+const lastSamples = new Map<string, FieldSample>();
+
+// When each rule's condition first became true, used for duration rules
+const breachStarts = new Map<string, Date>();
+
+// Timestamp of the newest reading evaluated per sensor
+const lastEvaluated = new Map<string, Date>();
+
+/**
+ * Build implicit rules from a sensor's configured min/max thresholds
+ */
+export function getThresholdRules(sensor: ISensor): EvaluableRule[] {
+  const thresholds = sensor.configuration?.thresholds;
+  const field = THRESHOLD_FIELDS[sensor.type];
+  const rules: EvaluableRule[] = [];
+
+  if (typeof thresholds?.max === 'number') {
+    rules.push({
+      key: 'threshold:max',
+      name: `${field} above configured maximum`,
+      field,
+      condition: 'above',
+      threshold: thresholds.max,
+      duration: 0,
+      severity: 'warning'
+    });
+  }
+
+  if (typeof thresholds?.min === 'number') {
+    rules.push({
+      key: 'threshold:min',
+      name: `${field} below configured minimum`,
+      field,
+      condition: 'below',
+      threshold: thresholds.min,
+      duration: 0,
+      severity: 'warning'
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Convert a stored AlertRule document to an evaluable rule
+ */
+function toEvaluableRule(rule: IAlertRule): EvaluableRule {
+  return {
+    key: rule._id.toString(),
+    name: rule.name,
+    field: rule.field,
+    condition: rule.condition,
+    threshold: rule.threshold,
+    duration: rule.duration || 0,
+    severity: rule.severity
+  };
+}
+
+/**
+ * Check whether a single value breaches a rule's condition
+ * Rate of change is measured in units per minute against the previous sample.
+ */
+export function isConditionMet(
+  rule: Pick<EvaluableRule, 'condition' | 'threshold'>,
+  value: number,
+  timestamp: Date,
+  previous?: FieldSample
+): boolean {
+  switch (rule.condition) {
+    case 'above':
+      return value > rule.threshold;
+    case 'below':
+      return value < rule.threshold;
+    case 'rate_of_change': {
+      if (!previous) return false;
+      const minutes = (timestamp.getTime() - previous.timestamp.getTime()) / 60000;
+      if (minutes <= 0) return false;
+      return Math.abs(value - previous.value) / minutes > rule.threshold;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Build a human readable alert message
+ */
+function buildMessage(sensorId: string, rule: EvaluableRule, value: number): string {
+  const descriptions: Record<AlertCondition, string> = {
+    above: `above ${rule.threshold}`,
+    below: `below ${rule.threshold}`,
+    rate_of_change: `changing faster than ${rule.threshold}/min`
+  };
+  return `Sensor ${sensorId}: ${rule.field} is ${descriptions[rule.condition]} (value ${value.toFixed(2)})`;
+}
+
+/**
+ * Push an alert event to the organisation's WebSocket clients and its MQTT
+ * system alerts topic
+ */
+function notifyAlert(event: 'alert:raised' | 'alert:resolved', alert: IAlert): void {
+  const payload = alert.toJSON();
+
+  broadcastToTenant(alert.organisation, event, payload);
+  publishToTenant(alert.organisation, 'system/alerts', { event, alert: payload });
+}
+
+/**
+ * Open a new alert unless one is already active for this sensor/rule
+ */
+async function raiseAlert(
+  sensorId: string,
+  rule: EvaluableRule,
+  value: number,
+  timestamp: Date
+): Promise<void> {
+  const active = await Alert.findOne({
+    sensorId,
+    ruleKey: rule.key,
+    status: { $in: ['open', 'acknowledged'] }
+  });
+
+  if (active) return;
+
+  const alert = new Alert({
+    sensorId,
+    ruleKey: rule.key,
+    ruleName: rule.name,
+    field: rule.field,
+    condition: rule.condition,
+    threshold: rule.threshold,
+    value,
+    severity: rule.severity,
+    status: 'open',
+    message: buildMessage(sensorId, rule, value),
+    raisedAt: timestamp
+  });
+
+  await alert.save();
+  logger.warn(`Alert raised: ${alert.message}`);
+
+  notifyAlert('alert:raised', alert);
+}
+
+/**
+ * Resolve the active alert for this sensor/rule once its condition clears
+ */
+async function autoResolveAlert(sensorId: string, ruleKey: string): Promise<void> {
+  const active = await Alert.findOne({
+    sensorId,
+    ruleKey,
+    status: { $in: ['open', 'acknowledged'] }
+  });
+
+  if (!active) return;
+
+  active.status = 'resolved';
+  active.resolvedAt = new Date();
+  await active.save();
+  logger.info(`Alert resolved: ${active.message}`);
+
+  notifyAlert('alert:resolved', active);
+}
+
+/**
+ * Evaluate a reading against all rules for its sensor
+ * Readings older than the newest one already evaluated for the sensor are
+ * skipped, so late history cannot resolve live alerts or rewind rate-of-change
+ * samples. Never throws - alerting must not interrupt reading ingestion.
+ */
+export async function evaluateReading(
+  sensorId: string,
+  data: IIoTReadingData,
+  timestamp: Date = new Date(),
+  sensor?: ISensor | null
+): Promise<void> {
+  const newest = lastEvaluated.get(sensorId);
+  if (newest && timestamp < newest) return;
+  lastEvaluated.set(sensorId, timestamp);
+
+  try {
+    const sensorDoc = sensor === undefined ? await Sensor.findOne({ sensorId }) : sensor;
+    const storedRules = await AlertRule.find({ sensorId, isEnabled: true });
+
+    const rules: EvaluableRule[] = [
+      ...(sensorDoc ? getThresholdRules(sensorDoc) : []),
+      ...storedRules.map(toEvaluableRule)
+    ];
+
+    for (const rule of rules) {
+      const value = data[rule.field];
+      if (typeof value !== 'number') continue;
+
+      const previous = lastSamples.get(`${sensorId}:${rule.field}`);
+      const stateKey = `${sensorId}:${rule.key}`;
+
+      if (isConditionMet(rule, value, timestamp, previous)) {
+        const startedAt = breachStarts.get(stateKey) || timestamp;
+        breachStarts.set(stateKey, startedAt);
+
+        if (timestamp.getTime() - startedAt.getTime() >= rule.duration * 1000) {
+          await raiseAlert(sensorId, rule, value, timestamp);
+        }
+      } else {
+        breachStarts.delete(stateKey);
+        await autoResolveAlert(sensorId, rule.key);
+      }
+    }
+
+    // Remember latest values for rate-of-change evaluation
+    Object.entries(data).forEach(([field, value]) => {
+      if (typeof value === 'number') {
+        lastSamples.set(`${sensorId}:${field}`, { value, timestamp });
+      }
+    });
+
+  } catch (error) {
+    logger.error(`Error evaluating alert rules for ${sensorId}:`, error);
+  }
+}
+
+/**
+ * Acknowledge an open alert
+ */
+export async function acknowledgeAlert(alert: IAlert, userId?: string): Promise<IAlert> {
+  alert.status = 'acknowledged';
+  alert.acknowledgedAt = new Date();
+  alert.acknowledgedBy = userId;
+  await alert.save();
+
+  broadcastToTenant(alert.organisation, 'alert:acknowledged', alert.toJSON());
+  return alert;
+}
+
+/**
+ * Manually resolve an alert
+ */
+export async function resolveAlert(alert: IAlert, userId?: string): Promise<IAlert> {
+  alert.status = 'resolved';
+  alert.resolvedAt = new Date();
+  alert.resolvedBy = userId;
+  await alert.save();
+
+  // A manual resolve clears duration tracking so the rule can re-raise cleanly
+  breachStarts.delete(`${alert.sensorId}:${alert.ruleKey}`);
+
+  notifyAlert('alert:resolved', alert);
+  return alert;
+}
+
+/**
+ * Clear in-memory evaluation state (used by tests)
+ */
+export function resetAlertState(): void {
+  lastSamples.clear();
+  breachStarts.clear();
+  lastEvaluated.clear();
+}
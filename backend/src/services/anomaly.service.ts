@@ -0,0 +1,239 @@
+/**
+ * Anomaly Detection Service
+ * Pluggable statistical detectors that flag unusual readings at ingestion
+ */
+
+import { logger } from '../config/logger';
+import { IoTReading, IIoTReadingData } from '../models';
+
+export interface AnomalyScore {
+  score: number;
+  isAnomaly: boolean;
+}
+
+export interface AnomalyDetector {
+  name: string;
+  /**
+   * Score a value against the recent history of the same sensor field.
+   * Returns null when the history is not usable (e.g. zero variance).
+   */
+  evaluate(value: number, history: number[]): AnomalyScore | null;
+}
+
+export interface AnomalyAssessment {
+  isAnomaly: boolean;
+  anomalyScore?: number;
+  anomalyReason?: string;
+}
+
+// Configuration
+const WINDOW_SIZE = parseInt(process.env.ANOMALY_WINDOW_SIZE || '100', 10);
+const MIN_SAMPLES = parseInt(process.env.ANOMALY_MIN_SAMPLES || '20', 10);
+const ENABLED_DETECTORS = (process.env.ANOMALY_DETECTORS || 'zscore,ewma,iqr')
+  .split(',')
+  .map(name => name.trim())
+  .filter(Boolean);
+
+// Device health fields are not environmental measurements
+const EXCLUDED_FIELDS = new Set(['battery', 'signal_strength']);
+
+/**
+ * Rolling z-score against the mean/standard deviation of the window
+ */
+export const zScoreDetector: AnomalyDetector = {
+  name: 'zscore',
+  evaluate(value, history) {
+    const mean = history.reduce((sum, v) => sum + v, 0) / history.length;
+    const variance = history.reduce((sum, v) => sum + (v - mean) ** 2, 0) / history.length;
+    const std = Math.sqrt(variance);
+    if (std === 0) return null;
+
+    const score = Math.abs(value - mean) / std;
+    return { score, isAnomaly: score > 3 };
+  }
+};
+
+/**
+ * Exponentially weighted moving average with EW variance
+ */
+export const ewmaDetector: AnomalyDetector = {
+  name: 'ewma',
+  evaluate(value, history) {
+    const alpha = 0.3;
+    let mean = history[0];
+    let variance = 0;
+
+    for (let i = 1; i < history.length; i++) {
+      const diff = history[i] - mean;
+      mean += alpha * diff;
+      variance = (1 - alpha) * (variance + alpha * diff * diff);
+    }
+
+    const std = Math.sqrt(variance);
+    if (std === 0) return null;
+
+    const score = Math.abs(value - mean) / std;
+    return { score, isAnomaly: score > 3 };
+  }
+};
+
+/**
+ * Interquartile range fences (Tukey, k = 1.5)
+ */
+export const iqrDetector: AnomalyDetector = {
+  name: 'iqr',
+  evaluate(value, history) {
+    const sorted = [...history].sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const iqr = q3 - q1;
+    if (iqr === 0) return null;
+
+    const lower = q1 - 1.5 * iqr;
+    const upper = q3 + 1.5 * iqr;
+    const distance = value < lower ? lower - value : value > upper ? value - upper : 0;
+
+    return { score: distance / iqr, isAnomaly: distance > 0 };
+  }
+};
+
+// Detector registry
+const detectors = new Map<string, AnomalyDetector>(
+  [zScoreDetector, ewmaDetector, iqrDetector].map(d => [d.name, d])
+);
+
+// Rolling windows per sensor/field
+const windows = new Map<string, number[]>();
+const primedSensors = new Set<string>();
+
+/**
+ * Linear interpolated quantile of a sorted array
+ */
+export function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const rest = pos - base;
+  return sorted[base + 1] !== undefined
+    ? sorted[base] + rest * (sorted[base + 1] - sorted[base])
+    : sorted[base];
+}
+
+/**
+ * Register a custom anomaly detector (replaces one with the same name)
+ */
+export function registerAnomalyDetector(detector: AnomalyDetector): void {
+  detectors.set(detector.name, detector);
+  logger.info(`Registered anomaly detector: ${detector.name}`);
+}
+
+/**
+ * Get the detectors enabled via ANOMALY_DETECTORS
+ */
+export function getEnabledDetectors(): AnomalyDetector[] {
+  return ENABLED_DETECTORS
+    .map(name => detectors.get(name))
+    .filter((d): d is AnomalyDetector => d !== undefined);
+}
+
+/**
+ * Score every numeric field of a reading against a set of histories
+ * A reading is anomalous when any enabled detector flags any field.
+ */
+export function scoreReading(
+  data: IIoTReadingData,
+  histories: Map<string, number[]>,
+  enabled: AnomalyDetector[] = getEnabledDetectors()
+): AnomalyAssessment {
+  let maxScore = 0;
+  const reasons: string[] = [];
+
+  for (const [field, value] of Object.entries(data)) {
+    if (typeof value !== 'number' || EXCLUDED_FIELDS.has(field)) continue;
+
+    const history = histories.get(field) || [];
+    if (history.length < MIN_SAMPLES) continue;
+
+    for (const detector of enabled) {
+      const result = detector.evaluate(value, history);
+      if (!result) continue;
+
+      maxScore = Math.max(maxScore, result.score);
+      if (result.isAnomaly) {
+        reasons.push(`${field} flagged by ${detector.name} (score ${result.score.toFixed(2)})`);
+      }
+    }
+  }
+
+  if (reasons.length === 0) {
+    return { isAnomaly: false, anomalyScore: maxScore || undefined };
+  }
+
+  return {
+    isAnomaly: true,
+    anomalyScore: maxScore,
+    anomalyReason: reasons.join('; ')
+  };
+}
+
+/**
+ * Load recent history for a sensor so detection works straight after a restart
+ */
+async function primeSensorWindows(sensorId: string): Promise<void> {
+  primedSensors.add(sensorId);
+
+  const recent = await IoTReading.find({ sensorId })
+    .sort({ timestamp: -1 })
+    .limit(WINDOW_SIZE)
+    .select('data');
+
+  // Oldest first so windows are in arrival order
+  recent.reverse().forEach(reading => pushValues(sensorId, reading.data));
+}
+
+/**
+ * Append numeric values of a reading to the sensor's rolling windows
+ */
+function pushValues(sensorId: string, data: IIoTReadingData): void {
+  Object.entries(data).forEach(([field, value]) => {
+    if (typeof value !== 'number') return;
+
+    const key = `${sensorId}:${field}`;
+    const window = windows.get(key) || [];
+    window.push(value);
+    if (window.length > WINDOW_SIZE) window.shift();
+    windows.set(key, window);
+  });
+}
+
+/**
+ * Assess a new reading and add it to the rolling windows
+ * Never throws - on failure the reading is treated as normal.
+ */
+export async function assessAnomaly(
+  sensorId: string,
+  data: IIoTReadingData
+): Promise<AnomalyAssessment> {
+  try {
+    if (!primedSensors.has(sensorId)) {
+      await primeSensorWindows(sensorId);
+    }
+
+    const histories = new Map<string, number[]>();
+    Object.keys(data).forEach(field => {
+      const window = windows.get(`${sensorId}:${field}`);
+      if (window) histories.set(field, window);
+    });
+
+    const assessment = scoreReading(data, histories);
+    pushValues(sensorId, data);
+
+    if (assessment.isAnomaly) {
+      logger.info(`Anomaly detected for ${sensorId}: ${assessment.anomalyReason}`);
+    }
+
+    return assessment;
+  } catch (error) {
+    logger.error(`Error running anomaly detection for ${sensorId}:`, error);
+    return { isAnomaly: false };
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * API Key Service
+ * Minting, verification and scope checks for machine-client API keys
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { logger } from '../config/logger';
+import { ApiKey, IApiKey, ApiKeyScope, ISensor, withoutTenant } from '../models';
+
+// Keys look like iot_<prefix>_<secret>; the prefix finds the key, the secret proves it
+const KEY_PATTERN = /^iot_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  sensorIds?: string[];
+  sites?: string[];
+  expiresAt?: Date | null;
+}
+
+/**
+ * SHA-256 of a key; keys are random enough that a slow hash adds nothing
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new random key and its lookup prefix
+ */
+export function generateApiKey(): { key: string; prefix: string } {
+  const prefix = randomBytes(6).toString('hex');
+  const secret = randomBytes(32).toString('base64url');
+  return { key: `iot_${prefix}_${secret}`, prefix };
+}
+
+/**
+ * Prefix of a well-formed key, or null
+ */
+export function parseApiKeyPrefix(key: string): string | null {
+  return KEY_PATTERN.exec(key)?.[1] ?? null;
+}
+
+/**
+ * Check whether a key holds a scope, and when a sensor is given, whether it
+ * may act on that sensor
+ * A key limited to sensors or sites covers the sensors listed and every
+ * sensor in the sites listed.
+ */
+export function apiKeyAllows(
+  apiKey: Pick<IApiKey, 'scopes' | 'sensorIds' | 'sites'>,
+  scope: ApiKeyScope,
+  sensor?: Pick<ISensor, 'sensorId' | 'site'>
+): boolean {
+  if (!apiKey.scopes.includes(scope)) return false;
+  if (!sensor) return true;
+
+  const sites = apiKey.sites.map(site => site.toString());
+  if (apiKey.sensorIds.length === 0 && sites.length === 0) return true;
+
+  return apiKey.sensorIds.includes(sensor.sensorId)
+    || (Boolean(sensor.site) && sites.includes(sensor.site!.toString()));
+}
+
+/**
+ * Mint a key
+ * The plain key is returned once and cannot be recovered afterwards.
+ */
+export async function createApiKey(
+  input: ApiKeyInput,
+  userId?: string
+): Promise<{ apiKey: IApiKey; key: string }> {
+  const { key, prefix } = generateApiKey();
+
+  const apiKey = await ApiKey.create({
+    name: input.name,
+    prefix,
+    keyHash: hashApiKey(key),
+    scopes: [...new Set(input.scopes)],
+    sensorIds: input.sensorIds ?? [],
+    sites: input.sites ?? [],
+    expiresAt: input.expiresAt ?? null,
+    createdBy: userId
+  });
+
+  logger.info(`API key ${prefix} (${input.name}) created with scopes ${apiKey.scopes.join(', ')}`);
+  return { apiKey, key };
+}
+
+/**
+ * Look up a key presented by a client and record its use
+ * Keys are looked up across organisations, since the key decides which
+ * organisation the client belongs to. Returns the key, or an error message.
+ */
+export async function verifyApiKey(key: string, ip?: string): Promise<IApiKey | string> {
+  const prefix = parseApiKeyPrefix(key);
+  if (!prefix) return 'Invalid API key';
+
+  const apiKey = await withoutTenant(() => ApiKey.findOne({ prefix }).select('+keyHash'));
+  if (!apiKey) return 'Invalid API key';
+
+  const expected = Buffer.from(apiKey.keyHash, 'hex');
+  const actual = Buffer.from(hashApiKey(key), 'hex');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return 'Invalid API key';
+  }
+
+  if (apiKey.revokedAt) return 'API key revoked';
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) return 'API key expired';
+
+  // Usage tracking must not hold up the request
+  ApiKey.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: new Date(), lastUsedIp: ip } })
+    .catch(error => logger.warn(`Could not record use of API key ${prefix}:`, error));
+
+  return apiKey;
+}
+
+/**
+ * Revoke a key
+ * Returns false when there is no such active key.
+ */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  const result = await ApiKey.updateOne(
+    { _id: id, revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount > 0;
+}
@@ -0,0 +1,208 @@
+/**
+ * Audit Service
+ * Building and storing audit events: action names, diffs and secret redaction
+ */
+
+import { logger } from '../config/logger';
+import { escapeRegExp } from './user.service';
+import {
+  AUDIT_MAX_CHANGES,
+  AuditChange,
+  AuditEvent,
+  AuditCategory,
+  AuditOutcome,
+  IAuditActor,
+  IAuditChange,
+  IAuditFieldChange,
+  runWithTenant
+} from '../models';
+
+// Fields never written to the audit trail, wherever they appear
+const REDACTED_FIELDS = new Set([
+  'password',
+  'currentPassword',
+  'newPassword',
+  'refreshToken',
+  'accessToken',
+  'token',
+  'key',
+  'keyHash',
+  'refreshTokenId'
+]);
+
+// Bookkeeping fields left out of diffs
+const IGNORED_DIFF_FIELDS = new Set(['updatedAt', '__v']);
+
+const VERBS: Record<string, string> = {
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete'
+};
+
+export const REDACTED = '[redacted]';
+
+export interface AuditQuery {
+  category?: string;
+  action?: string;
+  outcome?: string;
+  user?: string;
+  model?: string;
+  documentId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditEventInput {
+  category: AuditCategory;
+  action: string;
+  outcome: AuditOutcome;
+  organisation: string;
+  actor: IAuditActor;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  ip?: string;
+  userAgent?: string;
+  body?: unknown;
+  changes?: AuditChange[];
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Copy of a value with secrets replaced, at any depth
+ * ObjectIds and dates are kept as their string forms.
+ */
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value instanceof Date) return value.toISOString();
+  if (value === null || typeof value !== 'object') return value;
+
+  // ObjectIds and other BSON values
+  if (typeof (value as { toHexString?: unknown }).toHexString === 'function') {
+    return String(value);
+  }
+
+  const copy: Record<string, unknown> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([field, fieldValue]) => {
+    copy[field] = REDACTED_FIELDS.has(field) ? REDACTED : redact(fieldValue);
+  });
+  return copy;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Field-level differences between two snapshots of a document
+ * Nested objects are compared field by field; arrays are compared whole.
+ */
+export function diffDocuments(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  prefix = ''
+): IAuditFieldChange[] {
+  const changes: IAuditFieldChange[] = [];
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  fields.forEach(field => {
+    if (IGNORED_DIFF_FIELDS.has(field)) return;
+
+    const path = prefix ? `${prefix}.${field}` : field;
+    const oldValue = before?.[field];
+    const newValue = after?.[field];
+
+    if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+      changes.push(...diffDocuments(oldValue, newValue, path));
+    } else if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ path, before: oldValue, after: newValue });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Action name of a mutating request, e.g. DELETE /api/sensors/WS-001 → sensors.delete
+ */
+export function auditAction(method: string, path: string): string {
+  const resource = path.replace(/^\/api\//, '').split('/')[0] || 'api';
+  return `${resource}.${VERBS[method.toUpperCase()] ?? method.toLowerCase()}`;
+}
+
+/**
+ * Query filter for the audit trail
+ * `action` matches one action (sensors.delete) or every action on a
+ * resource (sensors); `model` and `documentId` find the events that changed
+ * a given record.
+ */
+export function buildAuditFilter(query: AuditQuery): Record<string, unknown> {
+  const filter: Record<string, unknown> = {};
+
+  if (query.category) filter.category = query.category;
+  if (query.outcome) filter.outcome = query.outcome;
+  if (query.user) filter['actor.user'] = query.user;
+  if (query.action) {
+    filter.action = query.action.includes('.')
+      ? query.action
+      : { $regex: `^${escapeRegExp(query.action)}\\.` };
+  }
+
+  if (query.model || query.documentId) {
+    filter.changes = {
+      $elemMatch: {
+        ...(query.model && { model: query.model }),
+        ...(query.documentId && { documentId: query.documentId })
+      }
+    };
+  }
+
+  if (query.from || query.to) {
+    filter.timestamp = {
+      ...(query.from && { $gte: new Date(query.from) }),
+      ...(query.to && { $lte: new Date(query.to) })
+    };
+  }
+
+  return filter;
+}
+
+/**
+ * Redact a change and attach its field-level diff
+ */
+function toAuditChange(change: AuditChange): IAuditChange {
+  const before = redact(change.before) as Record<string, unknown> | null | undefined;
+  const after = redact(change.after) as Record<string, unknown> | null | undefined;
+
+  return {
+    ...change,
+    before,
+    after,
+    ...(change.operation === 'update' && { diff: diffDocuments(before, after) }),
+    // Operators ($set, $in, ...) are not valid field names, so queries are stored as JSON
+    filter: change.filter && JSON.stringify(redact(change.filter)),
+    update: change.update === undefined ? undefined : JSON.stringify(redact(change.update))
+  };
+}
+
+/**
+ * Store an audit event
+ * Never throws: a failure to audit is logged rather than failing the request.
+ */
+export async function recordAuditEvent(input: AuditEventInput): Promise<void> {
+  const changes = input.changes ?? [];
+
+  try {
+    // Called after the response is sent, outside the request's tenant context
+    await runWithTenant(input.organisation, () => AuditEvent.create({
+      ...input,
+      body: input.body === undefined ? undefined : redact(input.body),
+      changes: changes.slice(0, AUDIT_MAX_CHANGES).map(toAuditChange),
+      changesTruncated: changes.length > AUDIT_MAX_CHANGES,
+      timestamp: new Date()
+    }));
+  } catch (error) {
+    logger.error(`Failed to record audit event ${input.action}:`, error);
+  }
+}
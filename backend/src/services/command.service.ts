@@ -0,0 +1,259 @@
+/**
+ * Command Service
+ * Downlink channel for pushing configuration and actions to sensors over MQTT
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../config/logger';
+import {
+  ISensor,
+  SensorCommand,
+  ISensorCommand,
+  SensorCommandType,
+  SensorCommandStatus
+} from '../models';
+import { broadcastToTenant } from './websocket.service';
+import { getMQTTClient, publishMessageConfirmed, tenantTopic } from './mqtt.service';
+
+// Configuration
+// Sent commands without a response within this window are marked timed out
+const COMMAND_TIMEOUT_MS = parseInt(process.env.COMMAND_TIMEOUT_MS || '30000', 10);
+// Commands that could not be sent (broker down) are given up after this long
+const COMMAND_QUEUE_TTL_MS = parseInt(process.env.COMMAND_QUEUE_TTL_MS || '600000', 10);
+const COMMAND_CHECK_INTERVAL_MS = parseInt(process.env.COMMAND_CHECK_INTERVAL_MS || '5000', 10);
+
+let commandTimer: NodeJS.Timeout | null = null;
+
+// Commands waiting for the broker to acknowledge their publish
+const publishing = new Set<string>();
+
+/**
+ * Downlink topic for a sensor, in its organisation's namespace
+ * Null when the organisation's namespace is unknown.
+ */
+export function commandTopic(sensorId: string, organisationId: { toString(): string }): string | null {
+  return tenantTopic(organisationId, `sensors/${sensorId}/commands`);
+}
+
+/**
+ * Uplink topic a sensor reports command results on
+ */
+export function commandResponseTopic(sensorId: string, organisationId: { toString(): string }): string | null {
+  return tenantTopic(organisationId, `sensors/${sensorId}/commands/response`);
+}
+
+/**
+ * Build the set_config parameters a device needs from a sensor's configuration
+ */
+export function configurationParams(sensor: ISensor): Record<string, unknown> {
+  return {
+    readingInterval: sensor.configuration?.readingInterval,
+    thresholds: sensor.configuration?.thresholds
+  };
+}
+
+/**
+ * Notify dashboard clients of a command state change
+ */
+function notifyCommand(command: ISensorCommand): void {
+  broadcastToTenant(command.organisation, 'command:updated', command.toJSON());
+}
+
+/**
+ * Move a command to a new state only if it is still in the expected one
+ * Returns the updated command, or null when another update settled it first.
+ */
+async function transitionCommand(
+  command: ISensorCommand,
+  from: SensorCommandStatus,
+  update: Partial<Pick<ISensorCommand, 'status' | 'sentAt' | 'error'>>
+): Promise<ISensorCommand | null> {
+  return SensorCommand.findOneAndUpdate(
+    { commandId: command.commandId, status: from },
+    { $set: update },
+    { new: true }
+  );
+}
+
+/**
+ * Publish a queued command if the broker is reachable
+ * The command is marked sent once the broker acknowledges the publish, or
+ * failed if the publish errors. Returns the command's latest state.
+ */
+async function sendCommand(command: ISensorCommand): Promise<ISensorCommand> {
+  if (publishing.has(command.commandId)) return command;
+  if (!getMQTTClient()?.connected) {
+    logger.debug(`MQTT not connected, command ${command.commandId} stays queued`);
+    return command;
+  }
+
+  const topic = commandTopic(command.sensorId, command.organisation);
+  if (!topic) {
+    const failed = await transitionCommand(command, 'queued', {
+      status: 'failed',
+      error: 'Organisation has no MQTT namespace'
+    });
+    if (!failed) return command;
+
+    logger.warn(`Command ${command.commandId} failed: no MQTT namespace for ${command.sensorId}`);
+    notifyCommand(failed);
+    return failed;
+  }
+
+  publishing.add(command.commandId);
+  try {
+    await publishMessageConfirmed(topic, {
+      commandId: command.commandId,
+      type: command.type,
+      params: command.params,
+      responseTopic: commandResponseTopic(command.sensorId, command.organisation),
+      issuedAt: command.createdAt.toISOString()
+    });
+  } catch (error) {
+    logger.error(`Error publishing command ${command.commandId} to ${command.sensorId}:`, error);
+
+    const failed = await transitionCommand(command, 'queued', {
+      status: 'failed',
+      error: `Publish failed: ${(error as Error).message}`
+    });
+    if (!failed) return command;
+
+    notifyCommand(failed);
+    return failed;
+  } finally {
+    publishing.delete(command.commandId);
+  }
+
+  // The device may already have responded before the broker confirmed the publish
+  const sent = await transitionCommand(command, 'queued', { status: 'sent', sentAt: new Date() });
+  if (!sent) {
+    logger.debug(`Command ${command.commandId} was settled before its publish was confirmed`);
+    return command;
+  }
+
+  logger.info(`Sent ${command.type} command ${command.commandId} to ${command.sensorId}`);
+  notifyCommand(sent);
+  return sent;
+}
+
+/**
+ * Queue a command for a sensor and try to send it straight away
+ */
+export async function issueCommand(
+  sensorId: string,
+  type: SensorCommandType,
+  params: Record<string, unknown> = {},
+  userId?: string
+): Promise<ISensorCommand> {
+  const command = await SensorCommand.create({
+    commandId: uuidv4(),
+    sensorId,
+    type,
+    params,
+    issuedBy: userId
+  });
+
+  return sendCommand(command);
+}
+
+/**
+ * Apply a device's response to a command
+ * Devices reply with {commandId, status: 'acked' | 'failed', result?, error?}.
+ */
+export async function handleCommandResponse(
+  sensorId: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  try {
+    const command = await SensorCommand.findOne({
+      commandId: payload.commandId,
+      sensorId
+    });
+
+    if (!command) {
+      logger.warn(`Response for unknown command ${payload.commandId} from ${sensorId}`);
+      return;
+    }
+
+    // A late response still settles a command that already timed out
+    if (command.status === 'acked' || command.status === 'failed') return;
+
+    command.status = payload.status === 'acked' ? 'acked' : 'failed';
+    command.respondedAt = new Date();
+    if (payload.result && typeof payload.result === 'object') {
+      command.result = payload.result as Record<string, unknown>;
+    }
+    if (command.status === 'failed') {
+      command.error = typeof payload.error === 'string' ? payload.error : 'Command failed on device';
+    }
+    await command.save();
+
+    logger.info(`Command ${command.commandId} ${command.status} by ${sensorId}`);
+    notifyCommand(command);
+  } catch (error) {
+    logger.error(`Error handling command response from ${sensorId}:`, error);
+  }
+}
+
+/**
+ * Retry queued commands and time out unanswered ones
+ */
+export async function checkCommands(now: Date = new Date()): Promise<void> {
+  try {
+    const queued = await SensorCommand.find({ status: 'queued' }).sort({ createdAt: 1 });
+
+    for (const command of queued) {
+      if (now.getTime() - command.createdAt.getTime() > COMMAND_QUEUE_TTL_MS) {
+        const timedOut = await transitionCommand(command, 'queued', {
+          status: 'timed_out',
+          error: 'Command could not be delivered'
+        });
+        if (timedOut) notifyCommand(timedOut);
+      } else {
+        await sendCommand(command);
+      }
+    }
+
+    const expired = await SensorCommand.find({
+      status: 'sent',
+      sentAt: { $lt: new Date(now.getTime() - COMMAND_TIMEOUT_MS) }
+    });
+
+    for (const command of expired) {
+      const timedOut = await transitionCommand(command, 'sent', {
+        status: 'timed_out',
+        error: 'No response from device'
+      });
+      if (!timedOut) continue;
+
+      logger.warn(`Command ${command.commandId} to ${command.sensorId} timed out`);
+      notifyCommand(timedOut);
+    }
+  } catch (error) {
+    logger.error('Error checking sensor commands:', error);
+  }
+}
+
+/**
+ * Start the periodic command delivery/timeout check
+ */
+export function startCommandMonitor(): void {
+  if (commandTimer) return;
+
+  commandTimer = setInterval(() => {
+    checkCommands();
+  }, COMMAND_CHECK_INTERVAL_MS);
+
+  logger.info(`Sensor command monitor started (interval: ${COMMAND_CHECK_INTERVAL_MS}ms)`);
+}
+
+/**
+ * Stop the periodic command delivery/timeout check
+ */
+export function stopCommandMonitor(): void {
+  if (commandTimer) {
+    clearInterval(commandTimer);
+    commandTimer = null;
+    logger.info('Sensor command monitor stopped');
+  }
+}
@@ -0,0 +1,454 @@
+/**
+ * Payload Decoder Service
+ * Pluggable codecs that turn raw MQTT payloads (JSON, CSV, CBOR, binary) into readings
+ */
+
+import { logger } from '../config/logger';
+import { Sensor, ISensorDecoderConfig } from '../models';
+
+export type DecoderOptions = Record<string, unknown>;
+
+export interface PayloadDecoder {
+  name: string;
+  /** Binary codecs keep the raw payload as base64 rather than text */
+  binary: boolean;
+  /**
+   * Decode a payload into a reading: either flat measurements or an envelope
+   * of `{ data, timestamp?, messageId? }`. Throws when the payload is malformed.
+   */
+  decode(payload: Buffer, options: DecoderOptions): Record<string, unknown>;
+}
+
+export interface DecoderBinding {
+  /** MQTT topic filter, e.g. `csir/sensors/+/data/lora` */
+  topic: string;
+  codec: string;
+  options?: DecoderOptions;
+}
+
+export interface DecodedPayload {
+  payload: Record<string, unknown>;
+  rawValue?: string;
+  codec: string;
+}
+
+export type ByteFieldType =
+  | 'uint8' | 'int8'
+  | 'uint16' | 'int16'
+  | 'uint32' | 'int32'
+  | 'float32' | 'float64';
+
+export interface ByteField {
+  name: string;
+  type: ByteFieldType;
+  /** Byte offset; defaults to directly after the previous field */
+  offset?: number;
+  /** Multiplier applied to the raw value, e.g. 0.01 for centi-degrees */
+  scale?: number;
+}
+
+const BYTE_SIZES: Record<ByteFieldType, number> = {
+  uint8: 1, int8: 1,
+  uint16: 2, int16: 2,
+  uint32: 4, int32: 4,
+  float32: 4, float64: 8
+};
+
+// Envelope fields that are not measurements
+const ENVELOPE_FIELDS = new Set(['timestamp', 'messageId']);
+
+// Configuration
+// Topic bindings, e.g. [{"topic":"csir/sensors/+/data/lora","codec":"bytes","options":{...}}]
+const PAYLOAD_DECODERS = process.env.PAYLOAD_DECODERS || '[]';
+// How long a sensor's decoder configuration is cached
+const DECODER_CACHE_TTL_MS = parseInt(process.env.DECODER_CACHE_TTL_MS || '60000', 10);
+
+/**
+ * Parse a CSV cell as a number where possible
+ */
+function parseCell(cell: string): string | number {
+  const trimmed = cell.trim();
+  const value = Number(trimmed);
+  return trimmed !== '' && !Number.isNaN(value) ? value : trimmed;
+}
+
+/**
+ * Split decoded fields into an envelope of measurements and metadata
+ */
+function toEnvelope(fields: Record<string, unknown>): Record<string, unknown> {
+  const envelope: Record<string, unknown> = { data: {} };
+  Object.entries(fields).forEach(([name, value]) => {
+    if (ENVELOPE_FIELDS.has(name)) {
+      envelope[name] = value;
+    } else {
+      (envelope.data as Record<string, unknown>)[name] = value;
+    }
+  });
+
+  if (Object.keys(envelope.data as object).length === 0) {
+    throw new Error('Payload contains no measurements');
+  }
+  return envelope;
+}
+
+/**
+ * Decode a half-precision float
+ */
+function decodeFloat16(bits: number): number {
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  const sign = bits & 0x8000 ? -1 : 1;
+
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * Decode a CBOR (RFC 8949) data item
+ * Supports definite-length items, which is what constrained devices emit.
+ */
+export function decodeCbor(buffer: Buffer): unknown {
+  let offset = 0;
+
+  const need = (bytes: number): void => {
+    if (offset + bytes > buffer.length) throw new Error('Unexpected end of CBOR data');
+  };
+
+  const readArgument = (info: number): number => {
+    if (info < 24) return info;
+    switch (info) {
+      case 24: need(1); offset += 1; return buffer.readUInt8(offset - 1);
+      case 25: need(2); offset += 2; return buffer.readUInt16BE(offset - 2);
+      case 26: need(4); offset += 4; return buffer.readUInt32BE(offset - 4);
+      case 27: need(8); offset += 8; return Number(buffer.readBigUInt64BE(offset - 8));
+      default: throw new Error('Indefinite-length CBOR items are not supported');
+    }
+  };
+
+  const readItem = (): unknown => {
+    need(1);
+    const initial = buffer[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readArgument(info);
+      case 1:
+        return -1 - readArgument(info);
+      case 2: {
+        const length = readArgument(info);
+        need(length);
+        offset += length;
+        return buffer.subarray(offset - length, offset).toString('base64');
+      }
+      case 3: {
+        const length = readArgument(info);
+        need(length);
+        offset += length;
+        return buffer.subarray(offset - length, offset).toString('utf8');
+      }
+      case 4: {
+        const length = readArgument(info);
+        return Array.from({ length }, () => readItem());
+      }
+      case 5: {
+        const length = readArgument(info);
+        const map: Record<string, unknown> = {};
+        for (let i = 0; i < length; i++) {
+          const key = String(readItem());
+          map[key] = readItem();
+        }
+        return map;
+      }
+      case 6:
+        // Tags (e.g. date/time) are ignored in favour of the tagged value
+        readArgument(info);
+        return readItem();
+      default:
+        switch (info) {
+          case 20: return false;
+          case 21: return true;
+          case 22: return null;
+          case 23: return undefined;
+          case 25: need(2); offset += 2; return decodeFloat16(buffer.readUInt16BE(offset - 2));
+          case 26: need(4); offset += 4; return buffer.readFloatBE(offset - 4);
+          case 27: need(8); offset += 8; return buffer.readDoubleBE(offset - 8);
+          default: throw new Error(`Unsupported CBOR simple value ${info}`);
+        }
+    }
+  };
+
+  const value = readItem();
+  if (offset !== buffer.length) throw new Error('Trailing bytes after CBOR data');
+  return value;
+}
+
+/**
+ * JSON objects, as published by the simulator
+ */
+export const jsonDecoder: PayloadDecoder = {
+  name: 'json',
+  binary: false,
+  decode(payload) {
+    const value = JSON.parse(payload.toString('utf8'));
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('JSON payload must be an object');
+    }
+    return value;
+  }
+};
+
+/**
+ * CSV rows: either values in the order of `options.columns`
+ * (e.g. `1706788800,24.5,58`) or `key=value` pairs (e.g. `temperature=24.5,humidity=58`)
+ */
+export const csvDecoder: PayloadDecoder = {
+  name: 'csv',
+  binary: false,
+  decode(payload, options) {
+    const delimiter = typeof options.delimiter === 'string' ? options.delimiter : ',';
+    const columns = Array.isArray(options.columns) ? options.columns.map(String) : null;
+    const cells = payload.toString('utf8').trim().split(delimiter);
+    const fields: Record<string, unknown> = {};
+
+    if (columns) {
+      if (cells.length !== columns.length) {
+        throw new Error(`Expected ${columns.length} CSV values, got ${cells.length}`);
+      }
+      columns.forEach((column, i) => {
+        if (column) fields[column] = parseCell(cells[i]);
+      });
+    } else {
+      cells.forEach(cell => {
+        const [key, value] = cell.split('=');
+        if (!key || value === undefined) throw new Error(`Invalid CSV pair "${cell}"`);
+        fields[key.trim()] = parseCell(value);
+      });
+    }
+
+    return toEnvelope(fields);
+  }
+};
+
+/**
+ * CBOR maps, with the same shape as JSON payloads
+ */
+export const cborDecoder: PayloadDecoder = {
+  name: 'cbor',
+  binary: true,
+  decode(payload) {
+    const value = decodeCbor(payload);
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('CBOR payload must be a map');
+    }
+    return value as Record<string, unknown>;
+  }
+};
+
+/**
+ * Fixed byte layouts described by `options.fields`, as sent by LoRa and Modbus bridges
+ * A `timestamp` field is read as epoch seconds.
+ */
+export const byteLayoutDecoder: PayloadDecoder = {
+  name: 'bytes',
+  binary: true,
+  decode(payload, options) {
+    if (!Array.isArray(options.fields) || options.fields.length === 0) {
+      throw new Error('Byte layout decoder requires options.fields');
+    }
+    const littleEndian = options.littleEndian === true;
+    const fields: Record<string, unknown> = {};
+    let position = 0;
+
+    (options.fields as ByteField[]).forEach(field => {
+      const size = BYTE_SIZES[field.type];
+      if (!size) throw new Error(`Unknown byte field type "${field.type}"`);
+
+      const offset = field.offset ?? position;
+      if (offset + size > payload.length) {
+        throw new Error(`Payload too short for field "${field.name}"`);
+      }
+
+      let value: number;
+      switch (field.type) {
+        case 'uint8': value = payload.readUInt8(offset); break;
+        case 'int8': value = payload.readInt8(offset); break;
+        case 'uint16': value = littleEndian ? payload.readUInt16LE(offset) : payload.readUInt16BE(offset); break;
+        case 'int16': value = littleEndian ? payload.readInt16LE(offset) : payload.readInt16BE(offset); break;
+        case 'uint32': value = littleEndian ? payload.readUInt32LE(offset) : payload.readUInt32BE(offset); break;
+        case 'int32': value = littleEndian ? payload.readInt32LE(offset) : payload.readInt32BE(offset); break;
+        case 'float32': value = littleEndian ? payload.readFloatLE(offset) : payload.readFloatBE(offset); break;
+        case 'float64': value = littleEndian ? payload.readDoubleLE(offset) : payload.readDoubleBE(offset); break;
+      }
+
+      fields[field.name] = field.name === 'timestamp'
+        ? new Date(value * 1000).toISOString()
+        : value * (field.scale ?? 1);
+      position = offset + size;
+    });
+
+    return toEnvelope(fields);
+  }
+};
+
+// Decoder registry
+const decoders = new Map<string, PayloadDecoder>(
+  [jsonDecoder, csvDecoder, cborDecoder, byteLayoutDecoder].map(d => [d.name, d])
+);
+
+const bindings: DecoderBinding[] = parseBindings(PAYLOAD_DECODERS);
+
+// Decoder configuration per sensor, cached to avoid a lookup per message
+const sensorDecoders = new Map<string, { config: ISensorDecoderConfig | null; expiresAt: number }>();
+
+/**
+ * Parse topic bindings from configuration
+ */
+function parseBindings(json: string): DecoderBinding[] {
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed)
+      ? parsed.filter(b => b && typeof b.topic === 'string' && typeof b.codec === 'string')
+      : [];
+  } catch (error) {
+    logger.error('Invalid PAYLOAD_DECODERS configuration:', error);
+    return [];
+  }
+}
+
+/**
+ * Register a custom payload decoder (replaces one with the same name)
+ */
+export function registerPayloadDecoder(decoder: PayloadDecoder): void {
+  decoders.set(decoder.name, decoder);
+  logger.info(`Registered payload decoder: ${decoder.name}`);
+}
+
+/**
+ * Bind a decoder to an MQTT topic filter
+ */
+export function registerDecoderBinding(binding: DecoderBinding): void {
+  bindings.push(binding);
+}
+
+/**
+ * Get a registered decoder by name
+ */
+export function getPayloadDecoder(name: string): PayloadDecoder | undefined {
+  return decoders.get(name);
+}
+
+/**
+ * Match a topic against an MQTT topic filter with `+` and `#` wildcards
+ */
+export function topicMatches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') return true;
+    if (i >= topicLevels.length) return false;
+    if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) return false;
+  }
+
+  return filterLevels.length === topicLevels.length;
+}
+
+/**
+ * Resolve the decoder for a message
+ * Order: the sensor's own configuration, topic bindings, a codec named by the
+ * topic suffix (`csir/sensors/{id}/data/csv`), then JSON.
+ */
+export function resolveDecoder(
+  topic: string,
+  sensorConfig: ISensorDecoderConfig | null
+): { decoder: PayloadDecoder; options: DecoderOptions } {
+  const named = (codec: string, options?: DecoderOptions) => {
+    const decoder = decoders.get(codec);
+    if (!decoder) throw new Error(`Unknown payload codec "${codec}"`);
+    return { decoder, options: options || {} };
+  };
+
+  if (sensorConfig?.codec) return named(sensorConfig.codec, sensorConfig.options);
+
+  const binding = bindings.find(b => topicMatches(b.topic, topic));
+  if (binding) return named(binding.codec, binding.options);
+
+  const suffix = topic.split('/')[4];
+  if (suffix) return named(suffix);
+
+  return named('json');
+}
+
+/**
+ * Look up a sensor's decoder configuration through the cache
+ */
+async function getSensorDecoderConfig(sensorId: string): Promise<ISensorDecoderConfig | null> {
+  const cached = sensorDecoders.get(sensorId);
+  if (cached && cached.expiresAt > Date.now()) return cached.config;
+
+  const sensor = await Sensor.findOne({ sensorId }).select('configuration.decoder');
+  const config = sensor?.configuration?.decoder?.codec ? sensor.configuration.decoder : null;
+  sensorDecoders.set(sensorId, { config, expiresAt: Date.now() + DECODER_CACHE_TTL_MS });
+
+  return config;
+}
+
+/**
+ * Count a decode failure against the sensor
+ */
+async function recordDecodeError(sensorId: string, error: Error): Promise<void> {
+  await Sensor.updateOne(
+    { sensorId },
+    {
+      $inc: { 'decodeErrors.count': 1 },
+      $set: { 'decodeErrors.lastError': error.message, 'decodeErrors.lastErrorAt': new Date() }
+    }
+  );
+}
+
+/**
+ * Decode a sensor data message
+ * Returns null (after counting the failure against the sensor) when it can't be decoded.
+ */
+export async function decodeSensorPayload(
+  sensorId: string,
+  topic: string,
+  message: Buffer
+): Promise<DecodedPayload | null> {
+  try {
+    const { decoder, options } = resolveDecoder(topic, await getSensorDecoderConfig(sensorId));
+
+    return {
+      payload: decoder.decode(message, options),
+      codec: decoder.name,
+      // JSON is stored structurally; other formats keep the original payload
+      ...(decoder.name !== 'json' && {
+        rawValue: message.toString(decoder.binary ? 'base64' : 'utf8')
+      })
+    };
+  } catch (error) {
+    const decodeError = error instanceof Error ? error : new Error(String(error));
+    logger.warn(`Failed to decode payload from ${sensorId} on ${topic}: ${decodeError.message}`);
+
+    try {
+      await recordDecodeError(sensorId, decodeError);
+    } catch (recordError) {
+      logger.error(`Error recording decode failure for ${sensorId}:`, recordError);
+    }
+    return null;
+  }
+}
+
+/**
+ * Forget a sensor's cached decoder configuration (after it is updated)
+ */
+export function invalidateDecoderCache(sensorId?: string): void {
+  if (sensorId) {
+    sensorDecoders.delete(sensorId);
+  } else {
+    sensorDecoders.clear();
+  }
+}
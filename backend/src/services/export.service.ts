@@ -0,0 +1,264 @@
+/**
+ * Export Service
+ * Streams historical readings as CSV, NDJSON or Parquet straight from a cursor
+ */
+
+import { Writable } from 'stream';
+import { ParquetSchema, ParquetWriter, ParquetFieldDefinition } from 'parquetjs-lite';
+import { logger } from '../config/logger';
+import { IoTReading, IIoTReading, UnitSystem, WindUnit } from '../models';
+import { getMeasurementField } from './measurement.service';
+import { convertReadingData } from './units.service';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson', 'parquet'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  parquet: 'application/vnd.apache.parquet'
+};
+
+export interface ExportOptions {
+  sensorIds?: string[];
+  from: Date;
+  to: Date;
+  fields?: string[];
+  format: ExportFormat;
+  units?: UnitSystem;
+  windUnits?: WindUnit | null;
+}
+
+type ExportRow = Record<string, unknown>;
+
+// Reading columns written before the flattened data.* columns
+const BASE_COLUMNS = ['timestamp', 'sensorId', 'quality', 'isAnomaly'];
+
+// Configuration
+const EXPORT_CURSOR_BATCH_SIZE = parseInt(process.env.EXPORT_CURSOR_BATCH_SIZE || '1000', 10);
+// Text output is buffered up to this size between writes
+const EXPORT_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Build the reading query for an export
+ */
+export function buildExportFilter(options: ExportOptions): Record<string, unknown> {
+  return {
+    ...(options.sensorIds?.length && { sensorId: { $in: options.sensorIds } }),
+    timestamp: { $gte: options.from, $lte: options.to }
+  };
+}
+
+/**
+ * Data fields to export: the requested ones, or every field present in the range
+ */
+async function resolveExportFields(
+  filter: Record<string, unknown>,
+  fields?: string[]
+): Promise<string[]> {
+  if (fields?.length) return fields;
+
+  const keys = await IoTReading.aggregate<{ _id: string }>([
+    { $match: filter },
+    { $project: { keys: { $objectToArray: '$data' } } },
+    { $unwind: '$keys' },
+    { $group: { _id: '$keys.k' } },
+    { $sort: { _id: 1 } }
+  ]);
+
+  return keys.map(key => key._id);
+}
+
+/**
+ * Flatten a reading into an export row with data.* columns
+ */
+export function flattenReading(
+  reading: Pick<IIoTReading, 'timestamp' | 'sensorId' | 'quality' | 'isAnomaly' | 'data'>,
+  fields: string[],
+  units: UnitSystem = 'metric',
+  windUnits: WindUnit | null = null
+): ExportRow {
+  const data = convertReadingData(reading.data || {}, units, windUnits);
+  const row: ExportRow = {
+    timestamp: reading.timestamp,
+    sensorId: reading.sensorId,
+    quality: reading.quality,
+    isAnomaly: reading.isAnomaly
+  };
+
+  fields.forEach(field => {
+    row[`data.${field}`] = data[field];
+  });
+
+  return row;
+}
+
+/**
+ * Format one CSV cell, quoting when needed
+ */
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format values as a CSV line
+ */
+export function toCsvLine(values: unknown[]): string {
+  return values.map(csvCell).join(',') + '\n';
+}
+
+/**
+ * Write to the output, waiting for it to drain when its buffer is full
+ */
+async function writeChunk(output: Writable, chunk: string): Promise<void> {
+  if (output.write(chunk)) return;
+
+  await new Promise<void>(resolve => {
+    const done = () => {
+      output.off('drain', done);
+      output.off('close', done);
+      resolve();
+    };
+    output.on('drain', done);
+    output.on('close', done);
+  });
+}
+
+/**
+ * Parquet column definition for a data field, from its catalog data type
+ */
+function parquetColumn(field: string): ParquetFieldDefinition {
+  switch (getMeasurementField(field)?.dataType) {
+    case 'boolean':
+      return { type: 'BOOLEAN', optional: true };
+    case 'string':
+      return { type: 'UTF8', optional: true };
+    case 'integer':
+      return { type: 'INT64', optional: true };
+    case 'number':
+      return { type: 'DOUBLE', optional: true };
+    default:
+      // Uncatalogued fields may hold anything, so they are kept as text
+      return { type: 'UTF8', optional: true };
+  }
+}
+
+/**
+ * Coerce a value to its Parquet column type; mismatches become nulls
+ */
+function parquetValue(value: unknown, column: ParquetFieldDefinition): unknown {
+  if (value === undefined || value === null) return undefined;
+
+  switch (column.type) {
+    case 'DOUBLE':
+      return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+    case 'INT64':
+      return typeof value === 'number' && Number.isInteger(value) ? value : undefined;
+    case 'BOOLEAN':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'TIMESTAMP_MILLIS':
+      return value;
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Stream readings matching the options to the output in the requested format
+ * Readings are read through a cursor in timestamp order so memory use stays flat
+ * regardless of the range. Returns the number of readings written.
+ */
+export async function streamExport(output: Writable, options: ExportOptions): Promise<number> {
+  const filter = buildExportFilter(options);
+  const fields = await resolveExportFields(filter, options.fields);
+  const columns = [...BASE_COLUMNS, ...fields.map(field => `data.${field}`)];
+
+  const cursor = IoTReading.find(filter)
+    .sort({ timestamp: 1 })
+    .select('timestamp sensorId quality isAnomaly data')
+    .lean<IIoTReading>()
+    .batchSize(EXPORT_CURSOR_BATCH_SIZE)
+    .cursor();
+
+  let count = 0;
+  let parquet: ParquetWriter | null = null;
+  let parquetColumns: Record<string, ParquetFieldDefinition> = {};
+  let buffer = '';
+
+  try {
+    if (options.format === 'parquet') {
+      parquetColumns = {
+        timestamp: { type: 'TIMESTAMP_MILLIS' },
+        sensorId: { type: 'UTF8' },
+        quality: { type: 'UTF8', optional: true },
+        isAnomaly: { type: 'BOOLEAN', optional: true }
+      };
+      fields.forEach(field => {
+        parquetColumns[`data.${field}`] = parquetColumn(field);
+      });
+      const schema: Record<string, ParquetFieldDefinition> = {};
+      Object.entries(parquetColumns).forEach(([column, definition]) => {
+        schema[column] = { ...definition, compression: 'GZIP' };
+      });
+      parquet = await ParquetWriter.openStream(new ParquetSchema(schema), output);
+    } else if (options.format === 'csv') {
+      buffer = toCsvLine(columns);
+    }
+
+    for await (const reading of cursor) {
+      // Stop reading when the client has gone away
+      if (output.destroyed) break;
+
+      const row = flattenReading(reading, fields, options.units, options.windUnits);
+      count++;
+
+      if (parquet) {
+        const values: ExportRow = {};
+        columns.forEach(column => {
+          values[column] = parquetValue(row[column], parquetColumns[column]);
+        });
+        await parquet.appendRow(values);
+        continue;
+      }
+
+      buffer += options.format === 'csv'
+        ? toCsvLine(columns.map(column => row[column]))
+        : JSON.stringify(row) + '\n';
+
+      if (buffer.length >= EXPORT_CHUNK_BYTES) {
+        await writeChunk(output, buffer);
+        buffer = '';
+      }
+    }
+
+    if (output.destroyed) {
+      logger.warn(`Export aborted by client after ${count} readings`);
+      return count;
+    }
+
+    if (parquet) {
+      // Writes the footer and ends the output
+      await parquet.close();
+    } else {
+      if (buffer) await writeChunk(output, buffer);
+      output.end();
+    }
+  } finally {
+    await cursor.close();
+  }
+
+  logger.info(`Exported ${count} readings as ${options.format}`);
+  return count;
+}
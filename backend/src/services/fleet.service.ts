@@ -0,0 +1,417 @@
+/**
+ * Fleet Service
+ * Bulk sensor import (CSV or JSON, with dry runs) and export of the fleet definition
+ */
+
+import { logger } from '../config/logger';
+import { Sensor, ISensor } from '../models';
+import { issueCommand, configurationParams } from './command.service';
+import { getPayloadDecoder, invalidateDecoderCache } from './decoder.service';
+import { toCsvLine } from './export.service';
+import { syncSensorGeo } from './geo.service';
+import { sensorIdsInUse } from './provisioning.service';
+
+export type FleetFormat = 'csv' | 'json';
+
+export type FleetImportStatus = 'created' | 'updated' | 'unchanged' | 'invalid';
+
+export interface FleetImportItemResult {
+  index: number;
+  sensorId?: string;
+  status: FleetImportStatus;
+  /** Fields that differ from the stored sensor */
+  changes?: string[];
+  errors?: string[];
+}
+
+export interface FleetImportReport {
+  dryRun: boolean;
+  applied: boolean;
+  summary: {
+    received: number;
+    created: number;
+    updated: number;
+    unchanged: number;
+    invalid: number;
+  };
+  results: FleetImportItemResult[];
+}
+
+type FleetValueKind = 'string' | 'number' | 'boolean' | 'object';
+
+// Sensor fields in the fleet definition, as CSV columns (dot paths into the sensor)
+export const FLEET_COLUMNS: { path: string; kind: FleetValueKind }[] = [
+  { path: 'sensorId', kind: 'string' },
+  { path: 'name', kind: 'string' },
+  { path: 'type', kind: 'string' },
+  { path: 'location.latitude', kind: 'number' },
+  { path: 'location.longitude', kind: 'number' },
+  { path: 'location.name', kind: 'string' },
+  { path: 'location.altitude', kind: 'number' },
+  { path: 'isActive', kind: 'boolean' },
+  { path: 'configuration.readingInterval', kind: 'number' },
+  { path: 'configuration.thresholds.min', kind: 'number' },
+  { path: 'configuration.thresholds.max', kind: 'number' },
+  { path: 'configuration.decoder.codec', kind: 'string' },
+  { path: 'configuration.decoder.options', kind: 'object' },
+  { path: 'metadata', kind: 'object' }
+];
+
+// Fields a row must set when it creates a sensor
+const REQUIRED_ON_CREATE = ['name', 'type', 'location.latitude', 'location.longitude', 'location.name'];
+
+// Changes to these fields are pushed to the device as a set_config command
+const DEVICE_CONFIG_FIELDS = [
+  'configuration.readingInterval',
+  'configuration.thresholds.min',
+  'configuration.thresholds.max'
+];
+
+const SENSOR_TYPES: ISensor['type'][] = ['temperature', 'humidity', 'pressure', 'wind', 'combined'];
+
+// Configuration
+export const FLEET_IMPORT_MAX_SENSORS = parseInt(process.env.FLEET_IMPORT_MAX_SENSORS || '5000', 10);
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting, blank lines skipped)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+
+  if (quoted) throw new Error('Unterminated quoted CSV value');
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Parse a fleet CSV file into rows keyed by column path
+ * Empty cells are left out, so they leave the stored value unchanged.
+ */
+export function parseFleetCsv(text: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) throw new Error('CSV file is empty');
+
+  const columns = header.map(column => column.trim());
+  const known = new Set(FLEET_COLUMNS.map(column => column.path));
+  const unknown = columns.filter(column => !known.has(column));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown CSV column${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`);
+  }
+  if (!columns.includes('sensorId')) throw new Error('CSV file needs a sensorId column');
+
+  return rows.map(cells => {
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const cell = cells[i]?.trim();
+      if (cell) row[column] = cell;
+    });
+    return row;
+  });
+}
+
+/**
+ * Read a value at a dot path of a plain object
+ */
+function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+}
+
+/**
+ * Flatten a sensor definition (JSON import or stored sensor) into a row keyed by column path
+ */
+export function flattenSensorDefinition(definition: unknown): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  FLEET_COLUMNS.forEach(({ path }) => {
+    const value = getPath(definition, path);
+    if (value !== undefined && value !== null && value !== '') row[path] = value;
+  });
+  return row;
+}
+
+/**
+ * Convert a row value to its column kind; CSV cells arrive as strings
+ */
+function coerceValue(value: unknown, kind: FleetValueKind): unknown {
+  switch (kind) {
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value) : value;
+      return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+      return typeof value === 'boolean' ? value : undefined;
+    case 'object': {
+      let object = value;
+      if (typeof value === 'string') {
+        try {
+          object = JSON.parse(value);
+        } catch {
+          return undefined;
+        }
+      }
+      return object && typeof object === 'object' && !Array.isArray(object) ? object : undefined;
+    }
+    default:
+      return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : undefined;
+  }
+}
+
+/**
+ * Coerce and check one row
+ * Returns the typed values and any problems; required-on-create fields are
+ * checked later, once it is known whether the sensor exists.
+ */
+export function validateFleetRow(row: Record<string, unknown>): {
+  values: Record<string, unknown>;
+  errors: string[];
+} {
+  const values: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  FLEET_COLUMNS.forEach(({ path, kind }) => {
+    if (row[path] === undefined) return;
+    const value = coerceValue(row[path], kind);
+    if (value === undefined) {
+      errors.push(`${path} must be ${kind === 'object' ? 'a JSON object' : `a ${kind}`}`);
+    } else {
+      values[path] = value;
+    }
+  });
+
+  const sensorId = values.sensorId as string | undefined;
+  if (!sensorId) {
+    errors.push('sensorId is required');
+  } else if (sensorId.length < 3 || sensorId.length > 50) {
+    errors.push('sensorId must be between 3 and 50 characters');
+  }
+
+  const name = values.name as string | undefined;
+  if (name !== undefined && (!name || name.length > 100)) {
+    errors.push('name must be between 1 and 100 characters');
+  }
+
+  const type = values.type as ISensor['type'] | undefined;
+  if (type !== undefined && !SENSOR_TYPES.includes(type)) {
+    errors.push(`Unknown sensor type "${type}" (expected ${SENSOR_TYPES.join(', ')})`);
+  }
+
+  const latitude = values['location.latitude'] as number | undefined;
+  if (latitude !== undefined && (latitude < -90 || latitude > 90)) {
+    errors.push('location.latitude must be between -90 and 90');
+  }
+
+  const longitude = values['location.longitude'] as number | undefined;
+  if (longitude !== undefined && (longitude < -180 || longitude > 180)) {
+    errors.push('location.longitude must be between -180 and 180');
+  }
+
+  if (values['location.name'] === '') errors.push('location.name cannot be empty');
+
+  const interval = values['configuration.readingInterval'] as number | undefined;
+  if (interval !== undefined && (!Number.isInteger(interval) || interval <= 0)) {
+    errors.push('configuration.readingInterval must be a positive integer (milliseconds)');
+  }
+
+  const min = values['configuration.thresholds.min'] as number | undefined;
+  const max = values['configuration.thresholds.max'] as number | undefined;
+  if (min !== undefined && max !== undefined && min > max) {
+    errors.push('configuration.thresholds.min cannot be greater than max');
+  }
+
+  const codec = values['configuration.decoder.codec'] as string | undefined;
+  if (codec !== undefined && !getPayloadDecoder(codec)) {
+    errors.push(`Unknown payload codec "${codec}"`);
+  }
+
+  return { values, errors };
+}
+
+/**
+ * Check whether a stored value matches an imported one
+ */
+function sameValue(stored: unknown, value: unknown): boolean {
+  if (value && typeof value === 'object') {
+    return JSON.stringify(stored ?? null) === JSON.stringify(value);
+  }
+  return stored === value;
+}
+
+/**
+ * Validate rows against each other and the stored fleet, then upsert them
+ * Invalid rows (or a dry run) leave the fleet untouched; the report says what
+ * each row would do. Applied imports push changed device settings as set_config.
+ */
+export async function importFleet(
+  rows: Record<string, unknown>[],
+  options: { dryRun?: boolean; userId?: string } = {}
+): Promise<FleetImportReport> {
+  const checked = rows.map(validateFleetRow);
+
+  const sensorIds = [...new Set(
+    checked.map(row => row.values.sensorId).filter((id): id is string => typeof id === 'string')
+  )];
+  const existing = new Map(
+    (await Sensor.find({ sensorId: { $in: sensorIds } })).map(sensor => [sensor.sensorId, sensor])
+  );
+  // IDs registered by other organisations cannot be created here
+  const inUse = await sensorIdsInUse(sensorIds);
+
+  const firstIndex = new Map<string, number>();
+  const results: FleetImportItemResult[] = checked.map(({ values, errors }, index) => {
+    const sensorId = values.sensorId as string | undefined;
+
+    if (sensorId) {
+      const first = firstIndex.get(sensorId);
+      if (first !== undefined) {
+        errors.push(`Duplicate sensorId (first seen at index ${first})`);
+      } else {
+        firstIndex.set(sensorId, index);
+      }
+    }
+
+    const sensor = sensorId ? existing.get(sensorId) : undefined;
+    if (!sensor && sensorId && inUse.has(sensorId)) {
+      errors.push('sensorId is already in use');
+    }
+    if (!sensor) {
+      REQUIRED_ON_CREATE
+        .filter(path => values[path] === undefined)
+        .forEach(path => errors.push(`${path} is required for a new sensor`));
+    }
+
+    if (errors.length > 0) return { index, sensorId, status: 'invalid', errors };
+    if (!sensor) return { index, sensorId, status: 'created' };
+
+    const changes = Object.keys(values).filter(path => !sameValue(sensor.get(path), values[path]));
+    return changes.length > 0
+      ? { index, sensorId, status: 'updated', changes }
+      : { index, sensorId, status: 'unchanged' };
+  });
+
+  const count = (status: FleetImportStatus) => results.filter(r => r.status === status).length;
+  const report: FleetImportReport = {
+    dryRun: Boolean(options.dryRun),
+    applied: false,
+    summary: {
+      received: rows.length,
+      created: count('created'),
+      updated: count('updated'),
+      unchanged: count('unchanged'),
+      invalid: count('invalid')
+    },
+    results
+  };
+
+  if (options.dryRun || report.summary.invalid > 0) return report;
+
+  const writes = results.filter(r => r.status === 'created' || r.status === 'updated');
+  if (writes.length > 0) {
+    await Sensor.bulkWrite(writes.map(result => {
+      const { sensorId, ...fields } = checked[result.index].values;
+      return {
+        updateOne: {
+          filter: { sensorId },
+          update: { $set: fields },
+          upsert: true
+        }
+      };
+    }));
+  }
+  // Bulk writes skip document middleware, so points are derived here
+  await syncSensorGeo(writes.map(result => result.sensorId as string));
+  writes.forEach(result => invalidateDecoderCache(result.sensorId));
+  report.applied = true;
+
+  // Push device settings that changed on existing sensors
+  const reconfigured = writes
+    .filter(result => result.changes?.some(path => DEVICE_CONFIG_FIELDS.includes(path)))
+    .map(result => result.sensorId as string);
+  if (reconfigured.length > 0) {
+    const sensors = await Sensor.find({ sensorId: { $in: reconfigured } });
+    for (const sensor of sensors) {
+      await issueCommand(sensor.sensorId, 'set_config', configurationParams(sensor), options.userId);
+    }
+  }
+
+  logger.info(
+    `Fleet import: ${report.summary.created} created, ${report.summary.updated} updated, ` +
+    `${report.summary.unchanged} unchanged`
+  );
+  return report;
+}
+
+/**
+ * Nest a fleet row back into a sensor definition
+ */
+function toSensorDefinition(row: Record<string, unknown>): Record<string, unknown> {
+  const definition: Record<string, unknown> = {};
+  Object.entries(row).forEach(([path, value]) => {
+    const keys = path.split('.');
+    let target = definition;
+    keys.slice(0, -1).forEach(key => {
+      target[key] = (target[key] as Record<string, unknown>) || {};
+      target = target[key] as Record<string, unknown>;
+    });
+    target[keys[keys.length - 1]] = value;
+  });
+  return definition;
+}
+
+/**
+ * Format fleet rows as a CSV file with every fleet column
+ */
+export function formatFleetCsv(rows: Record<string, unknown>[]): string {
+  const paths = FLEET_COLUMNS.map(column => column.path);
+  return toCsvLine(paths) + rows.map(row => toCsvLine(paths.map(path => row[path]))).join('');
+}
+
+/**
+ * Export the fleet definition, sorted by sensor ID so files diff cleanly
+ * The output is accepted unchanged by importFleet.
+ */
+export async function exportFleet(format: FleetFormat): Promise<string> {
+  const sensors = await Sensor.find().sort({ sensorId: 1 }).lean();
+  const rows = sensors.map(flattenSensorDefinition);
+
+  return format === 'csv'
+    ? formatFleetCsv(rows)
+    : JSON.stringify(rows.map(toSensorDefinition), null, 2) + '\n';
+}
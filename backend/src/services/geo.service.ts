@@ -0,0 +1,140 @@
+/**
+ * Geo Service
+ * GeoJSON points for sensors and weather data, and the spatial queries built on them
+ */
+
+import { logger } from '../config/logger';
+import { Sensor, WeatherData, IGeoPoint, IGeoPolygon, EARTH_RADIUS_KM } from '../models';
+
+// Configuration
+// Weather records within this distance of a requested location count as that location
+export const WEATHER_MATCH_RADIUS_KM = parseFloat(process.env.WEATHER_MATCH_RADIUS_KM || '10');
+
+export interface RadiusFilter {
+  geo: {
+    $geoWithin: { $centerSphere: [[number, number], number] };
+  };
+}
+
+/**
+ * GeoJSON point for a latitude/longitude pair (GeoJSON orders longitude first)
+ */
+export function toGeoPoint(latitude: number, longitude: number): IGeoPoint {
+  return { type: 'Point', coordinates: [longitude, latitude] };
+}
+
+/**
+ * Query filter for documents whose `geo` point is within a radius of a location
+ * Unlike $near this can be used inside aggregation $match stages.
+ */
+export function withinRadius(latitude: number, longitude: number, radiusKm: number): RadiusFilter {
+  return {
+    geo: {
+      $geoWithin: { $centerSphere: [[longitude, latitude], radiusKm / EARTH_RADIUS_KM] }
+    }
+  };
+}
+
+/**
+ * Check that a value is a GeoJSON polygon with closed rings of valid positions
+ * Returns an error message, or null. Self-intersection is left to MongoDB.
+ */
+export function validatePolygon(value: unknown): string | null {
+  const polygon = value as IGeoPolygon;
+  if (!polygon || polygon.type !== 'Polygon' || !Array.isArray(polygon.coordinates)) {
+    return 'Polygon must be a GeoJSON Polygon';
+  }
+  if (polygon.coordinates.length === 0) return 'Polygon needs at least one ring';
+
+  for (const ring of polygon.coordinates) {
+    if (!Array.isArray(ring) || ring.length < 4) {
+      return 'Polygon rings need at least three distinct positions and must be closed';
+    }
+
+    for (const position of ring) {
+      if (!Array.isArray(position) || position.length < 2 || !position.every(Number.isFinite)) {
+        return 'Polygon positions must be [longitude, latitude] pairs';
+      }
+      const [longitude, latitude] = position;
+      if (longitude < -180 || longitude > 180 || latitude < -90 || latitude > 90) {
+        return 'Polygon positions must be within longitude -180..180 and latitude -90..90';
+      }
+    }
+
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      return 'Polygon rings must be closed (first and last positions equal)';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a polygon query parameter: `lon,lat;lon,lat;...` (closed automatically)
+ * or a GeoJSON Polygon as JSON
+ */
+export function parsePolygon(text: string): IGeoPolygon {
+  let polygon: unknown;
+
+  if (text.trim().startsWith('{')) {
+    try {
+      polygon = JSON.parse(text);
+    } catch {
+      throw new Error('Polygon is not valid JSON');
+    }
+  } else {
+    const ring = text.split(';').filter(Boolean).map(pair => pair.split(',').map(Number));
+    const [first, last] = [ring[0], ring[ring.length - 1]];
+    if (first && last && (first[0] !== last[0] || first[1] !== last[1])) ring.push([...first]);
+    polygon = { type: 'Polygon', coordinates: [ring] };
+  }
+
+  const error = validatePolygon(polygon);
+  if (error) throw new Error(error);
+  return polygon as IGeoPolygon;
+}
+
+/**
+ * Check whether an error is MongoDB rejecting a geometry (e.g. a self-intersecting polygon)
+ */
+export function isInvalidGeometryError(error: unknown): boolean {
+  const code = (error as { code?: number })?.code;
+  return code === 2 || code === 16755;
+}
+
+// Pipeline stage deriving a sensor's point from its location
+const SENSOR_GEO_STAGE = {
+  $set: { geo: { type: 'Point', coordinates: ['$location.longitude', '$location.latitude'] } }
+};
+
+/**
+ * Recompute the points of sensors written without document middleware (bulk writes)
+ */
+export async function syncSensorGeo(sensorIds: string[]): Promise<void> {
+  if (sensorIds.length === 0) return;
+  await Sensor.updateMany({ sensorId: { $in: sensorIds } }, [SENSOR_GEO_STAGE]);
+}
+
+/**
+ * Add points to sensors and weather records stored before they were introduced
+ */
+export async function backfillGeoPoints(): Promise<void> {
+  const [sensors, weather] = await Promise.all([
+    Sensor.updateMany(
+      { geo: { $exists: false }, 'location.latitude': { $type: 'number' } },
+      [SENSOR_GEO_STAGE]
+    ),
+    WeatherData.updateMany(
+      { geo: { $exists: false } },
+      [{ $set: { geo: { type: 'Point', coordinates: ['$longitude', '$latitude'] } } }]
+    )
+  ]);
+
+  if (sensors.modifiedCount > 0 || weather.modifiedCount > 0) {
+    logger.info(
+      `Added GeoJSON points to ${sensors.modifiedCount} sensors and ${weather.modifiedCount} weather records`
+    );
+  }
+}
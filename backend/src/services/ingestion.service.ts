@@ -0,0 +1,363 @@
+/**
+ * Ingestion Service
+ * Device timestamps, message de-duplication and bulk storage of gateway readings
+ */
+
+import { logger } from '../config/logger';
+import {
+  IoTReading,
+  IIoTReading,
+  IIoTReadingData,
+  Sensor,
+  ISensor
+} from '../models';
+import { sendReadingBatch } from './websocket.service';
+import { evaluateReading } from './alert.service';
+import { recordActivity } from './presence.service';
+import { assessAnomaly } from './anomaly.service';
+import { assessQuality } from './quality.service';
+import { validateMeasurements } from './measurement.service';
+
+export type BatchItemStatus = 'created' | 'duplicate' | 'rejected';
+
+export interface BatchItemResult {
+  index: number;
+  status: BatchItemStatus;
+  id?: string;
+  error?: string;
+}
+
+export interface BatchResult {
+  summary: {
+    received: number;
+    created: number;
+    duplicates: number;
+    rejected: number;
+  };
+  results: BatchItemResult[];
+}
+
+interface BatchCandidate {
+  index: number;
+  sensor: ISensor;
+  timestamp: Date;
+  data: IIoTReadingData;
+  quality?: 'good' | 'fair' | 'poor';
+  messageId?: string;
+  rawValue?: string;
+}
+
+const QUALITY_GRADES = ['good', 'fair', 'poor'];
+
+// Configuration
+export const BATCH_MAX_READINGS = parseInt(process.env.BATCH_MAX_READINGS || '5000', 10);
+// Allowance for device clocks running ahead of the server
+export const DEVICE_CLOCK_SKEW_MS = parseInt(process.env.DEVICE_CLOCK_SKEW_MS || '300000', 10);
+// Oldest device timestamp accepted (MQTT and batch); anything older points at an unset clock
+const DEVICE_MAX_AGE_MS = parseInt(process.env.DEVICE_MAX_AGE_MS || '604800000', 10); // 7 days
+// Recently seen MQTT message IDs, to drop QoS 1 redeliveries before they are processed
+const MESSAGE_DEDUPE_CACHE_SIZE = parseInt(process.env.MESSAGE_DEDUPE_CACHE_SIZE || '10000', 10);
+
+// Insertion-ordered, so the first key is always the oldest
+const recentMessageIds = new Set<string>();
+
+/**
+ * Pick the timestamp to store for a device reading
+ * Device time is used when it falls within the skew bounds; otherwise the
+ * server receive time is used and the reading is flagged as clock-skewed.
+ */
+export function resolveDeviceTimestamp(
+  value: unknown,
+  receivedAt: Date
+): { timestamp: Date; clockSkew: boolean } {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return { timestamp: receivedAt, clockSkew: false };
+  }
+
+  const timestamp = new Date(value);
+  if (Number.isNaN(timestamp.getTime())) {
+    return { timestamp: receivedAt, clockSkew: true };
+  }
+
+  const offset = timestamp.getTime() - receivedAt.getTime();
+  if (offset > DEVICE_CLOCK_SKEW_MS || -offset > DEVICE_MAX_AGE_MS) {
+    return { timestamp: receivedAt, clockSkew: true };
+  }
+
+  return { timestamp, clockSkew: false };
+}
+
+/**
+ * Check a message ID against the recent-message cache, remembering it if new
+ * The unique (sensorId, messageId) index still catches anything the cache has evicted.
+ */
+export function isDuplicateMessage(sensorId: string, messageId: string): boolean {
+  const key = `${sensorId}:${messageId}`;
+  if (recentMessageIds.has(key)) return true;
+
+  recentMessageIds.add(key);
+  if (recentMessageIds.size > MESSAGE_DEDUPE_CACHE_SIZE) {
+    recentMessageIds.delete(recentMessageIds.values().next().value as string);
+  }
+  return false;
+}
+
+/**
+ * Check whether an error is a duplicate-key violation
+ */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
+}
+
+/**
+ * Validate one batch item against the known sensors
+ * Returns an error message, or null when the item can be stored.
+ */
+export function validateBatchItem(
+  item: Record<string, unknown>,
+  sensors: Map<string, ISensor>,
+  now: Date
+): string | null {
+  if (!item || typeof item !== 'object') return 'Reading must be an object';
+
+  if (typeof item.sensorId !== 'string' || !item.sensorId.trim()) {
+    return 'Sensor ID is required';
+  }
+
+  const sensor = sensors.get(item.sensorId);
+  if (!sensor) return 'Sensor not found';
+  if (!sensor.isActive) return 'Sensor is inactive';
+
+  const data = item.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object' || Array.isArray(data) || Object.keys(data).length === 0) {
+    return 'Data must be a non-empty object';
+  }
+
+  const invalid = validateMeasurements(data);
+  if (invalid) return invalid;
+
+  if (item.timestamp !== undefined) {
+    if (typeof item.timestamp !== 'string' && typeof item.timestamp !== 'number') {
+      return 'Timestamp must be an ISO 8601 string or epoch milliseconds';
+    }
+    const timestamp = new Date(item.timestamp);
+    if (Number.isNaN(timestamp.getTime())) return 'Invalid timestamp';
+    if (timestamp.getTime() - now.getTime() > DEVICE_CLOCK_SKEW_MS) {
+      return 'Timestamp is in the future';
+    }
+    if (now.getTime() - timestamp.getTime() > DEVICE_MAX_AGE_MS) {
+      return 'Timestamp is older than the maximum device age';
+    }
+  }
+
+  if (item.quality !== undefined && !QUALITY_GRADES.includes(item.quality as string)) {
+    return 'Quality must be one of: good, fair, poor';
+  }
+
+  if (item.messageId !== undefined && (typeof item.messageId !== 'string' || !item.messageId)) {
+    return 'Message ID must be a non-empty string';
+  }
+
+  return null;
+}
+
+/**
+ * Find (sensorId, messageId) pairs that are already stored
+ */
+async function findStoredMessageIds(candidates: BatchCandidate[]): Promise<Set<string>> {
+  const bySensor = new Map<string, string[]>();
+  candidates.forEach(candidate => {
+    if (!candidate.messageId) return;
+    const ids = bySensor.get(candidate.sensor.sensorId) || [];
+    ids.push(candidate.messageId);
+    bySensor.set(candidate.sensor.sensorId, ids);
+  });
+
+  if (bySensor.size === 0) return new Set();
+
+  const stored = await IoTReading.find({
+    $or: [...bySensor.entries()].map(([sensorId, ids]) => ({
+      sensorId,
+      messageId: { $in: ids }
+    }))
+  }).select('sensorId messageId');
+
+  return new Set(stored.map(reading => `${reading.sensorId}:${reading.messageId}`));
+}
+
+/**
+ * Insert documents, returning the indexes that failed and why
+ * Duplicate-key errors (concurrent uploads of the same message) are reported separately.
+ */
+async function insertReadings(
+  docs: IIoTReading[]
+): Promise<Map<number, { duplicate: boolean; error: string }>> {
+  const failures = new Map<number, { duplicate: boolean; error: string }>();
+
+  try {
+    await IoTReading.insertMany(docs, { ordered: false });
+  } catch (error) {
+    const writeErrors = (error as { writeErrors?: unknown }).writeErrors;
+    if (!writeErrors) throw error;
+
+    ([] as Array<{ index: number; code?: number; errmsg?: string }>)
+      .concat(writeErrors as never)
+      .forEach(writeError => {
+        failures.set(writeError.index, {
+          duplicate: isDuplicateKeyError(writeError),
+          error: writeError.errmsg || 'Write failed'
+        });
+      });
+  }
+
+  return failures;
+}
+
+/**
+ * Validate, grade and store a batch of readings
+ * Readings are processed in timestamp order so spike and anomaly checks see
+ * them in sequence, and alert rules are evaluated against every stored reading
+ * in that order. Each sensor with a stored reading gets one presence heartbeat.
+ * Readings for sensors the client may not write to are rejected.
+ */
+export async function ingestBatch(
+  items: Record<string, unknown>[],
+  now: Date = new Date(),
+  canWrite: (sensor: ISensor) => boolean = () => true
+): Promise<BatchResult> {
+  const results: BatchItemResult[] = items.map((_item, index) => ({ index, status: 'created' }));
+
+  const sensorIds = [...new Set(
+    items.map(item => item?.sensorId).filter((id): id is string => typeof id === 'string')
+  )];
+  const sensors = new Map(
+    (await Sensor.find({ sensorId: { $in: sensorIds } })).map(sensor => [sensor.sensorId, sensor])
+  );
+
+  // Per-item validation and in-batch de-duplication
+  const candidates: BatchCandidate[] = [];
+  const seen = new Set<string>();
+
+  items.forEach((item, index) => {
+    const error = validateBatchItem(item, sensors, now)
+      ?? (canWrite(sensors.get(item.sensorId as string)!) ? null : 'Not permitted for this sensor');
+    if (error) {
+      results[index] = { index, status: 'rejected', error };
+      return;
+    }
+
+    const sensorId = item.sensorId as string;
+    const messageId = item.messageId as string | undefined;
+    if (messageId) {
+      const key = `${sensorId}:${messageId}`;
+      if (seen.has(key)) {
+        results[index] = { index, status: 'duplicate' };
+        return;
+      }
+      seen.add(key);
+    }
+
+    candidates.push({
+      index,
+      sensor: sensors.get(sensorId)!,
+      timestamp: item.timestamp !== undefined ? new Date(item.timestamp as string | number) : now,
+      data: item.data as IIoTReadingData,
+      quality: item.quality as BatchCandidate['quality'],
+      messageId,
+      rawValue: typeof item.rawValue === 'string' ? item.rawValue : undefined
+    });
+  });
+
+  // Drop messages that were already ingested
+  const stored = await findStoredMessageIds(candidates);
+  const fresh = candidates
+    .filter(candidate => {
+      if (candidate.messageId && stored.has(`${candidate.sensor.sensorId}:${candidate.messageId}`)) {
+        results[candidate.index] = { index: candidate.index, status: 'duplicate' };
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  // Grade quality and run anomaly detection before storing
+  const docs: IIoTReading[] = [];
+  for (const candidate of fresh) {
+    const { sensorId } = candidate.sensor;
+    const assessment = assessQuality(sensorId, candidate.data, candidate.timestamp, now);
+    const anomaly = await assessAnomaly(sensorId, candidate.data);
+
+    docs.push(new IoTReading({
+      sensorId,
+      timestamp: candidate.timestamp,
+      data: candidate.data,
+      quality: candidate.quality || assessment.quality,
+      qualityIssues: assessment.qualityIssues,
+      rawValue: candidate.rawValue,
+      messageId: candidate.messageId,
+      receivedAt: now,
+      ...anomaly
+    }));
+  }
+
+  const failures = docs.length > 0 ? await insertReadings(docs) : new Map();
+
+  // Stored readings in timestamp order, and the latest per sensor
+  const created: Array<{ candidate: BatchCandidate; doc: IIoTReading }> = [];
+  const latest = new Map<string, { candidate: BatchCandidate; doc: IIoTReading }>();
+
+  fresh.forEach((candidate, i) => {
+    const failure = failures.get(i);
+    if (failure) {
+      results[candidate.index] = failure.duplicate
+        ? { index: candidate.index, status: 'duplicate' }
+        : { index: candidate.index, status: 'rejected', error: failure.error };
+      return;
+    }
+
+    results[candidate.index] = { index: candidate.index, status: 'created', id: docs[i].id };
+    created.push({ candidate, doc: docs[i] });
+    latest.set(candidate.sensor.sensorId, { candidate, doc: docs[i] });
+  });
+
+  // Every sensor that delivered a stored reading counts as heard from
+  for (const { candidate } of latest.values()) {
+    await recordActivity(candidate.sensor, now);
+  }
+
+  for (const { candidate, doc } of created) {
+    await evaluateReading(doc.sensorId, doc.data, doc.timestamp, candidate.sensor);
+  }
+
+  const summary = {
+    received: items.length,
+    created: results.filter(result => result.status === 'created').length,
+    duplicates: results.filter(result => result.status === 'duplicate').length,
+    rejected: results.filter(result => result.status === 'rejected').length
+  };
+
+  // One delivery for the whole batch, carrying each sensor's latest reading
+  if (summary.created > 0) {
+    sendReadingBatch([...latest.values()].map(({ candidate, doc }) => ({
+      scope: candidate.sensor,
+      reading: {
+        sensorId: doc.sensorId,
+        timestamp: doc.timestamp,
+        data: doc.data as Record<string, unknown>,
+        quality: doc.quality,
+        isAnomaly: doc.isAnomaly,
+        sensor: {
+          name: candidate.sensor.name,
+          type: candidate.sensor.type,
+          location: candidate.sensor.location
+        }
+      }
+    })));
+  }
+
+  logger.info(
+    `Batch ingestion: ${summary.created} created, ${summary.duplicates} duplicates, ${summary.rejected} rejected`
+  );
+
+  return { summary, results };
+}
@@ -0,0 +1,130 @@
+/**
+ * Measurement Catalog Service
+ * Field names, units, data types and valid ranges for IoT reading data
+ */
+
+import { logger } from '../config/logger';
+import { MeasurementField, MeasurementDataType } from '../models';
+
+export interface MeasurementFieldDefinition {
+  name: string;
+  label: string;
+  unit: string;
+  dataType: MeasurementDataType;
+  min?: number;
+  max?: number;
+  precision: number;
+  icon: string;
+  description?: string;
+}
+
+/**
+ * Built-in fields, seeded into the catalog on startup
+ * Ranges are the physically plausible bounds; values outside them are graded poor.
+ */
+export const DEFAULT_MEASUREMENT_FIELDS: MeasurementFieldDefinition[] = [
+  { name: 'temperature', label: 'Temperature', unit: '°C', dataType: 'number', min: -60, max: 70, precision: 1, icon: 'thermometer' },
+  { name: 'humidity', label: 'Humidity', unit: '%', dataType: 'number', min: 0, max: 100, precision: 1, icon: 'droplets' },
+  { name: 'pressure', label: 'Pressure', unit: 'hPa', dataType: 'number', min: 850, max: 1100, precision: 1, icon: 'gauge' },
+  { name: 'windspeed', label: 'Wind Speed', unit: 'km/h', dataType: 'number', min: 0, max: 400, precision: 1, icon: 'wind' },
+  { name: 'winddirection', label: 'Wind Direction', unit: '°', dataType: 'number', min: 0, max: 360, precision: 0, icon: 'compass' },
+  { name: 'battery', label: 'Battery', unit: '%', dataType: 'number', min: 0, max: 100, precision: 0, icon: 'battery' },
+  { name: 'signal_strength', label: 'Signal Strength', unit: 'dBm', dataType: 'number', min: -150, max: 0, precision: 0, icon: 'signal' },
+  { name: 'co2', label: 'CO₂', unit: 'ppm', dataType: 'number', min: 0, max: 10000, precision: 0, icon: 'cloud' },
+  { name: 'pm25', label: 'PM2.5', unit: 'µg/m³', dataType: 'number', min: 0, max: 1000, precision: 1, icon: 'cloud' },
+  { name: 'soil_moisture', label: 'Soil Moisture', unit: '%', dataType: 'number', min: 0, max: 100, precision: 1, icon: 'sprout' }
+];
+
+const CATALOG_FIELDS = ['name', 'label', 'unit', 'dataType', 'min', 'max', 'precision', 'icon', 'description'];
+
+// In-memory catalog used on the ingestion path; starts with the defaults
+const catalog = new Map<string, MeasurementFieldDefinition>(
+  DEFAULT_MEASUREMENT_FIELDS.map(field => [field.name, field])
+);
+
+/**
+ * Strip a catalog document down to its definition
+ */
+function toDefinition(doc: Record<string, unknown>): MeasurementFieldDefinition {
+  const definition: Record<string, unknown> = {};
+  CATALOG_FIELDS.forEach(key => {
+    if (doc[key] !== undefined && doc[key] !== null) definition[key] = doc[key];
+  });
+  return definition as unknown as MeasurementFieldDefinition;
+}
+
+/**
+ * Seed missing built-in fields and load the catalog into memory
+ * Existing entries are never overwritten, so edited units and ranges survive restarts.
+ */
+export async function loadMeasurementCatalog(): Promise<void> {
+  await MeasurementField.bulkWrite(DEFAULT_MEASUREMENT_FIELDS.map(field => ({
+    updateOne: {
+      filter: { name: field.name },
+      update: { $setOnInsert: field },
+      upsert: true
+    }
+  })));
+
+  await refreshMeasurementCatalog();
+  logger.info(`Measurement catalog loaded (${catalog.size} fields)`);
+}
+
+/**
+ * Reload the in-memory catalog after a change
+ */
+export async function refreshMeasurementCatalog(): Promise<void> {
+  const fields = await MeasurementField.find().sort({ name: 1 }).lean();
+
+  catalog.clear();
+  fields.forEach(field => {
+    catalog.set(field.name, toDefinition(field as unknown as Record<string, unknown>));
+  });
+}
+
+/**
+ * Look up a field in the catalog
+ */
+export function getMeasurementField(name: string): MeasurementFieldDefinition | undefined {
+  return catalog.get(name);
+}
+
+/**
+ * Display unit for a field, empty when it is not catalogued
+ */
+export function getUnit(name: string): string {
+  return catalog.get(name)?.unit || '';
+}
+
+/**
+ * Check a value against a field's data type
+ */
+function matchesDataType(value: unknown, dataType: MeasurementDataType): boolean {
+  switch (dataType) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === dataType;
+  }
+}
+
+/**
+ * Validate reading data against the catalog
+ * Returns an error message for the first catalogued field with the wrong type,
+ * or null. Fields not in the catalog are accepted as-is; range checks are left
+ * to quality grading so faulty values are still recorded.
+ */
+export function validateMeasurements(data: Record<string, unknown>): string | null {
+  for (const [name, value] of Object.entries(data)) {
+    const field = catalog.get(name);
+    if (!field || value === null || value === undefined) continue;
+
+    if (!matchesDataType(value, field.dataType)) {
+      return `Field "${name}" must be of type ${field.dataType}`;
+    }
+  }
+
+  return null;
+}
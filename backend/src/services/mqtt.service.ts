@@ -5,17 +5,62 @@
 
 import mqtt, { MqttClient, IClientOptions } from 'mqtt';
 import { logger } from '../config/logger';
-import { IoTReading } from '../models';
-import { broadcastToClients } from './websocket.service';
+import { Sensor, IoTReading, IIoTReadingData, runWithTenant } from '../models';
+import { sendSensorEvent, sendWeatherEvent } from './websocket.service';
+import { evaluateReading } from './alert.service';
+import { assessAnomaly } from './anomaly.service';
+import { assessQuality } from './quality.service';
+import { admitSensorReading } from './provisioning.service';
+import { recordActivity, handleStatusMessage } from './presence.service';
+import { handleCommandResponse } from './command.service';
+import { decodeSensorPayload } from './decoder.service';
+import { validateMeasurements } from './measurement.service';
+import { organisationForNamespace, namespaceFor } from './organisation.service';
+import {
+  resolveDeviceTimestamp,
+  isDuplicateMessage,
+  isDuplicateKeyError
+} from './ingestion.service';
 
 // MQTT Topics
+// Each organisation publishes under its own namespace (its slug), e.g. csir/sensors/{id}/data
 export const MQTT_TOPICS = {
-  SENSOR_DATA: 'csir/sensors/+/data',
-  SENSOR_STATUS: 'csir/sensors/+/status',
-  WEATHER_UPDATE: 'csir/weather/update',
-  SYSTEM_ALERTS: 'csir/system/alerts'
+  SENSOR_DATA: '+/sensors/+/data',
+  // Data published with a codec suffix, e.g. csir/sensors/{id}/data/csv
+  SENSOR_DATA_ENCODED: '+/sensors/+/data/+',
+  SENSOR_STATUS: '+/sensors/+/status',
+  SENSOR_COMMAND_RESPONSE: '+/sensors/+/commands/response',
+  WEATHER_UPDATE: '+/weather/update',
+  SYSTEM_STATUS: '+/system/status',
+  SYSTEM_ALERTS: '+/system/alerts'
 } as const;
 
+/**
+ * Topic in an organisation's namespace, e.g. tenantTopic(id, 'system/alerts')
+ * Returns null when the organisation's namespace is unknown.
+ */
+export function tenantTopic(organisationId: { toString(): string }, path: string): string | null {
+  const namespace = namespaceFor(organisationId);
+  return namespace && `${namespace}/${path}`;
+}
+
+/**
+ * Publish a message under an organisation's namespace
+ * The message is dropped, with a warning, if the namespace is unknown.
+ */
+export function publishToTenant(
+  organisationId: { toString(): string },
+  path: string,
+  message: Record<string, unknown>
+): void {
+  const topic = tenantTopic(organisationId, path);
+  if (!topic) {
+    logger.warn(`No MQTT namespace for organisation ${organisationId}, not publishing ${path}`);
+    return;
+  }
+  publishMessage(topic, message);
+}
+
 let mqttClient: MqttClient | null = null;
 
 /**
@@ -55,8 +100,11 @@ export async function initializeMQTT(): Promise<MqttClient | null> {
       if (mqttClient) {
         mqttClient.subscribe([
           MQTT_TOPICS.SENSOR_DATA,
+          MQTT_TOPICS.SENSOR_DATA_ENCODED,
           MQTT_TOPICS.SENSOR_STATUS,
-          MQTT_TOPICS.WEATHER_UPDATE
+          MQTT_TOPICS.SENSOR_COMMAND_RESPONSE,
+          MQTT_TOPICS.WEATHER_UPDATE,
+          MQTT_TOPICS.SYSTEM_STATUS
         ], (err) => {
           if (err) {
             logger.error('MQTT subscription error:', err);
@@ -97,23 +145,49 @@ export async function initializeMQTT(): Promise<MqttClient | null> {
 
 /**
  * Handle incoming MQTT messages
+ * Messages are processed as the organisation owning the topic's namespace;
+ * messages in unknown or deactivated namespaces are dropped.
  */
 async function handleMQTTMessage(topic: string, message: Buffer): Promise<void> {
+  const namespace = topic.split('/')[0];
+  const organisationId = organisationForNamespace(namespace);
+  if (!organisationId) {
+    logger.warn(`Dropped MQTT message on ${topic}: unknown namespace ${namespace}`);
+    return;
+  }
+
+  await runWithTenant(organisationId, () => dispatchMQTTMessage(organisationId, topic, message));
+}
+
+/**
+ * Route a message to its handler by topic
+ */
+async function dispatchMQTTMessage(organisationId: string, topic: string, message: Buffer): Promise<void> {
   try {
+    // Extract sensor ID from topic ({namespace}/sensors/{sensorId}/data)
+    const topicParts = topic.split('/');
+
+    // Sensor data may be in any registered payload format
+    if (topic.match(/^[^/]+\/sensors\/.*\/data/)) {
+      const sensorId = topicParts[2];
+      await handleSensorData(sensorId, topic, message);
+      return;
+    }
+
     const payload = JSON.parse(message.toString());
     logger.debug(`MQTT message received on ${topic}:`, payload);
 
-    // Extract sensor ID from topic (csir/sensors/{sensorId}/data)
-    const topicParts = topic.split('/');
-    
-    if (topic.match(/csir\/sensors\/.*\/data/)) {
-      const sensorId = topicParts[2];
-      await handleSensorData(sensorId, payload);
-    } else if (topic.match(/csir\/sensors\/.*\/status/)) {
+    const path = topicParts.slice(1).join('/');
+    if (topic.match(/^[^/]+\/sensors\/.*\/status/)) {
       const sensorId = topicParts[2];
       await handleSensorStatus(sensorId, payload);
-    } else if (topic === MQTT_TOPICS.WEATHER_UPDATE) {
-      await handleWeatherUpdate(payload);
+    } else if (topic.match(/^[^/]+\/sensors\/.*\/commands\/response/)) {
+      const sensorId = topicParts[2];
+      await handleCommandResponse(sensorId, payload);
+    } else if (path === 'weather/update') {
+      await handleWeatherUpdate(organisationId, payload);
+    } else if (path === 'system/status') {
+      await handleGatewayStatus(payload);
     }
 
   } catch (error) {
@@ -125,35 +199,98 @@ async function handleMQTTMessage(topic: string, message: Buffer): Promise<void>
  * Handle sensor data messages
  */
 async function handleSensorData(
-  sensorId: string, 
-  data: Record<string, unknown>
+  sensorId: string,
+  topic: string,
+  message: Buffer
 ): Promise<void> {
   try {
+    const decoded = await decodeSensorPayload(sensorId, topic, message);
+    if (!decoded) return;
+
+    const data = decoded.payload;
+    logger.debug(`MQTT ${decoded.codec} reading received on ${topic}:`, data);
+
+    // Readings from unregistered, rejected or inactive devices are quarantined
+    const sensor = await admitSensorReading(sensorId, data);
+    if (!sensor) return;
+
+    // Simulator payloads wrap measurements in a `data` envelope
+    const measurements = data.data && typeof data.data === 'object'
+      ? data.data as Record<string, unknown>
+      : data;
+
+    const readingData = {
+      temperature: measurements.temperature,
+      humidity: measurements.humidity,
+      pressure: measurements.pressure,
+      windspeed: measurements.windspeed,
+      winddirection: measurements.winddirection,
+      ...measurements
+    } as IIoTReadingData;
+
+    const invalid = validateMeasurements(readingData);
+    if (invalid) {
+      logger.warn(`Dropped reading from ${sensorId}: ${invalid}`);
+      return;
+    }
+
+    // Drop QoS 1 redeliveries before they reach the stateful quality/anomaly checks
+    const messageId = typeof data.messageId === 'string' ? data.messageId : undefined;
+    if (messageId && isDuplicateMessage(sensorId, messageId)) {
+      logger.debug(`Duplicate message ${messageId} from ${sensorId} ignored`);
+      return;
+    }
+
+    // Use device time when it is within the clock-skew bounds
+    const receivedAt = new Date();
+    const { timestamp, clockSkew } = resolveDeviceTimestamp(data.timestamp, receivedAt);
+
+    // Grade quality and run anomaly detection before storing
+    const quality = assessQuality(sensorId, readingData, timestamp, receivedAt);
+    if (clockSkew) {
+      quality.qualityIssues.push('clock_skew');
+      if (quality.quality === 'good') quality.quality = 'fair';
+    }
+    const anomaly = await assessAnomaly(sensorId, readingData);
+
     // Store reading in database
     const reading = new IoTReading({
       sensorId,
-      timestamp: new Date(),
-      data: {
-        temperature: data.temperature,
-        humidity: data.humidity,
-        pressure: data.pressure,
-        windspeed: data.windspeed,
-        winddirection: data.winddirection,
-        ...data
-      },
-      quality: 'good'
+      timestamp,
+      receivedAt,
+      messageId,
+      rawValue: decoded.rawValue,
+      data: readingData,
+      ...quality,
+      ...anomaly
     });
 
-    await reading.save();
+    try {
+      await reading.save();
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        logger.debug(`Message ${messageId} from ${sensorId} already stored`);
+        return;
+      }
+      throw error;
+    }
     logger.debug(`Stored IoT reading for sensor ${sensorId}`);
 
-    // Broadcast to WebSocket clients
-    broadcastToClients('iot:reading', {
+    // Every stored reading counts as a heartbeat
+    await recordActivity(sensor, receivedAt);
+
+    // Deliver to WebSocket subscribers
+    sendSensorEvent('iot:reading', sensor, {
       sensorId,
       timestamp: reading.timestamp,
-      data: reading.data
+      data: reading.data,
+      quality: reading.quality,
+      isAnomaly: reading.isAnomaly
     });
 
+    // Evaluate alert rules
+    await evaluateReading(sensorId, reading.data, reading.timestamp, sensor);
+
   } catch (error) {
     logger.error(`Error handling sensor data for ${sensorId}:`, error);
   }
@@ -168,25 +305,43 @@ async function handleSensorStatus(
 ): Promise<void> {
   logger.info(`Sensor ${sensorId} status update:`, status);
   
-  // Broadcast status update to clients
-  broadcastToClients('sensor:status', {
+  // Deliver status update to subscribers; filters match on the sensor's type and site
+  const sensor = await Sensor.findOne({ sensorId }, 'sensorId type site organisation');
+  sendSensorEvent('sensor:status', sensor ?? { sensorId }, {
     sensorId,
     status,
     timestamp: new Date()
   });
+
+  await handleStatusMessage(sensorId, status);
+}
+
+/**
+ * Handle gateway status messages
+ * A gateway publishing for several sensors (such as the simulator) lists them
+ * in `sensors`, so its online/offline status and last will apply to each one.
+ */
+async function handleGatewayStatus(status: Record<string, unknown>): Promise<void> {
+  if (!Array.isArray(status.sensors)) return;
+
+  for (const sensorId of status.sensors) {
+    if (typeof sensorId === 'string') {
+      await handleStatusMessage(sensorId, status);
+    }
+  }
 }
 
 /**
  * Handle weather update messages
  */
-async function handleWeatherUpdate(data: Record<string, unknown>): Promise<void> {
+async function handleWeatherUpdate(organisationId: string, data: Record<string, unknown>): Promise<void> {
   logger.info('Weather update received:', data);
   
-  // Broadcast weather update to clients
-  broadcastToClients('weather:update', {
+  // Deliver weather update to the organisation's subscribers
+  sendWeatherEvent('weather:update', {
     ...data,
     timestamp: new Date()
-  });
+  }, organisationId);
 }
 
 /**
@@ -209,6 +364,31 @@ export function publishMessage(
   }
 }
 
+/**
+ * Publish a message and wait for the broker to acknowledge it (QoS 1)
+ * Rejects if the client is not connected or the publish fails.
+ */
+export function publishMessageConfirmed(
+  topic: string,
+  message: Record<string, unknown>
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!mqttClient?.connected) {
+      reject(new Error('MQTT client not connected'));
+      return;
+    }
+
+    mqttClient.publish(topic, JSON.stringify(message), { qos: 1 }, (err) => {
+      if (err) {
+        reject(err);
+      } else {
+        logger.debug(`Published to ${topic}`);
+        resolve();
+      }
+    });
+  });
+}
+
 /**
  * Get MQTT client instance
  */
@@ -0,0 +1,152 @@
+/**
+ * Organisation Service
+ * The default organisation, migration of single-tenant data, and MQTT namespace lookups
+ */
+
+import { logger } from '../config/logger';
+import {
+  Organisation,
+  IUser,
+  Alert,
+  AlertRule,
+  ApiKey,
+  IoTReading,
+  PendingSensor,
+  QuarantinedReading,
+  ReadingRollup1m,
+  ReadingRollup1h,
+  ReadingRollup1d,
+  Sensor,
+  SensorCommand,
+  SensorPresenceEvent,
+  Site,
+  User,
+  Zone,
+  withoutTenant
+} from '../models';
+
+// Configuration
+// Slug of the organisation that owns pre-existing data; also the legacy `csir/` MQTT namespace
+export const DEFAULT_ORGANISATION = process.env.DEFAULT_ORGANISATION || 'csir';
+
+// Every collection owned by an organisation (weather data is shared and stays unowned)
+const TENANT_MODELS = [
+  Alert,
+  AlertRule,
+  ApiKey,
+  IoTReading,
+  PendingSensor,
+  QuarantinedReading,
+  ReadingRollup1m,
+  ReadingRollup1h,
+  ReadingRollup1d,
+  Sensor,
+  SensorCommand,
+  SensorPresenceEvent,
+  Site,
+  User,
+  Zone
+];
+
+// Namespace lookups happen for every MQTT message, so organisations are cached:
+// inbound topics resolve to active organisations only, while outbound
+// publishes need the namespace of any organisation
+const idsBySlug = new Map<string, string>();
+const slugsById = new Map<string, string>();
+const activeIds = new Set<string>();
+let defaultOrganisationId: string | null = null;
+
+/**
+ * Create the default organisation if needed and assign it all unowned records
+ * Run once at startup, before MQTT messages or requests are handled.
+ */
+export async function ensureDefaultOrganisation(): Promise<void> {
+  const organisation = await Organisation.findOneAndUpdate(
+    { slug: DEFAULT_ORGANISATION },
+    { $setOnInsert: { name: DEFAULT_ORGANISATION.toUpperCase(), slug: DEFAULT_ORGANISATION, isActive: true } },
+    { upsert: true, new: true }
+  );
+  defaultOrganisationId = organisation.id;
+
+  const results = await withoutTenant(() => Promise.all(TENANT_MODELS.map(model =>
+    (model as typeof Sensor).updateMany(
+      { organisation: { $exists: false } },
+      { $set: { organisation: organisation._id } }
+    )
+  )));
+  const migrated = results.reduce((total, result) => total + result.modifiedCount, 0);
+  if (migrated > 0) {
+    logger.info(`Assigned ${migrated} records to the ${DEFAULT_ORGANISATION} organisation`);
+  }
+
+  // Site names used to be unique across the whole deployment; bring the
+  // indexes in line with the schema (unique per organisation)
+  const dropped = await Site.syncIndexes();
+  if (dropped.length > 0) {
+    logger.info(`Dropped outdated site indexes: ${dropped.join(', ')}`);
+  }
+
+  await refreshOrganisations();
+}
+
+/**
+ * Reload the namespace cache after an organisation is created or changed
+ */
+export async function refreshOrganisations(): Promise<void> {
+  const organisations = await Organisation.find().select('slug isActive').lean();
+
+  idsBySlug.clear();
+  slugsById.clear();
+  activeIds.clear();
+  organisations.forEach(organisation => {
+    const id = organisation._id.toString();
+    slugsById.set(id, organisation.slug);
+    if (organisation.isActive) {
+      idsBySlug.set(organisation.slug, id);
+      activeIds.add(id);
+    }
+  });
+}
+
+/**
+ * Organisation that owns records created without an authenticated tenant
+ */
+export function getDefaultOrganisationId(): string {
+  if (!defaultOrganisationId) {
+    throw new Error('Default organisation has not been initialised');
+  }
+  return defaultOrganisationId;
+}
+
+/**
+ * Active organisation publishing under an MQTT namespace, or null
+ */
+export function organisationForNamespace(namespace: string): string | null {
+  return idsBySlug.get(namespace) ?? null;
+}
+
+/**
+ * MQTT namespace of an organisation (its slug), or null if it is unknown
+ * There is deliberately no fallback: publishing under another namespace
+ * would deliver one tenant's messages to another.
+ */
+export function namespaceFor(organisationId?: { toString(): string } | null): string | null {
+  return (organisationId && slugsById.get(organisationId.toString())) || null;
+}
+
+/**
+ * Platform admins are the admins of the default organisation; only they
+ * manage organisations
+ */
+export function isPlatformAdmin(user?: Pick<IUser, 'role' | 'organisation'> | null): boolean {
+  return Boolean(user)
+    && user!.role === 'admin'
+    && user!.organisation?.toString() === defaultOrganisationId;
+}
+
+/**
+ * Check whether an organisation exists and has not been deactivated
+ */
+export function isOrganisationActive(organisationId?: { toString(): string } | null): boolean {
+  return Boolean(organisationId) && activeIds.has(organisationId!.toString());
+}
@@ -0,0 +1,218 @@
+/**
+ * Presence Service
+ * Tracks sensor connectivity from status messages, last-will messages and reading heartbeats
+ */
+
+import { logger } from '../config/logger';
+import {
+  Sensor,
+  ISensor,
+  SensorPresenceEvent,
+  ISensorPresenceEvent,
+  PresenceReason,
+  PresenceStatus
+} from '../models';
+import { sendSensorEvent } from './websocket.service';
+
+// Configuration
+// A sensor is marked offline after this many reading intervals without a message
+const PRESENCE_MISSED_INTERVALS = parseInt(process.env.PRESENCE_MISSED_INTERVALS || '3', 10);
+const PRESENCE_CHECK_INTERVAL_MS = parseInt(process.env.PRESENCE_CHECK_INTERVAL_MS || '10000', 10);
+// Used when a sensor has no configuration.readingInterval
+const DEFAULT_READING_INTERVAL_MS = 5000;
+
+let presenceTimer: NodeJS.Timeout | null = null;
+
+export interface UptimeSummary {
+  onlineMs: number;
+  offlineMs: number;
+  unknownMs: number;
+  uptimePercent: number | null;
+}
+
+/**
+ * Check whether a sensor has gone quiet for too many reading intervals
+ */
+export function isOverdue(sensor: ISensor, now: Date): boolean {
+  const lastSeenAt = sensor.presence?.lastSeenAt;
+  if (!lastSeenAt) return false;
+
+  const interval = sensor.configuration?.readingInterval || DEFAULT_READING_INTERVAL_MS;
+  return now.getTime() - lastSeenAt.getTime() > interval * PRESENCE_MISSED_INTERVALS;
+}
+
+/**
+ * Sum the time spent in each state over [from, to)
+ * `events` must be sorted by timestamp; `initial` is the state in force at `from`.
+ */
+export function computeUptime(
+  events: Pick<ISensorPresenceEvent, 'status' | 'timestamp'>[],
+  from: Date,
+  to: Date,
+  initial: PresenceStatus
+): UptimeSummary {
+  const totals: Record<PresenceStatus, number> = { online: 0, offline: 0, unknown: 0 };
+
+  let state = initial;
+  let cursor = from.getTime();
+
+  events.forEach(event => {
+    const at = Math.min(Math.max(event.timestamp.getTime(), cursor), to.getTime());
+    totals[state] += at - cursor;
+    state = event.status;
+    cursor = at;
+  });
+  totals[state] += Math.max(to.getTime() - cursor, 0);
+
+  const known = totals.online + totals.offline;
+
+  return {
+    onlineMs: totals.online,
+    offlineMs: totals.offline,
+    unknownMs: totals.unknown,
+    uptimePercent: known > 0 ? Math.round((totals.online / known) * 10000) / 100 : null
+  };
+}
+
+/**
+ * Move a sensor to a new presence state, recording and broadcasting the transition
+ * The conditional update makes concurrent callers agree on a single transition.
+ */
+async function setPresence(
+  sensorId: string,
+  status: 'online' | 'offline',
+  reason: PresenceReason,
+  at: Date
+): Promise<void> {
+  const sensor = await Sensor.findOneAndUpdate(
+    { sensorId, 'presence.status': { $ne: status } },
+    { $set: { 'presence.status': status, 'presence.changedAt': at } },
+    { new: true }
+  );
+
+  if (!sensor) return;
+
+  // The presence monitor runs outside any request, so the owner is taken from the sensor
+  await SensorPresenceEvent.create({ sensorId, status, reason, timestamp: at, organisation: sensor.organisation });
+  logger.info(`Sensor ${sensorId} is ${status} (${reason})`);
+
+  sendSensorEvent(`sensor:${status}`, sensor, {
+    sensorId,
+    status,
+    reason,
+    timestamp: at,
+    lastSeenAt: sensor.presence.lastSeenAt || null
+  });
+}
+
+/**
+ * Record a reading from a sensor as a heartbeat
+ */
+export async function recordActivity(sensor: ISensor, at: Date = new Date()): Promise<void> {
+  try {
+    await Sensor.updateOne(
+      { sensorId: sensor.sensorId },
+      { $set: { lastReading: at, 'presence.lastSeenAt': at } }
+    );
+
+    if (sensor.presence?.status !== 'online') {
+      await setPresence(sensor.sensorId, 'online', 'data', at);
+    }
+  } catch (error) {
+    logger.error(`Error recording activity for ${sensor.sensorId}:`, error);
+  }
+}
+
+/**
+ * Apply a status message published by (or on behalf of) a sensor
+ * Devices should set their MQTT last will to {"status":"offline","reason":"last_will"}.
+ */
+export async function handleStatusMessage(
+  sensorId: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  try {
+    const status = payload.status;
+    if (status !== 'online' && status !== 'offline') {
+      logger.debug(`Ignoring status message from ${sensorId} without online/offline status`);
+      return;
+    }
+
+    const at = new Date();
+
+    // An online status message doubles as a heartbeat
+    const sensor = status === 'online'
+      ? await Sensor.findOneAndUpdate({ sensorId }, { $set: { 'presence.lastSeenAt': at } })
+      : await Sensor.findOne({ sensorId });
+
+    if (!sensor) {
+      logger.debug(`Ignoring status message from unregistered sensor ${sensorId}`);
+      return;
+    }
+
+    const reason: PresenceReason = payload.reason === 'last_will' ? 'last_will' : 'status';
+    await setPresence(sensorId, status, reason, at);
+  } catch (error) {
+    logger.error(`Error handling status message for ${sensorId}:`, error);
+  }
+}
+
+/**
+ * Mark online sensors offline once they miss too many reading intervals
+ */
+export async function checkPresence(now: Date = new Date()): Promise<void> {
+  try {
+    const sensors = await Sensor.find({ isActive: true, 'presence.status': 'online' });
+
+    for (const sensor of sensors) {
+      if (isOverdue(sensor, now)) {
+        await setPresence(sensor.sensorId, 'offline', 'timeout', now);
+      }
+    }
+  } catch (error) {
+    logger.error('Error checking sensor presence:', error);
+  }
+}
+
+/**
+ * Get uptime over a time range from the presence history
+ */
+export async function getUptime(
+  sensorId: string,
+  from: Date,
+  to: Date
+): Promise<UptimeSummary & { transitions: ISensorPresenceEvent[] }> {
+  const [previous, transitions] = await Promise.all([
+    SensorPresenceEvent.findOne({ sensorId, timestamp: { $lt: from } }).sort({ timestamp: -1 }),
+    SensorPresenceEvent.find({ sensorId, timestamp: { $gte: from, $lt: to } }).sort({ timestamp: 1 })
+  ]);
+
+  return {
+    ...computeUptime(transitions, from, to, previous?.status || 'unknown'),
+    transitions
+  };
+}
+
+/**
+ * Start the periodic presence check
+ */
+export function startPresenceMonitor(): void {
+  if (presenceTimer) return;
+
+  presenceTimer = setInterval(() => {
+    checkPresence();
+  }, PRESENCE_CHECK_INTERVAL_MS);
+
+  logger.info(`Sensor presence monitor started (interval: ${PRESENCE_CHECK_INTERVAL_MS}ms)`);
+}
+
+/**
+ * Stop the periodic presence check
+ */
+export function stopPresenceMonitor(): void {
+  if (presenceTimer) {
+    clearInterval(presenceTimer);
+    presenceTimer = null;
+    logger.info('Sensor presence monitor stopped');
+  }
+}
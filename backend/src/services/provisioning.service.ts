@@ -0,0 +1,233 @@
+/**
+ * Provisioning Service
+ * Admits MQTT readings from registered sensors and holds back the rest
+ */
+
+import { logger } from '../config/logger';
+import {
+  Sensor,
+  ISensor,
+  ISensorLocation,
+  PendingSensor,
+  IPendingSensor,
+  QuarantinedReading,
+  QuarantineReason,
+  withoutTenant
+} from '../models';
+import { broadcastToTenant } from './websocket.service';
+
+export type ProvisioningMode = 'manual' | 'auto';
+
+const SENSOR_TYPES: ISensor['type'][] = ['temperature', 'humidity', 'pressure', 'wind', 'combined'];
+
+// Configuration
+// manual: unknown devices wait for admin approval; auto: register them from their payload
+const SENSOR_PROVISIONING: ProvisioningMode =
+  process.env.SENSOR_PROVISIONING === 'auto' ? 'auto' : 'manual';
+
+export interface SensorDetails {
+  name?: string;
+  type?: ISensor['type'];
+  location?: ISensorLocation;
+}
+
+/**
+ * Pull the self-described name/type/location out of a device payload
+ */
+export function extractSensorDetails(payload: Record<string, unknown>): SensorDetails {
+  const details: SensorDetails = {};
+
+  if (typeof payload.name === 'string' && payload.name.trim()) {
+    details.name = payload.name.trim().slice(0, 100);
+  }
+
+  if (SENSOR_TYPES.includes(payload.type as ISensor['type'])) {
+    details.type = payload.type as ISensor['type'];
+  }
+
+  const location = payload.location as Record<string, unknown> | undefined;
+  if (
+    location &&
+    typeof location.latitude === 'number' &&
+    typeof location.longitude === 'number' &&
+    Math.abs(location.latitude) <= 90 &&
+    Math.abs(location.longitude) <= 180
+  ) {
+    details.location = {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      name: typeof location.name === 'string' ? location.name : '',
+      ...(typeof location.altitude === 'number' && { altitude: location.altitude })
+    };
+  }
+
+  return details;
+}
+
+/**
+ * Check that details are complete enough to register a sensor
+ */
+export function isRegistrable(details: SensorDetails): boolean {
+  return Boolean(details.name && details.type && details.location && details.location.name);
+}
+
+/**
+ * Store a payload that was not admitted
+ */
+async function quarantineReading(
+  sensorId: string,
+  payload: Record<string, unknown>,
+  reason: QuarantineReason
+): Promise<void> {
+  await QuarantinedReading.create({ sensorId, payload, reason, receivedAt: new Date() });
+  logger.debug(`Quarantined reading from ${sensorId} (${reason})`);
+}
+
+/**
+ * Record a message from an unregistered device in the pending registry
+ */
+async function recordPendingSensor(
+  sensorId: string,
+  details: SensorDetails
+): Promise<IPendingSensor> {
+  const now = new Date();
+  const existing = await PendingSensor.findOne({ sensorId });
+
+  if (existing) {
+    existing.lastSeenAt = now;
+    existing.messageCount += 1;
+    // An approved device whose sensor was since deleted goes back to review
+    if (existing.status === 'approved') {
+      existing.status = 'pending';
+      existing.reviewedBy = undefined;
+      existing.reviewedAt = undefined;
+    }
+    if (existing.status === 'pending') {
+      Object.assign(existing, details);
+    }
+    return existing.save();
+  }
+
+  const pending = await PendingSensor.create({
+    sensorId,
+    ...details,
+    firstSeenAt: now,
+    lastSeenAt: now,
+    messageCount: 1
+  });
+
+  logger.info(`Unregistered sensor ${sensorId} added to pending registry`);
+  broadcastToTenant(pending.organisation, 'sensor:pending', pending.toJSON());
+
+  return pending;
+}
+
+/**
+ * Sensor IDs already registered by any organisation
+ * IDs are unique across organisations (rollups and duplicate detection key
+ * off them), so callers must reject a taken ID without revealing its owner.
+ */
+export async function sensorIdsInUse(sensorIds: string[]): Promise<Set<string>> {
+  const sensors = await withoutTenant(() =>
+    Sensor.find({ sensorId: { $in: sensorIds } }).select('sensorId').lean()
+  );
+  return new Set(sensors.map(sensor => sensor.sensorId));
+}
+
+/**
+ * Decide whether a reading received over MQTT may be stored
+ * Returns the registered sensor, or null when the reading was quarantined.
+ */
+export async function admitSensorReading(
+  sensorId: string,
+  payload: Record<string, unknown>
+): Promise<ISensor | null> {
+  try {
+    const sensor = await Sensor.findOne({ sensorId });
+
+    if (sensor) {
+      if (!sensor.isActive) {
+        await quarantineReading(sensorId, payload, 'inactive');
+        return null;
+      }
+      return sensor;
+    }
+
+    const details = extractSensorDetails(payload);
+
+    // Devices reusing another organisation's sensor ID wait for an admin instead
+    if (
+      SENSOR_PROVISIONING === 'auto'
+      && isRegistrable(details)
+      && !(await sensorIdsInUse([sensorId])).has(sensorId)
+    ) {
+      const pending = await PendingSensor.findOne({ sensorId });
+      if (pending?.status !== 'rejected') {
+        const created = await Sensor.create({ sensorId, ...details });
+        if (pending) {
+          pending.status = 'approved';
+          pending.reviewedBy = 'auto';
+          pending.reviewedAt = new Date();
+          await pending.save();
+        }
+        logger.info(`Auto-registered sensor ${sensorId}`);
+        return created;
+      }
+    }
+
+    const pending = await recordPendingSensor(sensorId, details);
+    await quarantineReading(
+      sensorId,
+      payload,
+      pending.status === 'rejected' ? 'rejected' : 'unregistered'
+    );
+    return null;
+  } catch (error) {
+    logger.error(`Error admitting reading from ${sensorId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Approve a pending device and register it as a sensor
+ */
+export async function approvePendingSensor(
+  pending: IPendingSensor,
+  overrides: SensorDetails & { configuration?: ISensor['configuration'] },
+  userId?: string
+): Promise<ISensor> {
+  const sensor = await Sensor.create({
+    sensorId: pending.sensorId,
+    name: overrides.name || pending.name,
+    type: overrides.type || pending.type,
+    location: overrides.location || pending.location,
+    ...(overrides.configuration && { configuration: overrides.configuration })
+  });
+
+  pending.status = 'approved';
+  pending.reviewedBy = userId;
+  pending.reviewedAt = new Date();
+  pending.rejectionReason = undefined;
+  await pending.save();
+
+  logger.info(`Pending sensor ${pending.sensorId} approved by ${userId}`);
+  return sensor;
+}
+
+/**
+ * Reject a pending device so its readings stay quarantined
+ */
+export async function rejectPendingSensor(
+  pending: IPendingSensor,
+  reason: string | undefined,
+  userId?: string
+): Promise<IPendingSensor> {
+  pending.status = 'rejected';
+  pending.reviewedBy = userId;
+  pending.reviewedAt = new Date();
+  pending.rejectionReason = reason;
+  await pending.save();
+
+  logger.info(`Pending sensor ${pending.sensorId} rejected by ${userId}`);
+  return pending;
+}
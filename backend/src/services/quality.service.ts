@@ -0,0 +1,141 @@
+/**
+ * Reading Quality Service
+ * Grades incoming readings as good/fair/poor from device health and data checks
+ */
+
+import { IIoTReadingData } from '../models';
+import { getMeasurementField } from './measurement.service';
+
+export type QualityGrade = 'good' | 'fair' | 'poor';
+
+export interface QualityAssessment {
+  quality: QualityGrade;
+  qualityIssues: string[];
+}
+
+interface QualityIssue {
+  code: string;
+  major: boolean;
+}
+
+/**
+ * Largest believable change between consecutive readings per field
+ */
+export const MAX_STEP: Record<string, number> = {
+  temperature: 10,
+  humidity: 30,
+  pressure: 20,
+  windspeed: 60
+};
+
+// Device health thresholds
+const BATTERY_LOW = 20;
+const BATTERY_CRITICAL = 10;
+const SIGNAL_WEAK = -90; // dBm
+const SIGNAL_CRITICAL = -100; // dBm
+
+// Staleness thresholds (age of the reading when it reached the server)
+const STALE_MS = parseInt(process.env.QUALITY_STALE_MS || '300000', 10); // 5 minutes
+const VERY_STALE_MS = parseInt(process.env.QUALITY_VERY_STALE_MS || '3600000', 10); // 1 hour
+
+// Previous value per sensor/field for spike detection
+const previousValues = new Map<string, number>();
+
+/**
+ * Run all quality checks against a reading
+ * Pure given the previous values - kept separate for testing.
+ */
+export function checkReading(
+  data: IIoTReadingData,
+  timestamp: Date,
+  receivedAt: Date,
+  previous: Record<string, number | undefined> = {}
+): QualityAssessment {
+  const issues: QualityIssue[] = [];
+
+  // Battery level
+  if (typeof data.battery === 'number') {
+    if (data.battery < BATTERY_CRITICAL) {
+      issues.push({ code: 'battery_critical', major: true });
+    } else if (data.battery < BATTERY_LOW) {
+      issues.push({ code: 'battery_low', major: false });
+    }
+  }
+
+  // Radio signal strength
+  if (typeof data.signal_strength === 'number') {
+    if (data.signal_strength < SIGNAL_CRITICAL) {
+      issues.push({ code: 'signal_critical', major: true });
+    } else if (data.signal_strength < SIGNAL_WEAK) {
+      issues.push({ code: 'signal_weak', major: false });
+    }
+  }
+
+  for (const [field, value] of Object.entries(data)) {
+    if (typeof value !== 'number') continue;
+
+    // Physical plausibility, from the measurement catalog's valid range
+    const definition = getMeasurementField(field);
+    if (
+      definition &&
+      ((definition.min !== undefined && value < definition.min) ||
+        (definition.max !== undefined && value > definition.max) ||
+        Number.isNaN(value))
+    ) {
+      issues.push({ code: `implausible:${field}`, major: true });
+      continue;
+    }
+
+    // Spike against the previous reading
+    const prev = previous[field];
+    const step = MAX_STEP[field];
+    if (step !== undefined && prev !== undefined && Math.abs(value - prev) > step) {
+      issues.push({ code: `spike:${field}`, major: false });
+    }
+  }
+
+  // Staleness
+  const age = receivedAt.getTime() - timestamp.getTime();
+  if (age > VERY_STALE_MS) {
+    issues.push({ code: 'very_stale', major: true });
+  } else if (age > STALE_MS) {
+    issues.push({ code: 'stale', major: false });
+  }
+
+  let quality: QualityGrade = 'good';
+  if (issues.some(issue => issue.major)) {
+    quality = 'poor';
+  } else if (issues.length > 0) {
+    quality = 'fair';
+  }
+
+  return {
+    quality,
+    qualityIssues: issues.map(issue => issue.code)
+  };
+}
+
+/**
+ * Assess a new reading for a sensor and remember its values for spike detection
+ */
+export function assessQuality(
+  sensorId: string,
+  data: IIoTReadingData,
+  timestamp: Date = new Date(),
+  receivedAt: Date = new Date()
+): QualityAssessment {
+  const previous: Record<string, number | undefined> = {};
+  Object.keys(data).forEach(field => {
+    previous[field] = previousValues.get(`${sensorId}:${field}`);
+  });
+
+  const assessment = checkReading(data, timestamp, receivedAt, previous);
+
+  Object.entries(data).forEach(([field, value]) => {
+    if (typeof value === 'number' && !assessment.qualityIssues.includes(`implausible:${field}`)) {
+      previousValues.set(`${sensorId}:${field}`, value);
+    }
+  });
+
+  return assessment;
+}
@@ -0,0 +1,314 @@
+/**
+ * Rollup Service
+ * Background job that materialises 1-minute, 1-hour and 1-day reading aggregates
+ */
+
+import { PipelineStage } from 'mongoose';
+import { logger } from '../config/logger';
+import {
+  IoTReading,
+  RollupState,
+  RollupResolution,
+  getRollupModel
+} from '../models';
+
+export const RESOLUTION_MS: Record<RollupResolution, number> = {
+  '1m': 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+const RESOLUTION_UNITS: Record<RollupResolution, 'minute' | 'hour' | 'day'> = {
+  '1m': 'minute',
+  '1h': 'hour',
+  '1d': 'day'
+};
+
+// Each resolution is built from the one below it; 1m is built from raw readings
+const ROLLUP_SOURCES: Record<RollupResolution, RollupResolution | null> = {
+  '1m': null,
+  '1h': '1m',
+  '1d': '1h'
+};
+
+// Largest time span materialised per aggregation, to keep a first run over old data bounded
+const CHUNK_MS: Record<RollupResolution, number> = {
+  '1m': 24 * 60 * 60 * 1000, // 1 day
+  '1h': 30 * 24 * 60 * 60 * 1000, // 30 days
+  '1d': 366 * 24 * 60 * 60 * 1000 // 1 year
+};
+
+// Configuration
+const ROLLUP_INTERVAL_MS = parseInt(process.env.ROLLUP_INTERVAL_MS || '60000', 10);
+// Recompute recent buckets each run so slightly late readings are picked up cheaply;
+// older buckets are recomputed only when a reading for them arrives
+const ROLLUP_LOOKBACK_MS = parseInt(process.env.ROLLUP_LOOKBACK_MS || '3600000', 10);
+
+export interface BucketRange {
+  start: Date;
+  end: Date; // exclusive
+}
+
+let rollupTimer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Truncate a date to the start of its UTC bucket
+ */
+export function truncateDate(date: Date, resolution: RollupResolution): Date {
+  const ms = RESOLUTION_MS[resolution];
+  return new Date(Math.floor(date.getTime() / ms) * ms);
+}
+
+/**
+ * Coalesce dates into the contiguous bucket ranges of a resolution that contain them
+ */
+export function bucketRanges(dates: Date[], resolution: RollupResolution): BucketRange[] {
+  const ms = RESOLUTION_MS[resolution];
+  const starts = [...new Set(dates.map(date => truncateDate(date, resolution).getTime()))]
+    .sort((a, b) => a - b);
+
+  const ranges: BucketRange[] = [];
+  starts.forEach(start => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end.getTime() === start) {
+      last.end = new Date(start + ms);
+    } else {
+      ranges.push({ start: new Date(start), end: new Date(start + ms) });
+    }
+  });
+  return ranges;
+}
+
+/**
+ * Final $project/$merge stages shared by all rollup pipelines
+ */
+function mergeStages(resolution: RollupResolution): PipelineStage[] {
+  return [
+    {
+      $project: {
+        _id: 0,
+        sensorId: '$_id.sensorId',
+        field: '$_id.field',
+        bucket: '$_id.bucket',
+        organisation: 1,
+        count: 1,
+        sum: 1,
+        min: 1,
+        max: 1,
+        avg: { $divide: ['$sum', '$count'] }
+      }
+    },
+    {
+      $merge: {
+        into: getRollupModel(resolution).collection.name,
+        on: ['sensorId', 'field', 'bucket'],
+        whenMatched: 'replace',
+        whenNotMatched: 'insert'
+      }
+    }
+  ];
+}
+
+/**
+ * Pipeline that rolls raw readings up into 1-minute buckets for every numeric field
+ */
+export function buildRawRollupPipeline(start: Date, end: Date): PipelineStage[] {
+  return [
+    { $match: { timestamp: { $gte: start, $lt: end } } },
+    {
+      $project: {
+        sensorId: 1,
+        organisation: 1,
+        bucket: { $dateTrunc: { date: '$timestamp', unit: 'minute' } },
+        fields: { $objectToArray: '$data' }
+      }
+    },
+    { $unwind: '$fields' },
+    { $match: { 'fields.v': { $type: 'number' } } },
+    {
+      $group: {
+        _id: { sensorId: '$sensorId', field: '$fields.k', bucket: '$bucket' },
+        // Sensor IDs are unique across organisations, so each bucket has one owner
+        organisation: { $first: '$organisation' },
+        count: { $sum: 1 },
+        sum: { $sum: '$fields.v' },
+        min: { $min: '$fields.v' },
+        max: { $max: '$fields.v' }
+      }
+    },
+    ...mergeStages('1m')
+  ];
+}
+
+/**
+ * Pipeline that merges finer rollup buckets into a coarser resolution
+ */
+export function buildRollupPipeline(
+  resolution: RollupResolution,
+  start: Date,
+  end: Date
+): PipelineStage[] {
+  return [
+    { $match: { bucket: { $gte: start, $lt: end } } },
+    {
+      $group: {
+        _id: {
+          sensorId: '$sensorId',
+          field: '$field',
+          bucket: { $dateTrunc: { date: '$bucket', unit: RESOLUTION_UNITS[resolution] } }
+        },
+        organisation: { $first: '$organisation' },
+        count: { $sum: '$count' },
+        sum: { $sum: '$sum' },
+        min: { $min: '$min' },
+        max: { $max: '$max' }
+      }
+    },
+    ...mergeStages(resolution)
+  ];
+}
+
+/**
+ * Earliest timestamp available in the source of a resolution
+ */
+async function findEarliestSource(resolution: RollupResolution): Promise<Date | null> {
+  const source = ROLLUP_SOURCES[resolution];
+
+  if (!source) {
+    const first = await IoTReading.findOne().sort({ timestamp: 1 }).select('timestamp');
+    return first?.timestamp || null;
+  }
+
+  const first = await getRollupModel(source).findOne().sort({ bucket: 1 }).select('bucket');
+  return first?.bucket || null;
+}
+
+/**
+ * Minute buckets holding readings received since `since` but timestamped before `before`
+ * Gateways flush buffered readings long after they were taken, behind the
+ * lookback window of the regular pass.
+ */
+async function findLateMinutes(since: Date, before: Date): Promise<Date[]> {
+  const buckets = await IoTReading.aggregate<{ _id: Date }>([
+    { $match: { receivedAt: { $gte: since }, timestamp: { $lt: before } } },
+    { $group: { _id: { $dateTrunc: { date: '$timestamp', unit: 'minute' } } } }
+  ]);
+  return buckets.map(bucket => bucket._id);
+}
+
+/**
+ * Recompute the buckets of one resolution between `start` and `end`, in chunks
+ */
+async function materialise(resolution: RollupResolution, start: Date, end: Date): Promise<void> {
+  const source = ROLLUP_SOURCES[resolution];
+
+  for (let chunkStart = start.getTime(); chunkStart < end.getTime(); chunkStart += CHUNK_MS[resolution]) {
+    const from = new Date(chunkStart);
+    const to = new Date(Math.min(chunkStart + CHUNK_MS[resolution], end.getTime()));
+
+    if (source) {
+      await getRollupModel(source).aggregate(buildRollupPipeline(resolution, from, to));
+    } else {
+      await IoTReading.aggregate(buildRawRollupPipeline(from, to));
+    }
+  }
+}
+
+/**
+ * Materialise all complete buckets of one resolution up to `now`, and
+ * recompute older buckets that late readings have landed in since the last run
+ */
+async function rollupResolution(resolution: RollupResolution, now: Date): Promise<void> {
+  const checkedAt = new Date();
+  const end = truncateDate(now, resolution);
+  const state = await RollupState.findOne({ resolution });
+
+  let start: Date;
+  if (state) {
+    start = truncateDate(new Date(state.watermark.getTime() - ROLLUP_LOOKBACK_MS), resolution);
+  } else {
+    const earliest = await findEarliestSource(resolution);
+    if (!earliest) return;
+    start = truncateDate(earliest, resolution);
+  }
+
+  await materialise(resolution, start, end);
+
+  if (state) {
+    // Overlap by one interval so readings committed during the last run are not missed
+    const since = new Date((state.receivedWatermark ?? state.lastRunAt).getTime() - ROLLUP_INTERVAL_MS);
+    const late = bucketRanges(await findLateMinutes(since, start), resolution);
+
+    for (const range of late) {
+      await materialise(resolution, range.start, range.end);
+    }
+    if (late.length > 0) {
+      logger.info(`Recomputed ${late.length} ${resolution} rollup ranges for late readings`);
+    }
+  }
+
+  await RollupState.findOneAndUpdate(
+    { resolution },
+    { watermark: end, receivedWatermark: checkedAt, lastRunAt: new Date() },
+    { upsert: true }
+  );
+
+  logger.debug(`Rolled up ${resolution} readings to ${end.toISOString()}`);
+}
+
+/**
+ * Run one pass of all rollups, finest resolution first
+ */
+export async function runRollups(now: Date = new Date()): Promise<void> {
+  if (isRunning) {
+    logger.debug('Rollup already in progress, skipping');
+    return;
+  }
+
+  isRunning = true;
+  try {
+    for (const resolution of ['1m', '1h', '1d'] as RollupResolution[]) {
+      await rollupResolution(resolution, now);
+    }
+  } catch (error) {
+    logger.error('Error running reading rollups:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Get the end (exclusive) of the materialised range for a resolution
+ */
+export async function getRollupWatermark(resolution: RollupResolution): Promise<Date | null> {
+  const state = await RollupState.findOne({ resolution });
+  return state?.watermark || null;
+}
+
+/**
+ * Start the periodic rollup job
+ */
+export function startRollupJob(): void {
+  if (rollupTimer) return;
+
+  rollupTimer = setInterval(() => {
+    runRollups();
+  }, ROLLUP_INTERVAL_MS);
+
+  // Catch up immediately on startup
+  runRollups();
+
+  logger.info(`Reading rollup job started (interval: ${ROLLUP_INTERVAL_MS}ms)`);
+}
+
+/**
+ * Stop the periodic rollup job
+ */
+export function stopRollupJob(): void {
+  if (rollupTimer) {
+    clearInterval(rollupTimer);
+    rollupTimer = null;
+    logger.info('Reading rollup job stopped');
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Session Service
+ * Persisted sign-in sessions with single-use, rotating refresh tokens
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../config/logger';
+import { Session, ISession, SessionRevokeReason } from '../models';
+import { disconnectSessions } from './websocket.service';
+
+// Configuration
+// A session expires after this many days without a refresh
+const SESSION_TTL_DAYS = parseInt(process.env.SESSION_TTL_DAYS || '7', 10);
+
+export type SessionState = 'active' | 'expired' | 'revoked' | 'reused';
+
+export interface SessionMeta {
+  userAgent?: string;
+  ip?: string;
+}
+
+/**
+ * When a session refreshed now should expire
+ */
+export function sessionExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Check whether a refresh token may be exchanged on a session
+ * A token that is not the session's current one has already been rotated
+ * away, so presenting it means the token chain was copied.
+ */
+export function sessionState(
+  session: Pick<ISession, 'refreshTokenId' | 'expiresAt' | 'revokedAt'>,
+  refreshTokenId: string,
+  now: Date = new Date()
+): SessionState {
+  if (session.revokedAt) return 'revoked';
+  if (session.expiresAt.getTime() <= now.getTime()) return 'expired';
+  if (session.refreshTokenId !== refreshTokenId) return 'reused';
+  return 'active';
+}
+
+/**
+ * Start a session for a user who has just signed in
+ */
+export async function createSession(userId: string, meta: SessionMeta = {}): Promise<ISession> {
+  return Session.create({
+    sessionId: uuidv4(),
+    user: userId,
+    refreshTokenId: uuidv4(),
+    userAgent: meta.userAgent?.slice(0, 500),
+    ip: meta.ip,
+    expiresAt: sessionExpiry()
+  });
+}
+
+/**
+ * Exchange a session's refresh token for the next one
+ * Returns the updated session, or an error message. Reusing an old refresh
+ * token revokes the session, signing out both the thief and the owner.
+ */
+export async function rotateSession(
+  sessionId: string,
+  userId: string,
+  refreshTokenId: string,
+  meta: SessionMeta = {}
+): Promise<ISession | string> {
+  const now = new Date();
+
+  // Matching on the current token id makes each refresh token single-use
+  // even when two requests race with it
+  const rotated = await Session.findOneAndUpdate(
+    {
+      sessionId,
+      user: userId,
+      refreshTokenId,
+      revokedAt: null,
+      expiresAt: { $gt: now }
+    },
+    {
+      $set: {
+        refreshTokenId: uuidv4(),
+        lastUsedAt: now,
+        expiresAt: sessionExpiry(now),
+        ...(meta.userAgent && { userAgent: meta.userAgent.slice(0, 500) }),
+        ...(meta.ip && { ip: meta.ip })
+      }
+    },
+    { new: true }
+  );
+  if (rotated) return rotated;
+
+  const session = await Session.findOne({ sessionId, user: userId });
+  if (!session) return 'Session not found';
+
+  const state = sessionState(session, refreshTokenId, now);
+  if (state === 'reused') {
+    await revokeSession(sessionId, userId, 'reuse_detected');
+    logger.warn(`Refresh token reuse on session ${sessionId} of user ${userId}, session revoked`);
+    return 'Refresh token reuse detected, session revoked';
+  }
+
+  return state === 'revoked' ? 'Session revoked' : 'Session expired';
+}
+
+/**
+ * Check that an access token's session is still signed in
+ */
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const session = await Session.exists({
+    sessionId,
+    user: userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  });
+  return Boolean(session);
+}
+
+/**
+ * Active sessions of a user, most recently used first
+ */
+export async function listSessions(userId: string): Promise<ISession[]> {
+  return Session.find({
+    user: userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  }).sort({ lastUsedAt: -1 });
+}
+
+/**
+ * Revoke one of a user's sessions, disconnecting its WebSocket clients
+ * Returns false when the user has no such active session.
+ */
+export async function revokeSession(
+  sessionId: string,
+  userId: string,
+  reason: SessionRevokeReason
+): Promise<boolean> {
+  const result = await Session.updateOne(
+    { sessionId, user: userId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+
+  disconnectSessions([sessionId]);
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Revoke every session of a user, optionally keeping one, disconnecting
+ * their WebSocket clients
+ * Returns the number revoked.
+ */
+export async function revokeUserSessions(
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const sessions = await Session.find({
+    user: userId,
+    revokedAt: null,
+    ...(exceptSessionId && { sessionId: { $ne: exceptSessionId } })
+  }).select('sessionId');
+  const sessionIds = sessions.map(session => session.sessionId);
+
+  const result = await Session.updateMany(
+    { sessionId: { $in: sessionIds }, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  disconnectSessions(sessionIds);
+
+  if (result.modifiedCount > 0) {
+    logger.info(`Revoked ${result.modifiedCount} sessions of user ${userId} (${reason})`);
+  }
+  return result.modifiedCount;
+}
@@ -0,0 +1,218 @@
+/**
+ * Site Service
+ * Site → zone → sensor hierarchy with sensor status rolled up to every node
+ */
+
+import { isValidObjectId, Types } from 'mongoose';
+import { Alert, Sensor, ISensor, Site, ISite, Zone, IZone } from '../models';
+
+export interface NodeStatus {
+  total: number;
+  active: number;
+  online: number;
+  offline: number;
+  alerting: number;
+}
+
+export interface SiteTreeNode<T = Record<string, unknown>> {
+  id?: string;
+  name: string;
+  type: 'root' | 'site' | 'zone';
+  status: NodeStatus;
+  children: Array<SiteTreeNode<T> | T>;
+}
+
+export interface SensorPlacement {
+  site: Types.ObjectId | null;
+  zone: Types.ObjectId | null;
+}
+
+type SensorSummary = Pick<ISensor, 'sensorId' | 'name' | 'isActive' | 'presence' | 'site' | 'zone'>;
+
+export const UNASSIGNED_NODE_NAME = 'Unassigned';
+
+/**
+ * Status counts for an empty node
+ */
+export function emptyStatus(): NodeStatus {
+  return { total: 0, active: 0, online: 0, offline: 0, alerting: 0 };
+}
+
+/**
+ * Status counts contributed by one sensor
+ */
+export function sensorStatus(sensor: Pick<ISensor, 'isActive' | 'presence'>, alerting: boolean): NodeStatus {
+  return {
+    total: 1,
+    active: sensor.isActive ? 1 : 0,
+    online: sensor.presence?.status === 'online' ? 1 : 0,
+    offline: sensor.presence?.status === 'offline' ? 1 : 0,
+    alerting: alerting ? 1 : 0
+  };
+}
+
+function addStatus(target: NodeStatus, source: NodeStatus): void {
+  (Object.keys(target) as Array<keyof NodeStatus>).forEach(key => {
+    target[key] += source[key];
+  });
+}
+
+/**
+ * Sensors with an open or acknowledged alert
+ */
+export async function getAlertingSensorIds(): Promise<Set<string>> {
+  const sensorIds = await Alert.distinct('sensorId', { status: { $in: ['open', 'acknowledged'] } });
+  return new Set(sensorIds as string[]);
+}
+
+/**
+ * Arrange sensors under their sites and zones and roll status counts up the tree
+ * Zones are listed before sensors, each sorted by name. Sensors without a site
+ * (or whose site no longer exists) are collected under an "Unassigned" node.
+ */
+export function buildSiteTree<S extends SensorSummary, T>(
+  rootName: string,
+  sites: Pick<ISite, '_id' | 'name'>[],
+  zones: Pick<IZone, '_id' | 'name' | 'site' | 'parent'>[],
+  sensors: S[],
+  alertingIds: Set<string>,
+  toSensorNode: (sensor: S, alerting: boolean) => T
+): SiteTreeNode<T> {
+  const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+  const groupNode = (type: 'site' | 'zone', id: unknown, name: string): SiteTreeNode<T> =>
+    ({ id: String(id), name, type, status: emptyStatus(), children: [] });
+
+  const siteNodes = new Map<string, SiteTreeNode<T>>();
+  [...sites].sort(byName).forEach(site => {
+    siteNodes.set(String(site._id), groupNode('site', site._id, site.name));
+  });
+
+  const zoneNodes = new Map<string, { node: SiteTreeNode<T>; site: string }>();
+  zones.forEach(zone => {
+    zoneNodes.set(String(zone._id), { node: groupNode('zone', zone._id, zone.name), site: String(zone.site) });
+  });
+
+  [...zones].sort(byName).forEach(zone => {
+    const { node, site } = zoneNodes.get(String(zone._id))!;
+    const parent = zone.parent ? zoneNodes.get(String(zone.parent)) : undefined;
+    const container = parent?.site === site ? parent.node : siteNodes.get(site);
+    container?.children.push(node);
+  });
+
+  // Sensor counts are added where the sensor sits, then summed up the tree
+  const ownStatus = new Map<SiteTreeNode<T>, NodeStatus>();
+  const unassigned: SiteTreeNode<T> = {
+    name: UNASSIGNED_NODE_NAME,
+    type: 'site',
+    status: emptyStatus(),
+    children: []
+  };
+
+  sensors.forEach(sensor => {
+    const site = sensor.site ? String(sensor.site) : undefined;
+    const zone = sensor.zone ? zoneNodes.get(String(sensor.zone)) : undefined;
+    const container = (zone && zone.site === site ? zone.node : undefined)
+      ?? (site ? siteNodes.get(site) : undefined)
+      ?? unassigned;
+
+    const alerting = alertingIds.has(sensor.sensorId);
+    container.children.push(toSensorNode(sensor, alerting));
+
+    const status = ownStatus.get(container) ?? emptyStatus();
+    addStatus(status, sensorStatus(sensor, alerting));
+    ownStatus.set(container, status);
+  });
+
+  const rollUp = (node: SiteTreeNode<T>): NodeStatus => {
+    node.status = { ...(ownStatus.get(node) ?? emptyStatus()) };
+    node.children.forEach(child => {
+      if (isGroupNode(child)) addStatus(node.status, rollUp(child));
+    });
+    return node.status;
+  };
+
+  const root: SiteTreeNode<T> = {
+    name: rootName,
+    type: 'root',
+    status: emptyStatus(),
+    children: [...siteNodes.values(), ...(unassigned.children.length > 0 ? [unassigned] : [])]
+  };
+  rollUp(root);
+  return root;
+}
+
+function isGroupNode<T>(node: SiteTreeNode<T> | T): node is SiteTreeNode<T> {
+  const type = (node as SiteTreeNode<T>).type;
+  return type === 'root' || type === 'site' || type === 'zone';
+}
+
+/**
+ * Build the hierarchy of all sites, or of one site, with plain sensor leaves
+ */
+export async function getSiteTree(siteId?: string): Promise<SiteTreeNode> {
+  const [sites, zones, sensors, alertingIds] = await Promise.all([
+    Site.find(siteId ? { _id: siteId } : {}),
+    Zone.find(siteId ? { site: siteId } : {}),
+    Sensor.find(siteId ? { site: siteId } : {}).sort({ sensorId: 1 }),
+    getAlertingSensorIds()
+  ]);
+
+  return buildSiteTree('Sites', sites, zones, sensors, alertingIds, (sensor, alerting) => ({
+    type: 'sensor',
+    sensorId: sensor.sensorId,
+    name: sensor.name,
+    isActive: sensor.isActive,
+    presence: sensor.presence?.status ?? 'unknown',
+    alerting
+  }));
+}
+
+/**
+ * Resolve the site and zone for a sensor; a zone implies its site
+ * Returns an error message when either does not exist or they do not match.
+ */
+export async function resolvePlacement(site: unknown, zone: unknown): Promise<SensorPlacement | string> {
+  if (zone) {
+    if (!isValidObjectId(zone)) return 'Invalid zone ID';
+    const found = await Zone.findById(zone);
+    if (!found) return 'Zone not found';
+    if (site && String(site) !== String(found.site)) return 'Zone does not belong to the site';
+    return { site: found.site, zone: found._id as Types.ObjectId };
+  }
+
+  if (site) {
+    if (!isValidObjectId(site)) return 'Invalid site ID';
+    if (!(await Site.exists({ _id: site }))) return 'Site not found';
+    return { site: new Types.ObjectId(String(site)), zone: null };
+  }
+
+  return { site: null, zone: null };
+}
+
+/**
+ * Check a zone's parent: it must be in the same site and must not be the zone
+ * itself or one of its descendants. Returns an error message, or null.
+ */
+export async function validateZoneParent(
+  siteId: string,
+  parentId: unknown,
+  zoneId?: string
+): Promise<string | null> {
+  if (!parentId) return null;
+  if (!isValidObjectId(parentId)) return 'Invalid parent zone ID';
+
+  const zones = await Zone.find({ site: siteId }).select('parent');
+  const parents = new Map(zones.map(zone => [String(zone._id), zone.parent ? String(zone.parent) : null]));
+  if (!parents.has(String(parentId))) return 'Parent zone not found in this site';
+
+  // Walk up from the new parent; reaching the zone would create a cycle
+  const visited = new Set<string>();
+  let current: string | null = String(parentId);
+  while (current && !visited.has(current)) {
+    if (current === zoneId) return 'A zone cannot be placed inside itself';
+    visited.add(current);
+    current = parents.get(current) ?? null;
+  }
+
+  return null;
+}
@@ -0,0 +1,188 @@
+/**
+ * Units Service
+ * Converts stored metric values to the unit system (and wind unit) requested by a client
+ */
+
+import { Request } from 'express';
+import { IIoTReading, IIoTReadingData, UnitSystem, WindUnit } from '../models';
+import { getUnit } from './measurement.service';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial', 'si'];
+export const WIND_UNITS: WindUnit[] = ['km/h', 'mph', 'm/s', 'kn'];
+
+interface UnitConversion {
+  unit: string;
+  convert: (value: number) => number;
+}
+
+/**
+ * Conversions from each stored (metric) unit; units missing here are the
+ * same in every system.
+ */
+const CONVERSIONS: Record<string, Partial<Record<UnitSystem, UnitConversion>>> = {
+  '°C': {
+    imperial: { unit: '°F', convert: value => value * 9 / 5 + 32 },
+    si: { unit: 'K', convert: value => value + 273.15 }
+  },
+  'km/h': {
+    imperial: { unit: 'mph', convert: value => value / 1.609344 },
+    si: { unit: 'm/s', convert: value => value / 3.6 }
+  },
+  hPa: {
+    imperial: { unit: 'inHg', convert: value => value / 33.8639 },
+    si: { unit: 'Pa', convert: value => value * 100 }
+  },
+  m: {
+    imperial: { unit: 'ft', convert: value => value / 0.3048 }
+  }
+};
+
+/**
+ * Conversions from km/h to each wind unit, for users who pick wind speeds
+ * separately from their unit system (knots belong to none of them)
+ */
+const WIND_CONVERSIONS: Record<WindUnit, UnitConversion> = {
+  'km/h': { unit: 'km/h', convert: value => value },
+  mph: { unit: 'mph', convert: value => value / 1.609344 },
+  'm/s': { unit: 'm/s', convert: value => value / 3.6 },
+  kn: { unit: 'kn', convert: value => value / 1.852 }
+};
+
+/**
+ * Conversion for a metric unit, with the wind unit taking precedence for speeds
+ */
+function conversionFor(
+  unit: string,
+  system: UnitSystem,
+  windUnits: WindUnit | null
+): UnitConversion | undefined {
+  if (unit === 'km/h' && windUnits) return WIND_CONVERSIONS[windUnits];
+  return CONVERSIONS[unit]?.[system];
+}
+
+/**
+ * Check whether a value names a unit system
+ */
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return UNIT_SYSTEMS.includes(value as UnitSystem);
+}
+
+/**
+ * Check whether a value names a wind unit
+ */
+export function isWindUnit(value: unknown): value is WindUnit {
+  return WIND_UNITS.includes(value as WindUnit);
+}
+
+/**
+ * Pick the unit system for a request
+ * Order: `units` query parameter, the signed-in user's preference, then metric.
+ */
+export function resolveUnitSystem(req: Request): UnitSystem {
+  if (isUnitSystem(req.query.units)) return req.query.units;
+  if (isUnitSystem(req.user?.preferences?.units)) return req.user!.preferences.units;
+  return 'metric';
+}
+
+/**
+ * Pick the wind unit for a request, or null to follow the unit system
+ * Order: `windUnits` query parameter, then the signed-in user's preference.
+ */
+export function resolveWindUnits(req: Request): WindUnit | null {
+  if (isWindUnit(req.query.windUnits)) return req.query.windUnits;
+  if (isWindUnit(req.user?.preferences?.windUnits)) return req.user!.preferences.windUnits;
+  return null;
+}
+
+/**
+ * Display unit for a metric unit in the given system
+ */
+export function convertUnit(unit: string, system: UnitSystem, windUnits: WindUnit | null = null): string {
+  return conversionFor(unit, system, windUnits)?.unit ?? unit;
+}
+
+/**
+ * Convert a metric value to the given system
+ */
+export function convertValue(
+  value: number,
+  unit: string,
+  system: UnitSystem,
+  windUnits: WindUnit | null = null
+): number {
+  const conversion = conversionFor(unit, system, windUnits);
+  return conversion ? conversion.convert(value) : value;
+}
+
+/**
+ * Convert a nullable value, e.g. an aggregate over an empty window
+ */
+export function convertNullable<T extends number | null | undefined>(
+  value: T,
+  unit: string,
+  system: UnitSystem,
+  windUnits: WindUnit | null = null
+): T {
+  return (typeof value === 'number' ? convertValue(value, unit, system, windUnits) : value) as T;
+}
+
+/**
+ * Convert the numeric fields of reading data using their catalog units
+ */
+export function convertReadingData(
+  data: IIoTReadingData,
+  system: UnitSystem,
+  windUnits: WindUnit | null = null
+): IIoTReadingData {
+  if ((system === 'metric' && !windUnits) || !data) return data;
+
+  const converted: IIoTReadingData = {};
+  Object.entries(data).forEach(([field, value]) => {
+    converted[field] = typeof value === 'number' ? convertValue(value, getUnit(field), system, windUnits) : value;
+  });
+  return converted;
+}
+
+/**
+ * Convert a reading (document or aggregation result) for output
+ */
+export function convertReading(
+  reading: IIoTReading | Record<string, unknown>,
+  system: UnitSystem,
+  windUnits: WindUnit | null = null
+): IIoTReading | Record<string, unknown> {
+  if (system === 'metric' && !windUnits) return reading;
+
+  const plain = typeof (reading as IIoTReading).toJSON === 'function'
+    ? (reading as IIoTReading).toJSON()
+    : reading;
+  return { ...plain, data: convertReadingData(plain.data as IIoTReadingData, system, windUnits) };
+}
+
+/**
+ * Convert weather data (live or stored) for output
+ * Open-Meteo reports °C, km/h and metres, the same as the dashboard's metric units.
+ */
+export function convertWeather<T extends {
+  temperature?: number;
+  windspeed?: number;
+  elevation?: number;
+  metadata?: { elevation?: number };
+}>(weather: T | { toJSON(): T }, system: UnitSystem, windUnits: WindUnit | null = null): T {
+  const plain = typeof (weather as { toJSON?: unknown }).toJSON === 'function'
+    ? (weather as { toJSON(): T }).toJSON()
+    : weather as T;
+  if (system === 'metric' && !windUnits) return plain;
+
+  return {
+    ...plain,
+    temperature: convertNullable(plain.temperature, '°C', system),
+    windspeed: convertNullable(plain.windspeed, 'km/h', system, windUnits),
+    ...(plain.elevation !== undefined && {
+      elevation: convertValue(plain.elevation, 'm', system)
+    }),
+    ...(plain.metadata?.elevation !== undefined && {
+      metadata: { ...plain.metadata, elevation: convertValue(plain.metadata.elevation, 'm', system) }
+    })
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * User Service
+ * Searching, activating and removing user accounts for administrators
+ */
+
+import { logger } from '../config/logger';
+import { User, IUser } from '../models';
+import { revokeUserSessions } from './session.service';
+
+export interface UserQuery {
+  search?: string;
+  role?: string;
+  isActive?: string;
+}
+
+/**
+ * Escape text for use as a literal inside a regular expression
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Query filter for the user list
+ * `search` matches anywhere in the username or email, case-insensitively.
+ */
+export function buildUserFilter(query: UserQuery): Record<string, unknown> {
+  const filter: Record<string, unknown> = {};
+
+  const search = query.search?.trim();
+  if (search) {
+    const pattern = new RegExp(escapeRegExp(search), 'i');
+    filter.$or = [{ username: pattern }, { email: pattern }];
+  }
+  if (query.role) filter.role = query.role;
+  if (query.isActive !== undefined) filter.isActive = query.isActive === 'true';
+
+  return filter;
+}
+
+/**
+ * Activate or deactivate an account
+ * Deactivation signs the user out everywhere, not just at their next login.
+ */
+export async function setUserActive(user: IUser, isActive: boolean): Promise<IUser> {
+  user.isActive = isActive;
+  await user.save();
+
+  if (!isActive) {
+    await revokeUserSessions(user.id, 'account_disabled');
+  }
+
+  logger.info(`User ${user.username} ${isActive ? 'activated' : 'deactivated'}`);
+  return user;
+}
+
+/**
+ * Delete an account and end its sessions
+ * Returns null when there is no such user in the organisation.
+ */
+export async function deleteUser(id: string): Promise<IUser | null> {
+  const user = await User.findByIdAndDelete(id);
+  if (!user) return null;
+
+  await revokeUserSessions(user.id, 'account_disabled');
+
+  logger.info(`User ${user.username} deleted`);
+  return user;
+}
@@ -6,7 +6,8 @@
 import axios, { AxiosError } from 'axios';
 import { logger } from '../config/logger';
 import { WeatherData, IWeatherData } from '../models';
-import { broadcastToClients } from './websocket.service';
+import { sendWeatherEvent } from './websocket.service';
+import { withinRadius, WEATHER_MATCH_RADIUS_KM } from './geo.service';
 
 // Open-Meteo API base URL
 const OPEN_METEO_API = 'https://api.open-meteo.com/v1/forecast';
@@ -175,8 +176,8 @@ export async function fetchAndBroadcastWeather(
   // Store in database
   await storeWeatherData(weatherData);
   
-  // Broadcast to all connected WebSocket clients
-  broadcastToClients('weather:update', weatherData);
+  // Deliver to weather subscribers
+  sendWeatherEvent('weather:update', weatherData);
   
   return weatherData;
 }
@@ -193,8 +194,7 @@ export async function getHistoricalWeather(
   startTime.setHours(startTime.getHours() - hours);
 
   return WeatherData.find({
-    latitude: { $gte: latitude - 0.1, $lte: latitude + 0.1 },
-    longitude: { $gte: longitude - 0.1, $lte: longitude + 0.1 },
+    ...withinRadius(latitude, longitude, WEATHER_MATCH_RADIUS_KM),
     timestamp: { $gte: startTime }
   })
     .sort({ timestamp: -1 })
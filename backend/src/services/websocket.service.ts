@@ -6,12 +6,59 @@
 import { Server as HTTPServer } from 'http';
 import { Server, Socket } from 'socket.io';
 import { logger } from '../config/logger';
+import { currentOrganisationId } from '../models';
+import { ALLOW_ANONYMOUS_ACCESS, userForAccessToken } from '../middleware/auth.middleware';
+import { getDefaultOrganisationId, isOrganisationActive } from './organisation.service';
 
 let io: Server | null = null;
 
 // Connected clients map
 const connectedClients = new Map<string, Socket>();
 
+// Rooms
+// Every room is partitioned by organisation; the unprefixed weather and
+// all-updates rooms only carry shared weather data
+const ALL_UPDATES_ROOM = 'all-updates';
+const WEATHER_ROOM = 'weather';
+
+/**
+ * Name of an organisation's copy of a room; the organisation's own room without one
+ */
+export function tenantRoom(organisationId: unknown, room?: string): string {
+  return room ? `org:${String(organisationId)}:${room}` : `org:${String(organisationId)}`;
+}
+
+const sensorRoom = (organisationId: unknown, sensorId: string): string =>
+  tenantRoom(organisationId, `sensor:${sensorId}`);
+
+// Upper bound on each filter list, so a client can't make matching expensive
+const MAX_FILTER_VALUES = 100;
+
+/**
+ * Server-side filter an `all-updates` subscriber can narrow its stream with
+ * Sensor events must match every list given; `fields` trims reading data.
+ */
+export interface SubscriptionFilter {
+  types?: string[];
+  sites?: string[];
+  fields?: string[];
+}
+
+/**
+ * What a sensor event is about, for matching subscription filters
+ */
+export interface SensorScope {
+  sensorId: string;
+  type?: string;
+  site?: unknown;
+  organisation?: unknown; // defaults to the organisation being served
+}
+
+interface ReadingPayload {
+  sensorId: string;
+  data?: Record<string, unknown>;
+}
+
 /**
  * Initialize WebSocket server
  */
@@ -27,21 +74,55 @@ export function initializeWebSocket(httpServer: HTTPServer): Server {
     transports: ['websocket', 'polling']
   });
 
+  io.use(identifySocket);
   io.on('connection', handleConnection);
 
   logger.info('WebSocket server initialized');
   return io;
 }
 
+/**
+ * Assign a connecting client to the organisation of the access token sent in
+ * `auth.token`; clients without a token see the default organisation only
+ * with ALLOW_ANONYMOUS_ACCESS, and invalid tokens are refused
+ */
+async function identifySocket(socket: Socket, next: (err?: Error) => void): Promise<void> {
+  const token = socket.handshake.auth?.token;
+  const hasToken = typeof token === 'string' && token !== '';
+  const signedIn = hasToken ? await userForAccessToken(token) : null;
+  const user = signedIn?.user;
+
+  if (hasToken && !user) {
+    next(new Error('Invalid or expired token'));
+    return;
+  }
+  if (!user && !ALLOW_ANONYMOUS_ACCESS) {
+    next(new Error('Authentication required'));
+    return;
+  }
+
+  if (user && !isOrganisationActive(user.organisation)) {
+    next(new Error('Organisation is deactivated'));
+    return;
+  }
+
+  socket.data.userId = user?._id.toString();
+  socket.data.sessionId = signedIn?.sessionId;
+  socket.data.organisationId = user ? user.organisation.toString() : getDefaultOrganisationId();
+  next();
+}
+
 /**
  * Handle new WebSocket connection
  */
 function handleConnection(socket: Socket): void {
   const clientId = socket.id;
-  logger.info(`Client connected: ${clientId}`);
+  const organisationId = socket.data.organisationId as string;
+  logger.info(`Client connected: ${clientId} (organisation ${organisationId})`);
   
   // Store client
   connectedClients.set(clientId, socket);
+  socket.join(tenantRoom(organisationId));
 
   // Send welcome message
   socket.emit('connected', {
@@ -52,24 +133,41 @@ function handleConnection(socket: Socket): void {
 
   // Handle client events
   socket.on('subscribe:sensor', (sensorId: string) => {
-    socket.join(`sensor:${sensorId}`);
+    if (typeof sensorId !== 'string' || !sensorId) return;
+    socket.join(sensorRoom(organisationId, sensorId));
     logger.debug(`Client ${clientId} subscribed to sensor ${sensorId}`);
     socket.emit('subscribed', { sensorId, timestamp: new Date() });
   });
 
   socket.on('unsubscribe:sensor', (sensorId: string) => {
-    socket.leave(`sensor:${sensorId}`);
+    if (typeof sensorId !== 'string') return;
+    socket.leave(sensorRoom(organisationId, sensorId));
     logger.debug(`Client ${clientId} unsubscribed from sensor ${sensorId}`);
   });
 
   socket.on('subscribe:weather', () => {
-    socket.join('weather');
+    socket.join([WEATHER_ROOM, tenantRoom(organisationId, WEATHER_ROOM)]);
     logger.debug(`Client ${clientId} subscribed to weather updates`);
   });
 
-  socket.on('subscribe:all', () => {
-    socket.join('all-updates');
-    logger.debug(`Client ${clientId} subscribed to all updates`);
+  socket.on('subscribe:all', (input?: unknown) => {
+    const filter = parseSubscriptionFilter(input);
+    if (typeof filter === 'string') {
+      socket.emit('subscription:error', { error: filter, timestamp: new Date() });
+      return;
+    }
+
+    socket.data.filter = filter;
+    socket.join([ALL_UPDATES_ROOM, tenantRoom(organisationId, ALL_UPDATES_ROOM)]);
+    logger.debug(`Client ${clientId} subscribed to all updates`, filter);
+    socket.emit('subscribed', { all: true, filter, timestamp: new Date() });
+  });
+
+  socket.on('unsubscribe:all', () => {
+    socket.leave(ALL_UPDATES_ROOM);
+    socket.leave(tenantRoom(organisationId, ALL_UPDATES_ROOM));
+    delete socket.data.filter;
+    logger.debug(`Client ${clientId} unsubscribed from all updates`);
   });
 
   socket.on('ping', () => {
@@ -97,6 +195,160 @@ export function broadcastToClients(event: string, data: unknown): void {
   }
 }
 
+/**
+ * Broadcast message to every client of one organisation
+ */
+export function broadcastToTenant(organisationId: unknown, event: string, data: unknown): void {
+  if (io) {
+    io.to(tenantRoom(organisationId)).emit(event, data);
+    logger.debug(`Broadcasted ${event} to organisation ${String(organisationId)}`);
+  }
+}
+
+/**
+ * Organisation a sensor event belongs to
+ */
+function scopeOrganisation(scope: SensorScope): unknown {
+  return scope.organisation ?? currentOrganisationId();
+}
+
+/**
+ * Check and normalise the filter sent with `subscribe:all`
+ * Returns the filter, or an error message.
+ */
+export function parseSubscriptionFilter(input: unknown): SubscriptionFilter | string {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return 'Subscription filter must be an object';
+  }
+
+  const filter: SubscriptionFilter = {};
+  for (const key of ['types', 'sites', 'fields'] as const) {
+    const value = (input as Record<string, unknown>)[key];
+    if (value === undefined) continue;
+
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+      return `Subscription filter ${key} must be an array of strings`;
+    }
+    if (value.length > MAX_FILTER_VALUES) {
+      return `Subscription filter ${key} cannot list more than ${MAX_FILTER_VALUES} values`;
+    }
+    if (value.length > 0) filter[key] = value;
+  }
+
+  return filter;
+}
+
+/**
+ * Check whether a sensor event passes a subscription filter
+ */
+export function matchesFilter(filter: SubscriptionFilter | undefined, scope: SensorScope): boolean {
+  if (filter?.types && !(scope.type && filter.types.includes(scope.type))) return false;
+  if (filter?.sites && !(scope.site && filter.sites.includes(String(scope.site)))) return false;
+  return true;
+}
+
+/**
+ * Trim a reading's data to the subscribed fields
+ * Returns null when the reading has none of them.
+ */
+export function projectReading<T extends ReadingPayload>(reading: T, fields?: string[]): T | null {
+  if (!fields || !reading.data) return reading;
+
+  const data = Object.fromEntries(Object.entries(reading.data).filter(([key]) => fields.includes(key)));
+  return Object.keys(data).length > 0 ? { ...reading, data } : null;
+}
+
+/**
+ * Sockets in a room on this server
+ */
+function socketsIn(room: string): Socket[] {
+  const ids = io?.sockets.adapter.rooms.get(room);
+  if (!ids) return [];
+  return [...ids].map(id => io!.sockets.sockets.get(id)).filter((socket): socket is Socket => Boolean(socket));
+}
+
+/**
+ * Deliver an event about one sensor to that sensor's room and to matching
+ * `all-updates` subscribers of its organisation
+ * Reading payloads (with `data`) are trimmed to each subscriber's fields.
+ */
+export function sendSensorEvent(event: string, scope: SensorScope, data: object): void {
+  if (!io) return;
+
+  const organisationId = scopeOrganisation(scope);
+  if (!organisationId) {
+    logger.warn(`Dropped ${event} for ${scope.sensorId}: no organisation`);
+    return;
+  }
+
+  const room = sensorRoom(organisationId, scope.sensorId);
+  io.to(room).emit(event, data);
+
+  let delivered = 0;
+  for (const socket of socketsIn(tenantRoom(organisationId, ALL_UPDATES_ROOM))) {
+    const filter = socket.data.filter as SubscriptionFilter | undefined;
+    if (socket.rooms.has(room) || !matchesFilter(filter, scope)) continue;
+
+    const payload = 'data' in data
+      ? projectReading(data as ReadingPayload, filter?.fields)
+      : data;
+    if (!payload) continue;
+
+    socket.emit(event, payload);
+    delivered++;
+  }
+
+  logger.debug(`Sent ${event} for ${scope.sensorId} to room ${room} and ${delivered} subscribers`);
+}
+
+/**
+ * Deliver a batch of readings from several sensors
+ * Sensor rooms get their own sensor's reading as `iot:reading`; `all-updates`
+ * subscribers get one `iot:readings` event with the readings they match.
+ * Batches are uploaded by one client, so they belong to one organisation.
+ */
+export function sendReadingBatch<T extends ReadingPayload>(readings: { scope: SensorScope; reading: T }[]): void {
+  if (!io || readings.length === 0) return;
+
+  const organisationId = scopeOrganisation(readings[0].scope);
+  if (!organisationId) {
+    logger.warn(`Dropped batch of ${readings.length} readings: no organisation`);
+    return;
+  }
+
+  readings.forEach(({ scope, reading }) => io!.to(sensorRoom(organisationId, scope.sensorId)).emit('iot:reading', reading));
+
+  for (const socket of socketsIn(tenantRoom(organisationId, ALL_UPDATES_ROOM))) {
+    const filter = socket.data.filter as SubscriptionFilter | undefined;
+    const matched = readings
+      .filter(({ scope }) => !socket.rooms.has(sensorRoom(organisationId, scope.sensorId)) && matchesFilter(filter, scope))
+      .map(({ reading }) => projectReading(reading, filter?.fields))
+      .filter((reading): reading is T => reading !== null);
+
+    if (matched.length > 0) {
+      socket.emit('iot:readings', { count: matched.length, readings: matched });
+    }
+  }
+
+  logger.debug(`Sent batch of ${readings.length} readings`);
+}
+
+/**
+ * Deliver a weather event to weather and `all-updates` subscribers
+ * Events without an organisation are shared weather data and reach every
+ * organisation's subscribers.
+ */
+export function sendWeatherEvent(event: string, data: unknown, organisationId?: unknown): void {
+  if (io) {
+    const rooms = organisationId
+      ? [tenantRoom(organisationId, WEATHER_ROOM), tenantRoom(organisationId, ALL_UPDATES_ROOM)]
+      : [WEATHER_ROOM, ALL_UPDATES_ROOM];
+    io.to(rooms).emit(event, data);
+    logger.debug(`Sent ${event} to weather subscribers`);
+  }
+}
+
 /**
  * Send message to specific room
  */
@@ -118,6 +370,22 @@ export function sendToClient(clientId: string, event: string, data: unknown): vo
   }
 }
 
+/**
+ * Disconnect the clients signed in with any of the given sessions, e.g. once
+ * they are revoked
+ */
+export function disconnectSessions(sessionIds: string[]): void {
+  if (sessionIds.length === 0) return;
+  const revoked = new Set(sessionIds);
+
+  connectedClients.forEach((socket, clientId) => {
+    if (revoked.has(socket.data.sessionId)) {
+      socket.disconnect(true);
+      logger.info(`Disconnected client ${clientId}: session revoked`);
+    }
+  });
+}
+
 /**
  * Get number of connected clients
  */
@@ -0,0 +1,38 @@
+/**
+ * Type declarations for parquetjs-lite (the package ships none)
+ * Only the writer API used by the export service is described.
+ */
+
+declare module 'parquetjs-lite' {
+  import { Writable } from 'stream';
+
+  export type ParquetType =
+    | 'BOOLEAN'
+    | 'INT32'
+    | 'INT64'
+    | 'FLOAT'
+    | 'DOUBLE'
+    | 'UTF8'
+    | 'TIMESTAMP_MILLIS';
+
+  export interface ParquetFieldDefinition {
+    type: ParquetType;
+    optional?: boolean;
+    compression?: 'UNCOMPRESSED' | 'GZIP' | 'SNAPPY';
+  }
+
+  export class ParquetSchema {
+    constructor(fields: Record<string, ParquetFieldDefinition>);
+  }
+
+  export class ParquetWriter {
+    static openStream(
+      schema: ParquetSchema,
+      outputStream: Writable,
+      opts?: Record<string, unknown>
+    ): Promise<ParquetWriter>;
+    appendRow(row: Record<string, unknown>): Promise<void>;
+    close(): Promise<void>;
+    setRowGroupSize(count: number): void;
+  }
+}
@@ -5,6 +5,8 @@ const nextConfig = {
   env: {
     NEXT_PUBLIC_API_URL: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api',
     NEXT_PUBLIC_WS_URL: process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:3001',
+    NEXT_PUBLIC_MAP_TILE_URL: process.env.NEXT_PUBLIC_MAP_TILE_URL || '',
+    NEXT_PUBLIC_MAP_BASEMAP_URL: process.env.NEXT_PUBLIC_MAP_BASEMAP_URL || '',
   },
   images: {
     domains: ['localhost'],
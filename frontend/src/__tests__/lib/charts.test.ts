@@ -0,0 +1,57 @@
+/**
+ * Chart Helpers Tests
+ */
+
+import { resolveTimeRange, bucketSeries, anomalyPoints } from '@/lib/charts';
+import type { IoTReading } from '@/types';
+
+describe('Chart Helpers', () => {
+  describe('resolveTimeRange', () => {
+    it('should end the range now and pick its bucket interval', () => {
+      const now = new Date('2026-02-01T12:00:00Z');
+
+      expect(resolveTimeRange('6h', now)).toEqual({
+        from: '2026-02-01T06:00:00.000Z',
+        to: '2026-02-01T12:00:00.000Z',
+        hours: 6,
+        interval: '5m',
+      });
+      expect(resolveTimeRange('7d', now).interval).toBe('1h');
+    });
+  });
+
+  describe('bucketSeries', () => {
+    it('should skip empty buckets and convert values', () => {
+      const series = bucketSeries(
+        [
+          { timestamp: '2026-02-01T10:00:00Z', avg: 20, min: 18, max: 22 },
+          { timestamp: '2026-02-01T11:00:00Z', avg: null, min: null, max: null },
+        ],
+        (value) => value * 2
+      );
+
+      expect(series.avg).toEqual([{ x: Date.parse('2026-02-01T10:00:00Z'), y: 40 }]);
+      expect(series.min[0].y).toBe(36);
+      expect(series.max[0].y).toBe(44);
+    });
+  });
+
+  describe('anomalyPoints', () => {
+    it('should place anomalies that carry the field, oldest first', () => {
+      const reading = (timestamp: string, data: Record<string, number>, anomalyReason?: string) =>
+        ({ id: timestamp, sensorId: 'S-1', timestamp, data, quality: 'good', isAnomaly: true, anomalyReason }) as IoTReading;
+
+      const points = anomalyPoints(
+        [
+          reading('2026-02-01T11:00:00Z', { temperature: 45 }, 'Spike'),
+          reading('2026-02-01T10:00:00Z', { temperature: -10 }),
+          reading('2026-02-01T10:30:00Z', { humidity: 99 }),
+        ],
+        'temperature'
+      );
+
+      expect(points.map((p) => p.y)).toEqual([-10, 45]);
+      expect(points[1].reason).toBe('Spike');
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Map Helpers Tests
+ */
+
+import {
+  project,
+  unproject,
+  toScreen,
+  fitBounds,
+  visibleTiles,
+  tileUrl,
+  basemapGeometries,
+  geometryPath,
+  valueRange,
+  valueColor,
+  DEFAULT_VIEWPORT,
+  MAX_ZOOM,
+} from '@/lib/map';
+
+describe('Map Helpers', () => {
+  describe('project / unproject', () => {
+    it('should place the origin at the centre of the world', () => {
+      expect(project({ longitude: 0, latitude: 0 }, 0)).toEqual({ x: 128, y: 128 });
+    });
+
+    it('should round-trip a location', () => {
+      const location = unproject(project({ longitude: 28.19, latitude: -25.75 }, 10), 10);
+      expect(location.longitude).toBeCloseTo(28.19);
+      expect(location.latitude).toBeCloseTo(-25.75);
+    });
+  });
+
+  describe('toScreen', () => {
+    it('should put the viewport centre in the middle of the map', () => {
+      expect(toScreen(DEFAULT_VIEWPORT.center, DEFAULT_VIEWPORT, 800, 600)).toEqual({ x: 400, y: 300 });
+    });
+  });
+
+  describe('fitBounds', () => {
+    it('should frame every location within the padding', () => {
+      const locations = [
+        { longitude: 18.42, latitude: -33.92 },
+        { longitude: 31.03, latitude: -29.86 },
+        { longitude: 28.19, latitude: -25.75 },
+      ];
+      const viewport = fitBounds(locations, 800, 600, 40);
+
+      locations.forEach((location) => {
+        const { x, y } = toScreen(location, viewport, 800, 600);
+        expect(x).toBeGreaterThanOrEqual(39.9);
+        expect(x).toBeLessThanOrEqual(760.1);
+        expect(y).toBeGreaterThanOrEqual(39.9);
+        expect(y).toBeLessThanOrEqual(560.1);
+      });
+    });
+
+    it('should not zoom to street level for a single sensor', () => {
+      const viewport = fitBounds([{ longitude: 28.19, latitude: -25.75 }], 800, 600);
+      expect(viewport.zoom).toBeLessThan(MAX_ZOOM);
+    });
+
+    it('should fall back to the default viewport without locations', () => {
+      expect(fitBounds([], 800, 600)).toBe(DEFAULT_VIEWPORT);
+    });
+  });
+
+  describe('visibleTiles', () => {
+    it('should cover the viewport and wrap around the antimeridian', () => {
+      const tiles = visibleTiles({ center: { longitude: 180, latitude: 0 }, zoom: 1 }, 512, 512);
+
+      expect(tiles).toHaveLength(4);
+      expect(tiles.map((tile) => tile.x).sort()).toEqual([0, 0, 1, 1]);
+      expect(tiles.every((tile) => tile.z === 1 && tile.size === 256)).toBe(true);
+    });
+  });
+
+  describe('tileUrl', () => {
+    it('should fill the XYZ template', () => {
+      expect(tileUrl('/tiles/{z}/{x}/{y}.png', { x: 3, y: 5, z: 4 })).toBe('/tiles/4/3/5.png');
+    });
+  });
+
+  describe('basemapGeometries', () => {
+    const polygon = { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]] };
+    const line = { type: 'LineString', coordinates: [[0, 0], [1, 1]] };
+
+    it('should collect outlines from features and geometry collections', () => {
+      expect(basemapGeometries({
+        type: 'FeatureCollection',
+        features: [
+          { type: 'Feature', geometry: polygon, properties: {} },
+          { type: 'Feature', geometry: { type: 'GeometryCollection', geometries: [line] } },
+        ],
+      })).toEqual([polygon, line]);
+      expect(basemapGeometries(polygon)).toEqual([polygon]);
+    });
+
+    it('should skip points, empty features and invalid input', () => {
+      expect(basemapGeometries({
+        type: 'FeatureCollection',
+        features: [
+          { type: 'Feature', geometry: { type: 'Point', coordinates: [0, 0] } },
+          { type: 'Feature', geometry: null },
+        ],
+      })).toEqual([]);
+      expect(basemapGeometries(null)).toEqual([]);
+      expect(basemapGeometries({ type: 'FeatureCollection' })).toEqual([]);
+    });
+  });
+
+  describe('geometryPath', () => {
+    it('should draw closed rings for polygons', () => {
+      const path = geometryPath(
+        { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]] },
+        ({ longitude, latitude }) => ({ x: longitude * 10, y: latitude * 10 })
+      );
+      expect(path).toBe('M0.0,0.0L10.0,0.0L10.0,10.0L0.0,0.0Z');
+    });
+  });
+
+  describe('valueRange / valueColor', () => {
+    it('should use the observed range, or the catalog range when values are equal', () => {
+      expect(valueRange([18, 25, 21], { min: -50, max: 60 })).toEqual([18, 25]);
+      expect(valueRange([20, 20], { min: -50, max: 60 })).toEqual([-50, 60]);
+      expect(valueRange([])).toBeNull();
+    });
+
+    it('should colour from blue to red', () => {
+      expect(valueColor(0, [0, 10])).toBe('hsl(240, 75%, 50%)');
+      expect(valueColor(10, [0, 10])).toBe('hsl(0, 75%, 50%)');
+      expect(valueColor(99, [0, 10])).toBe('hsl(0, 75%, 50%)');
+    });
+  });
+});
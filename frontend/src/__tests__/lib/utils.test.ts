@@ -4,7 +4,9 @@
 
 import {
   cn,
+  convertValue,
   formatNumber,
+  getUnit,
   formatDate,
   formatTime,
   formatRelativeTime,
@@ -27,6 +29,20 @@ describe('Utility Functions', () => {
     });
   });
 
+  describe('convertValue', () => {
+    it('should convert metric values and leave unknown units alone', () => {
+      expect(convertValue(100, '°C', 'imperial')).toBe(212);
+      expect(convertValue(58, '%', 'si')).toBe(58);
+      expect(convertValue(20)).toBe(20);
+    });
+
+    it('should convert wind speeds to the chosen wind unit', () => {
+      expect(convertValue(18.52, 'km/h', 'imperial', 'kn')).toBeCloseTo(10);
+      expect(convertValue(36, 'km/h', 'metric', 'm/s')).toBeCloseTo(10);
+      expect(convertValue(100, '°C', 'imperial', 'kn')).toBe(212);
+    });
+  });
+
   describe('formatNumber', () => {
     it('should format numbers with default decimals', () => {
       expect(formatNumber(25.567)).toBe('25.6');
@@ -37,6 +53,28 @@ describe('Utility Functions', () => {
       expect(formatNumber(25.567, 2)).toBe('25.57');
       expect(formatNumber(25.567, 0)).toBe('26');
     });
+
+    it('should convert metric values to the unit system', () => {
+      expect(formatNumber(25, 1, '°C', 'imperial')).toBe('77.0');
+      expect(formatNumber(36, 1, 'km/h', 'si')).toBe('10.0');
+      expect(formatNumber(1013.25, 2, 'hPa', 'imperial')).toBe('29.92');
+      expect(formatNumber(58, 0, '%', 'imperial')).toBe('58');
+    });
+  });
+
+  describe('getUnit', () => {
+    it('should return the unit for the unit system', () => {
+      expect(getUnit('°C', 'imperial')).toBe('°F');
+      expect(getUnit('km/h', 'si')).toBe('m/s');
+      expect(getUnit('hPa')).toBe('hPa');
+      expect(getUnit('dBm', 'imperial')).toBe('dBm');
+    });
+
+    it('should let the wind unit override the unit system for speeds', () => {
+      expect(getUnit('km/h', 'si', 'kn')).toBe('kn');
+      expect(getUnit('km/h', 'imperial', null)).toBe('mph');
+      expect(getUnit('hPa', 'si', 'kn')).toBe('Pa');
+    });
   });
 
   describe('formatDate', () => {
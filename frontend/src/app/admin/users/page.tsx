@@ -0,0 +1,300 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AxiosError } from 'axios';
+import { authAPI, usersAPI } from '@/services/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { cn, formatDate, formatRelativeTime } from '@/lib/utils';
+import { ArrowLeft, Search, Trash2, UserCheck, UserX, Users } from 'lucide-react';
+import type { User, UserRole } from '@/types';
+
+const PAGE_SIZE = 25;
+const ROLES: UserRole[] = ['admin', 'user', 'viewer'];
+
+type Access = 'checking' | 'admin' | 'denied' | 'signed-out';
+type StatusFilter = 'all' | 'active' | 'inactive';
+
+// Message from an API error response, falling back to a generic one
+function errorMessage(err: unknown, fallback: string): string {
+  return (err as AxiosError<{ error?: string }>)?.response?.data?.error || fallback;
+}
+
+export default function UsersAdminPage() {
+  const [access, setAccess] = useState<Access>('checking');
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [users, setUsers] = useState<User[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pages, setPages] = useState(1);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [role, setRole] = useState<UserRole | ''>('');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [isLoading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only admins may manage users; the API enforces this too
+  useEffect(() => {
+    if (!localStorage.getItem('authToken')) {
+      setAccess('signed-out');
+      return;
+    }
+    authAPI.getProfile()
+      .then((profile) => {
+        setCurrentUserId(String(profile.data?.id));
+        setAccess(profile.data?.role === 'admin' ? 'admin' : 'denied');
+      })
+      .catch(() => setAccess('signed-out'));
+  }, []);
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(search.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const loadUsers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await usersAPI.getUsers({
+        search: query,
+        role: role || undefined,
+        isActive: status === 'all' ? undefined : status === 'active',
+        page,
+        limit: PAGE_SIZE,
+      });
+      setUsers(response.data);
+      setTotal(response.pagination.total);
+      setPages(Math.max(response.pagination.pages, 1));
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Could not load users'));
+    } finally {
+      setLoading(false);
+    }
+  }, [query, role, status, page]);
+
+  useEffect(() => {
+    if (access === 'admin') loadUsers();
+  }, [access, loadUsers]);
+
+  // Run a change to one user and swap the updated record into the list
+  const updateUser = async (id: string, change: () => Promise<User>) => {
+    setBusyId(id);
+    try {
+      const updated = await change();
+      setUsers((list) => list.map((user) => (user.id === id ? updated : user)));
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Could not update user'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const removeUser = async (user: User) => {
+    if (!window.confirm(`Delete ${user.username}? This cannot be undone.`)) return;
+    setBusyId(user.id);
+    try {
+      await usersAPI.deleteUser(user.id);
+      await loadUsers();
+    } catch (err) {
+      setError(errorMessage(err, 'Could not delete user'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (access !== 'admin') {
+    return (
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <BackLink />
+        <Card className="p-8 text-center text-slate-500 dark:text-slate-400">
+          {access === 'checking' && 'Checking access…'}
+          {access === 'denied' && 'User administration requires the admin role.'}
+          {access === 'signed-out' && 'Sign in as an admin to manage users.'}
+        </Card>
+      </main>
+    );
+  }
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <BackLink />
+
+      <Card hover={false}>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center">
+            <Users className="w-5 h-5 mr-2 text-primary-500" />
+            Users
+            <span className="ml-2 text-sm font-normal text-slate-500 dark:text-slate-400">({total})</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Search and filters */}
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search username or email"
+                aria-label="Search users"
+                className="w-full pl-9 pr-3 py-2 text-sm bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-md"
+              />
+            </div>
+            <select
+              value={role}
+              onChange={(e) => { setRole(e.target.value as UserRole | ''); setPage(1); }}
+              aria-label="Filter by role"
+              className="text-sm bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-md px-2 py-2"
+            >
+              <option value="">All roles</option>
+              {ROLES.map((r) => (
+                <option key={r} value={r} className="capitalize">{r}</option>
+              ))}
+            </select>
+            <select
+              value={status}
+              onChange={(e) => { setStatus(e.target.value as StatusFilter); setPage(1); }}
+              aria-label="Filter by status"
+              className="text-sm bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-md px-2 py-2"
+            >
+              <option value="all">All statuses</option>
+              <option value="active">Active</option>
+              <option value="inactive">Deactivated</option>
+            </select>
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</div>
+          )}
+
+          {/* User table */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                  <th className="py-2 pr-4 font-medium">User</th>
+                  <th className="py-2 pr-4 font-medium">Role</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Last login</th>
+                  <th className="py-2 pr-4 font-medium">Joined</th>
+                  <th className="py-2 font-medium text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => {
+                  const isSelf = user.id === currentUserId;
+                  const isBusy = busyId === user.id;
+                  return (
+                    <tr key={user.id} className="border-b border-slate-100 dark:border-slate-800">
+                      <td className="py-2 pr-4">
+                        <div className="font-medium text-slate-900 dark:text-white">
+                          {user.username}
+                          {isSelf && <span className="ml-1 text-xs text-slate-500">(you)</span>}
+                        </div>
+                        <div className="text-xs text-slate-500 dark:text-slate-400">{user.email}</div>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <select
+                          value={user.role}
+                          disabled={isSelf || isBusy}
+                          onChange={(e) => updateUser(user.id, () => usersAPI.setRole(user.id, e.target.value as UserRole))}
+                          aria-label={`Role of ${user.username}`}
+                          className="text-sm bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-md px-2 py-1 capitalize disabled:opacity-50"
+                        >
+                          {ROLES.map((r) => (
+                            <option key={r} value={r}>{r}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <span
+                          className={cn(
+                            'px-2 py-0.5 rounded-full text-xs font-medium',
+                            user.isActive
+                              ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                              : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-400'
+                          )}
+                        >
+                          {user.isActive ? 'Active' : 'Deactivated'}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4 text-slate-600 dark:text-slate-400">
+                        {user.lastLogin ? formatRelativeTime(user.lastLogin) : 'Never'}
+                      </td>
+                      <td className="py-2 pr-4 text-slate-600 dark:text-slate-400">{formatDate(user.createdAt)}</td>
+                      <td className="py-2">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isSelf || isBusy}
+                            onClick={() => updateUser(user.id, () => usersAPI.setActive(user.id, !user.isActive))}
+                            title={user.isActive ? 'Deactivate and sign out everywhere' : 'Reactivate'}
+                          >
+                            {user.isActive ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                            <span className="ml-1 hidden sm:inline">{user.isActive ? 'Deactivate' : 'Activate'}</span>
+                          </Button>
+                          <Button
+                            variant="danger"
+                            size="sm"
+                            disabled={isSelf || isBusy}
+                            onClick={() => removeUser(user)}
+                            aria-label={`Delete ${user.username}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {users.length === 0 && !isLoading && (
+                  <tr>
+                    <td colSpan={6} className="py-8 text-center text-slate-500 dark:text-slate-400">
+                      No users match these filters.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          {pages > 1 && (
+            <div className="flex items-center justify-end gap-3 text-sm text-slate-600 dark:text-slate-400">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <span>Page {page} of {pages}</span>
+              <Button variant="outline" size="sm" disabled={page >= pages} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
+
+function BackLink() {
+  return (
+    <Link
+      href="/"
+      className="inline-flex items-center text-sm text-slate-600 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 mb-4"
+    >
+      <ArrowLeft className="w-4 h-4 mr-1" />
+      Dashboard
+    </Link>
+  );
+}
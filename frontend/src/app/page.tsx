@@ -4,10 +4,18 @@ import { useEffect, useState, useCallback } from 'react';
 import { Header } from '@/components/layout/Header';
 import { GridView } from '@/components/views/GridView';
 import { TreeView } from '@/components/views/TreeView';
+import { MapView } from '@/components/views/MapView';
 import { useStore } from '@/store/useStore';
-import { weatherAPI, sensorsAPI, iotAPI } from '@/services/api';
+import { weatherAPI, sensorsAPI, iotAPI, authAPI } from '@/services/api';
 import wsService from '@/services/websocket';
-import type { IoTReadingEvent, WeatherUpdateEvent } from '@/types';
+import type {
+  IoTReadingBatchEvent,
+  IoTReadingEvent,
+  SensorPresenceEvent,
+  UnitSystem,
+  WindUnit,
+  WeatherUpdateEvent,
+} from '@/types';
 import { AlertCircle, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 
@@ -18,8 +26,12 @@ export default function Home() {
     setSensors,
     setLatestReadings,
     setTreeData,
+    setMeasurementFields,
+    setUnitSystem,
+    setWindUnits,
     setConnectionStatus,
     addReading,
+    updateSensorPresence,
     isLoading,
     setLoading,
     error,
@@ -28,6 +40,7 @@ export default function Home() {
 
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
 
   // Fetch initial data
   const fetchData = useCallback(async () => {
@@ -36,11 +49,12 @@ export default function Home() {
       setError(null);
 
       // Fetch all data in parallel
-      const [weather, sensorsResponse, latestReadings, treeData] = await Promise.all([
+      const [weather, sensorsResponse, latestReadings, treeData, measurementFields] = await Promise.all([
         weatherAPI.getCurrentWeather().catch(() => null),
         sensorsAPI.getAllSensors(1, 50).catch(() => ({ data: [] })),
         iotAPI.getLatestReadings().catch(() => []),
         iotAPI.getTreeData().catch(() => null),
+        iotAPI.getFields().catch(() => []),
       ]);
 
       if (weather) {
@@ -51,6 +65,7 @@ export default function Home() {
       if (treeData) {
         setTreeData(treeData);
       }
+      setMeasurementFields(measurementFields);
 
     } catch (err) {
       console.error('Error fetching data:', err);
@@ -58,7 +73,7 @@ export default function Home() {
     } finally {
       setLoading(false);
     }
-  }, [setCurrentWeather, setSensors, setLatestReadings, setTreeData, setLoading, setError]);
+  }, [setCurrentWeather, setSensors, setLatestReadings, setTreeData, setMeasurementFields, setLoading, setError]);
 
   // Handle refresh
   const handleRefresh = useCallback(async () => {
@@ -84,6 +99,15 @@ export default function Home() {
         setTimeout(() => setIsUpdating(false), 1000);
       });
 
+      wsService.on<IoTReadingBatchEvent>('iot:readings', (data) => {
+        setIsUpdating(true);
+        data.readings.forEach(addReading);
+        setTimeout(() => setIsUpdating(false), 1000);
+      });
+
+      wsService.on<SensorPresenceEvent>('sensor:online', updateSensorPresence);
+      wsService.on<SensorPresenceEvent>('sensor:offline', updateSensorPresence);
+
       wsService.on<WeatherUpdateEvent>('weather:update', (data) => {
         setIsUpdating(true);
         const prev = useStore.getState().currentWeather;
@@ -111,13 +135,38 @@ export default function Home() {
       unsub();
       wsService.disconnect();
     };
-  }, [setConnectionStatus, addReading, setCurrentWeather]);
+  }, [setConnectionStatus, addReading, updateSensorPresence, setCurrentWeather]);
 
   // Initial data fetch
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  // Restore the unit system and wind unit: saved selection first, then the signed-in user's preference
+  useEffect(() => {
+    const saved = localStorage.getItem('unitSystem') as UnitSystem | null;
+    if (saved) {
+      setUnitSystem(saved);
+    }
+    const savedWindUnits = localStorage.getItem('windUnits') as WindUnit | null;
+    if (savedWindUnits) {
+      setWindUnits(savedWindUnits);
+    }
+    if (localStorage.getItem('authToken')) {
+      authAPI.getProfile()
+        .then((profile) => {
+          if (profile.data?.preferences?.units) {
+            setUnitSystem(profile.data.preferences.units);
+          }
+          if (profile.data?.preferences?.windUnits !== undefined) {
+            setWindUnits(profile.data.preferences.windUnits);
+          }
+          setIsAdmin(profile.data?.role === 'admin');
+        })
+        .catch(() => undefined);
+    }
+  }, [setUnitSystem, setWindUnits]);
+
   // Dynamic polling: more frequent when WebSocket disconnected so data still feels live
   const connectionStatus = useStore((s) => s.connectionStatus);
   useEffect(() => {
@@ -151,7 +200,7 @@ export default function Home() {
 
   return (
     <div className="min-h-screen relative z-10">
-      <Header onRefresh={handleRefresh} isRefreshing={isRefreshing} />
+      <Header onRefresh={handleRefresh} isRefreshing={isRefreshing} isAdmin={isAdmin} />
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 relative">
         {/* Error State */}
@@ -179,11 +228,9 @@ export default function Home() {
         ) : (
           /* Main Content */
           <>
-            {viewMode === 'grid' ? (
-              <GridView isUpdating={isUpdating} />
-            ) : (
-              <TreeView isUpdating={isUpdating} />
-            )}
+            {viewMode === 'grid' && <GridView isUpdating={isUpdating} />}
+            {viewMode === 'tree' && <TreeView isUpdating={isUpdating} />}
+            {viewMode === 'map' && <MapView isUpdating={isUpdating} />}
           </>
         )}
       </main>
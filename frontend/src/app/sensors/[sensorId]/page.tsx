@@ -0,0 +1,410 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { AxiosError } from 'axios';
+import { useStore } from '@/store/useStore';
+import { sensorsAPI, iotAPI } from '@/services/api';
+import wsService from '@/services/websocket';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { ExportMenu } from '@/components/ui/ExportMenu';
+import { FieldChart } from '@/components/sensor/FieldChart';
+import { cn, convertValue, formatDate, formatNumber, formatRelativeTime, formatTime, getUnit } from '@/lib/utils';
+import { TIME_RANGES, resolveTimeRange, bucketSeries, anomalyPoints, type TimeRangeKey } from '@/lib/charts';
+import { ArrowLeft, MapPin, Radio, Settings, BarChart3, Activity, AlertTriangle } from 'lucide-react';
+import type {
+  AggregationBucket,
+  IoTReading,
+  IoTReadingBatchEvent,
+  IoTReadingEvent,
+  Sensor,
+  SensorPresenceEvent,
+  SensorStatistics,
+} from '@/types';
+
+const TAIL_LENGTH = 20;
+
+export default function SensorPage({ params }: { params: { sensorId: string } }) {
+  const sensorId = decodeURIComponent(params.sensorId);
+  const {
+    selectedSensor,
+    measurementFields,
+    setMeasurementFields,
+    unitSystem,
+    windUnits,
+    connectionStatus,
+    setConnectionStatus,
+  } = useStore();
+
+  // Start from the sensor picked on the dashboard, if any, while the full record loads
+  const [sensor, setSensor] = useState<Sensor | null>(
+    selectedSensor?.sensorId === sensorId ? selectedSensor : null
+  );
+  const [notFound, setNotFound] = useState(false);
+  const [tail, setTail] = useState<IoTReading[]>([]);
+  const [rangeKey, setRangeKey] = useState<TimeRangeKey>('24h');
+  const [buckets, setBuckets] = useState<Record<string, AggregationBucket[]>>({});
+  const [anomalies, setAnomalies] = useState<IoTReading[]>([]);
+  const [statistics, setStatistics] = useState<SensorStatistics | null>(null);
+  const [isLoadingCharts, setLoadingCharts] = useState(false);
+
+  const range = useMemo(() => resolveTimeRange(rangeKey), [rangeKey]);
+
+  // Sensor record, catalog and the start of the live tail
+  useEffect(() => {
+    sensorsAPI.getSensor(sensorId)
+      .then(setSensor)
+      .catch((err: AxiosError) => {
+        if (err.response?.status === 404) setNotFound(true);
+      });
+    sensorsAPI.getSensorReadings(sensorId, 1, TAIL_LENGTH)
+      .then((response) => setTail(response.data))
+      .catch(() => undefined);
+    if (useStore.getState().measurementFields.length === 0) {
+      iotAPI.getFields().then(setMeasurementFields).catch(() => undefined);
+    }
+  }, [sensorId, setMeasurementFields]);
+
+  // Numeric fields the sensor reports, in catalog order
+  const fields = useMemo(() => {
+    const reported = new Set(
+      tail.flatMap((r) => Object.keys(r.data).filter((key) => typeof r.data[key] === 'number'))
+    );
+    const known = measurementFields.filter((f) => reported.has(f.name)).map((f) => f.name);
+    return [...known, ...Array.from(reported).filter((name) => !known.includes(name)).sort()];
+  }, [tail, measurementFields]);
+  const fieldKey = fields.join(',');
+
+  // Charts, anomalies and statistics for the selected range
+  useEffect(() => {
+    if (!fieldKey) return;
+    let cancelled = false;
+    setLoadingCharts(true);
+
+    Promise.all([
+      Promise.all(
+        fieldKey.split(',').map((field) =>
+          iotAPI.getAggregatedReadings(sensorId, field, range.interval, range.from, range.to, ['avg', 'min', 'max'])
+            .then((data) => [field, data] as const)
+            .catch(() => [field, []] as const)
+        )
+      ),
+      iotAPI.getAnomalies(sensorId, range.from, range.to).catch(() => ({ data: [] })),
+      sensorsAPI.getSensorStatistics(sensorId, range.hours).catch(() => null),
+    ]).then(([series, anomalyResponse, stats]) => {
+      if (cancelled) return;
+      setBuckets(Object.fromEntries(series));
+      setAnomalies(anomalyResponse.data);
+      setStatistics(stats);
+      setLoadingCharts(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sensorId, fieldKey, range]);
+
+  // Live tail: only this sensor's readings and presence changes
+  useEffect(() => {
+    const unsub = wsService.onConnectionStatus(setConnectionStatus);
+
+    const handleReading = (event: IoTReadingEvent) => {
+      if (event.sensorId !== sensorId) return;
+      const reading: IoTReading = {
+        id: `${event.sensorId}-${event.timestamp}`,
+        sensorId: event.sensorId,
+        timestamp: event.timestamp,
+        data: event.data,
+        quality: event.quality ?? 'good',
+        isAnomaly: event.isAnomaly,
+        isSimulated: event.isSimulated,
+      };
+      setTail((prev) =>
+        prev.some((r) => r.timestamp === reading.timestamp) ? prev : [reading, ...prev].slice(0, TAIL_LENGTH)
+      );
+    };
+    const handleBatch = (event: IoTReadingBatchEvent) => event.readings.forEach(handleReading);
+    const handlePresence = (event: SensorPresenceEvent) => {
+      if (event.sensorId !== sensorId) return;
+      setSensor((prev) => prev && {
+        ...prev,
+        presence: { status: event.status, lastSeenAt: event.lastSeenAt ?? undefined, changedAt: event.timestamp },
+      });
+    };
+
+    wsService.connect().then(() => {
+      wsService.subscribeSensor(sensorId);
+      wsService.on<IoTReadingEvent>('iot:reading', handleReading);
+      wsService.on<IoTReadingBatchEvent>('iot:readings', handleBatch);
+      wsService.on<SensorPresenceEvent>('sensor:online', handlePresence);
+      wsService.on<SensorPresenceEvent>('sensor:offline', handlePresence);
+    });
+
+    return () => {
+      unsub();
+      wsService.unsubscribeSensor(sensorId);
+      wsService.disconnect();
+    };
+  }, [sensorId, setConnectionStatus]);
+
+  const describe = (name: string) => measurementFields.find((f) => f.name === name);
+
+  if (notFound) {
+    return (
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <BackLink />
+        <Card className="p-8 text-center text-slate-500 dark:text-slate-400">
+          Sensor <span className="font-mono">{sensorId}</span> was not found.
+        </Card>
+      </main>
+    );
+  }
+
+  const presence = sensor?.presence?.status ?? 'unknown';
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <BackLink />
+
+      {/* Title */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center space-x-3">
+            <Radio className={cn(
+              'w-6 h-6',
+              !sensor?.isActive ? 'text-slate-400' : presence === 'offline' ? 'text-red-500' : 'text-green-500'
+            )} />
+            <span>{sensor?.name ?? sensorId}</span>
+          </h1>
+          <p className="mt-1 text-sm text-slate-500 dark:text-slate-400 font-mono">{sensorId}</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="flex items-center bg-slate-100 dark:bg-slate-800 rounded-lg p-1">
+            {TIME_RANGES.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setRangeKey(option.value)}
+                className={cn(
+                  'px-3 py-1 rounded-md text-sm font-medium transition-all duration-200',
+                  rangeKey === option.value
+                    ? 'bg-white dark:bg-slate-700 text-primary-600 dark:text-primary-400 shadow-sm'
+                    : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <ExportMenu sensorIds={[sensorId]} from={range.from} to={range.to} />
+        </div>
+      </div>
+
+      {/* Metadata, configuration and statistics */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center text-sm">
+              <MapPin className="w-4 h-4 mr-2 text-primary-500" />
+              Details
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-1">
+            <Row label="Type" value={sensor?.type} />
+            <Row label="Location" value={sensor?.location.name} />
+            <Row
+              label="Coordinates"
+              value={sensor && `${sensor.location.latitude.toFixed(4)}, ${sensor.location.longitude.toFixed(4)}`}
+            />
+            {sensor?.location.altitude !== undefined && (
+              <Row
+                label="Altitude"
+                value={`${formatNumber(sensor.location.altitude, 0, 'm', unitSystem)} ${getUnit('m', unitSystem)}`}
+              />
+            )}
+            <Row label="Status" value={sensor ? (sensor.isActive ? presence : 'inactive') : undefined} />
+            <Row label="Last seen" value={sensor?.presence?.lastSeenAt && formatRelativeTime(sensor.presence.lastSeenAt)} />
+            <Row label="Registered" value={sensor && formatDate(sensor.createdAt)} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center text-sm">
+              <Settings className="w-4 h-4 mr-2 text-primary-500" />
+              Configuration
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-1">
+            <Row
+              label="Reading interval"
+              value={sensor?.configuration?.readingInterval !== undefined
+                ? `${sensor.configuration.readingInterval / 1000} s`
+                : undefined}
+            />
+            <Row label="Threshold min" value={sensor?.configuration?.thresholds?.min?.toString()} />
+            <Row label="Threshold max" value={sensor?.configuration?.thresholds?.max?.toString()} />
+            <Row label="Decoder" value={sensor?.configuration?.decoder?.codec ?? 'default'} />
+            <Row
+              label="Decode errors"
+              value={sensor?.decodeErrors?.count ? `${sensor.decodeErrors.count} (${sensor.decodeErrors.lastError})` : '0'}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center text-sm">
+              <BarChart3 className="w-4 h-4 mr-2 text-primary-500" />
+              Statistics ({TIME_RANGES.find((r) => r.value === rangeKey)?.label})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-1">
+            <Row label="Readings" value={statistics?.statistics.count.toString()} />
+            {(['avgTemperature', 'minTemperature', 'maxTemperature'] as const).map((key) => {
+              const value = statistics?.statistics[key];
+              return (
+                <Row
+                  key={key}
+                  label={`${key.slice(0, 3)} temperature`}
+                  value={typeof value === 'number'
+                    ? `${formatNumber(value, 1, '°C', unitSystem)} ${getUnit('°C', unitSystem)}`
+                    : undefined}
+                />
+              );
+            })}
+            <Row
+              label="avg humidity"
+              value={typeof statistics?.statistics.avgHumidity === 'number'
+                ? `${statistics.statistics.avgHumidity.toFixed(1)} %`
+                : undefined}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Charts */}
+      <section>
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-4 flex items-center space-x-2">
+          <Activity className="w-5 h-5 text-primary-500" />
+          <span>History</span>
+          {isLoadingCharts && <span className="text-xs font-normal text-slate-500 animate-pulse">Loading...</span>}
+        </h2>
+        {fields.length > 0 ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {fields.map((name) => {
+              const field = describe(name);
+              const convert = (value: number) => convertValue(value, field?.unit, unitSystem, windUnits);
+              return (
+                <FieldChart
+                  key={name}
+                  label={field?.label ?? name.replace('_', ' ')}
+                  unit={getUnit(field?.unit ?? '', unitSystem, windUnits)}
+                  icon={field?.icon}
+                  precision={field?.precision ?? 1}
+                  series={bucketSeries(buckets[name] ?? [], convert)}
+                  anomalies={anomalyPoints(anomalies, name, convert)}
+                  from={range.from}
+                  to={range.to}
+                />
+              );
+            })}
+          </div>
+        ) : (
+          <Card className="p-8 text-center text-slate-500 dark:text-slate-400">No readings yet</Card>
+        )}
+      </section>
+
+      {/* Live tail */}
+      <section>
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-4 flex items-center space-x-2">
+          <Radio className="w-5 h-5 text-primary-500" />
+          <span>Live Readings</span>
+          <span className={cn(
+            'text-xs font-normal px-2 py-0.5 rounded-full',
+            connectionStatus === 'connected'
+              ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
+              : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400'
+          )}>
+            {connectionStatus === 'connected' ? 'Live' : connectionStatus}
+          </span>
+        </h2>
+        <Card className="overflow-x-auto p-0">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 dark:border-slate-700 text-left text-xs text-slate-500 dark:text-slate-400">
+                <th className="px-4 py-2 font-medium">Time</th>
+                {fields.map((name) => (
+                  <th key={name} className="px-4 py-2 font-medium capitalize">
+                    {describe(name)?.label ?? name.replace('_', ' ')}
+                  </th>
+                ))}
+                <th className="px-4 py-2 font-medium">Quality</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tail.map((reading) => (
+                <tr
+                  key={reading.id}
+                  className={cn(
+                    'border-b border-slate-100 dark:border-slate-800 last:border-0',
+                    reading.isAnomaly && 'bg-red-50 dark:bg-red-900/20'
+                  )}
+                >
+                  <td className="px-4 py-2 whitespace-nowrap text-slate-600 dark:text-slate-400">
+                    {formatTime(reading.timestamp)}
+                  </td>
+                  {fields.map((name) => {
+                    const value = reading.data[name];
+                    const field = describe(name);
+                    return (
+                      <td key={name} className="px-4 py-2 font-mono text-slate-900 dark:text-white">
+                        {typeof value === 'number'
+                          ? `${formatNumber(value, field?.precision ?? 1, field?.unit, unitSystem, windUnits)} ${getUnit(field?.unit ?? '', unitSystem, windUnits)}`
+                          : '—'}
+                      </td>
+                    );
+                  })}
+                  <td className="px-4 py-2 text-slate-600 dark:text-slate-400">
+                    <span className="flex items-center capitalize">
+                      {reading.quality}
+                      {reading.isAnomaly && (
+                        <span title={reading.anomalyReason ?? 'Anomaly'}>
+                          <AlertTriangle className="w-4 h-4 ml-2 text-red-500" />
+                        </span>
+                      )}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {tail.length === 0 && (
+            <p className="p-6 text-center text-sm text-slate-500 dark:text-slate-400">Waiting for readings...</p>
+          )}
+        </Card>
+      </section>
+    </main>
+  );
+}
+
+function BackLink() {
+  return (
+    <Link
+      href="/"
+      className="inline-flex items-center text-sm text-slate-600 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 mb-4"
+    >
+      <ArrowLeft className="w-4 h-4 mr-1" />
+      Dashboard
+    </Link>
+  );
+}
+
+// Label/value line in a detail card
+function Row({ label, value }: { label: string; value?: string | null | false }) {
+  return (
+    <div className="flex justify-between text-sm">
+      <span className="text-slate-500 dark:text-slate-400 capitalize">{label}</span>
+      <span className="font-medium text-slate-900 dark:text-white">{value || '—'}</span>
+    </div>
+  );
+}
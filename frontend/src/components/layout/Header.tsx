@@ -1,25 +1,68 @@
 'use client';
 
+import Link from 'next/link';
 import { useStore } from '@/store/useStore';
 import { cn, formatRelativeTime } from '@/lib/utils';
-import { LayoutGrid, TreeDeciduous, RefreshCw, Wifi, WifiOff, Radio, Loader2 } from 'lucide-react';
+import { LayoutGrid, TreeDeciduous, Map as MapIcon, RefreshCw, Wifi, WifiOff, Radio, Loader2, Users } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
-import type { ViewMode } from '@/types';
+import { authAPI } from '@/services/api';
+import type { UnitSystem, ViewMode, WindUnit } from '@/types';
 
 interface HeaderProps {
   onRefresh: () => void;
   isRefreshing: boolean;
+  isAdmin?: boolean;
 }
 
-export function Header({ onRefresh, isRefreshing }: HeaderProps) {
-  const { viewMode, setViewMode, connectionStatus, lastUpdateTime } = useStore();
+export function Header({ onRefresh, isRefreshing, isAdmin = false }: HeaderProps) {
+  const {
+    viewMode,
+    setViewMode,
+    unitSystem,
+    setUnitSystem,
+    windUnits,
+    setWindUnits,
+    connectionStatus,
+    lastUpdateTime,
+  } = useStore();
   const isConnected = connectionStatus === 'connected';
 
   const viewModes: { value: ViewMode; label: string; icon: React.ReactNode }[] = [
     { value: 'grid', label: 'Grid View', icon: <LayoutGrid className="w-4 h-4" /> },
     { value: 'tree', label: 'Tree View', icon: <TreeDeciduous className="w-4 h-4" /> },
+    { value: 'map', label: 'Map View', icon: <MapIcon className="w-4 h-4" /> },
   ];
 
+  const unitSystems: { value: UnitSystem; label: string }[] = [
+    { value: 'metric', label: 'Metric' },
+    { value: 'imperial', label: 'Imperial' },
+    { value: 'si', label: 'SI' },
+  ];
+
+  // Wind speeds can follow the unit system or use their own unit, e.g. knots
+  const windUnitOptions: { value: WindUnit | ''; label: string }[] = [
+    { value: '', label: 'Wind: auto' },
+    { value: 'km/h', label: 'Wind: km/h' },
+    { value: 'mph', label: 'Wind: mph' },
+    { value: 'm/s', label: 'Wind: m/s' },
+    { value: 'kn', label: 'Wind: knots' },
+  ];
+
+  const handleUnitSystemChange = (system: UnitSystem) => {
+    setUnitSystem(system);
+    // Signed-in users keep their choice across devices
+    if (localStorage.getItem('authToken')) {
+      authAPI.updateUnits(system).catch(() => undefined);
+    }
+  };
+
+  const handleWindUnitsChange = (value: WindUnit | null) => {
+    setWindUnits(value);
+    if (localStorage.getItem('authToken')) {
+      authAPI.updateWindUnits(value).catch(() => undefined);
+    }
+  };
+
   return (
     <header className="sticky top-0 z-50 bg-white/80 dark:bg-slate-900/80 backdrop-blur-lg border-b border-slate-200 dark:border-slate-700">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -101,6 +144,34 @@ export function Header({ onRefresh, isRefreshing }: HeaderProps) {
               )}
             </div>
 
+            {/* Unit System */}
+            <select
+              value={unitSystem}
+              onChange={(e) => handleUnitSystemChange(e.target.value as UnitSystem)}
+              aria-label="Unit system"
+              className="hidden sm:block text-xs bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-md px-2 py-1.5"
+            >
+              {unitSystems.map((system) => (
+                <option key={system.value} value={system.value}>
+                  {system.label}
+                </option>
+              ))}
+            </select>
+
+            {/* Wind Speed Unit */}
+            <select
+              value={windUnits ?? ''}
+              onChange={(e) => handleWindUnitsChange((e.target.value || null) as WindUnit | null)}
+              aria-label="Wind speed unit"
+              className="hidden sm:block text-xs bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-md px-2 py-1.5"
+            >
+              {windUnitOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+
             {/* Last Update Time */}
             {lastUpdateTime && (
               <span className="hidden lg:block text-xs text-slate-500 dark:text-slate-400">
@@ -108,6 +179,17 @@ export function Header({ onRefresh, isRefreshing }: HeaderProps) {
               </span>
             )}
 
+            {/* User administration (admins only) */}
+            {isAdmin && (
+              <Link
+                href="/admin/users"
+                className="hidden sm:flex items-center space-x-1 text-sm text-slate-600 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400"
+              >
+                <Users className="w-4 h-4" />
+                <span>Users</span>
+              </Link>
+            )}
+
             {/* Refresh Button */}
             <Button
               variant="outline"
@@ -0,0 +1,147 @@
+'use client';
+
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Tooltip,
+  Legend,
+  type ChartData,
+  type ChartOptions,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { MeasurementIcon } from '@/components/ui/MeasurementIcon';
+import { formatDate, formatTime } from '@/lib/utils';
+import type { ChartPoint } from '@/lib/charts';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Filler, Tooltip, Legend);
+
+interface FieldChartProps {
+  label: string;
+  unit: string;
+  icon?: string;
+  precision: number;
+  series: { avg: ChartPoint[]; min: ChartPoint[]; max: ChartPoint[] };
+  anomalies: (ChartPoint & { reason?: string })[];
+  from: string;
+  to: string;
+}
+
+// Line chart of one field: average with a min-max band and anomaly markers
+export function FieldChart({ label, unit, icon, precision, series, anomalies, from, to }: FieldChartProps) {
+  const spansDays = new Date(to).getTime() - new Date(from).getTime() > 24 * 60 * 60 * 1000;
+
+  const data: ChartData<'line', ChartPoint[]> = {
+    datasets: [
+      {
+        label: 'Max',
+        data: series.max,
+        borderWidth: 0,
+        pointRadius: 0,
+        backgroundColor: 'rgba(14, 165, 233, 0.15)',
+        fill: '+1',
+      },
+      {
+        label: 'Min',
+        data: series.min,
+        borderWidth: 0,
+        pointRadius: 0,
+        fill: false,
+      },
+      {
+        label: 'Average',
+        data: series.avg,
+        borderColor: 'rgb(14, 165, 233)',
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.2,
+        fill: false,
+      },
+      {
+        label: 'Anomaly',
+        data: anomalies,
+        showLine: false,
+        pointRadius: 5,
+        pointHoverRadius: 7,
+        pointStyle: 'triangle',
+        backgroundColor: 'rgb(239, 68, 68)',
+        borderColor: 'rgb(239, 68, 68)',
+      },
+    ],
+  };
+
+  const options: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    parsing: false,
+    interaction: { mode: 'nearest', intersect: false },
+    scales: {
+      x: {
+        type: 'linear',
+        min: new Date(from).getTime(),
+        max: new Date(to).getTime(),
+        ticks: {
+          maxTicksLimit: 6,
+          callback: (value) => (spansDays ? formatDate(new Date(value)) : formatTime(new Date(value)).slice(0, 5)),
+        },
+        grid: { display: false },
+      },
+      y: {
+        title: { display: Boolean(unit), text: unit },
+      },
+    },
+    plugins: {
+      legend: {
+        labels: {
+          // The min/max band reads as one series
+          filter: (item) => item.text !== 'Min' && item.text !== 'Max',
+          boxWidth: 12,
+        },
+      },
+      tooltip: {
+        callbacks: {
+          title: (items) => {
+            const time = items[0] && new Date((items[0].raw as ChartPoint).x);
+            return time ? `${formatDate(time)} ${formatTime(time)}` : '';
+          },
+          label: (item) => {
+            const point = item.raw as ChartPoint & { reason?: string };
+            const value = `${item.dataset.label}: ${point.y.toFixed(precision)} ${unit}`;
+            return point.reason ? `${value} (${point.reason})` : value;
+          },
+        },
+      },
+    },
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center text-sm capitalize">
+          <MeasurementIcon icon={icon} className="w-4 h-4 mr-2 text-primary-500" />
+          {label}
+          {anomalies.length > 0 && (
+            <span className="ml-2 text-xs font-normal normal-case px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400">
+              {anomalies.length} anomalies
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0">
+        <div className="h-56">
+          {series.avg.length > 0 || anomalies.length > 0 ? (
+            <Line data={data} options={options} />
+          ) : (
+            <div className="flex h-full items-center justify-center text-sm text-slate-500 dark:text-slate-400">
+              No readings in this period
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
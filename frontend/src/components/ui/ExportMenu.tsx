@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { iotAPI } from '@/services/api';
+import { useStore } from '@/store/useStore';
+import { cn } from '@/lib/utils';
+import type { ExportFormat } from '@/types';
+
+const formats: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'ndjson', label: 'NDJSON' },
+  { value: 'parquet', label: 'Parquet' },
+];
+
+interface ExportMenuProps {
+  sensorIds: string[];
+  /** ISO start of the range; the API defaults to the last 24 hours */
+  from?: string;
+  to?: string;
+  fields?: string[];
+  className?: string;
+}
+
+// Export action offering historical readings in each download format
+export function ExportMenu({ sensorIds, from, to, fields, className }: ExportMenuProps) {
+  const unitSystem = useStore((state) => state.unitSystem);
+  const windUnits = useStore((state) => state.windUnits);
+  const setNotification = useStore((state) => state.setNotification);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  // Fetched through the API client so the export is of the user's own organisation
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      const { blob, filename } = await iotAPI.downloadExport({
+        sensorIds,
+        from,
+        to,
+        fields,
+        format,
+        units: unitSystem,
+        windUnits,
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setNotification({ type: 'error', message: 'Export failed' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className={cn('relative', className)}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={isExporting}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title="Export readings"
+        className="flex items-center text-xs text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+      >
+        <Download className="w-3 h-3 mr-1" />
+        <span>{isExporting ? 'Exporting…' : 'Export'}</span>
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-10 mt-1 w-28 rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 py-1 shadow-lg"
+        >
+          {formats.map((format) => (
+            <button
+              key={format.value}
+              type="button"
+              role="menuitem"
+              onClick={() => handleExport(format.value)}
+              className="block w-full text-left px-3 py-1.5 text-xs text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import {
+  Activity,
+  Battery,
+  Cloud,
+  Compass,
+  Droplets,
+  Gauge,
+  Signal,
+  Sprout,
+  Thermometer,
+  Wind,
+  type LucideIcon
+} from 'lucide-react';
+
+// Icon hints used by the measurement catalog
+const icons: Record<string, LucideIcon> = {
+  thermometer: Thermometer,
+  droplets: Droplets,
+  gauge: Gauge,
+  wind: Wind,
+  compass: Compass,
+  battery: Battery,
+  signal: Signal,
+  cloud: Cloud,
+  sprout: Sprout,
+  activity: Activity
+};
+
+export function MeasurementIcon({ icon, className }: { icon?: string; className?: string }) {
+  const Icon = (icon && icons[icon]) || Activity;
+  return <Icon className={className} />;
+}
@@ -1,9 +1,12 @@
 'use client';
 
+import Link from 'next/link';
 import { useStore } from '@/store/useStore';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { MeasurementIcon } from '@/components/ui/MeasurementIcon';
+import { ExportMenu } from '@/components/ui/ExportMenu';
 import { WeatherCard } from '@/components/weather/WeatherCard';
-import { cn, formatNumber, formatTime, formatRelativeTime } from '@/lib/utils';
+import { cn, formatNumber, formatTime, formatRelativeTime, getUnit } from '@/lib/utils';
 import { 
   Thermometer, 
   Droplets, 
@@ -22,7 +25,7 @@ interface GridViewProps {
 }
 
 export function GridView({ isUpdating }: GridViewProps) {
-  const { currentWeather, latestReadings, sensors } = useStore();
+  const { currentWeather, latestReadings, sensors, unitSystem, windUnits } = useStore();
 
   const getIcon = (type: string) => {
     switch (type) {
@@ -39,19 +42,6 @@ export function GridView({ isUpdating }: GridViewProps) {
     }
   };
 
-  const getUnit = (key: string): string => {
-    const units: Record<string, string> = {
-      temperature: '°C',
-      humidity: '%',
-      pressure: 'hPa',
-      windspeed: 'km/h',
-      winddirection: '°',
-      battery: '%',
-      signal_strength: 'dBm'
-    };
-    return units[key] || '';
-  };
-
   const getColorClass = (key: string): string => {
     const colors: Record<string, string> = {
       temperature: 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400',
@@ -85,7 +75,12 @@ export function GridView({ isUpdating }: GridViewProps) {
           </span>
         </h2>
         {currentWeather ? (
-          <WeatherCard weather={currentWeather} isUpdating={isUpdating} />
+          <WeatherCard
+            weather={currentWeather}
+            isUpdating={isUpdating}
+            unitSystem={unitSystem}
+            windUnits={windUnits}
+          />
         ) : (
           <Card className="p-8 bg-grid-pattern bg-grid animate-pulse-slow border-primary-200 dark:border-primary-800/50">
             <div className="flex flex-col items-center justify-center text-slate-500 dark:text-slate-400">
@@ -140,22 +135,22 @@ export function GridView({ isUpdating }: GridViewProps) {
             <>
               <DataCard
                 title="Temperature"
-                value={formatNumber(currentWeather.temperature, 1)}
-                unit="°C"
+                value={formatNumber(currentWeather.temperature, 1, '°C', unitSystem)}
+                unit={getUnit('°C', unitSystem)}
                 icon={<Thermometer className="w-5 h-5" />}
                 colorClass="bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400"
               />
               <DataCard
                 title="Wind Speed"
-                value={formatNumber(currentWeather.windspeed, 1)}
-                unit="km/h"
+                value={formatNumber(currentWeather.windspeed, 1, 'km/h', unitSystem, windUnits)}
+                unit={getUnit('km/h', unitSystem, windUnits)}
                 icon={<Wind className="w-5 h-5" />}
                 colorClass="bg-cyan-100 text-cyan-600 dark:bg-cyan-900/30 dark:text-cyan-400"
               />
               <DataCard
                 title="Elevation"
-                value={currentWeather.elevation.toString()}
-                unit="m"
+                value={formatNumber(currentWeather.elevation, 0, 'm', unitSystem)}
+                unit={getUnit('m', unitSystem)}
                 icon={<MapPin className="w-5 h-5" />}
                 colorClass="bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400"
               />
@@ -176,6 +171,11 @@ export function GridView({ isUpdating }: GridViewProps) {
 
 // Sensor Card Component
 function SensorCard({ reading, isUpdating }: { reading: IoTReading; isUpdating?: boolean }) {
+  const measurementFields = useStore((state) => state.measurementFields);
+  const unitSystem = useStore((state) => state.unitSystem);
+  const windUnits = useStore((state) => state.windUnits);
+  const sensors = useStore((state) => state.sensors);
+  const setSelectedSensor = useStore((state) => state.setSelectedSensor);
   const isRecent = new Date().getTime() - new Date(reading.timestamp).getTime() < 60000;
 
   return (
@@ -184,7 +184,13 @@ function SensorCard({ reading, isUpdating }: { reading: IoTReading; isUpdating?:
         <div className="flex items-start justify-between">
           <div>
             <CardTitle className="text-sm">
-              {reading.sensor?.name || reading.sensorId}
+              <Link
+                href={`/sensors/${encodeURIComponent(reading.sensorId)}`}
+                onClick={() => setSelectedSensor(sensors.find((s) => s.sensorId === reading.sensorId) ?? null)}
+                className="hover:text-primary-600 dark:hover:text-primary-400 hover:underline"
+              >
+                {reading.sensor?.name || reading.sensorId}
+              </Link>
             </CardTitle>
             <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
               {reading.sensor?.type || 'combined'} sensor
@@ -209,13 +215,16 @@ function SensorCard({ reading, isUpdating }: { reading: IoTReading; isUpdating?:
         <div className="space-y-2">
           {Object.entries(reading.data).map(([key, value]) => {
             if (typeof value !== 'number') return null;
+            const field = measurementFields.find((f) => f.name === key);
             return (
               <div key={key} className="flex items-center justify-between">
-                <span className="text-xs text-slate-600 dark:text-slate-400 capitalize">
-                  {key.replace('_', ' ')}
+                <span className="flex items-center text-xs text-slate-600 dark:text-slate-400 capitalize">
+                  <MeasurementIcon icon={field?.icon} className="w-3 h-3 mr-1" />
+                  {field?.label ?? key.replace('_', ' ')}
                 </span>
                 <span className="text-sm font-semibold text-slate-900 dark:text-white">
-                  {formatNumber(value, 1)} {getUnit(key)}
+                  {formatNumber(value, field?.precision ?? 1, field?.unit, unitSystem, windUnits)}{' '}
+                  {getUnit(field?.unit ?? '', unitSystem, windUnits)}
                 </span>
               </div>
             );
@@ -228,11 +237,14 @@ function SensorCard({ reading, isUpdating }: { reading: IoTReading; isUpdating?:
             <Clock className="w-3 h-3 mr-1" />
             <span>{formatRelativeTime(reading.timestamp)}</span>
           </div>
-          {reading.isSimulated && (
-            <span className="text-xs bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 px-2 py-0.5 rounded">
-              Simulated
-            </span>
-          )}
+          <div className="flex items-center space-x-2">
+            {reading.isSimulated && (
+              <span className="text-xs bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 px-2 py-0.5 rounded">
+                Simulated
+              </span>
+            )}
+            <ExportMenu sensorIds={[reading.sensorId]} />
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -271,17 +283,3 @@ function DataCard({
     </Card>
   );
 }
-
-// Helper function
-function getUnit(key: string): string {
-  const units: Record<string, string> = {
-    temperature: '°C',
-    humidity: '%',
-    pressure: 'hPa',
-    windspeed: 'km/h',
-    winddirection: '°',
-    battery: '%',
-    signal_strength: 'dBm'
-  };
-  return units[key] || '';
-}
@@ -0,0 +1,491 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useStore } from '@/store/useStore';
+import { sensorsAPI } from '@/services/api';
+import { Card } from '@/components/ui/Card';
+import { MeasurementIcon } from '@/components/ui/MeasurementIcon';
+import { ExportMenu } from '@/components/ui/ExportMenu';
+import { cn, formatNumber, formatTime, formatRelativeTime, getUnit } from '@/lib/utils';
+import {
+  DEFAULT_VIEWPORT,
+  basemapGeometries,
+  clampZoom,
+  fitBounds,
+  geometryPath,
+  project,
+  tileUrl,
+  toScreen,
+  unproject,
+  valueColor,
+  valueRange,
+  visibleTiles,
+  type Geometry,
+  type MapViewport,
+  type Point,
+} from '@/lib/map';
+import { Plus, Minus, Maximize2, MapPin, Clock, Radio, X } from 'lucide-react';
+import type { IoTReading, MeasurementField, PresenceStatus, Sensor, UnitSystem, WindUnit } from '@/types';
+
+// Locally served XYZ raster tiles (optional); the vector outlines are drawn either way
+const TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL;
+// GeoJSON outlines: the bundled country outline, or a locally served dataset
+const BASEMAP_URL = process.env.NEXT_PUBLIC_MAP_BASEMAP_URL || '/map/basemap.geojson';
+const MAP_HEIGHT = 560;
+const RECENT_READINGS = 5;
+
+const STATUS_COLORS: Record<PresenceStatus, string> = {
+  online: '#22c55e',
+  offline: '#ef4444',
+  unknown: '#94a3b8',
+};
+
+type FieldOption = Pick<MeasurementField, 'name' | 'label' | 'unit' | 'precision' | 'icon' | 'min' | 'max'>;
+
+interface MapViewProps {
+  isUpdating?: boolean;
+}
+
+export function MapView({ isUpdating }: MapViewProps) {
+  const { sensors, latestReadings, measurementFields, unitSystem, windUnits } = useStore();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ start: Point; center: Point; moved: boolean } | null>(null);
+  const hasFitted = useRef(false);
+
+  const [width, setWidth] = useState(0);
+  const [viewport, setViewport] = useState<MapViewport>(DEFAULT_VIEWPORT);
+  const [basemap, setBasemap] = useState<Geometry[]>([]);
+  const [fieldName, setFieldName] = useState('temperature');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Track the container width so the map fills the card
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Outlines come from the app or a local server, so the map works offline
+  useEffect(() => {
+    fetch(BASEMAP_URL)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((geojson: unknown) => setBasemap(basemapGeometries(geojson)))
+      .catch(() => undefined);
+  }, []);
+
+  const located = useMemo(
+    () => sensors.filter((s) => Number.isFinite(s.location?.latitude) && Number.isFinite(s.location?.longitude)),
+    [sensors]
+  );
+
+  const fitToSensors = useCallback(() => {
+    setViewport(fitBounds(located.map((s) => s.location), width, MAP_HEIGHT));
+  }, [located, width]);
+
+  // Frame the network once the sensors and the map size are known
+  useEffect(() => {
+    if (hasFitted.current || width === 0 || located.length === 0) return;
+    hasFitted.current = true;
+    fitToSensors();
+  }, [fitToSensors, width, located.length]);
+
+  const latestBySensor = useMemo(
+    () => new Map(latestReadings.map((reading) => [reading.sensorId, reading])),
+    [latestReadings]
+  );
+
+  // Numeric fields the sensors currently report, described by the catalog where known
+  const fieldOptions = useMemo<FieldOption[]>(() => {
+    const reported = new Set(
+      latestReadings.flatMap((r) => Object.keys(r.data).filter((key) => typeof r.data[key] === 'number'))
+    );
+    return Array.from(reported).sort().map((name) =>
+      measurementFields.find((f) => f.name === name) ??
+        { name, label: name.replace('_', ' '), unit: '', precision: 1, icon: '' }
+    );
+  }, [latestReadings, measurementFields]);
+
+  const field = fieldOptions.find((f) => f.name === fieldName);
+  const fieldValue = (sensorId: string): number | undefined => {
+    const value = latestBySensor.get(sensorId)?.data[fieldName];
+    return typeof value === 'number' ? value : undefined;
+  };
+  const range = valueRange(
+    located.map((s) => fieldValue(s.sensorId)).filter((v): v is number => v !== undefined),
+    field
+  );
+
+  // Zoom by a number of levels, keeping the location under (x, y) in place
+  const zoomAt = useCallback((x: number, y: number, levels: number) => {
+    setViewport((prev) => {
+      const zoom = clampZoom(prev.zoom + levels);
+      if (zoom === prev.zoom) return prev;
+
+      const offset = { x: x - width / 2, y: y - MAP_HEIGHT / 2 };
+      const center = project(prev.center, prev.zoom);
+      const anchor = unproject({ x: center.x + offset.x, y: center.y + offset.y }, prev.zoom);
+      const moved = project(anchor, zoom);
+      return { zoom, center: unproject({ x: moved.x - offset.x, y: moved.y - offset.y }, zoom) };
+    });
+  }, [width]);
+
+  // Wheel zoom needs a non-passive listener to stop the page scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      zoomAt(event.clientX - rect.left, event.clientY - rect.top, -event.deltaY * 0.002);
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      start: { x: event.clientX, y: event.clientY },
+      center: project(viewport.center, viewport.zoom),
+      moved: false,
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.start.x;
+    const dy = event.clientY - drag.start.y;
+    if (Math.abs(dx) + Math.abs(dy) > 3) drag.moved = true;
+    setViewport((prev) => ({
+      ...prev,
+      center: unproject({ x: drag.center.x - dx, y: drag.center.y - dy }, prev.zoom),
+    }));
+  };
+
+  const handlePointerUp = () => {
+    // A click on the map itself (not a drag) closes the popup
+    if (dragRef.current && !dragRef.current.moved) setSelectedId(null);
+    dragRef.current = null;
+  };
+
+  const toPoint = (location: { latitude: number; longitude: number }) =>
+    toScreen(location, viewport, width, MAP_HEIGHT);
+
+  const selected = located.find((s) => s.sensorId === selectedId);
+  const selectedPoint = selected ? toPoint(selected.location) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-white flex items-center space-x-2">
+          <MapPin className="w-5 h-5 text-primary-500" />
+          <span>Sensor Map</span>
+          <span className="text-xs font-normal bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-400 px-2 py-0.5 rounded-full">
+            {located.length} sensors
+          </span>
+        </h2>
+        <label className="flex items-center space-x-2 text-sm text-slate-600 dark:text-slate-400">
+          <span>Colour by</span>
+          <select
+            value={fieldName}
+            onChange={(event) => setFieldName(event.target.value)}
+            className="rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-2 py-1 text-sm text-slate-900 dark:text-white"
+          >
+            {!field && <option value={fieldName}>{fieldName}</option>}
+            {fieldOptions.map((option) => (
+              <option key={option.name} value={option.name}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <Card className="relative overflow-hidden p-0">
+        <div ref={containerRef} className="relative w-full" style={{ height: MAP_HEIGHT }}>
+          <svg
+            ref={svgRef}
+            width={width}
+            height={MAP_HEIGHT}
+            className="block touch-none select-none cursor-grab active:cursor-grabbing bg-sky-50 dark:bg-slate-900"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {TILE_URL && visibleTiles(viewport, width, MAP_HEIGHT).map((tile) => (
+              <image
+                key={`${tile.left}:${tile.top}`}
+                href={tileUrl(TILE_URL, tile)}
+                x={tile.left}
+                y={tile.top}
+                width={tile.size + 0.5}
+                height={tile.size + 0.5}
+              />
+            ))}
+
+            {basemap.map((geometry, i) => (
+              <path
+                key={i}
+                d={geometryPath(geometry, toPoint)}
+                fillRule="evenodd"
+                className={cn(
+                  'stroke-slate-400 dark:stroke-slate-600',
+                  TILE_URL ? 'fill-transparent' : 'fill-white dark:fill-slate-800'
+                )}
+                strokeWidth={1}
+              />
+            ))}
+
+            {located.map((sensor) => {
+              const { x, y } = toPoint(sensor.location);
+              if (x < -20 || y < -20 || x > width + 20 || y > MAP_HEIGHT + 20) return null;
+
+              const value = fieldValue(sensor.sensorId);
+              const reading = latestBySensor.get(sensor.sensorId);
+              const status = sensor.presence?.status ?? 'unknown';
+              const isRecent = reading && Date.now() - new Date(reading.timestamp).getTime() < 60000;
+
+              return (
+                <g
+                  key={sensor.sensorId}
+                  transform={`translate(${x},${y})`}
+                  opacity={sensor.isActive ? 1 : 0.5}
+                  className="cursor-pointer"
+                  onPointerDown={(event) => event.stopPropagation()}
+                  onClick={() => setSelectedId(sensor.sensorId)}
+                >
+                  <title>{sensor.name}</title>
+                  {isRecent && isUpdating && (
+                    <circle r={8} fill="none" stroke={STATUS_COLORS[status]} strokeWidth={2}>
+                      <animate attributeName="r" from="8" to="20" dur="1s" repeatCount="indefinite" />
+                      <animate attributeName="opacity" from="1" to="0" dur="1s" repeatCount="indefinite" />
+                    </circle>
+                  )}
+                  <circle
+                    r={sensor.sensorId === selectedId ? 10 : 8}
+                    fill={value !== undefined && range ? valueColor(value, range) : STATUS_COLORS.unknown}
+                    stroke={STATUS_COLORS[status]}
+                    strokeWidth={3}
+                  />
+                </g>
+              );
+            })}
+          </svg>
+
+          {/* Zoom controls */}
+          <div className="absolute top-3 right-3 flex flex-col overflow-hidden rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-sm">
+            <MapButton title="Zoom in" onClick={() => zoomAt(width / 2, MAP_HEIGHT / 2, 1)}>
+              <Plus className="w-4 h-4" />
+            </MapButton>
+            <MapButton title="Zoom out" onClick={() => zoomAt(width / 2, MAP_HEIGHT / 2, -1)}>
+              <Minus className="w-4 h-4" />
+            </MapButton>
+            <MapButton title="Show all sensors" onClick={fitToSensors}>
+              <Maximize2 className="w-4 h-4" />
+            </MapButton>
+          </div>
+
+          {/* Legend */}
+          <div className="absolute bottom-3 left-3 rounded-lg border border-slate-200 dark:border-slate-700 bg-white/90 dark:bg-slate-800/90 px-3 py-2 text-xs text-slate-600 dark:text-slate-400 shadow-sm">
+            {range && (
+              <div className="mb-2">
+                <div className="mb-1 font-medium text-slate-700 dark:text-slate-300">
+                  {field?.label ?? fieldName}
+                </div>
+                <div
+                  className="h-2 w-40 rounded"
+                  style={{ background: `linear-gradient(to right, ${valueColor(range[0], range)}, ${valueColor((range[0] + range[1]) / 2, range)}, ${valueColor(range[1], range)})` }}
+                />
+                <div className="mt-0.5 flex justify-between">
+                  <span>{formatNumber(range[0], field?.precision ?? 1, field?.unit, unitSystem, windUnits)}</span>
+                  <span>
+                    {formatNumber(range[1], field?.precision ?? 1, field?.unit, unitSystem, windUnits)}{' '}
+                    {getUnit(field?.unit ?? '', unitSystem, windUnits)}
+                  </span>
+                </div>
+              </div>
+            )}
+            <div className="flex items-center space-x-3">
+              {(Object.keys(STATUS_COLORS) as PresenceStatus[]).map((status) => (
+                <span key={status} className="flex items-center space-x-1 capitalize">
+                  <span className="inline-block h-2.5 w-2.5 rounded-full border-2" style={{ borderColor: STATUS_COLORS[status] }} />
+                  <span>{status}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {selected && selectedPoint && (
+            <SensorPopup
+              sensor={selected}
+              latest={latestBySensor.get(selected.sensorId)}
+              fields={measurementFields}
+              unitSystem={unitSystem}
+              windUnits={windUnits}
+              style={{
+                left: Math.min(Math.max(selectedPoint.x - 144, 8), Math.max(width - 296, 8)),
+                ...(selectedPoint.y > MAP_HEIGHT / 2
+                  ? { top: selectedPoint.y - 16, transform: 'translateY(-100%)' }
+                  : { top: selectedPoint.y + 16 }),
+              }}
+              onClose={() => setSelectedId(null)}
+            />
+          )}
+
+          {located.length === 0 && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-500 dark:text-slate-400 pointer-events-none">
+              <Radio className="w-8 h-8 mb-2 opacity-50" />
+              <p>No sensors to show</p>
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+// Square map control button
+function MapButton({ title, onClick, children }: { title: string; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      title={title}
+      onClick={onClick}
+      className="flex h-8 w-8 items-center justify-center text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-700"
+    >
+      {children}
+    </button>
+  );
+}
+
+// Popup with a sensor's latest values and its most recent readings
+function SensorPopup({
+  sensor,
+  latest,
+  fields,
+  unitSystem,
+  windUnits,
+  style,
+  onClose,
+}: {
+  sensor: Sensor;
+  latest?: IoTReading;
+  fields: MeasurementField[];
+  unitSystem: UnitSystem;
+  windUnits: WindUnit | null;
+  style: React.CSSProperties;
+  onClose: () => void;
+}) {
+  const setSelectedSensor = useStore((state) => state.setSelectedSensor);
+  const [recent, setRecent] = useState<IoTReading[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRecent([]);
+    sensorsAPI.getSensorReadings(sensor.sensorId, 1, RECENT_READINGS)
+      .then((response) => {
+        if (!cancelled) setRecent(response.data);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [sensor.sensorId]);
+
+  // Live readings arrive through the store
+  useEffect(() => {
+    if (!latest) return;
+    setRecent((prev) =>
+      prev.some((r) => r.timestamp === latest.timestamp)
+        ? prev
+        : [latest, ...prev].slice(0, RECENT_READINGS)
+    );
+  }, [latest]);
+
+  const describe = (key: string) => fields.find((f) => f.name === key);
+
+  return (
+    <div
+      className="absolute z-10 w-72 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-lg"
+      style={style}
+    >
+      <div className="flex items-start justify-between border-b border-slate-200 dark:border-slate-700 px-3 py-2">
+        <div>
+          <Link
+            href={`/sensors/${encodeURIComponent(sensor.sensorId)}`}
+            onClick={() => setSelectedSensor(sensor)}
+            className="text-sm font-semibold text-slate-900 dark:text-white hover:text-primary-600 dark:hover:text-primary-400 hover:underline"
+          >
+            {sensor.name}
+          </Link>
+          <p className="flex items-center text-xs text-slate-500 dark:text-slate-400">
+            <MapPin className="w-3 h-3 mr-1" />
+            {sensor.location.name}
+          </p>
+        </div>
+        <button type="button" title="Close" onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {latest && (
+        <div className="space-y-1 px-3 py-2">
+          {Object.entries(latest.data).map(([key, value]) => {
+            if (typeof value !== 'number') return null;
+            const field = describe(key);
+            return (
+              <div key={key} className="flex items-center justify-between text-xs">
+                <span className="flex items-center text-slate-600 dark:text-slate-400 capitalize">
+                  <MeasurementIcon icon={field?.icon} className="w-3 h-3 mr-1" />
+                  {field?.label ?? key.replace('_', ' ')}
+                </span>
+                <span className="font-semibold text-slate-900 dark:text-white">
+                  {formatNumber(value, field?.precision ?? 1, field?.unit, unitSystem, windUnits)}{' '}
+                  {getUnit(field?.unit ?? '', unitSystem, windUnits)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="border-t border-slate-200 dark:border-slate-700 px-3 py-2">
+        <p className="mb-1 text-xs font-medium text-slate-700 dark:text-slate-300">Recent readings</p>
+        {recent.length > 0 ? (
+          <ul className="space-y-0.5">
+            {recent.map((reading) => (
+              <li key={reading.id} className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+                <span>{formatTime(reading.timestamp)}</span>
+                <span className="truncate pl-2">
+                  {Object.entries(reading.data)
+                    .filter(([, value]) => typeof value === 'number')
+                    .slice(0, 3)
+                    .map(([key, value]) => {
+                      const field = describe(key);
+                      return `${formatNumber(value as number, field?.precision ?? 1, field?.unit, unitSystem, windUnits)}${getUnit(field?.unit ?? '', unitSystem, windUnits)}`;
+                    })
+                    .join(' · ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-500 dark:text-slate-400">No readings yet</p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between border-t border-slate-200 dark:border-slate-700 px-3 py-2">
+        <span className="flex items-center text-xs text-slate-500 dark:text-slate-400">
+          <Clock className="w-3 h-3 mr-1" />
+          {sensor.presence?.lastSeenAt ? formatRelativeTime(sensor.presence.lastSeenAt) : sensor.presence?.status ?? 'unknown'}
+        </span>
+        <ExportMenu sensorIds={[sensor.sensorId]} />
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 'use client';
 
 import { useState, useCallback } from 'react';
+import Link from 'next/link';
 import { useStore } from '@/store/useStore';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
-import { cn, formatNumber, formatTime, formatRelativeTime } from '@/lib/utils';
+import { MeasurementIcon } from '@/components/ui/MeasurementIcon';
+import { cn, formatNumber, formatTime, formatRelativeTime, getUnit } from '@/lib/utils';
 import { 
   ChevronRight, 
   ChevronDown, 
@@ -11,21 +13,21 @@ import {
   Radio, 
   Activity, 
   Thermometer,
-  Droplets,
-  Gauge,
-  Wind,
   Clock,
   MapPin,
-  Leaf
+  Leaf,
+  Building2,
+  Layers,
+  AlertTriangle
 } from 'lucide-react';
-import type { TreeNode, CurrentWeather } from '@/types';
+import type { TreeNode, NodeStatus, CurrentWeather, UnitSystem, WindUnit } from '@/types';
 
 interface TreeViewProps {
   isUpdating?: boolean;
 }
 
 export function TreeView({ isUpdating }: TreeViewProps) {
-  const { treeData, currentWeather } = useStore();
+  const { treeData, currentWeather, unitSystem, windUnits } = useStore();
 
   // Build weather tree from current weather data
   const weatherTree: TreeNode | null = currentWeather ? {
@@ -52,14 +54,14 @@ export function TreeView({ isUpdating }: TreeViewProps) {
               {
                 name: 'temperature',
                 type: 'data',
-                value: formatNumber(currentWeather.temperature, 1),
-                unit: '°C'
+                value: formatNumber(currentWeather.temperature, 1, '°C', unitSystem),
+                unit: getUnit('°C', unitSystem)
               },
               {
                 name: 'windspeed',
                 type: 'data',
-                value: formatNumber(currentWeather.windspeed, 1),
-                unit: 'km/h'
+                value: formatNumber(currentWeather.windspeed, 1, 'km/h', unitSystem, windUnits),
+                unit: getUnit('km/h', unitSystem, windUnits)
               },
               {
                 name: 'winddirection',
@@ -76,8 +78,8 @@ export function TreeView({ isUpdating }: TreeViewProps) {
               {
                 name: 'elevation',
                 type: 'data',
-                value: currentWeather.elevation.toString(),
-                unit: 'm'
+                value: formatNumber(currentWeather.elevation, 0, 'm', unitSystem),
+                unit: getUnit('m', unitSystem)
               }
             ]
           }
@@ -136,11 +138,19 @@ export function TreeView({ isUpdating }: TreeViewProps) {
             <CardTitle className="text-sm">Tree Legend</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
               <LegendItem 
                 icon={<Server className="w-4 h-4 text-primary-500" />} 
                 label="Root/Network" 
               />
+              <LegendItem 
+                icon={<Building2 className="w-4 h-4 text-violet-500" />} 
+                label="Site" 
+              />
+              <LegendItem 
+                icon={<Layers className="w-4 h-4 text-sky-500" />} 
+                label="Zone" 
+              />
               <LegendItem 
                 icon={<Radio className="w-4 h-4 text-green-500" />} 
                 label="Sensor" 
@@ -169,7 +179,12 @@ interface TreeNodeComponentProps {
 }
 
 function TreeNodeComponent({ node, level, isUpdating }: TreeNodeComponentProps) {
-  const [isExpanded, setIsExpanded] = useState(level < 2);
+  const measurementFields = useStore((state) => state.measurementFields);
+  const unitSystem = useStore((state) => state.unitSystem);
+  const windUnits = useStore((state) => state.windUnits);
+  const sensors = useStore((state) => state.sensors);
+  const setSelectedSensor = useStore((state) => state.setSelectedSensor);
+  const [isExpanded, setIsExpanded] = useState(level < 2 || node.type === 'site' || node.type === 'zone');
   const hasChildren = node.children && node.children.length > 0;
 
   const toggleExpand = useCallback(() => {
@@ -180,15 +195,26 @@ function TreeNodeComponent({ node, level, isUpdating }: TreeNodeComponentProps)
     switch (node.type) {
       case 'root':
         return <Server className="w-4 h-4 text-primary-500" />;
+      case 'site':
+        return <Building2 className="w-4 h-4 text-violet-500" />;
+      case 'zone':
+        return <Layers className="w-4 h-4 text-sky-500" />;
       case 'sensor':
         return <Radio className={cn(
           'w-4 h-4',
-          node.isActive ? 'text-green-500' : 'text-slate-400'
+          !node.isActive ? 'text-slate-400' :
+          node.presence === 'offline' ? 'text-red-500' :
+          'text-green-500'
         )} />;
       case 'reading':
         return <Activity className="w-4 h-4 text-blue-500" />;
       case 'data':
-        return getDataIcon(node.name);
+        return (
+          <MeasurementIcon
+            icon={measurementFields.find((f) => f.name === node.name)?.icon}
+            className="w-4 h-4 text-amber-500"
+          />
+        );
       default:
         return <Leaf className="w-4 h-4 text-slate-400" />;
     }
@@ -198,6 +224,10 @@ function TreeNodeComponent({ node, level, isUpdating }: TreeNodeComponentProps)
     switch (node.type) {
       case 'root':
         return 'bg-primary-50 dark:bg-primary-900/20';
+      case 'site':
+        return 'bg-violet-50 dark:bg-violet-900/20';
+      case 'zone':
+        return 'bg-sky-50 dark:bg-sky-900/20';
       case 'sensor':
         return 'bg-green-50 dark:bg-green-900/20';
       case 'reading':
@@ -241,17 +271,33 @@ function TreeNodeComponent({ node, level, isUpdating }: TreeNodeComponentProps)
         <span className={cn(
           'font-medium',
           node.type === 'root' ? 'text-primary-700 dark:text-primary-400' :
+          node.type === 'site' ? 'text-violet-700 dark:text-violet-400' :
+          node.type === 'zone' ? 'text-sky-700 dark:text-sky-400' :
           node.type === 'sensor' ? 'text-green-700 dark:text-green-400' :
           node.type === 'reading' ? 'text-blue-700 dark:text-blue-400' :
           'text-slate-700 dark:text-slate-300'
         )}>
-          {node.name}
+          {/* IoT sensors open their detail page; the weather API node has none */}
+          {node.type === 'sensor' && node.sensorId && node.sensorId !== 'weather-api' ? (
+            <Link
+              href={`/sensors/${encodeURIComponent(node.sensorId)}`}
+              onClick={(event) => {
+                event.stopPropagation();
+                setSelectedSensor(sensors.find((s) => s.sensorId === node.sensorId) ?? null);
+              }}
+              className="hover:underline"
+            >
+              {node.name}
+            </Link>
+          ) : (
+            node.name
+          )}
         </span>
 
         {/* Value (for data nodes) */}
         {node.type === 'data' && node.value !== undefined && (
           <span className="ml-2 px-2 py-0.5 bg-slate-200 dark:bg-slate-700 rounded text-sm font-mono">
-            {node.value} {node.unit}
+            {formatDataValue(node, unitSystem, windUnits)} {getUnit(node.unit ?? '', unitSystem, windUnits)}
           </span>
         )}
 
@@ -262,12 +308,28 @@ function TreeNodeComponent({ node, level, isUpdating }: TreeNodeComponentProps)
           </span>
         )}
 
+        {/* Roll-up Counts */}
+        {node.status && <StatusCounts status={node.status} />}
+
+        {/* Alerting */}
+        {node.type === 'sensor' && node.alerting && (
+          <span title="Unresolved alert">
+            <AlertTriangle className="w-4 h-4 text-amber-500" />
+          </span>
+        )}
+
         {/* Active Status */}
         {node.type === 'sensor' && node.isActive !== undefined && (
-          <span className={cn(
-            'w-2 h-2 rounded-full ml-auto',
-            node.isActive ? 'bg-green-500' : 'bg-slate-400'
-          )} />
+          <span
+            title={node.isActive ? node.presence ?? 'unknown' : 'inactive'}
+            className={cn(
+              'w-2 h-2 rounded-full ml-auto',
+              !node.isActive ? 'bg-slate-400' :
+              node.presence === 'offline' ? 'bg-red-500' :
+              node.presence === 'online' ? 'bg-green-500' :
+              'bg-slate-300'
+            )}
+          />
         )}
 
         {/* Timestamp */}
@@ -307,21 +369,33 @@ function TreeNodeComponent({ node, level, isUpdating }: TreeNodeComponentProps)
   );
 }
 
-// Helper function to get data-specific icons
-function getDataIcon(name: string) {
-  switch (name.toLowerCase()) {
-    case 'temperature':
-      return <Thermometer className="w-4 h-4 text-red-500" />;
-    case 'humidity':
-      return <Droplets className="w-4 h-4 text-blue-500" />;
-    case 'pressure':
-      return <Gauge className="w-4 h-4 text-purple-500" />;
-    case 'windspeed':
-    case 'winddirection':
-      return <Wind className="w-4 h-4 text-cyan-500" />;
-    default:
-      return <Activity className="w-4 h-4 text-amber-500" />;
-  }
+// Tree data values arrive formatted in metric; convert numeric ones for display
+function formatDataValue(node: TreeNode, system: UnitSystem, windUnits: WindUnit | null) {
+  const value = Number(node.value);
+  if (typeof node.value !== 'string' || !node.unit || Number.isNaN(value)) return node.value;
+  const decimals = node.value.split('.')[1]?.length ?? 0;
+  return formatNumber(value, decimals, node.unit, system, windUnits);
+}
+
+// Roll-up sensor counts for site, zone and root nodes
+function StatusCounts({ status }: { status: NodeStatus }) {
+  return (
+    <span className="ml-auto flex items-center space-x-1.5 text-xs">
+      <span className="px-2 py-0.5 rounded bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
+        {status.active}/{status.total} active
+      </span>
+      {status.offline > 0 && (
+        <span className="px-2 py-0.5 rounded bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400">
+          {status.offline} offline
+        </span>
+      )}
+      {status.alerting > 0 && (
+        <span className="px-2 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">
+          {status.alerting} alerting
+        </span>
+      )}
+    </span>
+  );
 }
 
 // Legend Item Component
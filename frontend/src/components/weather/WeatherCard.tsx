@@ -1,8 +1,8 @@
 'use client';
 
 import { Card, CardContent } from '@/components/ui/Card';
-import { cn, formatNumber, formatTime, getWindDirection } from '@/lib/utils';
-import { WEATHER_CODES, CurrentWeather } from '@/types';
+import { cn, formatNumber, formatTime, getUnit, getWindDirection } from '@/lib/utils';
+import { WEATHER_CODES, CurrentWeather, UnitSystem, WindUnit } from '@/types';
 import { 
   Thermometer, 
   Wind, 
@@ -18,9 +18,17 @@ interface WeatherCardProps {
   weather: CurrentWeather;
   className?: string;
   isUpdating?: boolean;
+  unitSystem?: UnitSystem;
+  windUnits?: WindUnit | null;
 }
 
-export function WeatherCard({ weather, className, isUpdating }: WeatherCardProps) {
+export function WeatherCard({
+  weather,
+  className,
+  isUpdating,
+  unitSystem = 'metric',
+  windUnits = null,
+}: WeatherCardProps) {
   const weatherInfo = WEATHER_CODES[weather.weathercode] || { 
     description: 'Unknown', 
     icon: '❓' 
@@ -39,9 +47,9 @@ export function WeatherCard({ weather, className, isUpdating }: WeatherCardProps
             </div>
             <div className="flex items-baseline space-x-2">
               <span className="text-6xl font-bold">
-                {formatNumber(weather.temperature, 0)}
+                {formatNumber(weather.temperature, 0, '°C', unitSystem)}
               </span>
-              <span className="text-3xl">°C</span>
+              <span className="text-3xl">{getUnit('°C', unitSystem)}</span>
             </div>
             <p className="text-primary-100 mt-2 text-lg">
               {weatherInfo.description}
@@ -76,7 +84,7 @@ export function WeatherCard({ weather, className, isUpdating }: WeatherCardProps
             <div>
               <p className="text-xs text-slate-500 dark:text-slate-400">Wind Speed</p>
               <p className="text-lg font-semibold text-slate-900 dark:text-white">
-                {formatNumber(weather.windspeed)} km/h
+                {formatNumber(weather.windspeed, 1, 'km/h', unitSystem, windUnits)} {getUnit('km/h', unitSystem, windUnits)}
               </p>
             </div>
           </div>
@@ -107,7 +115,7 @@ export function WeatherCard({ weather, className, isUpdating }: WeatherCardProps
             <div>
               <p className="text-xs text-slate-500 dark:text-slate-400">Elevation</p>
               <p className="text-lg font-semibold text-slate-900 dark:text-white">
-                {weather.elevation} m
+                {formatNumber(weather.elevation, 0, 'm', unitSystem)} {getUnit('m', unitSystem)}
               </p>
             </div>
           </div>
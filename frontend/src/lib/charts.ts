@@ -0,0 +1,78 @@
+/**
+ * Chart helpers
+ * Time ranges and chart series for the sensor detail page
+ */
+
+import type { AggregationBucket, AggregationInterval, IoTReading } from '@/types';
+
+const HOUR = 60 * 60 * 1000;
+
+export type TimeRangeKey = '1h' | '6h' | '24h' | '7d' | '30d';
+
+// Each range uses the finest interval that keeps charts to a few hundred points
+export const TIME_RANGES: { value: TimeRangeKey; label: string; ms: number; interval: AggregationInterval }[] = [
+  { value: '1h', label: '1H', ms: HOUR, interval: '1m' },
+  { value: '6h', label: '6H', ms: 6 * HOUR, interval: '5m' },
+  { value: '24h', label: '24H', ms: 24 * HOUR, interval: '5m' },
+  { value: '7d', label: '7D', ms: 7 * 24 * HOUR, interval: '1h' },
+  { value: '30d', label: '30D', ms: 30 * 24 * HOUR, interval: '1h' },
+];
+
+export interface ResolvedTimeRange {
+  from: string;
+  to: string;
+  hours: number;
+  interval: AggregationInterval;
+}
+
+export interface ChartPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Absolute bounds and bucket interval of a time range ending now
+ */
+export function resolveTimeRange(key: TimeRangeKey, now: Date = new Date()): ResolvedTimeRange {
+  const range = TIME_RANGES.find((r) => r.value === key) ?? TIME_RANGES[2];
+
+  return {
+    from: new Date(now.getTime() - range.ms).toISOString(),
+    to: now.toISOString(),
+    hours: range.ms / HOUR,
+    interval: range.interval,
+  };
+}
+
+/**
+ * Average, minimum and maximum lines of aggregated buckets, skipping empty buckets
+ */
+export function bucketSeries(
+  buckets: AggregationBucket[],
+  convert: (value: number) => number = (value) => value
+): { avg: ChartPoint[]; min: ChartPoint[]; max: ChartPoint[] } {
+  const series = (key: 'avg' | 'min' | 'max') =>
+    buckets
+      .filter((bucket) => typeof bucket[key] === 'number')
+      .map((bucket) => ({ x: new Date(bucket.timestamp).getTime(), y: convert(bucket[key] as number) }));
+
+  return { avg: series('avg'), min: series('min'), max: series('max') };
+}
+
+/**
+ * Points for the anomalous readings that carry a value for the field, oldest first
+ */
+export function anomalyPoints(
+  readings: IoTReading[],
+  field: string,
+  convert: (value: number) => number = (value) => value
+): (ChartPoint & { reason?: string })[] {
+  return readings
+    .filter((reading) => typeof reading.data[field] === 'number')
+    .map((reading) => ({
+      x: new Date(reading.timestamp).getTime(),
+      y: convert(reading.data[field] as number),
+      reason: reading.anomalyReason,
+    }))
+    .sort((a, b) => a.x - b.x);
+}
@@ -0,0 +1,225 @@
+/**
+ * Map helpers
+ * Web Mercator projection, tile layout and marker colouring for the map view
+ */
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 2;
+export const MAX_ZOOM = 17;
+
+// Web Mercator is undefined at the poles
+const MAX_LATITUDE = 85.05112878;
+
+export interface LonLat {
+  longitude: number;
+  latitude: number;
+}
+
+export interface MapViewport {
+  center: LonLat;
+  zoom: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Tile {
+  x: number;
+  y: number;
+  z: number;
+  left: number;
+  top: number;
+  size: number;
+}
+
+export type Geometry =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] }
+  | { type: 'LineString'; coordinates: number[][] }
+  | { type: 'MultiLineString'; coordinates: number[][][] };
+
+// Pretoria, framing most of South Africa's north-east
+export const DEFAULT_VIEWPORT: MapViewport = { center: { longitude: 28.19, latitude: -25.75 }, zoom: 6 };
+
+/**
+ * Project a location to world pixel coordinates at a zoom level
+ */
+export function project({ longitude, latitude }: LonLat, zoom: number): Point {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * Math.PI) / 180);
+
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * Location at world pixel coordinates at a zoom level
+ */
+export function unproject({ x, y }: Point, zoom: number): LonLat {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+
+  return {
+    longitude: (x / scale) * 360 - 180,
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+  };
+}
+
+/**
+ * Screen position of a location within a viewport of the given size
+ */
+export function toScreen(location: LonLat, viewport: MapViewport, width: number, height: number): Point {
+  const point = project(location, viewport.zoom);
+  const center = project(viewport.center, viewport.zoom);
+
+  return { x: point.x - center.x + width / 2, y: point.y - center.y + height / 2 };
+}
+
+/**
+ * Clamp a zoom level to the supported range
+ */
+export function clampZoom(zoom: number): number {
+  return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+}
+
+/**
+ * Viewport that shows every location with some padding around the edges
+ */
+export function fitBounds(
+  locations: LonLat[],
+  width: number,
+  height: number,
+  padding: number = 48,
+  fallback: MapViewport = DEFAULT_VIEWPORT
+): MapViewport {
+  if (locations.length === 0) return fallback;
+
+  const points = locations.map((location) => project(location, 0));
+  const minX = Math.min(...points.map((p) => p.x));
+  const maxX = Math.max(...points.map((p) => p.x));
+  const minY = Math.min(...points.map((p) => p.y));
+  const maxY = Math.max(...points.map((p) => p.y));
+
+  const spanX = Math.max(maxX - minX, 1e-9);
+  const spanY = Math.max(maxY - minY, 1e-9);
+  const zoom = Math.log2(
+    Math.min(Math.max(width - padding * 2, 1) / spanX, Math.max(height - padding * 2, 1) / spanY)
+  );
+
+  return {
+    center: unproject({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, 0),
+    // A single sensor would otherwise zoom to street level
+    zoom: clampZoom(Math.min(zoom, 14)),
+  };
+}
+
+/**
+ * Tiles covering a viewport, with their screen position and size
+ * Fractional zoom levels scale the tiles of the zoom level below.
+ */
+export function visibleTiles(viewport: MapViewport, width: number, height: number): Tile[] {
+  const z = Math.floor(viewport.zoom);
+  const size = TILE_SIZE * 2 ** (viewport.zoom - z);
+  const center = project(viewport.center, viewport.zoom);
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
+  const count = 2 ** z;
+
+  const tiles: Tile[] = [];
+  for (let x = Math.floor(left / size); x < Math.ceil((left + width) / size); x++) {
+    for (let y = Math.max(0, Math.floor(top / size)); y < Math.min(count, Math.ceil((top + height) / size)); y++) {
+      tiles.push({
+        // Wrap around the antimeridian
+        x: ((x % count) + count) % count,
+        y,
+        z,
+        left: x * size - left,
+        top: y * size - top,
+        size,
+      });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Fill an XYZ tile URL template such as `http://localhost:8080/tiles/{z}/{x}/{y}.png`
+ */
+export function tileUrl(template: string, tile: Pick<Tile, 'x' | 'y' | 'z'>): string {
+  return template
+    .replace('{z}', String(tile.z))
+    .replace('{x}', String(tile.x))
+    .replace('{y}', String(tile.y));
+}
+
+const DRAWABLE_TYPES = new Set<string>(['Polygon', 'MultiPolygon', 'LineString', 'MultiLineString']);
+
+/**
+ * Geometries of a GeoJSON basemap that can be drawn as outlines
+ * Accepts a FeatureCollection, a Feature or a bare geometry; points, empty
+ * features and unknown types are skipped and collections are flattened.
+ */
+export function basemapGeometries(geojson: unknown): Geometry[] {
+  const value = geojson as { type?: string; features?: unknown[]; geometry?: unknown; geometries?: unknown[] } | null;
+  if (!value || typeof value !== 'object') return [];
+
+  switch (value.type) {
+    case 'FeatureCollection':
+      return (value.features ?? []).flatMap(basemapGeometries);
+    case 'Feature':
+      return basemapGeometries(value.geometry);
+    case 'GeometryCollection':
+      return (value.geometries ?? []).flatMap(basemapGeometries);
+    default:
+      return DRAWABLE_TYPES.has(value.type ?? '') ? [value as Geometry] : [];
+  }
+}
+
+/**
+ * SVG path data for a GeoJSON geometry in screen coordinates
+ */
+export function geometryPath(geometry: Geometry, toPoint: (location: LonLat) => Point): string {
+  const line = (positions: number[][], close: boolean) =>
+    positions
+      .map(([longitude, latitude], i) => {
+        const { x, y } = toPoint({ longitude, latitude });
+        return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join('') + (close ? 'Z' : '');
+
+  switch (geometry.type) {
+    case 'Polygon':
+      return geometry.coordinates.map((ring) => line(ring, true)).join('');
+    case 'MultiPolygon':
+      return geometry.coordinates.flatMap((polygon) => polygon.map((ring) => line(ring, true))).join('');
+    case 'LineString':
+      return line(geometry.coordinates, false);
+    case 'MultiLineString':
+      return geometry.coordinates.map((positions) => line(positions, false)).join('');
+  }
+}
+
+/**
+ * Range of a field for colouring: the observed values, or the catalog's valid
+ * range when every sensor reports the same value
+ */
+export function valueRange(values: number[], field?: { min?: number; max?: number }): [number, number] | null {
+  if (values.length === 0) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max > min || field?.min === undefined || field?.max === undefined) return [min, max];
+  return [field.min, field.max];
+}
+
+/**
+ * Marker colour for a value, from blue (low) through green to red (high)
+ */
+export function valueColor(value: number, [min, max]: [number, number]): string {
+  const ratio = max > min ? Math.max(0, Math.min(1, (value - min) / (max - min))) : 0.5;
+  return `hsl(${Math.round(240 * (1 - ratio))}, 75%, 50%)`;
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { UnitSystem, WindUnit } from '@/types';
 
 /**
  * Merge class names with Tailwind CSS conflict resolution
@@ -8,11 +9,75 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+/**
+ * Conversions from each metric unit, matching the backend's unit systems
+ */
+const UNIT_CONVERSIONS: Record<string, Partial<Record<UnitSystem, { unit: string; convert: (value: number) => number }>>> = {
+  '°C': {
+    imperial: { unit: '°F', convert: (value) => value * 9 / 5 + 32 },
+    si: { unit: 'K', convert: (value) => value + 273.15 },
+  },
+  'km/h': {
+    imperial: { unit: 'mph', convert: (value) => value / 1.609344 },
+    si: { unit: 'm/s', convert: (value) => value / 3.6 },
+  },
+  hPa: {
+    imperial: { unit: 'inHg', convert: (value) => value / 33.8639 },
+    si: { unit: 'Pa', convert: (value) => value * 100 },
+  },
+  m: {
+    imperial: { unit: 'ft', convert: (value) => value / 0.3048 },
+  },
+};
+
+/**
+ * Conversions from km/h to each wind unit, matching the backend's `windUnits`
+ */
+const WIND_CONVERSIONS: Record<WindUnit, { unit: string; convert: (value: number) => number }> = {
+  'km/h': { unit: 'km/h', convert: (value) => value },
+  mph: { unit: 'mph', convert: (value) => value / 1.609344 },
+  'm/s': { unit: 'm/s', convert: (value) => value / 3.6 },
+  kn: { unit: 'kn', convert: (value) => value / 1.852 },
+};
+
+// A chosen wind unit takes precedence over the unit system for speeds
+function conversionFor(unit: string | undefined, system: UnitSystem, windUnits?: WindUnit | null) {
+  if (unit === 'km/h' && windUnits) return WIND_CONVERSIONS[windUnits];
+  return unit ? UNIT_CONVERSIONS[unit]?.[system] : undefined;
+}
+
+/**
+ * Convert a value in a metric unit to the unit system (or wind unit, for speeds)
+ */
+export function convertValue(
+  value: number,
+  unit?: string,
+  system: UnitSystem = 'metric',
+  windUnits?: WindUnit | null
+): number {
+  const conversion = conversionFor(unit, system, windUnits);
+  return conversion ? conversion.convert(value) : value;
+}
+
 /**
  * Format a number with specified decimal places
+ * When a metric unit is given, the value is converted to the unit system first.
+ */
+export function formatNumber(
+  value: number,
+  decimals: number = 1,
+  unit?: string,
+  system: UnitSystem = 'metric',
+  windUnits?: WindUnit | null
+): string {
+  return convertValue(value, unit, system, windUnits).toFixed(decimals);
+}
+
+/**
+ * Get the display unit for a metric unit in the given unit system
  */
-export function formatNumber(value: number, decimals: number = 1): string {
-  return value.toFixed(decimals);
+export function getUnit(unit: string, system: UnitSystem = 'metric', windUnits?: WindUnit | null): string {
+  return conversionFor(unit, system, windUnits)?.unit ?? unit;
 }
 
 /**
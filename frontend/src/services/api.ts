@@ -3,15 +3,30 @@
  * Handles all HTTP requests to the backend API
  */
 
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import type { 
   CurrentWeather, 
   Sensor, 
+  SensorStatistics,
+  SensorCommand,
+  SensorCommandType,
   IoTReading, 
   TreeNode,
+  AggregationBucket,
+  AggregationInterval,
+  AggregationFunction,
+  MeasurementField,
+  UnitSystem,
+  WindUnit,
+  ExportOptions,
   APIResponse,
   PaginatedResponse,
-  HealthStatus
+  HealthStatus,
+  AuthTokens,
+  UserSession,
+  User,
+  UserRole,
+  UserQuery
 } from '@/types';
 
 /** Use same origin in browser so production (https://iot.ainexim-eoi.co.za) hits /api on same host */
@@ -66,20 +81,58 @@ apiClient.interceptors.request.use(
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    // Measurements are kept in metric, like live WebSocket data, and converted for display
+    config.params = { units: 'metric', windUnits: 'km/h', ...config.params };
     return config;
   },
   (error) => Promise.reject(error)
 );
 
+/** Keep a token pair from login, registration or refresh */
+function storeTokens(tokens: AuthTokens): void {
+  localStorage.setItem('authToken', tokens.accessToken);
+  localStorage.setItem('refreshToken', tokens.refreshToken);
+}
+
+function clearTokens(): void {
+  localStorage.removeItem('authToken');
+  localStorage.removeItem('refreshToken');
+}
+
+// Refresh tokens are single-use, so concurrent 401s share one refresh
+let refreshing: Promise<boolean> | null = null;
+
+async function refreshTokens(): Promise<boolean> {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) return false;
+
+  try {
+    const response = await axios.post(`${getApiBaseUrl()}/auth/refresh`, { refreshToken });
+    storeTokens(response.data.data.tokens);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 // Response interceptor for error handling
 apiClient.interceptors.response.use(
   (response) => response,
-  (error: AxiosError) => {
-    if (error.response?.status === 401) {
-      // Handle unauthorized - clear token and redirect
-      if (typeof window !== 'undefined') {
-        localStorage.removeItem('authToken');
+  async (error: AxiosError) => {
+    const request = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+    if (error.response?.status === 401 && typeof window !== 'undefined') {
+      // Try once with a refreshed access token before giving up on the session
+      if (request && !request._retried && localStorage.getItem('refreshToken')) {
+        request._retried = true;
+        refreshing = refreshing ?? refreshTokens().finally(() => {
+          refreshing = null;
+        });
+        if (await refreshing) return apiClient(request);
       }
+
+      // Handle unauthorized - clear tokens and redirect
+      clearTokens();
     }
     return Promise.reject(error);
   }
@@ -176,11 +229,13 @@ export const sensorsAPI = {
   async getSensorReadings(
     sensorId: string,
     page: number = 1,
-    limit: number = 50
+    limit: number = 50,
+    from?: string,
+    to?: string
   ): Promise<PaginatedResponse<IoTReading>> {
     const response = await apiClient.get<PaginatedResponse<IoTReading>>(
       `/sensors/${sensorId}/readings`,
-      { params: { page, limit } }
+      { params: { page, limit, from, to } }
     );
     return response.data;
   },
@@ -188,11 +243,41 @@ export const sensorsAPI = {
   /**
    * Get sensor statistics
    */
-  async getSensorStatistics(sensorId: string, hours: number = 24) {
-    const response = await apiClient.get(`/sensors/${sensorId}/statistics`, {
+  async getSensorStatistics(sensorId: string, hours: number = 24): Promise<SensorStatistics> {
+    const response = await apiClient.get<APIResponse<SensorStatistics>>(`/sensors/${sensorId}/statistics`, {
       params: { hours }
     });
     return response.data.data;
+  },
+
+  /**
+   * Send a command to a sensor (Admin)
+   */
+  async sendCommand(
+    sensorId: string,
+    type: SensorCommandType,
+    params?: Record<string, unknown>
+  ): Promise<SensorCommand> {
+    const response = await apiClient.post<APIResponse<SensorCommand>>(
+      `/sensors/${sensorId}/commands`,
+      { type, params }
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Get commands sent to a sensor
+   */
+  async getCommands(
+    sensorId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedResponse<SensorCommand>> {
+    const response = await apiClient.get<PaginatedResponse<SensorCommand>>(
+      `/sensors/${sensorId}/commands`,
+      { params: { page, limit } }
+    );
+    return response.data;
   }
 };
 
@@ -215,6 +300,38 @@ export const iotAPI = {
     return response.data;
   },
 
+  /**
+   * Get time-bucketed aggregates of a reading field
+   */
+  async getAggregatedReadings(
+    sensorId: string,
+    field: string,
+    interval: AggregationInterval = '1h',
+    from?: string,
+    to?: string,
+    fns: AggregationFunction[] = ['avg', 'min', 'max', 'count']
+  ): Promise<AggregationBucket[]> {
+    const response = await apiClient.get<APIResponse<AggregationBucket[]>>('/iot/readings/aggregate', {
+      params: { sensorId, field, interval, from, to, fn: fns.join(',') }
+    });
+    return response.data.data;
+  },
+
+  /**
+   * Get readings flagged as anomalous
+   */
+  async getAnomalies(
+    sensorId?: string,
+    from?: string,
+    to?: string,
+    limit: number = 100
+  ): Promise<PaginatedResponse<IoTReading>> {
+    const response = await apiClient.get<PaginatedResponse<IoTReading>>('/iot/anomalies', {
+      params: { sensorId, from, to, limit }
+    });
+    return response.data;
+  },
+
   /**
    * Get latest readings for all sensors
    */
@@ -250,6 +367,38 @@ export const iotAPI = {
     return response.data.data;
   },
 
+  /**
+   * Get the measurement catalog (units, types, ranges, display hints)
+   */
+  async getFields(): Promise<MeasurementField[]> {
+    const response = await apiClient.get<APIResponse<MeasurementField[]>>('/iot/fields');
+    return response.data.data;
+  },
+
+  /**
+   * Download a reading export with the signed-in user's credentials
+   * Returns the file and the name the API gave it.
+   */
+  async downloadExport(options: ExportOptions): Promise<{ blob: Blob; filename: string }> {
+    const response = await apiClient.get<Blob>('/iot/export', {
+      params: {
+        format: options.format,
+        sensorIds: options.sensorIds?.length ? options.sensorIds.join(',') : undefined,
+        fields: options.fields?.length ? options.fields.join(',') : undefined,
+        from: options.from,
+        to: options.to,
+        units: options.units,
+        // Without a wind unit the API follows the user's preference
+        windUnits: options.windUnits ?? undefined,
+      },
+      responseType: 'blob',
+    });
+
+    const disposition = String(response.headers['content-disposition'] ?? '');
+    const filename = /filename="?([^";]+)"?/.exec(disposition)?.[1] ?? `readings.${options.format}`;
+    return { blob: response.data, filename };
+  },
+
   /**
    * Get IoT data as tree structure
    */
@@ -291,6 +440,7 @@ export const authAPI = {
    */
   async login(email: string, password: string) {
     const response = await apiClient.post('/auth/login', { email, password });
+    storeTokens(response.data.data.tokens);
     return response.data;
   },
 
@@ -299,6 +449,7 @@ export const authAPI = {
    */
   async register(username: string, email: string, password: string) {
     const response = await apiClient.post('/auth/register', { username, email, password });
+    storeTokens(response.data.data.tokens);
     return response.data;
   },
 
@@ -310,12 +461,86 @@ export const authAPI = {
     return response.data;
   },
 
+  /**
+   * Save the unit system preference
+   */
+  async updateUnits(units: UnitSystem) {
+    const response = await apiClient.put('/auth/profile', { preferences: { units } });
+    return response.data;
+  },
+
+  /**
+   * Save the wind unit preference (null follows the unit system)
+   */
+  async updateWindUnits(windUnits: WindUnit | null) {
+    const response = await apiClient.put('/auth/profile', { preferences: { windUnits } });
+    return response.data;
+  },
+
+  /**
+   * List the signed-in user's active sessions
+   */
+  async getSessions(): Promise<APIResponse<UserSession[]>> {
+    const response = await apiClient.get('/auth/sessions');
+    return response.data;
+  },
+
+  /**
+   * Sign out another session
+   */
+  async revokeSession(sessionId: string) {
+    const response = await apiClient.delete(`/auth/sessions/${sessionId}`);
+    return response.data;
+  },
+
   /**
    * Logout
    */
   async logout() {
     const response = await apiClient.post('/auth/logout');
-    localStorage.removeItem('authToken');
+    clearTokens();
+    return response.data;
+  }
+};
+
+// =====================
+// Users API (admin)
+// =====================
+
+export const usersAPI = {
+  /**
+   * List users, optionally searched by username/email and filtered by role and status
+   */
+  async getUsers(query: UserQuery = {}): Promise<PaginatedResponse<User>> {
+    const response = await apiClient.get<PaginatedResponse<User>>('/users', {
+      params: { ...query, search: query.search || undefined }
+    });
+    return response.data;
+  },
+
+  /**
+   * Change a user's role
+   */
+  async setRole(id: string, role: UserRole): Promise<User> {
+    const response = await apiClient.patch<APIResponse<User>>(`/users/${id}/role`, { role });
+    return response.data.data;
+  },
+
+  /**
+   * Activate or deactivate a user; deactivation signs them out everywhere
+   */
+  async setActive(id: string, isActive: boolean): Promise<User> {
+    const response = await apiClient.patch<APIResponse<User>>(
+      `/users/${id}/${isActive ? 'activate' : 'deactivate'}`
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Delete a user
+   */
+  async deleteUser(id: string) {
+    const response = await apiClient.delete(`/users/${id}`);
     return response.data;
   }
 };
@@ -5,7 +5,14 @@
  */
 
 import { io, Socket } from 'socket.io-client';
-import type { IoTReadingEvent, WeatherUpdateEvent } from '@/types';
+import type {
+  IoTReadingBatchEvent,
+  IoTReadingEvent,
+  SensorCommand,
+  SensorPresenceEvent,
+  SubscriptionFilter,
+  WeatherUpdateEvent,
+} from '@/types';
 
 // In browser: use current origin so production always gets wss on same host. Localhost can override via env.
 function getWsUrl(): string {
@@ -31,6 +38,10 @@ class WebSocketService {
   private listeners: Map<string, Set<EventHandler<unknown>>> = new Map();
   private connectionStatusListeners: Set<(status: ConnectionStatus) => void> = new Set();
   private connectTimeoutMs = 8000;
+  // Rooms to rejoin after a reconnect, since the server forgets them
+  private sensorSubscriptions: Set<string> = new Set();
+  private allSubscription: SubscriptionFilter | null = null;
+  private weatherSubscription = false;
 
   private setStatus(status: ConnectionStatus): void {
     this.connectionStatusListeners.forEach((cb) => {
@@ -73,12 +84,15 @@ class WebSocketService {
         reconnectionDelay: 1500,
         reconnectionDelayMax: 8000,
         timeout: 10000,
+        // Signed-in users receive their organisation's events; read on every (re)connect
+        auth: (cb) => cb({ token: localStorage.getItem('authToken') ?? undefined }),
       });
 
       this.socket.on('connect', () => {
         clearTimeout(timeoutId);
         this.reconnectAttempts = 0;
         this.setupEventHandlers();
+        this.resubscribe();
         this.setStatus('connected');
         resolve();
       });
@@ -121,6 +135,11 @@ class WebSocketService {
       this.emit('iot:reading', data);
     });
 
+    // Handle batch uploads from gateways
+    this.socket.on('iot:readings', (data: IoTReadingBatchEvent) => {
+      this.emit('iot:readings', data);
+    });
+
     // Handle weather update events
     this.socket.on('weather:update', (data: WeatherUpdateEvent) => {
       this.emit('weather:update', data);
@@ -131,6 +150,26 @@ class WebSocketService {
       this.emit('sensor:status', data);
     });
 
+    // Handle sensor presence transitions
+    this.socket.on('sensor:online', (data: SensorPresenceEvent) => {
+      this.emit('sensor:online', data);
+    });
+
+    this.socket.on('sensor:offline', (data: SensorPresenceEvent) => {
+      this.emit('sensor:offline', data);
+    });
+
+    // Handle sensor command state changes
+    this.socket.on('command:updated', (data: SensorCommand) => {
+      this.emit('command:updated', data);
+    });
+
+    // Handle rejected subscription filters
+    this.socket.on('subscription:error', (data: { error: string }) => {
+      console.warn('Subscription rejected:', data.error);
+      this.emit('subscription:error', data);
+    });
+
     // Handle pong for latency check
     this.socket.on('pong', (data) => {
       this.emit('pong', data);
@@ -146,12 +185,25 @@ class WebSocketService {
       this.socket = null;
     }
     this.listeners.clear();
+    this.sensorSubscriptions.clear();
+    this.allSubscription = null;
+    this.weatherSubscription = false;
+  }
+
+  /**
+   * Rejoin the rooms this client had subscribed to
+   */
+  private resubscribe(): void {
+    this.sensorSubscriptions.forEach((sensorId) => this.socket?.emit('subscribe:sensor', sensorId));
+    if (this.weatherSubscription) this.socket?.emit('subscribe:weather');
+    if (this.allSubscription) this.socket?.emit('subscribe:all', this.allSubscription);
   }
 
   /**
    * Subscribe to a sensor's updates
    */
   subscribeSensor(sensorId: string): void {
+    this.sensorSubscriptions.add(sensorId);
     this.socket?.emit('subscribe:sensor', sensorId);
   }
 
@@ -159,6 +211,7 @@ class WebSocketService {
    * Unsubscribe from a sensor's updates
    */
   unsubscribeSensor(sensorId: string): void {
+    this.sensorSubscriptions.delete(sensorId);
     this.socket?.emit('unsubscribe:sensor', sensorId);
   }
 
@@ -166,14 +219,24 @@ class WebSocketService {
    * Subscribe to weather updates
    */
   subscribeWeather(): void {
+    this.weatherSubscription = true;
     this.socket?.emit('subscribe:weather');
   }
 
   /**
-   * Subscribe to all updates
+   * Subscribe to all updates, optionally narrowed by sensor type, site or field
+   */
+  subscribeAll(filter: SubscriptionFilter = {}): void {
+    this.allSubscription = filter;
+    this.socket?.emit('subscribe:all', filter);
+  }
+
+  /**
+   * Unsubscribe from all updates
    */
-  subscribeAll(): void {
-    this.socket?.emit('subscribe:all');
+  unsubscribeAll(): void {
+    this.allSubscription = null;
+    this.socket?.emit('unsubscribe:all');
   }
 
   /**
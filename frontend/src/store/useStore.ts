@@ -10,13 +10,21 @@ import type {
   Sensor, 
   TreeNode, 
   ViewMode,
-  IoTReadingEvent
+  IoTReadingEvent,
+  SensorPresenceEvent,
+  MeasurementField,
+  UnitSystem,
+  WindUnit
 } from '@/types';
 
 interface AppState {
   // View state
   viewMode: ViewMode;
   setViewMode: (mode: ViewMode) => void;
+  unitSystem: UnitSystem;
+  setUnitSystem: (system: UnitSystem) => void;
+  windUnits: WindUnit | null;
+  setWindUnits: (windUnits: WindUnit | null) => void;
   
   // Weather state
   currentWeather: CurrentWeather | null;
@@ -31,6 +39,7 @@ interface AppState {
   setSensors: (sensors: Sensor[]) => void;
   selectedSensor: Sensor | null;
   setSelectedSensor: (sensor: Sensor | null) => void;
+  updateSensorPresence: (event: SensorPresenceEvent) => void;
   
   // IoT Readings state
   latestReadings: IoTReading[];
@@ -41,6 +50,10 @@ interface AppState {
   treeData: TreeNode | null;
   setTreeData: (data: TreeNode | null) => void;
   
+  // Measurement catalog state
+  measurementFields: MeasurementField[];
+  setMeasurementFields: (fields: MeasurementField[]) => void;
+  
   // Connection state
   isConnected: boolean;
   setConnected: (connected: boolean) => void;
@@ -63,6 +76,8 @@ interface AppState {
 
 const initialState = {
   viewMode: 'grid' as ViewMode,
+  unitSystem: 'metric' as UnitSystem,
+  windUnits: null as WindUnit | null,
   currentWeather: null,
   isLoadingWeather: false,
   weatherError: null,
@@ -70,6 +85,7 @@ const initialState = {
   selectedSensor: null,
   latestReadings: [],
   treeData: null,
+  measurementFields: [],
   isConnected: false,
   connectionStatus: 'idle' as const,
   lastUpdateTime: null,
@@ -83,6 +99,22 @@ export const useStore = create<AppState>((set, get) => ({
   
   // View actions
   setViewMode: (mode) => set({ viewMode: mode }),
+  setUnitSystem: (system) => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('unitSystem', system);
+    }
+    set({ unitSystem: system });
+  },
+  setWindUnits: (windUnits) => {
+    if (typeof window !== 'undefined') {
+      if (windUnits) {
+        localStorage.setItem('windUnits', windUnits);
+      } else {
+        localStorage.removeItem('windUnits');
+      }
+    }
+    set({ windUnits });
+  },
   
   // Weather actions
   setCurrentWeather: (weather) => set({ 
@@ -95,6 +127,18 @@ export const useStore = create<AppState>((set, get) => ({
   // Sensors actions
   setSensors: (sensors) => set({ sensors }),
   setSelectedSensor: (sensor) => set({ selectedSensor: sensor }),
+  updateSensorPresence: (event) => {
+    const presence = {
+      status: event.status,
+      lastSeenAt: event.lastSeenAt ?? undefined,
+      changedAt: event.timestamp,
+    };
+    set({
+      sensors: get().sensors.map((s) =>
+        s.sensorId === event.sensorId ? { ...s, presence } : s
+      ),
+    });
+  },
   
   // IoT Readings actions
   setLatestReadings: (readings) => set({ latestReadings: readings }),
@@ -111,7 +155,8 @@ export const useStore = create<AppState>((set, get) => ({
       sensorId: reading.sensorId,
       timestamp: reading.timestamp,
       data: reading.data,
-      quality: 'good',
+      quality: reading.quality ?? 'good',
+      isAnomaly: reading.isAnomaly,
       sensor: reading.sensor,
       isSimulated: reading.isSimulated,
     };
@@ -135,6 +180,9 @@ export const useStore = create<AppState>((set, get) => ({
   // Tree data actions
   setTreeData: (data) => set({ treeData: data }),
   
+  // Measurement catalog actions
+  setMeasurementFields: (fields) => set({ measurementFields: fields }),
+  
   // Connection actions
   setConnected: (connected) => set({ isConnected: connected }),
   setConnectionStatus: (status) => set({
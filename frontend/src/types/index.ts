@@ -39,19 +39,59 @@ export interface Sensor {
   name: string;
   type: 'temperature' | 'humidity' | 'pressure' | 'wind' | 'combined';
   location: SensorLocation;
+  site?: string | null;
+  zone?: string | null;
   isActive: boolean;
   lastReading?: string;
+  presence?: SensorPresence;
   configuration?: {
     readingInterval?: number;
     thresholds?: {
       min?: number;
       max?: number;
     };
+    decoder?: {
+      codec: string;
+      options?: Record<string, unknown>;
+    };
+  };
+  decodeErrors?: {
+    count: number;
+    lastError?: string;
+    lastErrorAt?: string;
   };
   createdAt: string;
   updatedAt: string;
 }
 
+export type PresenceStatus = 'online' | 'offline' | 'unknown';
+
+export interface SensorPresence {
+  status: PresenceStatus;
+  lastSeenAt?: string;
+  changedAt?: string;
+}
+
+// Sensor Command Types
+export type SensorCommandType = 'set_config' | 'reboot' | 'calibrate';
+export type SensorCommandStatus = 'queued' | 'sent' | 'acked' | 'failed' | 'timed_out';
+
+export interface SensorCommand {
+  id: string;
+  commandId: string;
+  sensorId: string;
+  type: SensorCommandType;
+  params: Record<string, unknown>;
+  status: SensorCommandStatus;
+  issuedBy?: string;
+  sentAt?: string;
+  respondedAt?: string;
+  result?: Record<string, unknown>;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // IoT Reading Types
 export interface IoTReadingData {
   temperature?: number;
@@ -68,9 +108,14 @@ export interface IoTReading {
   id: string;
   sensorId: string;
   timestamp: string;
+  receivedAt?: string;
+  messageId?: string;
   data: IoTReadingData;
   quality: 'good' | 'fair' | 'poor';
+  qualityIssues?: string[];
   isAnomaly?: boolean;
+  anomalyScore?: number;
+  anomalyReason?: string;
   sensor?: {
     name: string;
     type: string;
@@ -79,13 +124,90 @@ export interface IoTReading {
   isSimulated?: boolean;
 }
 
+// Unit Types
+export type UnitSystem = 'metric' | 'imperial' | 'si';
+export type WindUnit = 'km/h' | 'mph' | 'm/s' | 'kn';
+
+// Measurement Catalog Types
+export type MeasurementDataType = 'number' | 'integer' | 'boolean' | 'string';
+
+export interface MeasurementField {
+  id: string;
+  name: string;
+  label: string;
+  unit: string;
+  dataType: MeasurementDataType;
+  min?: number;
+  max?: number;
+  precision: number;
+  icon: string;
+  description?: string;
+}
+
+// Aggregation Types
+export type AggregationInterval = '1m' | '5m' | '1h' | '1d';
+export type AggregationFunction = 'avg' | 'min' | 'max' | 'count' | 'p95';
+
+export interface AggregationBucket {
+  timestamp: string;
+  avg?: number | null;
+  min?: number | null;
+  max?: number | null;
+  count?: number;
+  p95?: number | null;
+}
+
+// Sensor Statistics Types
+export interface SensorStatistics {
+  sensor: {
+    sensorId: string;
+    name: string;
+    type: string;
+  };
+  statistics: {
+    avgTemperature: number | null;
+    minTemperature: number | null;
+    maxTemperature: number | null;
+    avgHumidity: number | null;
+    count: number;
+  };
+  period: { hours: number };
+  excludePoor: boolean;
+  units: UnitSystem;
+}
+
+// Export Types
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+export interface ExportOptions {
+  sensorIds?: string[];
+  from?: string;
+  to?: string;
+  fields?: string[];
+  format: ExportFormat;
+  units?: UnitSystem;
+  windUnits?: WindUnit | null;
+}
+
 // Tree View Types
+export interface NodeStatus {
+  total: number;
+  active: number;
+  online: number;
+  offline: number;
+  alerting: number;
+}
+
 export interface TreeNode {
+  id?: string;
   name: string;
-  type: 'root' | 'sensor' | 'reading' | 'data';
+  type: 'root' | 'site' | 'zone' | 'sensor' | 'reading' | 'data';
+  status?: NodeStatus;
   sensorId?: string;
   sensorType?: string;
   isActive?: boolean;
+  presence?: PresenceStatus;
+  alerting?: boolean;
   location?: SensorLocation;
   timestamp?: string;
   value?: string | number;
@@ -135,6 +257,8 @@ export interface IoTReadingEvent {
   sensorId: string;
   timestamp: string;
   data: IoTReadingData;
+  quality?: 'good' | 'fair' | 'poor';
+  isAnomaly?: boolean;
   sensor?: {
     name: string;
     type: string;
@@ -143,6 +267,27 @@ export interface IoTReadingEvent {
   isSimulated?: boolean;
 }
 
+// Coalesced broadcast for a batch upload: each sensor's latest reading
+export interface IoTReadingBatchEvent {
+  count: number;
+  readings: IoTReadingEvent[];
+}
+
+// Server-side filter for the all-updates stream
+export interface SubscriptionFilter {
+  types?: string[];
+  sites?: string[];
+  fields?: string[];
+}
+
+export interface SensorPresenceEvent {
+  sensorId: string;
+  status: 'online' | 'offline';
+  reason: 'status' | 'last_will' | 'data' | 'timeout';
+  timestamp: string;
+  lastSeenAt: string | null;
+}
+
 export interface WeatherUpdateEvent {
   temperature: number;
   windspeed: number;
@@ -154,7 +299,7 @@ export interface WeatherUpdateEvent {
 }
 
 // View Mode Types
-export type ViewMode = 'grid' | 'tree';
+export type ViewMode = 'grid' | 'tree' | 'map';
 
 // Health Status Types
 export interface ServiceStatus {
@@ -183,6 +328,47 @@ export interface HealthStatus {
   };
 }
 
+// Auth Types
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+export type UserRole = 'admin' | 'user' | 'viewer';
+
+export interface User {
+  id: string;
+  username: string;
+  email: string;
+  role: UserRole;
+  isActive: boolean;
+  organisation: string;
+  preferences: { units: UnitSystem; windUnits?: WindUnit | null };
+  lastLogin?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserQuery {
+  search?: string;
+  role?: UserRole;
+  isActive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface UserSession {
+  id: string;
+  sessionId: string;
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
 // Weather Code Map
 export const WEATHER_CODES: Record<number, { description: string; icon: string }> = {
   0: { description: 'Clear sky', icon: '☀️' },
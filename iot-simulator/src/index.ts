@@ -14,12 +14,15 @@ dotenv.config();
 // Configuration
 const MQTT_BROKER_URL = process.env.MQTT_BROKER_URL || 'mqtt://localhost:1883';
 const SIMULATION_INTERVAL = parseInt(process.env.SIMULATION_INTERVAL || '5000', 10);
+// Organisation slug the sensors belong to; the backend files their data under it
+const MQTT_NAMESPACE = process.env.MQTT_NAMESPACE || 'csir';
 
 // MQTT Topics
 const TOPICS = {
-  SENSOR_DATA: 'csir/sensors',
-  WEATHER_UPDATE: 'csir/weather/update',
-  SYSTEM_STATUS: 'csir/system/status'
+  SENSOR_DATA: `${MQTT_NAMESPACE}/sensors`,
+  SENSOR_COMMANDS: `${MQTT_NAMESPACE}/sensors/+/commands`,
+  WEATHER_UPDATE: `${MQTT_NAMESPACE}/weather/update`,
+  SYSTEM_STATUS: `${MQTT_NAMESPACE}/system/status`
 };
 
 // Simulated Sensors Configuration
@@ -106,8 +109,27 @@ const SENSORS: SensorConfig[] = [
   }
 ];
 
+// Runtime state per simulated sensor, changed by downlink commands
+interface SensorState {
+  readingInterval: number;
+  timer: NodeJS.Timeout | null;
+  rebooting: boolean;
+  // Calibration error that slowly accumulates until a calibrate command
+  drift: Record<string, number>;
+}
+
+interface SensorCommand {
+  commandId: string;
+  type: string;
+  params?: Record<string, unknown>;
+  responseTopic?: string;
+}
+
+const REBOOT_DURATION = 3000;
+
 // MQTT Client
 let client: MqttClient | null = null;
+const sensorStates = new Map<string, SensorState>();
 
 /**
  * Generate simulated sensor data with realistic variations
@@ -147,6 +169,14 @@ function generateSensorData(sensor: SensorConfig): Record<string, number> {
     data.winddirection = (sensor.baseValues.winddirection + (Math.random() - 0.5) * 30 + 360) % 360;
   }
 
+  // Apply accumulated calibration drift
+  const state = sensorStates.get(sensor.sensorId);
+  if (state) {
+    Object.entries(state.drift).forEach(([field, offset]) => {
+      if (data[field] !== undefined) data[field] += offset;
+    });
+  }
+
   // Add battery and signal strength for realism
   data.battery = 85 + Math.random() * 15;
   data.signal_strength = -50 - Math.random() * 30;
@@ -185,6 +215,109 @@ function publishSensorData(sensor: SensorConfig): void {
   });
 }
 
+/**
+ * Start (or restart) a sensor's publishing loop at its current interval
+ */
+function scheduleSensor(sensor: SensorConfig): void {
+  const state = sensorStates.get(sensor.sensorId)!;
+  if (state.timer) clearInterval(state.timer);
+
+  state.timer = setInterval(() => {
+    if (sensor.baseValues.temperature !== undefined) {
+      state.drift.temperature = (state.drift.temperature || 0) + (Math.random() - 0.4) * 0.02;
+    }
+    publishSensorData(sensor);
+  }, state.readingInterval);
+}
+
+/**
+ * Publish a sensor's online/offline status
+ */
+function publishSensorStatus(sensorId: string, status: 'online' | 'offline', reason?: string): void {
+  client?.publish(`${TOPICS.SENSOR_DATA}/${sensorId}/status`, JSON.stringify({
+    status,
+    ...(reason && { reason }),
+    timestamp: new Date().toISOString()
+  }), { qos: 1 });
+}
+
+/**
+ * Reply to a downlink command on its response topic
+ */
+function respondToCommand(
+  sensorId: string,
+  command: SensorCommand,
+  status: 'acked' | 'failed',
+  details: { result?: Record<string, unknown>; error?: string } = {}
+): void {
+  const topic = command.responseTopic || `${TOPICS.SENSOR_DATA}/${sensorId}/commands/response`;
+  client?.publish(topic, JSON.stringify({
+    commandId: command.commandId,
+    status,
+    ...details,
+    timestamp: new Date().toISOString()
+  }), { qos: 1 });
+  console.log(`[${new Date().toISOString()}] Command ${command.type} for ${sensorId}: ${status}`);
+}
+
+/**
+ * Handle a downlink command addressed to a simulated sensor
+ */
+function handleCommand(sensorId: string, command: SensorCommand): void {
+  const sensor = SENSORS.find(s => s.sensorId === sensorId);
+  const state = sensorStates.get(sensorId);
+  if (!sensor || !state) return;
+
+  if (state.rebooting) {
+    respondToCommand(sensorId, command, 'failed', { error: 'Sensor is rebooting' });
+    return;
+  }
+
+  switch (command.type) {
+    case 'set_config': {
+      const interval = Number(command.params?.readingInterval);
+      if (command.params?.readingInterval !== undefined) {
+        if (!Number.isFinite(interval) || interval < 1000) {
+          respondToCommand(sensorId, command, 'failed', { error: 'Invalid readingInterval' });
+          return;
+        }
+        state.readingInterval = interval;
+        scheduleSensor(sensor);
+      }
+      respondToCommand(sensorId, command, 'acked', {
+        result: { readingInterval: state.readingInterval }
+      });
+      break;
+    }
+
+    case 'reboot':
+      // Acknowledge first, as a real device would before going down
+      respondToCommand(sensorId, command, 'acked');
+      state.rebooting = true;
+      if (state.timer) clearInterval(state.timer);
+      state.timer = null;
+      publishSensorStatus(sensorId, 'offline', 'reboot');
+
+      setTimeout(() => {
+        state.rebooting = false;
+        publishSensorStatus(sensorId, 'online');
+        publishSensorData(sensor);
+        scheduleSensor(sensor);
+      }, REBOOT_DURATION);
+      break;
+
+    case 'calibrate': {
+      const previousDrift = { ...state.drift };
+      state.drift = {};
+      respondToCommand(sensorId, command, 'acked', { result: { previousDrift } });
+      break;
+    }
+
+    default:
+      respondToCommand(sensorId, command, 'failed', { error: `Unsupported command: ${command.type}` });
+  }
+}
+
 /**
  * Publish weather update
  */
@@ -218,7 +351,19 @@ async function connect(): Promise<void> {
       clean: true,
       connectTimeout: 4000,
       reconnectPeriod: 5000,
-      keepalive: 60
+      keepalive: 60,
+      // Broker marks every simulated sensor offline if the simulator drops without shutting down
+      will: {
+        topic: TOPICS.SYSTEM_STATUS,
+        payload: Buffer.from(JSON.stringify({
+          status: 'offline',
+          reason: 'last_will',
+          simulator: 'csir-iot-simulator',
+          sensors: SENSORS.map(s => s.sensorId)
+        })),
+        qos: 1,
+        retain: false
+      }
     };
 
     console.log(`Connecting to MQTT broker at ${MQTT_BROKER_URL}...`);
@@ -235,9 +380,20 @@ async function connect(): Promise<void> {
         sensors: SENSORS.map(s => s.sensorId)
       }), { qos: 1 });
 
+      client!.subscribe(TOPICS.SENSOR_COMMANDS, { qos: 1 });
+
       resolve();
     });
 
+    client.on('message', (topic, message) => {
+      const sensorId = topic.split('/')[2];
+      try {
+        handleCommand(sensorId, JSON.parse(message.toString()) as SensorCommand);
+      } catch (error) {
+        console.error(`Invalid command on ${topic}:`, error);
+      }
+    });
+
     client.on('error', (error) => {
       console.error('MQTT error:', error);
       reject(error);
@@ -265,13 +421,17 @@ function startSimulation(): void {
   });
   console.log('');
 
-  // Initial data publish
-  SENSORS.forEach(sensor => publishSensorData(sensor));
-
-  // Regular simulation interval
-  setInterval(() => {
-    SENSORS.forEach(sensor => publishSensorData(sensor));
-  }, SIMULATION_INTERVAL);
+  // Initial data publish, then each sensor on its own interval so it can be reconfigured
+  SENSORS.forEach(sensor => {
+    sensorStates.set(sensor.sensorId, {
+      readingInterval: SIMULATION_INTERVAL,
+      timer: null,
+      rebooting: false,
+      drift: {}
+    });
+    publishSensorData(sensor);
+    scheduleSensor(sensor);
+  });
 
   // Weather updates every 30 seconds
   setInterval(() => {
@@ -289,7 +449,8 @@ function shutdown(): void {
     client.publish(TOPICS.SYSTEM_STATUS, JSON.stringify({
       status: 'offline',
       simulator: 'csir-iot-simulator',
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      sensors: SENSORS.map(s => s.sensorId)
     }), { qos: 1 }, () => {
       client!.end(false, {}, () => {
         console.log('MQTT client disconnected');